@@ -0,0 +1,199 @@
+import { AlgorithmJobsService } from '../../apps/algorithms/algorithm-jobs.service';
+import { AlgorithmsService } from '../../apps/algorithms/algorithms.service';
+import { SimpleAssignmentAlgorithm } from '../../apps/algorithms/simple-assignment.algorithm';
+import { AlgorithmResult, AssignmentResult, BulkAssignmentRequest } from '../../apps/algorithms/algorithms.types';
+import { prismaMock } from '../setup';
+
+// The real socket service loads the whole app through the socket config
+const notifyAlgorithmProgress = jest.fn();
+const notifyAlgorithmCompleted = jest.fn();
+jest.mock('../../apps/socket/socket.service', () => ({
+  SocketService: jest.fn().mockImplementation(() => ({ notifyAlgorithmProgress, notifyAlgorithmCompleted }))
+}));
+
+// Just enough of Redis for the job queue
+const store = new Map<string, string>();
+const queue: string[] = [];
+const processing: string[] = [];
+jest.mock('../../config/redis', () => ({
+  redis: {
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    set: jest.fn(async (key: string, value: string) => { store.set(key, value); return 'OK'; }),
+    del: jest.fn(async (key: string) => (store.delete(key) ? 1 : 0)),
+    exists: jest.fn(async (key: string) => (store.has(key) ? 1 : 0)),
+    lpush: jest.fn(async (key: string, value: string) => queue.unshift(value)),
+    rpush: jest.fn(async (key: string, value: string) => queue.push(value)),
+    lmove: jest.fn(async () => {
+      const id = queue.pop();
+      if (id) {
+        processing.unshift(id);
+      }
+      return id ?? null;
+    }),
+    lrange: jest.fn(async () => [...processing]),
+    lrem: jest.fn(async (key: string, count: number, id: string) => {
+      const index = processing.indexOf(id);
+      return index >= 0 ? processing.splice(index, 1).length : 0;
+    })
+  }
+}));
+
+const request: BulkAssignmentRequest = {
+  assignmentDate: '2024-01-15',
+  restaurants: ['R-1', 'R-2'].map(restaurantId => ({
+    restaurantId,
+    city: 'San Francisco',
+    state: 'CA',
+    estimatedDeliveries: 10,
+    pickupTime: '11:30',
+    paymentRate: 100
+  }))
+};
+
+const result: AlgorithmResult = {
+  algorithm: 'simple-assignment',
+  assignmentDate: '2024-01-15',
+  totalRequests: 2,
+  successfulAssignments: 2,
+  failedAssignments: 0,
+  results: [
+    { restaurantId: 'R-1', success: true, driverId: 1 },
+    { restaurantId: 'R-2', success: true, driverId: 2 }
+  ],
+  executionTimeMs: 1,
+  batchId: 'batch-1',
+  runId: 'run-1'
+};
+
+describe('AlgorithmJobsService', () => {
+  let service: AlgorithmJobsService;
+
+  beforeEach(() => {
+    service = new AlgorithmJobsService(prismaMock);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    store.clear();
+    queue.length = 0;
+    processing.length = 0;
+    notifyAlgorithmProgress.mockReset();
+    notifyAlgorithmCompleted.mockReset();
+  });
+
+  it('should queue valid requests and reject bad ones before queueing', async () => {
+    await expect(service.enqueue({ ...request, restaurants: [] }, 'simple', 5)).rejects.toThrow('Invalid request');
+    await expect(service.enqueue(request, 'nope', 5)).rejects.toThrow("Invalid algorithm 'nope'");
+    expect(queue).toEqual([]);
+
+    const job = await service.enqueue(request, 'simple', 5);
+
+    expect(job).toEqual(expect.objectContaining({ status: 'QUEUED', algorithm: 'simple', processed: 0, total: 2, requestedBy: 5 }));
+    expect(queue).toEqual([job.id]);
+    await expect(service.getJob(job.id)).resolves.toEqual(job);
+  });
+
+  it('should record progress and partial results, then the run, sending both to the requester', async () => {
+    const job = await service.enqueue(request, 'simple', 5);
+    const seen: number[] = [];
+    let partial: AssignmentResult[] = [];
+    jest.spyOn(AlgorithmsService.prototype, 'executeAssignment').mockImplementation(async (_request, _algorithm, observer) => {
+      for (const [index, r] of result.results.entries()) {
+        const explanation = { algorithm: 'simple-assignment', candidates: [], rejected: [] } as any;
+        await observer!.onProgress!({ processed: index + 1, total: 2, result: { ...r, explanation } });
+        seen.push((await service.getJob(job.id))!.results.length);
+      }
+      partial = (await service.getJob(job.id))!.results;
+      return result;
+    });
+
+    await expect(service.processNext()).resolves.toBe(true);
+    await expect(service.processNext()).resolves.toBe(false);
+
+    const finished = (await service.getJob(job.id))!;
+    expect(seen).toEqual([1, 2]);
+    // Stored and sent without their explanations
+    expect(partial).toEqual(result.results);
+    expect(finished).toEqual(expect.objectContaining({
+      status: 'COMPLETED',
+      processed: 2,
+      runId: 'run-1',
+      batchId: 'batch-1',
+      successfulAssignments: 2
+    }));
+    expect(notifyAlgorithmProgress).toHaveBeenCalledTimes(2);
+    expect(notifyAlgorithmProgress).toHaveBeenLastCalledWith(5, job.id, { processed: 2, total: 2, result: result.results[1] });
+    expect(notifyAlgorithmCompleted).toHaveBeenCalledWith(5, finished);
+  });
+
+  it('should not show or cancel a job to anyone but the user who queued it', async () => {
+    const job = await service.enqueue(request, 'simple', 5);
+
+    await expect(service.getJob(job.id, 6)).resolves.toBeNull();
+    await expect(service.cancelJob(job.id, 6)).rejects.toThrow('Job not found');
+    await expect(service.getJob(job.id, 5)).resolves.toEqual(expect.objectContaining({ status: 'QUEUED' }));
+    await expect(service.cancelJob(job.id, 5)).resolves.toEqual(expect.objectContaining({ status: 'CANCELLED' }));
+  });
+
+  it('should cancel queued jobs at once and stop running ones before the next restaurant', async () => {
+    const queued = await service.enqueue(request, 'simple', 5);
+    await expect(service.cancelJob(queued.id)).resolves.toEqual(expect.objectContaining({ status: 'CANCELLED' }));
+    await expect(service.cancelJob(queued.id)).rejects.toThrow('Job is already cancelled');
+    const execute = jest.spyOn(AlgorithmsService.prototype, 'executeAssignment');
+    await service.processNext();
+    expect(execute).not.toHaveBeenCalled();
+
+    const running = await service.enqueue({ ...request, dryRun: true }, 'simple', 5);
+    prismaMock.assignmentPlan.create.mockResolvedValue({ id: 'plan-1' } as any);
+    prismaMock.algorithmRun.create.mockResolvedValue({ id: 'run-2' } as any);
+    jest.spyOn(SimpleAssignmentAlgorithm.prototype as any, 'assignSingleDriver').mockImplementation(async () => {
+      await service.cancelJob(running.id);
+      return { restaurantId: 'R-1', success: true, driverId: 1 };
+    });
+    execute.mockRestore();
+
+    await service.processNext();
+
+    const finished = (await service.getJob(running.id))!;
+    expect(finished.status).toBe('CANCELLED');
+    expect(finished.results.map(r => [r.restaurantId, r.success, r.error])).toEqual([
+      ['R-1', true, undefined],
+      ['R-2', false, 'Run cancelled']
+    ]);
+  });
+
+  it('should requeue stale jobs that never started and fail stale running ones', async () => {
+    const [unstarted, running] = [await service.enqueue(request, 'simple', 5), await service.enqueue(request, 'simple', 5)];
+    // Workers took both off the queue and stopped; their heartbeats lapsed
+    queue.length = 0;
+    processing.push(unstarted.id, running.id);
+    store.set(`algorithm-jobs:${running.id}`, JSON.stringify({ ...running, status: 'RUNNING' }));
+
+    // The first sweep leaves time for a worker to start its heartbeat
+    await expect(service.recoverStaleJobs()).resolves.toBe(0);
+    await expect(service.recoverStaleJobs()).resolves.toBe(2);
+
+    expect(processing).toEqual([]);
+    expect(queue).toEqual([unstarted.id]);
+    const failed = (await service.getJob(running.id))!;
+    expect(failed).toEqual(expect.objectContaining({ status: 'FAILED', error: 'Worker stopped while running the job' }));
+    expect(notifyAlgorithmCompleted).toHaveBeenCalledWith(5, failed);
+  });
+
+  it('should keep a job on the processing list with its heartbeat until it finishes', async () => {
+    const job = await service.enqueue(request, 'simple', 5);
+    let during: { processing: string[]; heartbeat: boolean } | undefined;
+    jest.spyOn(AlgorithmsService.prototype, 'executeAssignment').mockImplementation(async () => {
+      during = { processing: [...processing], heartbeat: store.has(`algorithm-jobs:${job.id}:heartbeat`) };
+      await expect(service.recoverStaleJobs()).resolves.toBe(0);
+      await expect(service.recoverStaleJobs()).resolves.toBe(0);
+      return result;
+    });
+
+    await service.processNext();
+
+    expect(during).toEqual({ processing: [job.id], heartbeat: true });
+    expect(processing).toEqual([]);
+    expect(store.has(`algorithm-jobs:${job.id}:heartbeat`)).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { calculateAffinityScore } from '../../apps/algorithms/algorithms.affinity';
+import { SimpleAssignmentAlgorithm } from '../../apps/algorithms/simple-assignment.algorithm';
+import { WeightedScoringAlgorithm } from '../../apps/algorithms/weighted-scoring.algorithm';
+import { AssignmentUtils } from '../../apps/assignments/assignments.utils';
+import { DriverCandidate, RestaurantRequest } from '../../apps/algorithms/algorithms.types';
+import { prismaMock } from '../setup';
+
+const driver = (id: number): DriverCandidate => ({
+  id,
+  name: `Driver ${id}`,
+  email: `driver${id}@example.com`,
+  serviceAreas: [],
+  currentAssignments: 0,
+  recentDeliveries: 0,
+  completionRate: 100
+});
+
+const restaurant: RestaurantRequest = {
+  restaurantId: 'R-3',
+  city: 'San Francisco',
+  state: 'CA',
+  estimatedDeliveries: 10,
+  pickupTime: '11:30',
+  paymentRate: 100
+};
+
+describe('calculateAffinityScore', () => {
+  it('should score drivers without completions at the restaurant as 0', () => {
+    expect(calculateAffinityScore([], '2024-01-15')).toBe(0);
+  });
+
+  it('should decay older completions', () => {
+    const lastWeek = calculateAffinityScore(['2024-01-08'], '2024-01-15');
+    const lastMonth = calculateAffinityScore(['2023-12-16'], '2024-01-15');
+
+    expect(lastWeek).toBeGreaterThan(lastMonth);
+    expect(calculateAffinityScore(['2024-01-14'], '2024-01-15')).toBe(25);
+  });
+
+  it('should cap at 100 and ignore completions on or after the assignment date', () => {
+    expect(calculateAffinityScore(['2024-01-10', '2024-01-11', '2024-01-12', '2024-01-13', '2024-01-14'], '2024-01-15')).toBe(100);
+    expect(calculateAffinityScore(['2024-01-15', '2024-01-16'], '2024-01-15')).toBe(0);
+  });
+});
+
+describe('affinity in assignment algorithms', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should break simple-algorithm ties in favour of the driver who knows the restaurant', async () => {
+    const algorithm = new SimpleAssignmentAlgorithm(prismaMock, { affinityTieBreaker: true });
+    jest.spyOn(AssignmentUtils.prototype, 'getCompletedRestaurantVisits')
+      .mockResolvedValue(new Map([[1, ['2024-01-12']]]));
+
+    const selection = await (algorithm as any).selectDriver([driver(1), driver(2)], restaurant, '2024-01-15');
+
+    expect(selection.driver.id).toBe(1);
+  });
+
+  it('should not load affinity when the tie-breaker is off', async () => {
+    const algorithm = new SimpleAssignmentAlgorithm(prismaMock);
+    const visitsSpy = jest.spyOn(AssignmentUtils.prototype, 'getCompletedRestaurantVisits');
+
+    const selection = await (algorithm as any).selectDriver([driver(1), driver(2)], restaurant, '2024-01-15');
+
+    expect(visitsSpy).not.toHaveBeenCalled();
+    expect(selection.driver.id).toBe(2);
+  });
+
+  it('should show affinity in the detailed scoring breakdown', async () => {
+    const algorithm = new WeightedScoringAlgorithm(prismaMock, {}, {
+      locationWeight: 0.3,
+      proximityWeight: 0.2,
+      performanceWeight: 0.1,
+      workloadWeight: 0.1,
+      vehicleWeight: 0.1,
+      affinityWeight: 0.2
+    });
+    jest.spyOn(algorithm as any, 'getAvailableDriversWithMetrics').mockResolvedValue([driver(1), driver(2)]);
+    jest.spyOn(AssignmentUtils.prototype, 'getCompletedRestaurantVisits')
+      .mockResolvedValue(new Map([[2, ['2024-01-11', '2024-01-12', '2024-01-13', '2024-01-14']]]));
+
+    const scores = await algorithm.getDetailedScoring(restaurant, '2024-01-15');
+
+    expect(scores[0].driverId).toBe(2);
+    expect(scores[0].breakdown.affinityScore).toBeGreaterThan(80);
+    expect(scores[1].breakdown.affinityScore).toBe(0);
+    expect(scores[0].totalScore - scores[1].totalScore).toBeCloseTo(scores[0].breakdown.affinityScore * 0.2, 1);
+  });
+});
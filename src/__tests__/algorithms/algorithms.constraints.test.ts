@@ -0,0 +1,143 @@
+import { applyConstraintRules, ruleFires } from '../../apps/algorithms/algorithms.constraints';
+import { SimpleAssignmentAlgorithm } from '../../apps/algorithms/simple-assignment.algorithm';
+import { AssignmentUtils } from '../../apps/assignments/assignments.utils';
+import {
+  ConstraintFacts,
+  ConstraintRuleDefinition,
+  DriverCandidate
+} from '../../apps/algorithms/algorithms.types';
+import { prismaMock } from '../setup';
+
+const driver = (id: number, completionRate = 100): DriverCandidate => ({
+  id,
+  name: `Driver ${id}`,
+  email: `driver${id}@example.com`,
+  serviceAreas: [],
+  currentAssignments: 0,
+  recentDeliveries: 0,
+  completionRate
+});
+
+const rule = (overrides: Partial<ConstraintRuleDefinition>): ConstraintRuleDefinition => ({
+  id: 'rule-1',
+  name: 'Rule',
+  kind: 'HARD',
+  type: 'DRIVER_RESTAURANT',
+  restaurantId: null,
+  driverId: null,
+  params: {},
+  scoreAdjustment: 0,
+  ...overrides
+});
+
+const facts = (lastServedAt: Array<[number, string]> = []): ConstraintFacts => ({
+  assignmentDate: '2024-01-15',
+  lastServedAt: new Map(lastServedAt)
+});
+
+describe('ruleFires', () => {
+  it('should compare completion rates against the rule minimum', () => {
+    const minRate = rule({ type: 'MIN_COMPLETION_RATE', params: { minRate: 95 } });
+
+    expect(ruleFires(minRate, driver(1, 94.5), facts())).toBe(true);
+    expect(ruleFires(minRate, driver(1, 95), facts())).toBe(false);
+  });
+
+  it('should only count service within the lookback window', () => {
+    const recent = rule({ type: 'SERVED_RESTAURANT_RECENTLY', params: { days: 7 } });
+
+    expect(ruleFires(recent, driver(1), facts([[1, '2024-01-08']]))).toBe(true);
+    expect(ruleFires(recent, driver(1), facts([[1, '2024-01-07']]))).toBe(false);
+    expect(ruleFires(recent, driver(2), facts([[1, '2024-01-14']]))).toBe(false);
+  });
+});
+
+describe('applyConstraintRules', () => {
+  it('should drop drivers excluded by hard rules and report the rule', () => {
+    const never = rule({ id: 'never', name: 'Driver 12 never serves R-88', driverId: 12, restaurantId: 'R-88' });
+
+    const result = applyConstraintRules([never], [driver(12), driver(13)], 'R-88', facts());
+
+    expect(result.drivers.map(d => d.id)).toEqual([13]);
+    expect(result.excluded).toEqual([
+      { ruleId: 'never', name: 'Driver 12 never serves R-88', kind: 'HARD', type: 'DRIVER_RESTAURANT', driverIds: [12] }
+    ]);
+  });
+
+  it('should ignore rules scoped to other restaurants', () => {
+    const never = rule({ driverId: 12, restaurantId: 'R-88' });
+
+    const result = applyConstraintRules([never], [driver(12)], 'R-3', facts());
+
+    expect(result.drivers.map(d => d.id)).toEqual([12]);
+    expect(result.excluded).toEqual([]);
+  });
+
+  it('should add soft rule adjustments to the drivers they fire for', () => {
+    const prefer = rule({ id: 'prefer', kind: 'SOFT', type: 'SERVED_RESTAURANT_RECENTLY', params: { days: 7 }, scoreAdjustment: 15 });
+    const reliable = rule({ id: 'reliable', kind: 'SOFT', type: 'MIN_COMPLETION_RATE', params: { minRate: 90 }, scoreAdjustment: -5 });
+
+    const result = applyConstraintRules([prefer, reliable], [driver(1, 80), driver(2)], 'R-3', facts([[1, '2024-01-10']]));
+
+    expect(result.drivers[0].constraintAdjustment).toBe(10);
+    expect(result.drivers[0].firedRules?.map(fired => fired.ruleId)).toEqual(['prefer', 'reliable']);
+    expect(result.drivers[1].constraintAdjustment).toBeUndefined();
+  });
+});
+
+describe('BaseAssignmentAlgorithm constraint rules', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should skip drivers excluded by hard rules and list the fired rules on the result', async () => {
+    const algorithm = new SimpleAssignmentAlgorithm(prismaMock, { geographicPriorityEnabled: false });
+    const available = [1, 2].map(id => ({
+      ...driver(id),
+      currentAssignments: id === 1 ? 0 : 1,
+      deliveryCapacity: 70,
+      scheduledDeliveries: 0,
+      remainingCapacity: 70,
+      vehicles: []
+    }));
+
+    jest.spyOn(AssignmentUtils.prototype, 'getDriverAvailability').mockResolvedValue({ available, rejected: [] });
+    jest.spyOn(AssignmentUtils.prototype, 'getDriverWorkload').mockResolvedValue({
+      totalAssignments: 0,
+      completedAssignments: 0,
+      averageDeliveries: 0
+    } as any);
+    jest.spyOn(AssignmentUtils.prototype, 'isDriverAvailable').mockResolvedValue({ isValid: true, errors: [] });
+    prismaMock.deliveryRating.findMany.mockResolvedValue([]);
+    prismaMock.constraintRule.findMany.mockResolvedValue([
+      {
+        id: 'no-1',
+        name: 'Driver 1 never serves R-88',
+        description: null,
+        kind: 'HARD',
+        type: 'DRIVER_RESTAURANT',
+        restaurantId: 'R-88',
+        driverId: 1,
+        params: null,
+        scoreAdjustment: null,
+        isActive: true,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }
+    ] as any);
+
+    const result = await algorithm.assignDrivers({
+      assignmentDate: '2024-01-15',
+      dryRun: true,
+      restaurants: [
+        { restaurantId: 'R-88', city: 'San Francisco', state: 'CA', estimatedDeliveries: 10, pickupTime: '11:30', paymentRate: 100 }
+      ]
+    });
+
+    expect(prismaMock.constraintRule.findMany).toHaveBeenCalledWith({ where: { isActive: true }, orderBy: { createdAt: 'asc' } });
+    expect(result.results[0].driverId).toBe(2);
+    expect(result.results[0].firedRules).toEqual([
+      expect.objectContaining({ ruleId: 'no-1', kind: 'HARD', driverIds: [1] })
+    ]);
+  });
+});
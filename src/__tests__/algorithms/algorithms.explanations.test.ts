@@ -0,0 +1,161 @@
+import { buildExplanation, rankCandidates } from '../../apps/algorithms/algorithms.explanations';
+import { SimpleAssignmentAlgorithm } from '../../apps/algorithms/simple-assignment.algorithm';
+import { AlgorithmsService } from '../../apps/algorithms/algorithms.service';
+import { AssignmentsService } from '../../apps/assignments/assignments.service';
+import { AssignmentUtils } from '../../apps/assignments/assignments.utils';
+import { DriverCandidate } from '../../apps/algorithms/algorithms.types';
+import { AvailableDriver } from '../../apps/assignments/assignments.types';
+import { prismaMock } from '../setup';
+
+const candidate = (id: number): DriverCandidate => ({
+  id,
+  name: `Driver ${id}`,
+  email: `driver${id}@example.com`,
+  serviceAreas: [],
+  currentAssignments: 0,
+  recentDeliveries: 0,
+  completionRate: 100
+});
+
+const available = (id: number, city: string, currentAssignments = 0): AvailableDriver => ({
+  id,
+  name: `Driver ${id}`,
+  email: `driver${id}@example.com`,
+  serviceAreas: [{ areaName: city, city, state: 'CA', latitude: 0, longitude: 0, radiusKm: 10 }],
+  vehicles: [],
+  currentAssignments,
+  deliveryCapacity: 70,
+  scheduledDeliveries: 0,
+  remainingCapacity: 70
+});
+
+const restaurant = {
+  restaurantId: 'R-1',
+  city: 'San Francisco',
+  state: 'CA',
+  estimatedDeliveries: 10,
+  pickupTime: '11:30',
+  paymentRate: 100
+};
+
+const mockAvailability = () => {
+  jest.spyOn(AssignmentUtils.prototype, 'getDriverAvailability').mockResolvedValue({
+    available: [available(1, 'San Francisco', 1), available(2, 'San Francisco'), available(3, 'Oakland')],
+    rejected: [{
+      driverId: 4,
+      name: 'Driver 4',
+      reasons: [{ code: 'NOT_SCHEDULED', message: 'Driver is not scheduled to work on this day' }]
+    }]
+  });
+  jest.spyOn(AssignmentUtils.prototype, 'getDriverWorkload').mockResolvedValue({
+    totalAssignments: 0,
+    completedAssignments: 0,
+    averageDeliveries: 0
+  } as any);
+  prismaMock.constraintRule.findMany.mockResolvedValue([]);
+  prismaMock.deliveryRating.findMany.mockResolvedValue([]);
+};
+
+describe('candidate ranking', () => {
+  it('should rank by score and put the selected driver first on ties', () => {
+    const ranked = rankCandidates([
+      { driver: candidate(1), score: 50 },
+      { driver: candidate(2), score: 80 },
+      { driver: candidate(3), score: 80 }
+    ], 3);
+
+    expect(ranked.map(c => [c.rank, c.driverId, c.selected])).toEqual([[1, 3, true], [2, 2, false], [3, 1, false]]);
+  });
+
+  it('should list eligible drivers the algorithm did not score', () => {
+    const explanation = buildExplanation('simple-assignment', [candidate(1), candidate(2)], [{ driver: candidate(1), score: 10 }], [], 1);
+
+    expect(explanation.rejected).toEqual([{
+      driverId: 2,
+      name: 'Driver 2',
+      reasons: [{ code: 'NOT_SCORED', message: 'Left out by the simple-assignment algorithm before scoring' }]
+    }]);
+  });
+});
+
+describe('assignment explanations', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should explain a decision with ranked candidates and the reason each other driver was filtered out', async () => {
+    mockAvailability();
+    jest.spyOn(AssignmentUtils.prototype, 'isDriverAvailable').mockResolvedValue({ isValid: true, errors: [] });
+
+    const result = await new SimpleAssignmentAlgorithm(prismaMock).assignDrivers({
+      assignmentDate: '2024-01-15',
+      dryRun: true,
+      restaurants: [restaurant]
+    });
+
+    const explanation = result.results[0].explanation!;
+    expect(result.results[0].driverId).toBe(2);
+    expect(explanation.candidates).toEqual([
+      { rank: 1, driverId: 2, name: 'Driver 2', score: 100, breakdown: { workloadScore: 100 }, selected: true },
+      { rank: 2, driverId: 1, name: 'Driver 1', score: 0, breakdown: { workloadScore: 0 }, selected: false }
+    ]);
+    expect(explanation.rejected).toEqual([
+      { driverId: 4, name: 'Driver 4', reasons: [{ code: 'NOT_SCHEDULED', message: 'Driver is not scheduled to work on this day' }] },
+      {
+        driverId: 3,
+        name: 'Driver 3',
+        reasons: [{ code: 'OUTSIDE_SERVICE_AREA', message: 'No active service area covers the restaurant in San Francisco, CA' }]
+      }
+    ]);
+  });
+
+  it('should store explanations per assignment and leave them out of the run result', async () => {
+    mockAvailability();
+    jest.spyOn(AssignmentUtils.prototype, 'bulkCreateAssignments').mockResolvedValue({ successful: 1, failed: 0, errors: [] });
+    prismaMock.algorithmRun.create.mockResolvedValue({ id: 'run-1' } as any);
+    prismaMock.restaurantAssignment.findMany.mockResolvedValue([{ id: 'assignment-1', restaurantId: 'R-1', driverId: 2 }] as any);
+
+    const result = await new AlgorithmsService(prismaMock).executeAssignment({
+      assignmentDate: '2024-01-15',
+      restaurants: [restaurant]
+    }, 'simple');
+
+    expect(result.results[0].explanation).toBeUndefined();
+    expect(prismaMock.restaurantAssignment.findMany).toHaveBeenCalledWith({
+      where: { batchId: result.batchId, restaurantId: { in: ['R-1'] } },
+      select: { id: true, restaurantId: true, driverId: true }
+    });
+    expect(prismaMock.assignmentExplanation.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ assignmentId: 'assignment-1', runId: 'run-1', algorithm: 'simple-assignment' })],
+      skipDuplicates: true
+    });
+  });
+
+  it('should return a stored explanation, and 404 messages when there is none', async () => {
+    const service = new AssignmentsService(prismaMock);
+    const createdAt = new Date('2024-01-14T02:00:00Z');
+
+    prismaMock.restaurantAssignment.findUnique.mockResolvedValueOnce(null);
+    await expect(service.getAssignmentExplanation('missing')).rejects.toThrow('Assignment not found');
+
+    prismaMock.restaurantAssignment.findUnique.mockResolvedValueOnce({ id: 'manual', restaurantId: 'R-1', driverId: 2, explanation: null } as any);
+    await expect(service.getAssignmentExplanation('manual')).rejects.toThrow('Explanation not found');
+
+    prismaMock.restaurantAssignment.findUnique.mockResolvedValueOnce({
+      id: 'assignment-1',
+      restaurantId: 'R-1',
+      driverId: 2,
+      explanation: { runId: 'run-1', algorithm: 'simple-assignment', candidates: [], rejected: [], createdAt }
+    } as any);
+    await expect(service.getAssignmentExplanation('assignment-1')).resolves.toEqual({
+      assignmentId: 'assignment-1',
+      restaurantId: 'R-1',
+      driverId: 2,
+      runId: 'run-1',
+      algorithm: 'simple-assignment',
+      candidates: [],
+      rejected: [],
+      createdAt
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { giniCoefficient, median, summarizeDistribution } from '../../apps/algorithms/algorithms.fairness';
+import { FairnessService } from '../../apps/algorithms/fairness.service';
+import { SimpleAssignmentAlgorithm } from '../../apps/algorithms/simple-assignment.algorithm';
+import { DriverCandidate } from '../../apps/algorithms/algorithms.types';
+import { prismaMock } from '../setup';
+
+const driver = (id: number, recentAssignments: number): DriverCandidate => ({
+  id,
+  name: `Driver ${id}`,
+  email: `driver${id}@example.com`,
+  serviceAreas: [],
+  currentAssignments: 0,
+  recentDeliveries: 0,
+  completionRate: 100,
+  recentAssignments
+});
+
+describe('fairness statistics', () => {
+  it('should give 0 for an even split and approach 1 when one driver has everything', () => {
+    expect(giniCoefficient([3, 3, 3])).toBe(0);
+    expect(giniCoefficient([0, 0, 0, 4])).toBeCloseTo(0.75);
+    expect(giniCoefficient([])).toBe(0);
+  });
+
+  it('should take the middle value, averaging the two middle values for even counts', () => {
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 2, 3])).toBe(2.5);
+  });
+
+  it('should report no max/min ratio when a driver got nothing', () => {
+    expect(summarizeDistribution([2, 4, 8]).maxMinRatio).toBe(4);
+    expect(summarizeDistribution([0, 4]).maxMinRatio).toBeNull();
+  });
+});
+
+describe('fairness-constrained assignment', () => {
+  it('should drop drivers who would end up too far above the median workload', () => {
+    const algorithm = new SimpleAssignmentAlgorithm(prismaMock, { maxAssignmentsAboveMedian: 2 });
+
+    const eligible = (algorithm as any).applyFairnessCap([driver(1, 2), driver(2, 3), driver(3, 4), driver(4, 9)]);
+
+    expect(eligible.map((d: DriverCandidate) => d.id)).toEqual([1, 2, 3]);
+  });
+
+  it('should leave candidates alone when no cap is configured', () => {
+    const algorithm = new SimpleAssignmentAlgorithm(prismaMock);
+
+    const eligible = (algorithm as any).applyFairnessCap([driver(1, 0), driver(2, 20)]);
+
+    expect(eligible).toHaveLength(2);
+  });
+});
+
+describe('FairnessService', () => {
+  it('should count idle active drivers and segment totals by city', async () => {
+    const service = new FairnessService(prismaMock);
+    prismaMock.user.findMany.mockResolvedValue([
+      { id: 1, name: 'Driver 1', serviceAreas: [{ city: 'San Francisco', state: 'CA' }] },
+      { id: 2, name: 'Driver 2', serviceAreas: [{ city: 'san francisco', state: 'ca' }] },
+      { id: 3, name: 'Driver 3', serviceAreas: [{ city: 'Oakland', state: 'CA' }] }
+    ] as any);
+    prismaMock.restaurantAssignment.findMany.mockResolvedValue([
+      { driverId: 1, estimatedDeliveries: 10, actualDeliveries: 8, restaurantCity: 'San Francisco', restaurantState: 'CA' },
+      { driverId: 1, estimatedDeliveries: 10, actualDeliveries: null, restaurantCity: 'San Francisco', restaurantState: 'CA' },
+      { driverId: 3, estimatedDeliveries: 6, actualDeliveries: 6, restaurantCity: 'Oakland', restaurantState: 'CA' }
+    ] as any);
+    prismaMock.driverEarning.findMany.mockResolvedValue([
+      { driverId: 1, amount: 120, assignment: { restaurantCity: 'San Francisco', restaurantState: 'CA' } },
+      { driverId: 3, amount: 60, assignment: { restaurantCity: 'Oakland', restaurantState: 'CA' } }
+    ] as any);
+
+    const report = await service.getFairnessReport('2024-01-01', '2024-01-31');
+
+    expect(report.overall.driverCount).toBe(3);
+    expect(report.overall.assignments).toEqual(expect.objectContaining({ total: 3, min: 0, max: 2, maxMinRatio: null }));
+    expect(report.overall.deliveries.total).toBe(24);
+
+    const sanFrancisco = report.cities.find(city => city.city === 'San Francisco')!;
+    expect(sanFrancisco.driverCount).toBe(2);
+    expect(sanFrancisco.assignments.gini).toBe(0.5);
+    expect(sanFrancisco.earnings.total).toBe(120);
+    expect(report.cities.find(city => city.city === 'Oakland')!.assignments.gini).toBe(0);
+  });
+});
@@ -0,0 +1,50 @@
+import { haversineDistanceKm, matchServiceArea } from '../../apps/algorithms/algorithms.geo';
+import { DriverCandidate } from '../../apps/algorithms/algorithms.types';
+
+const oakland = { areaName: 'Oakland', city: 'Oakland', state: 'CA', latitude: 37.8044, longitude: -122.2712, radiusKm: 30 };
+const sanJose = { areaName: 'San Jose', city: 'San Jose', state: 'CA', latitude: 37.3382, longitude: -121.8863, radiusKm: 10 };
+const mission = { areaName: 'Mission', city: 'San Francisco', state: 'CA', latitude: 37.7599, longitude: -122.4148, radiusKm: 5 };
+
+const sanFrancisco = { city: 'San Francisco', state: 'CA', latitude: 37.7749, longitude: -122.4194 };
+
+describe('haversineDistanceKm', () => {
+  it('should measure great-circle distance in kilometers', () => {
+    expect(haversineDistanceKm(37.8044, -122.2712, 37.7749, -122.4194)).toBeCloseTo(13.4, 0);
+    expect(haversineDistanceKm(37.7749, -122.4194, 37.7749, -122.4194)).toBe(0);
+  });
+});
+
+describe('matchServiceArea', () => {
+  it('should match an area in another city when the restaurant is within its radius', () => {
+    const match = matchServiceArea([oakland, sanJose], sanFrancisco);
+
+    expect(match).toMatchObject({ areaName: 'Oakland', matchedBy: 'radius' });
+    expect(match!.distanceKm).toBeCloseTo(13.4, 0);
+  });
+
+  it('should prefer the closest covering area', () => {
+    expect(matchServiceArea([oakland, mission], sanFrancisco)?.areaName).toBe('Mission');
+  });
+
+  it('should ignore city names when coordinates are known', () => {
+    const typo = { ...sanFrancisco, city: 'San Fransisco' };
+
+    expect(matchServiceArea([mission], typo)?.areaName).toBe('Mission');
+    expect(matchServiceArea([sanJose], sanFrancisco)).toBeNull();
+  });
+
+  it('should fall back to city and state when the restaurant has no coordinates', () => {
+    const areas: DriverCandidate['serviceAreas'] = [{ ...mission, radiusKm: 15 }, { ...mission, areaName: 'SoMa', radiusKm: 8 }];
+    const match = matchServiceArea(areas, { city: ' san francisco', state: 'ca' });
+
+    expect(match).toEqual({
+      areaName: 'SoMa',
+      city: 'San Francisco',
+      state: 'CA',
+      radiusKm: 8,
+      distanceKm: null,
+      matchedBy: 'city'
+    });
+    expect(matchServiceArea([oakland], { city: 'San Francisco', state: 'CA' })).toBeNull();
+  });
+});
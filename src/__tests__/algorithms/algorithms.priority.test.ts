@@ -0,0 +1,165 @@
+import { orderByPriority } from '../../apps/algorithms/algorithms.priority';
+import { SimpleAssignmentAlgorithm } from '../../apps/algorithms/simple-assignment.algorithm';
+import { AssignmentRunContext, DriverCandidate, RestaurantRequest } from '../../apps/algorithms/algorithms.types';
+import { prismaMock } from '../setup';
+
+const createDriver = (id: number): DriverCandidate => ({
+  id,
+  name: `Driver ${id}`,
+  email: `driver${id}@example.com`,
+  serviceAreas: [],
+  currentAssignments: 0,
+  recentDeliveries: 20,
+  completionRate: 100
+});
+
+const createRestaurant = (restaurantId: string, priority?: number): RestaurantRequest => ({
+  restaurantId,
+  city: 'San Francisco',
+  state: 'CA',
+  estimatedDeliveries: 20,
+  pickupTime: '11:30',
+  paymentRate: 150,
+  priority
+});
+
+// Lower-priority assignment held by driver 7
+const victim = {
+  id: 'assignment-low',
+  driverId: 7,
+  restaurantId: 'r-low',
+  assignmentDate: new Date('2024-01-15'),
+  pickupTime: new Date('1970-01-01T12:00:00.000Z'),
+  estimatedDeliveries: 15,
+  paymentRate: 120,
+  paymentType: 'FIXED',
+  priority: 1,
+  restaurantCity: 'San Francisco',
+  restaurantState: 'CA',
+  restaurantLatitude: null,
+  restaurantLongitude: null
+};
+
+describe('orderByPriority', () => {
+  it('should put higher priorities first and keep request order among equals', () => {
+    const ordered = orderByPriority([
+      createRestaurant('a'),
+      createRestaurant('b', 3),
+      createRestaurant('c', 1),
+      createRestaurant('d', 3)
+    ]);
+
+    expect(ordered.map(r => r.restaurantId)).toEqual(['b', 'd', 'c', 'a']);
+  });
+});
+
+describe('priority-aware assignment', () => {
+  let algorithm: SimpleAssignmentAlgorithm;
+  let utils: any;
+
+  const setUp = (config = {}) => {
+    algorithm = new SimpleAssignmentAlgorithm(prismaMock, config);
+    utils = (algorithm as any).assignmentUtils;
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should assign restaurants highest priority first and record the priority', async () => {
+    setUp();
+    jest.spyOn(algorithm as any, 'getAvailableDriversWithMetrics').mockResolvedValue([createDriver(1)]);
+    const bulkSpy = jest.spyOn(utils, 'bulkCreateAssignments').mockResolvedValue({ successful: 1, failed: 0, errors: [] });
+
+    const result = await algorithm.assignDrivers({
+      assignmentDate: '2024-01-15',
+      restaurants: [createRestaurant('r-1', 1), createRestaurant('r-2', 5), createRestaurant('r-3')]
+    });
+
+    const written = bulkSpy.mock.calls.map(call => (call[0] as Array<{ restaurantId: string; priority?: number }>)[0]);
+    expect(written.map(a => a.restaurantId)).toEqual(['r-2', 'r-1', 'r-3']);
+    expect(written[0].priority).toBe(5);
+    expect(result.results.map(r => r.restaurantId)).toEqual(['r-2', 'r-1', 'r-3']);
+  });
+
+  it('should not look for assignments to preempt unless preemption is enabled', async () => {
+    setUp();
+    jest.spyOn(algorithm as any, 'getAvailableDriversWithMetrics').mockResolvedValue([]);
+    const preemptibleSpy = jest.spyOn(utils, 'getPreemptibleAssignments');
+
+    const result = await algorithm.assignDrivers({
+      assignmentDate: '2024-01-15',
+      restaurants: [createRestaurant('r-high', 5)]
+    });
+
+    expect(preemptibleSpy).not.toHaveBeenCalled();
+    expect(result.results[0].success).toBe(false);
+  });
+
+  it('should take the driver of a lower-priority assignment and re-place it with another driver', async () => {
+    setUp({ preemptionEnabled: true });
+    // Driver 7 is only free once the victim is released; driver 8 can take the victim's restaurant
+    jest.spyOn(algorithm as any, 'getAvailableDriversWithMetrics')
+      .mockImplementation(async (...args: unknown[]) => {
+        const request = args[1] as RestaurantRequest;
+        const context = args[2] as AssignmentRunContext;
+        if (request.restaurantId === 'r-low') {
+          return [createDriver(7), createDriver(8)];
+        }
+        return context.releasedAssignmentIds.includes('assignment-low') ? [createDriver(7)] : [];
+      });
+    jest.spyOn(utils, 'getPreemptibleAssignments').mockResolvedValue([victim]);
+    const preemptSpy = jest.spyOn(utils, 'preemptAssignment').mockResolvedValue({ assignmentId: 'assignment-high', preempted: victim });
+    const bulkSpy = jest.spyOn(utils, 'bulkCreateAssignments').mockResolvedValue({ successful: 1, failed: 0, errors: [] });
+
+    const result = await algorithm.assignDrivers({
+      assignmentDate: '2024-01-15',
+      restaurants: [createRestaurant('r-high', 5)]
+    });
+
+    expect(preemptSpy).toHaveBeenCalledWith('assignment-low', expect.objectContaining({ driverId: 7, restaurantId: 'r-high' }));
+    expect(bulkSpy).toHaveBeenCalledWith([expect.objectContaining({ driverId: 8, restaurantId: 'r-low', priority: 1 })]);
+    expect(result.results[0]).toMatchObject({
+      restaurantId: 'r-high',
+      success: true,
+      driverId: 7,
+      preemption: {
+        assignmentId: 'assignment-low',
+        restaurantId: 'r-low',
+        priority: 1,
+        driverId: 7,
+        replacement: { success: true, driverId: 8 }
+      }
+    });
+  });
+
+  it('should release the preempted assignment in the plan instead of cancelling it in a dry run', async () => {
+    setUp({ preemptionEnabled: true });
+    jest.spyOn(algorithm as any, 'getAvailableDriversWithMetrics')
+      .mockImplementation(async (...args: unknown[]) =>
+        (args[2] as AssignmentRunContext).releasedAssignmentIds.includes('assignment-low') &&
+        (args[1] as RestaurantRequest).restaurantId === 'r-high'
+          ? [createDriver(7)]
+          : []
+      );
+    jest.spyOn(utils, 'getPreemptibleAssignments').mockResolvedValue([victim]);
+    const availableSpy = jest.spyOn(utils, 'isDriverAvailable').mockResolvedValue({ isValid: true, errors: [] });
+    const preemptSpy = jest.spyOn(utils, 'preemptAssignment');
+
+    const result = await algorithm.assignDrivers({
+      assignmentDate: '2024-01-15',
+      dryRun: true,
+      restaurants: [createRestaurant('r-high', 5)]
+    });
+
+    expect(preemptSpy).not.toHaveBeenCalled();
+    expect(availableSpy).toHaveBeenCalledWith(7, '2024-01-15', 'r-high', expect.any(Object), ['assignment-low']);
+    expect(result.results[0].preemption).toEqual({
+      assignmentId: 'assignment-low',
+      restaurantId: 'r-low',
+      priority: 1,
+      driverId: 7,
+      replacement: { success: false, error: 'No available drivers found' }
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { AlgorithmRegistry, createDefaultRegistry } from '../../apps/algorithms/algorithms.registry';
+import { AlgorithmsService } from '../../apps/algorithms/algorithms.service';
+import { BaseAssignmentAlgorithm } from '../../apps/algorithms/algorithms.base';
+import { AlgorithmResult, BulkAssignmentRequest, DriverCandidate } from '../../apps/algorithms/algorithms.types';
+import { prismaMock } from '../setup';
+
+// Plugin that picks the first candidate and reports the config it was built with
+class FirstAvailableAlgorithm extends BaseAssignmentAlgorithm {
+  getName(): string {
+    return 'first-available';
+  }
+
+  protected async selectDriver(availableDrivers: DriverCandidate[]) {
+    return availableDrivers[0] ? { driver: availableDrivers[0] } : null;
+  }
+
+  async assignDrivers(request: BulkAssignmentRequest): Promise<AlgorithmResult> {
+    return {
+      algorithm: this.getName(),
+      assignmentDate: request.assignmentDate,
+      results: [],
+      totalRequests: request.restaurants.length,
+      successfulAssignments: 0,
+      failedAssignments: request.restaurants.length,
+      executionTimeMs: this.config.tieBreaker === 'random' ? 1 : 0
+    };
+  }
+}
+
+const createRegistry = (): AlgorithmRegistry => createDefaultRegistry().register({
+  name: 'first-available',
+  description: 'Takes the first available driver',
+  configSchema: {
+    tieBreaker: {
+      type: 'string',
+      description: 'How to order equally good drivers',
+      enum: ['id', 'random'],
+      default: 'id'
+    }
+  },
+  create: (prisma, config) => new FirstAvailableAlgorithm(prisma, config)
+});
+
+const request: BulkAssignmentRequest = {
+  assignmentDate: '2024-01-15',
+  restaurants: [
+    { restaurantId: 'sf', city: 'San Francisco', state: 'CA', estimatedDeliveries: 20, pickupTime: '11:30', paymentRate: 150 }
+  ]
+};
+
+describe('AlgorithmRegistry', () => {
+  it('should list built-in and custom algorithms with their config schemas', () => {
+    const registry = createRegistry();
+    const custom = registry.list().find(algorithm => algorithm.name === 'first-available');
+
+    expect(registry.names()).toEqual([
+      'simple', 'geographic', 'workload-balancing', 'weighted-scoring', 'optimal-matching', 'first-available'
+    ]);
+    expect(custom?.configSchema).toEqual(expect.objectContaining({
+      maxAssignmentsPerDriver: expect.objectContaining({ type: 'integer' }),
+      tieBreaker: expect.objectContaining({ enum: ['id', 'random'] })
+    }));
+  });
+
+  it('should reject duplicate and malformed names', () => {
+    const registry = createRegistry();
+    const definition = { ...registry.get('simple')! };
+
+    expect(() => registry.register(definition)).toThrow("Algorithm 'simple' is already registered");
+    expect(() => registry.register({ ...definition, name: 'My Algorithm' })).toThrow('Invalid algorithm name');
+  });
+
+  it('should validate config against the algorithm schema', () => {
+    const registry = createRegistry();
+
+    expect(registry.validateConfig('first-available', { tieBreaker: 'random', lookbackDays: 14 })).toEqual([]);
+    expect(registry.validateConfig('first-available', {
+      tieBreaker: 'newest',
+      maxAssignmentsPerDriver: 1.5,
+      lookbackDays: 365,
+      colour: 'blue'
+    })).toEqual([
+      'tieBreaker must be one of id, random',
+      'maxAssignmentsPerDriver must be an integer',
+      'lookbackDays must be at most 90',
+      'colour is not a supported option'
+    ]);
+    expect(registry.validateConfig('simple', { tieBreaker: 'id' })).toEqual(['tieBreaker is not a supported option']);
+  });
+});
+
+describe('AlgorithmsService with a custom algorithm', () => {
+  let service: AlgorithmsService;
+
+  beforeEach(() => {
+    service = new AlgorithmsService(prismaMock, { registry: createRegistry() });
+    prismaMock.algorithmRun.create.mockResolvedValue({ id: 'run-1' } as any);
+  });
+
+  it('should run a registered plugin with per-request config', async () => {
+    const result = await service.executeAssignment({ ...request, config: { tieBreaker: 'random' } }, 'first-available');
+
+    expect(result.algorithm).toBe('first-available');
+    expect(result.executionTimeMs).toBe(1);
+    expect(prismaMock.algorithmRun.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        config: expect.objectContaining({ tieBreaker: 'random', maxAssignmentsPerDriver: 3 })
+      })
+    });
+  });
+
+  it('should reject unknown algorithms and invalid config before running', async () => {
+    await expect(service.executeAssignment(request, 'fastest'))
+      .rejects.toThrow("Invalid algorithm 'fastest'");
+    await expect(service.executeAssignment({ ...request, config: { tieBreaker: 'newest' } }, 'first-available'))
+      .rejects.toThrow("Invalid config for algorithm 'first-available': tieBreaker must be one of id, random");
+    await expect(service.compareAlgorithms(request, ['simple', 'fastest']))
+      .rejects.toThrow("Invalid algorithm 'fastest'");
+    expect(prismaMock.algorithmRun.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+import { ReplayService } from '../../apps/algorithms/replay.service';
+import { createDefaultRegistry } from '../../apps/algorithms/algorithms.registry';
+import { calculateCompletionRates, scoreReplayOutcome } from '../../apps/algorithms/algorithms.replay';
+import { ReplaySnapshot } from '../../apps/algorithms/algorithms.types';
+import { prismaMock } from '../setup';
+
+const time = (hhmm: string) => new Date(`1970-01-01T${hhmm}:00Z`);
+
+const dbDriver = (id: number, latitude: number) => ({
+  id,
+  name: `Driver ${id}`,
+  email: `driver${id}@example.com`,
+  serviceAreas: [{ areaName: 'SF', city: 'San Francisco', state: 'CA', latitude, longitude: -122.4194, radiusKm: 25 }],
+  schedules: [{ startTime: time('08:00'), endTime: time('20:00'), maxDeliveries: 70 }],
+  availabilityBlocks: [],
+  vehicles: [{ id, type: 'CAR', capacity: 40, verified: true }]
+});
+
+const dayAssignment = (restaurantId: string, driverId: number, status: string, overrides: Record<string, unknown> = {}) => ({
+  restaurantId,
+  driverId,
+  status,
+  assignmentDate: new Date('2024-01-15'),
+  pickupTime: time('11:30'),
+  estimatedDeliveries: 10,
+  actualDeliveries: null,
+  paymentRate: 100,
+  paymentType: 'FIXED',
+  restaurantCity: 'San Francisco',
+  restaurantState: 'CA',
+  restaurantLatitude: 37.7749,
+  restaurantLongitude: -122.4194,
+  ...overrides
+});
+
+describe('scoreReplayOutcome', () => {
+  const snapshot: ReplaySnapshot = {
+    date: '2024-01-15',
+    drivers: [dbDriver(1, 37.7749), dbDriver(2, 37.8749), dbDriver(3, 37.7749)] as any,
+    requests: [
+      { restaurantId: 'R-1', city: 'San Francisco', state: 'CA', latitude: 37.7749, longitude: -122.4194, estimatedDeliveries: 10, pickupTime: '11:30', paymentRate: 100 },
+      { restaurantId: 'R-2', city: 'San Francisco', state: 'CA', estimatedDeliveries: 20, pickupTime: '12:00', paymentRate: 100 }
+    ],
+    skippedRequests: [],
+    actualAssignments: [],
+    history: [
+      { driverId: 1, restaurantId: 'R-1', assignmentDate: '2024-01-10', status: 'COMPLETED', deliveries: 10 },
+      { driverId: 1, restaurantId: 'R-1', assignmentDate: '2024-01-11', status: 'CANCELLED', deliveries: 10 },
+      { driverId: 2, restaurantId: 'R-1', assignmentDate: '2024-01-12', status: 'COMPLETED', deliveries: 10 },
+      { driverId: 2, restaurantId: 'R-1', assignmentDate: '2024-01-14', status: 'PENDING', deliveries: 10 }
+    ],
+    ratings: [],
+    constraintRules: []
+  };
+
+  it('should predict completion from finished history, falling back to the fleet rate', () => {
+    const rates = calculateCompletionRates(snapshot);
+
+    expect(rates.byDriver.get(1)).toBe(50);
+    expect(rates.byDriver.get(2)).toBe(100);
+    expect(rates.fleetRate).toBeCloseTo(66.67, 1);
+
+    const outcome = scoreReplayOutcome(snapshot, [{ restaurantId: 'R-1', driverId: 1 }, { restaurantId: 'R-2', driverId: 3 }], rates);
+
+    expect(outcome.completion.predictedRate).toBeCloseTo(58.33, 1);
+  });
+
+  it('should score coverage, distance and fairness over the drivers on shift', () => {
+    const outcome = scoreReplayOutcome(snapshot, [{ restaurantId: 'R-1', driverId: 2 }], calculateCompletionRates(snapshot));
+
+    expect(outcome.coverage).toEqual({ requests: 2, assigned: 1, rate: 0.5 });
+    expect(outcome.distance.measured).toBe(1);
+    expect(outcome.distance.averageKm).toBeCloseTo(11.1, 0);
+    expect(outcome.fairness.drivers).toBe(3);
+    expect(outcome.fairness.assignments.maxMinRatio).toBeNull();
+  });
+});
+
+describe('ReplayService', () => {
+  it('should replay the day in memory and report it next to the actual assignments', async () => {
+    const service = new ReplayService(prismaMock, createDefaultRegistry());
+    prismaMock.user.findMany.mockResolvedValue([dbDriver(1, 37.7749), dbDriver(2, 37.7749)] as any);
+    prismaMock.restaurantAssignment.findMany
+      .mockResolvedValueOnce([
+        dayAssignment('R-1', 1, 'COMPLETED'),
+        dayAssignment('R-2', 1, 'COMPLETED', { pickupTime: time('14:00') }),
+        dayAssignment('R-3', 2, 'PENDING', { restaurantCity: null, restaurantState: null })
+      ] as any)
+      .mockResolvedValueOnce([
+        { driverId: 1, restaurantId: 'R-1', assignmentDate: new Date('2024-01-12'), status: 'COMPLETED', estimatedDeliveries: 10, actualDeliveries: 9 }
+      ] as any);
+    prismaMock.deliveryRating.findMany.mockResolvedValue([]);
+    prismaMock.constraintRule.findMany.mockResolvedValue([]);
+
+    const report = await service.replayDay('2024-01-15', ['simple']);
+
+    expect(report.snapshot).toEqual(expect.objectContaining({
+      drivers: 2,
+      requests: 2,
+      skippedRequests: [{ restaurantId: 'R-3', reason: 'No restaurant location recorded' }]
+    }));
+    expect(report.actual!.coverage.assigned).toBe(2);
+    expect(report.actual!.completion.observedRate).toBe(100);
+    expect(report.actual!.fairness.assignments.gini).toBe(0.5);
+
+    const simple = report.algorithms[0];
+    expect(simple.algorithm).toBe('simple');
+    expect(simple.outcome.coverage.rate).toBe(1);
+    // Simple assignment spreads the day over both drivers
+    expect(simple.outcome.fairness.assignments.gini).toBe(0);
+    expect(prismaMock.restaurantAssignment.create).not.toHaveBeenCalled();
+    expect(prismaMock.restaurantAssignment.findFirst).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,221 @@
+import { AlgorithmsService } from '../../apps/algorithms/algorithms.service';
+import { WeightedScoringAlgorithm } from '../../apps/algorithms/weighted-scoring.algorithm';
+import { AssignmentUtils } from '../../apps/assignments/assignments.utils';
+import { AlgorithmResult, BulkAssignmentRequest } from '../../apps/algorithms/algorithms.types';
+import { prismaMock } from '../setup';
+
+const request: BulkAssignmentRequest = {
+  assignmentDate: '2024-01-15',
+  dryRun: true,
+  restaurants: [
+    { restaurantId: 'sf', city: 'San Francisco', state: 'CA', estimatedDeliveries: 20, pickupTime: '11:30', paymentRate: 150 },
+    { restaurantId: 'oakland', city: 'Oakland', state: 'CA', estimatedDeliveries: 10, pickupTime: '12:00', paymentRate: 90 }
+  ]
+};
+
+const proposedResult: AlgorithmResult = {
+  algorithm: 'weighted-scoring',
+  assignmentDate: '2024-01-15',
+  totalRequests: 2,
+  successfulAssignments: 1,
+  failedAssignments: 1,
+  averageScore: 80,
+  executionTimeMs: 12,
+  dryRun: true,
+  results: [
+    { restaurantId: 'sf', success: true, driverId: 7, score: 80 },
+    { restaurantId: 'oakland', success: false, error: 'No available drivers found' }
+  ]
+};
+
+const createPlan = (status: 'PREVIEW' | 'COMMITTED' = 'PREVIEW') => ({
+  id: 'plan-1',
+  algorithm: 'weighted-scoring',
+  assignmentDate: new Date('2024-01-15'),
+  request: request as any,
+  result: proposedResult as any,
+  status,
+  committedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('AlgorithmsService plans', () => {
+  let service: AlgorithmsService;
+
+  beforeEach(() => {
+    service = new AlgorithmsService(prismaMock);
+    prismaMock.weightProfile.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should store dry-run results as a plan', async () => {
+    jest.spyOn(WeightedScoringAlgorithm.prototype, 'assignDrivers').mockResolvedValue({ ...proposedResult });
+    prismaMock.assignmentPlan.create.mockResolvedValue(createPlan() as any);
+    prismaMock.algorithmRun.create.mockResolvedValue({ id: 'run-1' } as any);
+
+    const result = await service.executeAssignment(request, 'weighted-scoring');
+
+    expect(result.planId).toBe('plan-1');
+    expect(prismaMock.assignmentPlan.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ algorithm: 'weighted-scoring', request, result: expect.any(Object) })
+    });
+  });
+
+  it('should commit only the successful proposals of a plan, marking it committed after writing them', async () => {
+    prismaMock.assignmentPlan.findUnique.mockResolvedValue(createPlan() as any);
+    prismaMock.$transaction.mockImplementation(async (callback: any) => callback(prismaMock));
+    prismaMock.assignmentPlan.updateMany.mockResolvedValue({ count: 1 });
+    const bulkCreateSpy = jest.spyOn(AssignmentUtils.prototype, 'bulkCreateAssignments')
+      .mockResolvedValue({ successful: 1, failed: 0, errors: [] });
+
+    const result = await service.commitPlan('plan-1');
+
+    expect(prismaMock.assignmentPlan.updateMany).toHaveBeenCalledWith({
+      where: { id: 'plan-1', status: 'PREVIEW' },
+      data: { status: 'COMMITTED', committedAt: expect.any(Date) }
+    });
+    expect(bulkCreateSpy).toHaveBeenCalledTimes(1);
+    expect(bulkCreateSpy).toHaveBeenCalledWith([
+      expect.objectContaining({ driverId: 7, restaurantId: 'sf', assignmentDate: '2024-01-15', algorithmScore: 80 })
+    ], prismaMock);
+    expect(bulkCreateSpy.mock.invocationCallOrder[0])
+      .toBeLessThan(prismaMock.assignmentPlan.updateMany.mock.invocationCallOrder[0]);
+    expect(result.committedAssignments).toBe(1);
+    expect(result.failedAssignments).toBe(1);
+  });
+
+  it('should roll a proposal that fails back to its savepoint and commit the rest', async () => {
+    prismaMock.assignmentPlan.findUnique.mockResolvedValue(createPlan() as any);
+    prismaMock.$transaction.mockImplementation(async (callback: any) => callback(prismaMock));
+    prismaMock.assignmentPlan.updateMany.mockResolvedValue({ count: 1 });
+    jest.spyOn(AssignmentUtils.prototype, 'bulkCreateAssignments')
+      .mockResolvedValue({ successful: 0, failed: 1, errors: [{ assignment: {} as any, error: 'Driver is not available' }] });
+
+    const result = await service.commitPlan('plan-1');
+
+    expect(prismaMock.$executeRawUnsafe.mock.calls.map(([sql]) => sql)).toEqual([
+      'SAVEPOINT plan_write',
+      'ROLLBACK TO SAVEPOINT plan_write',
+      'RELEASE SAVEPOINT plan_write'
+    ]);
+    expect(prismaMock.assignmentPlan.updateMany).toHaveBeenCalledTimes(1);
+    expect(result.committedAssignments).toBe(0);
+    expect(result.results[0].error).toBe('Driver is not available');
+  });
+
+  it('should write an atomic plan all-or-nothing and leave it in preview when it cannot be', async () => {
+    const atomicRequest = { ...request, atomic: true };
+    const fullResult = {
+      ...proposedResult,
+      results: [proposedResult.results[0], { restaurantId: 'oakland', success: true, driverId: 8, score: 70 }]
+    };
+    prismaMock.assignmentPlan.findUnique.mockResolvedValue({ ...createPlan(), request: atomicRequest, result: fullResult } as any);
+    prismaMock.$transaction.mockImplementation(async (callback: any) => callback(prismaMock));
+    prismaMock.assignmentPlan.updateMany.mockResolvedValue({ count: 1 });
+    const atomicSpy = jest.spyOn(AssignmentUtils.prototype, 'createAssignmentsAtomically')
+      .mockResolvedValueOnce(['a-1', 'a-2'])
+      .mockRejectedValueOnce(new Error('Atomic assignment failed: oakland (driver 8): Driver is not available'));
+    const bulkCreateSpy = jest.spyOn(AssignmentUtils.prototype, 'bulkCreateAssignments');
+
+    const committed = await service.commitPlan('plan-1');
+
+    expect(atomicSpy).toHaveBeenCalledWith([
+      expect.objectContaining({ driverId: 7, restaurantId: 'sf' }),
+      expect.objectContaining({ driverId: 8, restaurantId: 'oakland' })
+    ], undefined, [], prismaMock);
+    expect(bulkCreateSpy).not.toHaveBeenCalled();
+    expect(prismaMock.assignmentPlan.updateMany).toHaveBeenCalledTimes(1);
+    expect(committed.committedAssignments).toBe(2);
+
+    const rolledBack = await service.commitPlan('plan-1');
+
+    expect(prismaMock.assignmentPlan.updateMany).toHaveBeenCalledTimes(1);
+    expect(rolledBack.committedAssignments).toBe(0);
+    expect(rolledBack.results.map(r => r.error)).toEqual([
+      'Atomic assignment failed: oakland (driver 8): Driver is not available',
+      'Atomic assignment failed: oakland (driver 8): Driver is not available'
+    ]);
+  });
+
+  it('should refuse to commit a plan twice', async () => {
+    prismaMock.assignmentPlan.findUnique.mockResolvedValueOnce(createPlan('COMMITTED') as any);
+
+    await expect(service.commitPlan('plan-1')).rejects.toThrow('Plan has already been committed');
+
+    // A concurrent commit marked it first: this one's rows roll back
+    prismaMock.assignmentPlan.findUnique.mockResolvedValueOnce(createPlan() as any);
+    prismaMock.$transaction.mockImplementation(async (callback: any) => callback(prismaMock));
+    prismaMock.assignmentPlan.updateMany.mockResolvedValue({ count: 0 });
+    jest.spyOn(AssignmentUtils.prototype, 'bulkCreateAssignments').mockResolvedValue({ successful: 1, failed: 0, errors: [] });
+
+    await expect(service.commitPlan('plan-1')).rejects.toThrow('Plan has already been committed');
+  });
+});
+
+describe('AlgorithmsService run history', () => {
+  let service: AlgorithmsService;
+
+  beforeEach(() => {
+    service = new AlgorithmsService(prismaMock);
+    prismaMock.weightProfile.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should persist every run with its config, weights and request hash', async () => {
+    jest.spyOn(WeightedScoringAlgorithm.prototype, 'assignDrivers')
+      .mockResolvedValue({ ...proposedResult, dryRun: undefined, batchId: 'batch-1' });
+    prismaMock.algorithmRun.create.mockResolvedValue({ id: 'run-1' } as any);
+
+    const liveRequest = { ...request, dryRun: false };
+    const result = await service.executeAssignment(liveRequest, 'weighted-scoring');
+    const again = await service.executeAssignment(liveRequest, 'weighted-scoring');
+
+    expect(result.runId).toBe('run-1');
+    expect(again.runId).toBe('run-1');
+
+    const [first, second] = prismaMock.algorithmRun.create.mock.calls.map(([args]) => args.data);
+    expect(first).toEqual(expect.objectContaining({
+      algorithm: 'weighted-scoring',
+      config: expect.objectContaining({ maxAssignmentsPerDriver: 3 }),
+      weights: expect.objectContaining({ locationWeight: expect.any(Number) }),
+      requestHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+      results: proposedResult.results,
+      successfulAssignments: 1,
+      dryRun: false,
+      batchId: 'batch-1'
+    }));
+    expect(second.requestHash).toBe(first.requestHash);
+  });
+
+  it('should aggregate metrics per algorithm over a date window', async () => {
+    prismaMock.algorithmRun.groupBy.mockResolvedValue([
+      {
+        algorithm: 'simple',
+        _count: { _all: 4 },
+        _avg: { executionTimeMs: 120.4, averageScore: 71.256 },
+        _sum: { totalRequests: 40, successfulAssignments: 30 }
+      }
+    ] as any);
+
+    const metrics = await service.getAlgorithmMetrics({ startDate: '2024-01-01', endDate: '2024-01-31' });
+
+    expect(metrics).toEqual([
+      { algorithm: 'simple', totalRuns: 4, averageExecutionTime: 120, successRate: 0.75, averageScore: 71.26 }
+    ]);
+    expect(prismaMock.algorithmRun.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        createdAt: {
+          gte: new Date('2024-01-01'),
+          lt: new Date('2024-02-01')
+        }
+      }
+    }));
+  });
+});
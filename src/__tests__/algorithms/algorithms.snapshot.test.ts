@@ -0,0 +1,120 @@
+import { SimpleAssignmentAlgorithm } from '../../apps/algorithms/simple-assignment.algorithm';
+import {
+  AssignmentUtils,
+  recordSnapshotAssignment,
+  releaseSnapshotAssignment
+} from '../../apps/assignments/assignments.utils';
+import { DaySnapshot } from '../../apps/assignments/assignments.types';
+import { prismaMock } from '../setup';
+
+const time = (hhmm: string) => new Date(`1970-01-01T${hhmm}:00.000Z`);
+
+const dbDriver = (id: number, restaurantAssignments: Array<{ id: string; restaurantId: string; estimatedDeliveries: number }> = []) => ({
+  id,
+  name: `Driver ${id}`,
+  email: `driver${id}@example.com`,
+  serviceAreas: [{ areaName: 'SF', city: 'San Francisco', state: 'CA', latitude: 37.7749, longitude: -122.4194, radiusKm: 25 }],
+  schedules: [{ startTime: time('08:00'), endTime: time('20:00'), maxDeliveries: 30 }],
+  availabilityBlocks: [],
+  vehicles: [{ id, type: 'CAR', capacity: 40, verified: true }],
+  restaurantAssignments
+});
+
+const historyRow = (id: string, driverId: number, date: string, status: string) => ({
+  id,
+  driverId,
+  restaurantId: 'R-9',
+  assignmentDate: new Date(date),
+  status,
+  estimatedDeliveries: 10,
+  actualDeliveries: status === 'COMPLETED' ? 12 : null
+});
+
+const restaurant = (restaurantId: string) => ({
+  restaurantId,
+  city: 'San Francisco',
+  state: 'CA',
+  estimatedDeliveries: 20,
+  pickupTime: '11:30',
+  paymentRate: 100
+});
+
+describe('day snapshots', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should load drivers and history once per run and see its own assignments without reading them back', async () => {
+    const algorithm = new SimpleAssignmentAlgorithm(prismaMock);
+    prismaMock.user.findMany.mockResolvedValue([dbDriver(1), dbDriver(2)] as any);
+    prismaMock.restaurantAssignment.findMany.mockResolvedValue([historyRow('h-1', 2, '2024-01-12', 'COMPLETED')] as any);
+    prismaMock.deliveryRating.findMany.mockResolvedValue([]);
+    prismaMock.constraintRule.findMany.mockResolvedValue([]);
+    const bulkSpy = jest.spyOn(AssignmentUtils.prototype, 'bulkCreateAssignments')
+      .mockResolvedValue({ successful: 1, failed: 0, errors: [] });
+
+    const result = await algorithm.assignDrivers({
+      assignmentDate: '2024-01-15',
+      restaurants: [restaurant('R-1'), restaurant('R-2'), restaurant('R-3')]
+    });
+
+    expect(prismaMock.user.findMany).toHaveBeenCalledTimes(1);
+    expect(prismaMock.restaurantAssignment.findMany).toHaveBeenCalledTimes(1);
+    expect(prismaMock.deliveryRating.findMany).toHaveBeenCalledTimes(1);
+    expect(prismaMock.restaurantAssignment.findMany.mock.calls[0][0]?.where).toEqual(expect.objectContaining({
+      assignmentDate: { gte: new Date('2024-01-08'), lte: new Date('2024-01-15') }
+    }));
+    expect(bulkSpy).toHaveBeenCalledTimes(2);
+    // 30 deliveries a day each: after 20, neither driver has room for another 20
+    expect(result.results.map(r => [r.restaurantId, r.driverId ?? r.error])).toEqual([
+      ['R-1', 2],
+      ['R-2', 1],
+      ['R-3', 'No available drivers found']
+    ]);
+    expect(result.phaseTimings).toEqual({
+      snapshotMs: expect.any(Number),
+      candidatesMs: expect.any(Number),
+      selectionMs: expect.any(Number),
+      writeMs: expect.any(Number)
+    });
+  });
+
+  it('should read workload from the snapshot within its lookback and the database outside it', async () => {
+    const utils = new AssignmentUtils(prismaMock);
+    const snapshot: DaySnapshot = { assignmentDate: '2024-01-15', lookbackStart: '2024-01-08' };
+    prismaMock.user.findMany.mockResolvedValue([dbDriver(1, [{ id: 'a-1', restaurantId: 'R-9', estimatedDeliveries: 10 }])] as any);
+    prismaMock.restaurantAssignment.findMany
+      .mockResolvedValueOnce([
+        historyRow('h-1', 1, '2024-01-10', 'COMPLETED'),
+        historyRow('h-2', 1, '2024-01-12', 'CANCELLED'),
+        historyRow('a-1', 1, '2024-01-15', 'PENDING')
+      ] as any)
+      .mockResolvedValueOnce([]);
+
+    const [workload] = await Promise.all([
+      utils.getDriverWorkload(1, '2024-01-08', '2024-01-15', snapshot),
+      utils.getDriverWorkload(2, '2024-01-08', '2024-01-15', snapshot)
+    ]);
+
+    expect(workload).toEqual(expect.objectContaining({ totalAssignments: 3, pendingAssignments: 1, completedAssignments: 1 }));
+    expect(workload.averageDeliveries).toBeCloseTo(32 / 3);
+    expect(prismaMock.restaurantAssignment.findMany).toHaveBeenCalledTimes(1);
+
+    await utils.getDriverWorkload(1, '2024-01-01', '2024-01-15', snapshot);
+    expect(prismaMock.restaurantAssignment.findMany).toHaveBeenCalledTimes(2);
+
+    const window = { pickupTime: '11:30', estimatedDeliveries: 20 };
+    const before = await utils.getDriverAvailability('2024-01-15', window, [], snapshot);
+    expect(before.available.map(d => [d.id, d.currentAssignments, d.remainingCapacity])).toEqual([[1, 1, 20]]);
+
+    recordSnapshotAssignment(snapshot, { id: 'a-2', driverId: 1, restaurantId: 'R-1', assignmentDate: '2024-01-15', estimatedDeliveries: 15 });
+    const full = await utils.getDriverAvailability('2024-01-15', window, [], snapshot);
+    expect(full.rejected.map(d => d.reasons[0].code)).toEqual(['CAPACITY_EXCEEDED']);
+
+    releaseSnapshotAssignment(snapshot, 'a-1');
+    const after = await utils.getDriverAvailability('2024-01-15', { ...window, estimatedDeliveries: 15 }, [], snapshot);
+    expect(after.available.map(d => [d.id, d.currentAssignments, d.remainingCapacity])).toEqual([[1, 1, 15]]);
+    expect(prismaMock.user.findMany).toHaveBeenCalledTimes(1);
+    expect((await utils.getDriverWorkload(1, '2024-01-08', '2024-01-15', snapshot)).totalAssignments).toBe(4);
+  });
+});
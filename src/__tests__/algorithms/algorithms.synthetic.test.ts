@@ -0,0 +1,83 @@
+import { generateSyntheticScenario } from '../../apps/algorithms/algorithms.synthetic';
+import { haversineDistanceKm } from '../../apps/algorithms/algorithms.geo';
+import { SyntheticDatasetsService } from '../../apps/algorithms/synthetic-datasets.service';
+import { SyntheticDatasetOptions } from '../../apps/algorithms/algorithms.types';
+import { prismaMock } from '../setup';
+
+const options: SyntheticDatasetOptions = {
+  seed: 42,
+  drivers: 20,
+  restaurants: 30,
+  center: { latitude: 37.7749, longitude: -122.4194, city: 'San Francisco', state: 'CA' },
+  radiusKm: 10,
+  assignmentDate: '2024-06-03'
+};
+
+describe('generateSyntheticScenario', () => {
+  it('should generate the same scenario for the same seed', () => {
+    expect(generateSyntheticScenario(options)).toEqual(generateSyntheticScenario(options));
+    expect(generateSyntheticScenario({ ...options, seed: 43 })).not.toEqual(generateSyntheticScenario(options));
+  });
+
+  it('should place restaurants and service areas within the radius of the center', () => {
+    const scenario = generateSyntheticScenario(options);
+    const distanceFromCenter = (point: { latitude?: number; longitude?: number }) =>
+      haversineDistanceKm(options.center.latitude, options.center.longitude, point.latitude!, point.longitude!);
+
+    expect(scenario.drivers).toHaveLength(20);
+    expect(scenario.requests).toHaveLength(30);
+    scenario.requests.forEach(request => expect(distanceFromCenter(request)).toBeLessThanOrEqual(10.01));
+    scenario.drivers.forEach(driver => {
+      driver.serviceAreas.forEach(area => expect(distanceFromCenter(area)).toBeLessThanOrEqual(10.01));
+    });
+  });
+});
+
+describe('SyntheticDatasetsService', () => {
+  it('should reject options outside the limits', async () => {
+    const service = new SyntheticDatasetsService(prismaMock);
+
+    await expect(service.createDataset({ ...options, drivers: 0 })).rejects.toThrow('Invalid dataset: drivers');
+    await expect(service.createDataset({ ...options, seed: 1.5 })).rejects.toThrow('Invalid dataset: seed');
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should write every driver into the dataset', async () => {
+    const service = new SyntheticDatasetsService(prismaMock);
+    prismaMock.$transaction.mockImplementation(async (callback: any) => callback(prismaMock));
+    prismaMock.syntheticDataset.create.mockResolvedValue({
+      id: 'ds-1',
+      name: null,
+      seed: 42,
+      assignmentDate: new Date('2024-06-03'),
+      params: options,
+      requests: generateSyntheticScenario(options).requests,
+      driverCount: 20,
+      createdAt: new Date()
+    } as any);
+
+    const dataset = await service.createDataset(options);
+
+    expect(dataset.requestCount).toBe(30);
+    expect(prismaMock.user.create).toHaveBeenCalledTimes(20);
+    expect(prismaMock.user.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        email: 'driver-ds-1-1@synthetic.invalid',
+        syntheticDatasetId: 'ds-1',
+        driverStatus: 'ACTIVE'
+      })
+    });
+  });
+
+  it('should remove vehicles before the dataset when tearing down', async () => {
+    const service = new SyntheticDatasetsService(prismaMock);
+    prismaMock.$transaction.mockImplementation(async (callback: any) => callback(prismaMock));
+    prismaMock.syntheticDataset.findUnique.mockResolvedValue({ driverCount: 20 } as any);
+
+    const result = await service.deleteDataset('ds-1');
+
+    expect(result.deletedDrivers).toBe(20);
+    expect(prismaMock.vehicle.deleteMany).toHaveBeenCalledWith({ where: { driver: { syntheticDatasetId: 'ds-1' } } });
+    expect(prismaMock.syntheticDataset.delete).toHaveBeenCalledWith({ where: { id: 'ds-1' } });
+  });
+});
@@ -0,0 +1,62 @@
+import { matchVehicle, scoreVehicleFit } from '../../apps/algorithms/algorithms.vehicles';
+import { DriverCandidate, RestaurantRequest } from '../../apps/algorithms/algorithms.types';
+
+const vehicle = (id: number, type: any, capacity: number | null, verified = true) => ({ id, type, capacity, verified });
+
+const car = vehicle(1, 'CAR', 30);
+const van = vehicle(2, 'VAN', 80);
+const bike = vehicle(3, 'BICYCLE', null);
+
+const driver = (vehicles?: DriverCandidate['vehicles']): DriverCandidate => ({
+  id: 1,
+  name: 'Driver',
+  email: 'driver@example.com',
+  serviceAreas: [],
+  currentAssignments: 0,
+  recentDeliveries: 0,
+  completionRate: 100,
+  vehicles
+});
+
+const restaurant = (vehicleRequirements?: RestaurantRequest['vehicleRequirements']): RestaurantRequest => ({
+  restaurantId: 'r1',
+  city: 'San Francisco',
+  state: 'CA',
+  estimatedDeliveries: 20,
+  pickupTime: '11:30',
+  paymentRate: 100,
+  vehicleRequirements
+});
+
+describe('matchVehicle', () => {
+  it('should pick the smallest verified vehicle that meets the minimum capacity', () => {
+    expect(matchVehicle([van, car, bike], { minCapacity: 25 })).toBe(car);
+    expect(matchVehicle([van, car], { minCapacity: 50 })).toBe(van);
+    expect(matchVehicle([car, bike], { minCapacity: 50 })).toBeNull();
+  });
+
+  it('should only accept the requested vehicle types', () => {
+    expect(matchVehicle([car, van, bike], { types: ['VAN', 'TRUCK'] })).toBe(van);
+    expect(matchVehicle([car, bike], { types: ['VAN'] })).toBeNull();
+  });
+
+  it('should ignore unverified vehicles', () => {
+    expect(matchVehicle([vehicle(4, 'VAN', 100, false)])).toBeNull();
+    expect(matchVehicle([vehicle(4, 'VAN', 100, false), bike])).toBe(bike);
+  });
+});
+
+describe('scoreVehicleFit', () => {
+  it('should prefer snug fits over oversized vehicles', () => {
+    const request = restaurant({ minCapacity: 30 });
+
+    expect(scoreVehicleFit(driver([car]), request)).toBe(100);
+    expect(scoreVehicleFit(driver([van]), request)).toBe(75);
+    expect(scoreVehicleFit(driver([bike]), request)).toBe(0);
+  });
+
+  it('should give a neutral score when vehicles are unknown', () => {
+    expect(scoreVehicleFit(driver(), restaurant({ minCapacity: 30 }))).toBe(50);
+    expect(scoreVehicleFit(driver([bike]), restaurant())).toBe(100);
+  });
+});
@@ -0,0 +1,106 @@
+import { datesBetween, validateWeeklyPlanRequest } from '../../apps/algorithms/algorithms.weekly';
+import { AlgorithmsService } from '../../apps/algorithms/algorithms.service';
+import { SimpleAssignmentAlgorithm } from '../../apps/algorithms/simple-assignment.algorithm';
+import { AssignmentUtils } from '../../apps/assignments/assignments.utils';
+import { DriverCandidate, RestaurantRequest } from '../../apps/algorithms/algorithms.types';
+import { prismaMock } from '../setup';
+
+const createDriver = (id: number): DriverCandidate => ({
+  id,
+  name: `Driver ${id}`,
+  email: `driver${id}@example.com`,
+  serviceAreas: [],
+  currentAssignments: 0,
+  recentDeliveries: 20,
+  completionRate: 100
+});
+
+const createRestaurant = (restaurantId: string): RestaurantRequest => ({
+  restaurantId,
+  city: 'San Francisco',
+  state: 'CA',
+  estimatedDeliveries: 20,
+  pickupTime: '11:30',
+  paymentRate: 150
+});
+
+describe('weekly plan requests', () => {
+  it('should list every date in the range, inclusive', () => {
+    expect(datesBetween('2024-01-30', '2024-02-02')).toEqual(['2024-01-30', '2024-01-31', '2024-02-01', '2024-02-02']);
+  });
+
+  it('should reject reversed or overlong ranges and days outside the range', () => {
+    const days = { '2024-01-15': [createRestaurant('r-1')] };
+
+    expect(() => validateWeeklyPlanRequest({ startDate: '2024-01-16', endDate: '2024-01-15', days }))
+      .toThrow('endDate must not be before startDate');
+    expect(() => validateWeeklyPlanRequest({ startDate: '2024-01-01', endDate: '2024-01-31', days }))
+      .toThrow('at most 14 days');
+    expect(() => validateWeeklyPlanRequest({ startDate: '2024-01-16', endDate: '2024-01-20', days }))
+      .toThrow('Invalid days. 2024-01-15 outside 2024-01-16 to 2024-01-20');
+    expect(() => validateWeeklyPlanRequest({ startDate: '2024-01-15', endDate: '2024-01-21', days, limits: { maxAssignments: 0 } }))
+      .toThrow('Invalid limits');
+  });
+});
+
+describe('planning period load limits', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should stop giving a driver work once the run reaches their limit', async () => {
+    const algorithm = new SimpleAssignmentAlgorithm(prismaMock)
+      .useLoadLimits({ maxAssignments: 2 }, new Map([[1, { assignments: 1, deliveries: 20 }]]));
+    jest.spyOn(algorithm as any, 'getAvailableDriversWithMetrics').mockResolvedValue([createDriver(1)]);
+    jest.spyOn((algorithm as any).assignmentUtils, 'bulkCreateAssignments')
+      .mockResolvedValue({ successful: 1, failed: 0, errors: [] });
+
+    const result = await algorithm.assignDrivers({
+      assignmentDate: '2024-01-15',
+      restaurants: [createRestaurant('r-1'), createRestaurant('r-2')]
+    });
+
+    expect(result.results[0].success).toBe(true);
+    expect(result.results[1]).toMatchObject({
+      success: false,
+      error: 'Driver has reached their load limit for the planning period'
+    });
+  });
+
+  it('should plan each day with the load from earlier days and report weekly totals', async () => {
+    const service = new AlgorithmsService(prismaMock);
+    jest.spyOn(AssignmentUtils.prototype, 'getDriverLoad')
+      .mockResolvedValue(new Map([[1, { assignments: 1, deliveries: 15 }]]));
+    jest.spyOn(AssignmentUtils.prototype, 'isDriverAvailable').mockResolvedValue({ isValid: true, errors: [] });
+    jest.spyOn(SimpleAssignmentAlgorithm.prototype as any, 'getAvailableDriversWithMetrics')
+      .mockResolvedValue([createDriver(1)]);
+    prismaMock.assignmentPlan.create.mockResolvedValue({ id: 'plan-1' } as any);
+    prismaMock.algorithmRun.create.mockResolvedValue({ id: 'run-1' } as any);
+
+    const result = await service.planWeek({
+      startDate: '2024-01-15',
+      endDate: '2024-01-21',
+      dryRun: true,
+      limits: { maxAssignments: 2 },
+      days: {
+        '2024-01-15': [createRestaurant('r-1')],
+        '2024-01-17': [createRestaurant('r-2')]
+      }
+    }, 'simple');
+
+    expect(result.days.map(day => day.assignmentDate)).toEqual(['2024-01-15', '2024-01-17']);
+    expect(result.days.every(day => day.planId === 'plan-1')).toBe(true);
+    expect(result.days[1].results[0].success).toBe(false);
+    expect(result.successfulAssignments).toBe(1);
+    expect(result.drivers).toEqual([{
+      driverId: 1,
+      existingAssignments: 1,
+      existingDeliveries: 15,
+      plannedAssignments: 1,
+      plannedDeliveries: 20,
+      totalAssignments: 2,
+      totalDeliveries: 35,
+      dates: ['2024-01-15']
+    }]);
+  });
+});
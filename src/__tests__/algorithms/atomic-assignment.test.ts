@@ -0,0 +1,91 @@
+import { SimpleAssignmentAlgorithm } from '../../apps/algorithms/simple-assignment.algorithm';
+import { DriverCandidate, RestaurantRequest } from '../../apps/algorithms/algorithms.types';
+import { prismaMock } from '../setup';
+
+const createDriver = (id: number): DriverCandidate => ({
+  id,
+  name: `Driver ${id}`,
+  email: `driver${id}@example.com`,
+  serviceAreas: [],
+  currentAssignments: 0,
+  recentDeliveries: 20,
+  completionRate: 100
+});
+
+const createRestaurant = (restaurantId: string, pickupTime = '11:30'): RestaurantRequest => ({
+  restaurantId,
+  city: 'San Francisco',
+  state: 'CA',
+  estimatedDeliveries: 20,
+  pickupTime,
+  paymentRate: 150
+});
+
+describe('Atomic assignment runs', () => {
+  let algorithm: SimpleAssignmentAlgorithm;
+  let utils: any;
+  let availableDrivers: DriverCandidate[];
+
+  beforeEach(() => {
+    algorithm = new SimpleAssignmentAlgorithm(prismaMock);
+    utils = (algorithm as any).assignmentUtils;
+    availableDrivers = [createDriver(1), createDriver(2)];
+
+    jest.spyOn(algorithm as any, 'getAvailableDriversWithMetrics')
+      .mockImplementation(async () => availableDrivers);
+    jest.spyOn(utils, 'isDriverAvailable').mockResolvedValue({ isValid: true, errors: [] });
+  });
+
+  it('should write every assignment in one transaction tagged with the run batch id', async () => {
+    const atomicSpy = jest.spyOn(utils, 'createAssignmentsAtomically').mockResolvedValue(['a-1', 'a-2']);
+    const bulkSpy = jest.spyOn(utils, 'bulkCreateAssignments');
+
+    const result = await algorithm.assignDrivers({
+      assignmentDate: '2024-01-15',
+      atomic: true,
+      restaurants: [createRestaurant('r-1'), createRestaurant('r-2', '14:00')]
+    });
+
+    expect(result.successfulAssignments).toBe(2);
+    expect(result.batchId).toEqual(expect.any(String));
+    expect(bulkSpy).not.toHaveBeenCalled();
+    expect(atomicSpy).toHaveBeenCalledTimes(1);
+
+    const [written] = atomicSpy.mock.calls[0] as [Array<{ batchId?: string; restaurantId: string }>];
+    expect(written.map(a => a.restaurantId)).toEqual(['r-1', 'r-2']);
+    expect(written.every(a => a.batchId === result.batchId)).toBe(true);
+  });
+
+  it('should write nothing when any restaurant cannot be assigned', async () => {
+    const atomicSpy = jest.spyOn(utils, 'createAssignmentsAtomically');
+    jest.spyOn(algorithm as any, 'getAvailableDriversWithMetrics')
+      .mockImplementation(async (...args: unknown[]) =>
+        (args[1] as RestaurantRequest).restaurantId === 'r-2' ? [] : availableDrivers
+      );
+
+    const result = await algorithm.assignDrivers({
+      assignmentDate: '2024-01-15',
+      atomic: true,
+      restaurants: [createRestaurant('r-1'), createRestaurant('r-2', '14:00')]
+    });
+
+    expect(atomicSpy).not.toHaveBeenCalled();
+    expect(result.successfulAssignments).toBe(0);
+    expect(result.results[0].error).toBe('Atomic run aborted: 1 restaurant(s) could not be assigned');
+  });
+
+  it('should report every assignment as failed when the transaction rolls back', async () => {
+    jest.spyOn(utils, 'createAssignmentsAtomically')
+      .mockRejectedValue(new Error('Atomic assignment failed: r-2 (driver 2): Driver is not available on this date'));
+
+    const result = await algorithm.assignDrivers({
+      assignmentDate: '2024-01-15',
+      atomic: true,
+      restaurants: [createRestaurant('r-1'), createRestaurant('r-2', '14:00')]
+    });
+
+    expect(result.successfulAssignments).toBe(0);
+    expect(result.failedAssignments).toBe(2);
+    expect(result.results.every(r => r.reason === 'Rolled back with the rest of the atomic run')).toBe(true);
+  });
+});
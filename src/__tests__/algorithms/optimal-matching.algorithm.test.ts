@@ -0,0 +1,186 @@
+import { OptimalMatchingAlgorithm } from '../../apps/algorithms/optimal-matching.algorithm';
+import { solveMinCostAssignment } from '../../apps/algorithms/algorithms.matching';
+import { DriverCandidate, RestaurantRequest } from '../../apps/algorithms/algorithms.types';
+import { prismaMock } from '../setup';
+
+const createDriver = (overrides: Partial<DriverCandidate> = {}): DriverCandidate => ({
+  id: 1,
+  name: 'Driver',
+  email: 'driver@example.com',
+  serviceAreas: [],
+  currentAssignments: 0,
+  recentDeliveries: 20,
+  completionRate: 100,
+  ...overrides
+});
+
+const createRestaurant = (overrides: Partial<RestaurantRequest> = {}): RestaurantRequest => ({
+  restaurantId: 'restaurant-1',
+  city: 'San Francisco',
+  state: 'CA',
+  estimatedDeliveries: 20,
+  pickupTime: '11:30',
+  paymentRate: 150,
+  ...overrides
+});
+
+describe('solveMinCostAssignment', () => {
+  it('should find the minimum total cost assignment', () => {
+    const costs = [
+      [4, 1, 3],
+      [2, 0, 5],
+      [3, 2, 2]
+    ];
+
+    expect(solveMinCostAssignment(costs)).toEqual([1, 0, 2]);
+  });
+
+  it('should support more columns than rows', () => {
+    const costs = [
+      [9, 2, 7, 1],
+      [6, 4, 3, 8]
+    ];
+
+    expect(solveMinCostAssignment(costs)).toEqual([3, 2]);
+  });
+
+  it('should return an empty assignment for an empty matrix', () => {
+    expect(solveMinCostAssignment([])).toEqual([]);
+  });
+
+  it('should reject matrices with more rows than columns', () => {
+    expect(() => solveMinCostAssignment([[1], [2]]))
+      .toThrow('Cost matrix must have at least as many columns as rows');
+  });
+});
+
+describe('OptimalMatchingAlgorithm', () => {
+  const sanFrancisco = { areaName: 'SF', city: 'San Francisco', state: 'CA', latitude: 37.7749, longitude: -122.4194 };
+  const oakland = { areaName: 'Oakland', city: 'Oakland', state: 'CA', latitude: 37.8044, longitude: -122.2712 };
+
+  // Driver 1 is the best match for the SF restaurant but the only match for Oakland
+  const versatileDriver = createDriver({
+    id: 1,
+    serviceAreas: [{ ...sanFrancisco, radiusKm: 5 }, { ...oakland, radiusKm: 5 }]
+  });
+  const localDriver = createDriver({
+    id: 2,
+    serviceAreas: [{ ...sanFrancisco, radiusKm: 40 }]
+  });
+
+  let algorithm: OptimalMatchingAlgorithm;
+  let createAssignmentSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    algorithm = new OptimalMatchingAlgorithm(prismaMock, { maxAssignmentsPerDriver: 1 });
+
+    jest.spyOn(algorithm as any, 'getAvailableDriversWithMetrics')
+      .mockImplementation(async (...args: unknown[]) => {
+        const request = args[1] as RestaurantRequest;
+        if (request.city === 'Nowhere') {
+          return [];
+        }
+        return request.city === 'Oakland' ? [versatileDriver] : [versatileDriver, localDriver];
+      });
+
+    createAssignmentSpy = jest.spyOn(algorithm as any, 'createAssignment')
+      .mockImplementation(async (...args: unknown[]) => {
+        const request = args[0] as RestaurantRequest;
+        const driver = args[2] as DriverCandidate;
+        return { restaurantId: request.restaurantId, success: true, driverId: driver.id, score: args[3] as number };
+      });
+  });
+
+  it('should leave the scarce driver for the restaurant that depends on them', async () => {
+    const result = await algorithm.assignDrivers({
+      assignmentDate: '2024-01-15',
+      restaurants: [
+        createRestaurant({ restaurantId: 'sf', latitude: 37.7749, longitude: -122.4194 }),
+        createRestaurant({ restaurantId: 'oakland', city: 'Oakland', latitude: 37.8044, longitude: -122.2712 })
+      ]
+    });
+
+    expect(result.algorithm).toBe('optimal-matching');
+    expect(result.successfulAssignments).toBe(2);
+    expect(result.results.map(r => [r.restaurantId, r.driverId])).toEqual([
+      ['sf', 2],
+      ['oakland', 1]
+    ]);
+  });
+
+  it('should report restaurants left without a driver slot', async () => {
+    const result = await algorithm.assignDrivers({
+      assignmentDate: '2024-01-15',
+      restaurants: [
+        createRestaurant({ restaurantId: 'sf-1' }),
+        createRestaurant({ restaurantId: 'sf-2' }),
+        createRestaurant({ restaurantId: 'sf-3' })
+      ]
+    });
+
+    expect(result.successfulAssignments).toBe(2);
+    expect(result.failedAssignments).toBe(1);
+    expect(result.results.find(r => !r.success)?.error).toBe('No suitable driver found');
+    expect(createAssignmentSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report progress for every restaurant, including those without candidates', async () => {
+    const onProgress = jest.fn();
+
+    await algorithm.assignDrivers({
+      assignmentDate: '2024-01-15',
+      restaurants: [
+        createRestaurant({ restaurantId: 'sf' }),
+        createRestaurant({ restaurantId: 'nowhere', city: 'Nowhere' })
+      ]
+    }, { onProgress });
+
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { processed: 1, total: 2 },
+      { processed: 2, total: 2 }
+    ]);
+  });
+
+  it('should match a restaurant again when its driver already has an overlapping pickup', async () => {
+    algorithm = new OptimalMatchingAlgorithm(prismaMock, { maxAssignmentsPerDriver: 2 });
+    jest.spyOn(algorithm as any, 'getAvailableDriversWithMetrics').mockResolvedValue([versatileDriver, localDriver]);
+    // Driver 1 is by far the better match for both, so the matching gives them both
+    jest.spyOn(algorithm as any, 'calculateWeightedScore').mockImplementation(async (...args: unknown[]) => {
+      const driver = args[0] as DriverCandidate;
+      const totalScore = driver.id === 1 ? 95 : 50;
+      return {
+        driverId: driver.id,
+        totalScore,
+        breakdown: { locationScore: totalScore, proximityScore: 0, performanceScore: 0, workloadScore: 0, vehicleScore: 0, affinityScore: 0 }
+      };
+    });
+    const pickups = new Map<number, string>();
+    const create = jest.spyOn(algorithm as any, 'createAssignment').mockImplementation(async (...args: unknown[]) => {
+      const request = args[0] as RestaurantRequest;
+      const driver = args[2] as DriverCandidate;
+      const earlier = pickups.get(driver.id);
+      if (earlier) {
+        return {
+          restaurantId: request.restaurantId,
+          success: false,
+          driverId: driver.id,
+          error: `Driver's 11:30 pickup at ${earlier} runs until 13:00; earliest pickup here is 13:03, not 11:30`
+        };
+      }
+      pickups.set(driver.id, request.restaurantId);
+      return { restaurantId: request.restaurantId, success: true, driverId: driver.id, score: args[3] as number };
+    });
+
+    const result = await algorithm.assignDrivers({
+      assignmentDate: '2024-01-15',
+      restaurants: [createRestaurant({ restaurantId: 'a' }), createRestaurant({ restaurantId: 'b' })]
+    });
+
+    expect(result.successfulAssignments).toBe(2);
+    expect(result.results.map(r => [r.restaurantId, r.driverId])).toEqual([
+      ['a', 1],
+      ['b', 2]
+    ]);
+    expect(create).toHaveBeenCalledTimes(3);
+  });
+});
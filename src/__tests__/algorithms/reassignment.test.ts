@@ -0,0 +1,253 @@
+import { ReassignmentService } from '../../apps/algorithms/reassignment.service';
+import { AlgorithmsService } from '../../apps/algorithms/algorithms.service';
+import { AlgorithmResult } from '../../apps/algorithms/algorithms.types';
+import { prismaMock } from '../setup';
+
+// The real socket service loads the whole app through the socket config
+const notifyAssignmentReassigned = jest.fn();
+const notifyNewAssignment = jest.fn();
+const notifyDispatchReassignmentNeeded = jest.fn();
+jest.mock('../../apps/socket/socket.service', () => ({
+  SocketService: jest.fn().mockImplementation(() => ({
+    notifyAssignmentReassigned,
+    notifyNewAssignment,
+    notifyDispatchReassignmentNeeded
+  }))
+}));
+
+// Just enough of Redis for the reassignment queue
+const store = new Map<string, string>();
+const queue: string[] = [];
+const processing: string[] = [];
+jest.mock('../../config/redis', () => ({
+  redis: {
+    set: jest.fn(async (key: string, value: string) => { store.set(key, value); return 'OK'; }),
+    del: jest.fn(async (key: string) => (store.delete(key) ? 1 : 0)),
+    exists: jest.fn(async (key: string) => (store.has(key) ? 1 : 0)),
+    lpush: jest.fn(async (key: string, value: string) => queue.unshift(value)),
+    rpush: jest.fn(async (key: string, value: string) => queue.push(value)),
+    lmove: jest.fn(async () => {
+      const entry = queue.pop();
+      if (entry) {
+        processing.unshift(entry);
+      }
+      return entry ?? null;
+    }),
+    lrange: jest.fn(async () => [...processing]),
+    lrem: jest.fn(async (key: string, count: number, entry: string) => {
+      const index = processing.indexOf(entry);
+      return index >= 0 ? processing.splice(index, 1).length : 0;
+    })
+  }
+}));
+
+const time = (hhmm: string) => new Date(`1970-01-01T${hhmm}:00.000Z`);
+
+const createAssignment = (id: string, pickupTime: string, overrides: Record<string, any> = {}) => ({
+  id,
+  driverId: 7,
+  restaurantId: `restaurant-${id}`,
+  assignmentDate: new Date('2024-01-15'),
+  pickupTime: time(pickupTime),
+  estimatedDeliveries: 20,
+  status: 'PENDING',
+  paymentType: 'FIXED',
+  paymentRate: 150,
+  priority: 0,
+  restaurantCity: 'San Francisco',
+  restaurantState: 'CA',
+  restaurantLatitude: null,
+  restaurantLongitude: null,
+  ...overrides
+});
+
+const block = {
+  id: 'block-1',
+  driverId: 7,
+  blockedDate: new Date('2024-01-15'),
+  isFullDay: false,
+  startTime: time('13:00'),
+  endTime: time('17:00'),
+  reason: 'Dentist',
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+const resultFor = (restaurantId: string, driverId?: number): AlgorithmResult => ({
+  algorithm: 'geographic-assignment',
+  assignmentDate: '2024-01-15',
+  totalRequests: 1,
+  successfulAssignments: driverId ? 1 : 0,
+  failedAssignments: driverId ? 0 : 1,
+  results: [driverId
+    ? { restaurantId, success: true, driverId }
+    : { restaurantId, success: false, error: 'No available drivers' }],
+  executionTimeMs: 1,
+  batchId: 'batch-1',
+  runId: 'run-1'
+});
+
+describe('ReassignmentService', () => {
+  let service: ReassignmentService;
+
+  beforeEach(() => {
+    service = new ReassignmentService(prismaMock);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.REASSIGNMENT_MODE;
+    store.clear();
+    queue.length = 0;
+    processing.length = 0;
+    [notifyAssignmentReassigned, notifyNewAssignment, notifyDispatchReassignmentNeeded].forEach(fn => fn.mockReset());
+  });
+
+  it('should move assignments overlapping a partial block with the restaurant algorithm and notify both drivers', async () => {
+    prismaMock.restaurantAssignment.findMany.mockResolvedValue([
+      createAssignment('a', '08:00'),
+      createAssignment('b', '12:00')
+    ] as any);
+    prismaMock.recurringSlot.findFirst.mockResolvedValue({ algorithm: 'geographic' } as any);
+    prismaMock.restaurantAssignment.findFirst.mockResolvedValue({ id: 'new-b', driverId: 9 } as any);
+    prismaMock.$transaction.mockImplementation(async (callback: any) => callback(prismaMock));
+    prismaMock.restaurantAssignment.updateMany.mockResolvedValue({ count: 1 });
+    const execute = jest.spyOn(AlgorithmsService.prototype, 'executeAssignment')
+      .mockResolvedValue(resultFor('restaurant-b', 9));
+
+    const report = await service.handleAvailabilityBlock(block);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(execute.mock.calls[0][0].restaurants.map(r => r.restaurantId)).toEqual(['restaurant-b']);
+    expect(execute.mock.calls[0][1]).toBe('geographic');
+    expect(prismaMock.restaurantAssignment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'b', status: 'PENDING' },
+      data: { status: 'CANCELLED', notes: 'Reassigned: Driver blocked 2024-01-15 13:00-17:00 (Dentist)' }
+    });
+    expect(report.affected).toBe(1);
+    expect(report.reassigned).toEqual([{
+      assignmentId: 'b',
+      newAssignmentId: 'new-b',
+      restaurantId: 'restaurant-b',
+      date: '2024-01-15',
+      newDriverId: 9,
+      algorithm: 'geographic-assignment',
+      runId: 'run-1'
+    }]);
+    expect(notifyAssignmentReassigned).toHaveBeenCalledWith(7, 'b', report.reason);
+    expect(notifyNewAssignment).toHaveBeenCalledWith(9, { id: 'new-b', driverId: 9 });
+    expect(notifyDispatchReassignmentNeeded).not.toHaveBeenCalled();
+  });
+
+  it('should remove the new assignment when the original was started meanwhile', async () => {
+    prismaMock.restaurantAssignment.findMany.mockResolvedValue([createAssignment('b', '12:00')] as any);
+    prismaMock.recurringSlot.findFirst.mockResolvedValue(null);
+    prismaMock.$transaction.mockImplementation(async (callback: any) => callback(prismaMock));
+    prismaMock.restaurantAssignment.updateMany.mockResolvedValue({ count: 0 });
+    jest.spyOn(AlgorithmsService.prototype, 'executeAssignment').mockResolvedValue(resultFor('restaurant-b', 9));
+
+    const report = await service.handleAvailabilityBlock(block);
+
+    expect(prismaMock.restaurantAssignment.deleteMany).toHaveBeenCalledWith({ where: { batchId: 'batch-1', status: 'PENDING' } });
+    expect(report.reassigned).toEqual([]);
+    expect(report.flagged.map(f => [f.assignmentId, f.error])).toEqual([
+      ['b', 'Assignment is no longer pending; the new assignment was removed']
+    ]);
+    expect(notifyNewAssignment).not.toHaveBeenCalled();
+  });
+
+  it('should leave assignments no driver can take in place and flag them to dispatch', async () => {
+    prismaMock.restaurantAssignment.findMany.mockResolvedValue([
+      createAssignment('a', '14:00'),
+      createAssignment('b', '15:00', { restaurantCity: null })
+    ] as any);
+    prismaMock.recurringSlot.findFirst.mockResolvedValue(null);
+    const execute = jest.spyOn(AlgorithmsService.prototype, 'executeAssignment')
+      .mockResolvedValue(resultFor('restaurant-a'));
+
+    const report = await service.handleAvailabilityBlock({ ...block, isFullDay: true, startTime: null, endTime: null, reason: null });
+
+    expect(execute.mock.calls[0][1]).toBeUndefined();
+    expect(prismaMock.restaurantAssignment.updateMany).not.toHaveBeenCalled();
+    expect(report.reassigned).toEqual([]);
+    expect(report.flagged.map(f => [f.assignmentId, f.error])).toEqual([
+      ['a', 'No available drivers'],
+      ['b', 'No restaurant location recorded to run an algorithm with']
+    ]);
+    expect(notifyDispatchReassignmentNeeded).toHaveBeenCalledWith(report.flagged);
+    expect(notifyAssignmentReassigned).not.toHaveBeenCalled();
+  });
+
+  it('should only flag upcoming assignments of a suspended driver in flag mode', async () => {
+    process.env.REASSIGNMENT_MODE = 'flag';
+    prismaMock.restaurantAssignment.findMany.mockResolvedValue([createAssignment('a', '11:30')] as any);
+    const execute = jest.spyOn(AlgorithmsService.prototype, 'executeAssignment');
+
+    expect(await service.handleDriverStatusChange(7, 'ACTIVE')).toBeNull();
+    const report = await service.handleDriverStatusChange(7, 'SUSPENDED');
+
+    expect(prismaMock.restaurantAssignment.findMany).toHaveBeenCalledTimes(1);
+    expect(prismaMock.restaurantAssignment.findMany.mock.calls[0][0]?.where).toEqual(expect.objectContaining({
+      driverId: 7,
+      status: 'PENDING',
+      assignmentDate: { gte: expect.any(Date) }
+    }));
+    expect(execute).not.toHaveBeenCalled();
+    expect(report!.mode).toBe('flag');
+    expect(report!.flagged).toEqual([{
+      assignmentId: 'a',
+      restaurantId: 'restaurant-a',
+      date: '2024-01-15',
+      driverId: 7,
+      reason: 'Driver status changed to SUSPENDED',
+      error: 'Automatic reassignment is turned off'
+    }]);
+  });
+
+  it('should only queue a reassignment when the driver leaves ACTIVE status', async () => {
+    expect(await service.queueDriverStatusChange(7, 'ACTIVE', 'ACTIVE')).toBe(false);
+    expect(await service.queueDriverStatusChange(7, 'SUSPENDED', 'INACTIVE')).toBe(false);
+    expect(await service.queueDriverStatusChange(7, 'PENDING', 'ACTIVE')).toBe(false);
+    expect(queue).toEqual([]);
+
+    expect(await service.queueDriverStatusChange(7, 'ACTIVE', 'SUSPENDED')).toBe(true);
+    expect(queue.map(entry => JSON.parse(entry))).toEqual([
+      { id: expect.any(String), trigger: 'DRIVER_STATUS', driverId: 7, status: 'SUSPENDED' }
+    ]);
+  });
+
+  it('should run queued reassignments in the background and skip ones no longer needed', async () => {
+    const handleBlock = jest.spyOn(service, 'handleAvailabilityBlock').mockResolvedValue({} as any);
+    const handleStatus = jest.spyOn(service, 'handleDriverStatusChange').mockResolvedValue(null);
+    prismaMock.driverAvailabilityBlock.findUnique.mockResolvedValueOnce(block).mockResolvedValueOnce(null);
+    prismaMock.user.findUnique.mockResolvedValue({ driverStatus: 'ACTIVE' } as any);
+
+    await service.queueAvailabilityBlock(block);
+    await service.queueAvailabilityBlock(block);
+    await service.queueDriverStatusChange(7, 'ACTIVE', 'SUSPENDED');
+    expect(handleBlock).not.toHaveBeenCalled();
+
+    while (await service.processNext()) {
+      // Work off the queue
+    }
+
+    expect(handleBlock).toHaveBeenCalledTimes(1);
+    expect(handleBlock).toHaveBeenCalledWith(block);
+    // Back to ACTIVE before the worker got to it
+    expect(handleStatus).not.toHaveBeenCalled();
+    expect(processing).toEqual([]);
+  });
+
+  it('should queue a reassignment again when its worker stopped', async () => {
+    await service.queueAvailabilityBlock(block);
+    const entry = queue[0];
+    queue.length = 0;
+    processing.push(entry);
+
+    expect(await service.recoverStaleJobs()).toBe(0);
+    expect(await service.recoverStaleJobs()).toBe(1);
+
+    expect(processing).toEqual([]);
+    expect(queue).toEqual([entry]);
+  });
+});
@@ -0,0 +1,145 @@
+import { RecurringSlotsService } from '../../apps/algorithms/recurring-slots.service';
+import { msUntilNextRun } from '../../apps/algorithms/recurring-slots.scheduler';
+import { AlgorithmsService } from '../../apps/algorithms/algorithms.service';
+import { AlgorithmResult, CreateRecurringSlotDto, RestaurantRequest } from '../../apps/algorithms/algorithms.types';
+import { prismaMock } from '../setup';
+
+// The real socket service loads the whole app through the socket config
+const notifyDispatchUnfilledSlots = jest.fn();
+jest.mock('../../apps/socket/socket.service', () => ({
+  SocketService: jest.fn().mockImplementation(() => ({ notifyDispatchUnfilledSlots }))
+}));
+
+jest.mock('../../config/redis', () => ({
+  redis: { set: jest.fn(), del: jest.fn() }
+}));
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+const createSlot = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  restaurantId: `restaurant-${id}`,
+  name: null,
+  city: 'San Francisco',
+  state: 'CA',
+  latitude: null,
+  longitude: null,
+  daysOfWeek: EVERY_DAY,
+  pickupTime: new Date('1970-01-01T11:30:00.000Z'),
+  expectedDurationMinutes: null,
+  estimatedDeliveries: 20,
+  paymentType: 'FIXED',
+  paymentRate: 150,
+  priority: 0,
+  algorithm: null,
+  startDate: null,
+  endDate: null,
+  isActive: true,
+  exceptions: [],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides
+});
+
+const resultFor = (algorithm: string, restaurants: RestaurantRequest[], failed: string[] = []): AlgorithmResult => ({
+  algorithm,
+  assignmentDate: '2024-01-15',
+  totalRequests: restaurants.length,
+  successfulAssignments: restaurants.length - failed.length,
+  failedAssignments: failed.length,
+  results: restaurants.map(r => failed.includes(r.restaurantId)
+    ? { restaurantId: r.restaurantId, success: false, error: 'No available drivers' }
+    : { restaurantId: r.restaurantId, success: true, driverId: 1 }),
+  executionTimeMs: 1,
+  runId: 'run-1'
+});
+
+const validSlot: CreateRecurringSlotDto = {
+  restaurantId: 'restaurant-1',
+  city: 'San Francisco',
+  state: 'CA',
+  daysOfWeek: [1, 3, 5],
+  pickupTime: '11:30',
+  estimatedDeliveries: 20,
+  paymentRate: 150
+};
+
+describe('RecurringSlotsService', () => {
+  let service: RecurringSlotsService;
+
+  beforeEach(() => {
+    service = new RecurringSlotsService(prismaMock);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    notifyDispatchUnfilledSlots.mockReset();
+  });
+
+  it('should reject slots with bad weekdays, times, algorithms or date ranges', async () => {
+    await expect(service.createSlot({ ...validSlot, daysOfWeek: [7] })).rejects.toThrow('Invalid slot: daysOfWeek');
+    await expect(service.createSlot({ ...validSlot, pickupTime: '25:00' })).rejects.toThrow('Invalid slot: pickupTime');
+    await expect(service.createSlot({ ...validSlot, algorithm: 'nope' })).rejects.toThrow("unknown algorithm 'nope'");
+    await expect(service.createSlot({ ...validSlot, startDate: '2024-02-01', endDate: '2024-01-01' }))
+      .rejects.toThrow('endDate must not be before startDate');
+    await expect(service.generateAssignments(31)).rejects.toThrow('Invalid daysAhead');
+    expect(prismaMock.recurringSlot.create).not.toHaveBeenCalled();
+  });
+
+  it('should skip holidays, exceptions and already assigned occurrences, one run per algorithm', async () => {
+    prismaMock.recurringSlot.findMany.mockResolvedValue([
+      createSlot('a'),
+      createSlot('b', { algorithm: 'geographic' }),
+      createSlot('c', { exceptions: [{ id: 'e-1', slotId: 'c', date: new Date('2024-01-15'), reason: 'Closed for inventory', createdAt: new Date() }] })
+    ] as any);
+    prismaMock.holiday.findMany.mockResolvedValue([
+      { id: 'h-1', date: new Date('2024-01-16'), name: 'Founders Day', createdAt: new Date(), updatedAt: new Date() }
+    ] as any);
+    prismaMock.restaurantAssignment.findMany.mockResolvedValue([
+      { restaurantId: 'restaurant-a', assignmentDate: new Date('2024-01-15'), pickupTime: new Date('1970-01-01T11:30:00.000Z') }
+    ] as any);
+    const execute = jest.spyOn(AlgorithmsService.prototype, 'executeAssignment')
+      .mockImplementation(async (request, algorithmType) => resultFor(algorithmType || 'simple', request.restaurants));
+
+    const report = await service.generateAssignments(2, '2024-01-15');
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(execute.mock.calls[0][0].restaurants.map(r => r.restaurantId)).toEqual(['restaurant-b']);
+    expect(execute.mock.calls[0][1]).toBe('geographic');
+    expect(report.alreadyAssigned).toBe(1);
+    expect(report.filled).toBe(1);
+    expect(report.skipped).toEqual([
+      { slotId: 'c', date: '2024-01-15', reason: 'Closed for inventory' },
+      { slotId: 'a', date: '2024-01-16', reason: 'Holiday: Founders Day' },
+      { slotId: 'b', date: '2024-01-16', reason: 'Holiday: Founders Day' },
+      { slotId: 'c', date: '2024-01-16', reason: 'Holiday: Founders Day' }
+    ]);
+    expect(notifyDispatchUnfilledSlots).not.toHaveBeenCalled();
+  });
+
+  it('should report occurrences left without a driver to dispatch', async () => {
+    prismaMock.recurringSlot.findMany.mockResolvedValue([createSlot('a'), createSlot('b')] as any);
+    prismaMock.holiday.findMany.mockResolvedValue([]);
+    prismaMock.restaurantAssignment.findMany.mockResolvedValue([]);
+    jest.spyOn(AlgorithmsService.prototype, 'executeAssignment')
+      .mockImplementation(async request => resultFor('simple', request.restaurants, ['restaurant-b']));
+
+    const report = await service.generateAssignments(1, '2024-01-15');
+
+    expect(report.runs).toHaveLength(1);
+    expect(report.filled).toBe(1);
+    expect(report.unfilled).toEqual([
+      { slotId: 'b', restaurantId: 'restaurant-b', date: '2024-01-15', error: 'No available drivers' }
+    ]);
+    expect(notifyDispatchUnfilledSlots).toHaveBeenCalledWith(report.unfilled);
+  });
+});
+
+describe('recurring slots schedule', () => {
+  it('should wait until the run time today, or tomorrow once it has passed', () => {
+    const now = new Date(2024, 0, 15, 1, 30);
+
+    expect(msUntilNextRun('02:00', now)).toBe(30 * 60 * 1000);
+    expect(msUntilNextRun('01:00', now)).toBe(23.5 * 60 * 60 * 1000);
+  });
+});
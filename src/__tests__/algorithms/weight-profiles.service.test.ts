@@ -0,0 +1,136 @@
+import { WeightProfilesService } from '../../apps/algorithms/weight-profiles.service';
+import { BulkAssignmentRequest, WeightConfig } from '../../apps/algorithms/algorithms.types';
+import { prismaMock } from '../setup';
+
+const weights = (locationWeight: number): WeightConfig => ({
+  locationWeight,
+  proximityWeight: 0.2,
+  performanceWeight: 0.1,
+  workloadWeight: 0.7 - locationWeight
+});
+
+const createProfile = (id: string, name: string, scopes: Array<Record<string, string | null>> = []) => ({
+  id,
+  name,
+  description: null,
+  activeVersion: 2,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  scopes: scopes.map((scope, index) => ({
+    id: `${id}-scope-${index}`,
+    profileId: id,
+    restaurantId: null,
+    city: null,
+    state: null,
+    createdAt: new Date(),
+    ...scope
+  }))
+});
+
+const createVersion = (profileId: string, version: number, versionWeights: WeightConfig) => ({
+  id: `${profileId}-v${version}`,
+  profileId,
+  version,
+  weights: versionWeights as any,
+  note: null,
+  metadata: null,
+  authorId: 1,
+  createdAt: new Date()
+});
+
+const createRequest = (overrides: Partial<BulkAssignmentRequest> = {}): BulkAssignmentRequest => ({
+  assignmentDate: '2024-01-15',
+  restaurants: [
+    { restaurantId: 'vip', city: 'Seattle', state: 'WA', estimatedDeliveries: 10, pickupTime: '11:00', paymentRate: 100 },
+    { restaurantId: 'seattle', city: 'seattle', state: 'wa', estimatedDeliveries: 10, pickupTime: '11:00', paymentRate: 100 },
+    { restaurantId: 'portland', city: 'Portland', state: 'OR', estimatedDeliveries: 10, pickupTime: '11:00', paymentRate: 100 }
+  ],
+  ...overrides
+});
+
+describe('WeightProfilesService', () => {
+  let service: WeightProfilesService;
+
+  beforeEach(() => {
+    service = new WeightProfilesService(prismaMock);
+
+    prismaMock.weightProfile.findMany.mockResolvedValue([
+      createProfile('p-default', 'default'),
+      createProfile('p-city', 'seattle-downtown', [{ city: 'Seattle', state: 'WA' }]),
+      createProfile('p-vip', 'vip', [{ restaurantId: 'vip' }]),
+      createProfile('p-rush', 'rush-hour')
+    ] as any);
+    prismaMock.weightProfileVersion.findMany.mockResolvedValue([
+      createVersion('p-default', 2, weights(0.4)),
+      createVersion('p-city', 2, weights(0.5)),
+      createVersion('p-vip', 2, weights(0.6)),
+      createVersion('p-rush', 2, weights(0.1))
+    ]);
+  });
+
+  describe('resolveRequestWeights', () => {
+    it('should prefer restaurant scopes, then city/state scopes, then the default profile', async () => {
+      const resolved = await service.resolveRequestWeights(createRequest());
+
+      expect(resolved.restaurants.map(r => [r.restaurantId, r.weightProfile, r.weightConfig?.locationWeight])).toEqual([
+        ['vip', 'vip@v2', 0.6],
+        ['seattle', 'seattle-downtown@v2', 0.5],
+        ['portland', 'default@v2', 0.4]
+      ]);
+    });
+
+    it('should apply a profile named by the request to every restaurant', async () => {
+      const resolved = await service.resolveRequestWeights(createRequest({ weightProfile: 'rush-hour' }));
+
+      expect(resolved.restaurants.every(r => r.weightProfile === 'rush-hour@v2')).toBe(true);
+    });
+
+    it('should keep explicit weights on the request or restaurant', async () => {
+      const request = createRequest({ weightConfig: weights(0.3) });
+      request.restaurants[0].weightConfig = weights(0.2);
+
+      const resolved = await service.resolveRequestWeights(request);
+
+      expect(resolved.restaurants.map(r => r.weightConfig?.locationWeight)).toEqual([0.2, 0.3, 0.3]);
+      expect(resolved.restaurants.every(r => r.weightProfile === undefined)).toBe(true);
+    });
+
+    it('should reject unknown profile names', async () => {
+      await expect(service.resolveRequestWeights(createRequest({ weightProfile: 'missing' })))
+        .rejects.toThrow("Weight profile 'missing' not found or has no active version");
+    });
+  });
+
+  describe('rollback', () => {
+    it('should copy the old weights into a new active version authored by the caller', async () => {
+      prismaMock.weightProfile.findUnique.mockResolvedValue(createProfile('p-vip', 'vip') as any);
+      prismaMock.weightProfileVersion.findUnique.mockResolvedValue(createVersion('p-vip', 1, weights(0.3)));
+      prismaMock.weightProfileVersion.aggregate.mockResolvedValue({ _max: { version: 2 } } as any);
+      prismaMock.$transaction.mockImplementation(async (callback: any) => callback(prismaMock));
+      jest.spyOn(service, 'getProfile').mockResolvedValue({} as any);
+
+      await service.rollback('vip', 1, 42);
+
+      expect(prismaMock.weightProfileVersion.create).toHaveBeenCalledWith({
+        data: {
+          profileId: 'p-vip',
+          version: 3,
+          weights: weights(0.3),
+          note: 'Rolled back to version 1',
+          authorId: 42
+        }
+      });
+      expect(prismaMock.weightProfile.update).toHaveBeenCalledWith({
+        where: { id: 'p-vip' },
+        data: { activeVersion: 3 }
+      });
+    });
+
+    it('should fail for versions that do not exist', async () => {
+      prismaMock.weightProfile.findUnique.mockResolvedValue(createProfile('p-vip', 'vip') as any);
+      prismaMock.weightProfileVersion.findUnique.mockResolvedValue(null);
+
+      await expect(service.rollback('vip', 9, 42)).rejects.toThrow('Weight profile version not found');
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { labelAssignmentOutcome, trainWeightConfig } from '../../apps/algorithms/weight-training';
+import { WeightTrainingSample } from '../../apps/algorithms/algorithms.types';
+import { createSeededRandom } from '../../utils/random';
+
+// Outcomes depend only on the proximity score; the other components are noise
+const createSamples = (count: number, seed: number): WeightTrainingSample[] => {
+  const random = createSeededRandom(seed);
+
+  return Array.from({ length: count }, () => {
+    const proximity = random();
+    return {
+      features: [random(), proximity, random(), random()],
+      label: proximity > 0.5 ? 1 : 0
+    };
+  });
+};
+
+describe('labelAssignmentOutcome', () => {
+  it('should label completed, fully delivered, on-time assignments as good', () => {
+    expect(labelAssignmentOutcome({ status: 'COMPLETED', estimatedDeliveries: 10, actualDeliveries: 10, onTime: true })).toBe(1);
+    expect(labelAssignmentOutcome({ status: 'COMPLETED', estimatedDeliveries: 10, actualDeliveries: 9, onTime: null })).toBe(1);
+  });
+
+  it('should label cancelled, short or late assignments as bad', () => {
+    expect(labelAssignmentOutcome({ status: 'CANCELLED', estimatedDeliveries: 10, actualDeliveries: null, onTime: null })).toBe(0);
+    expect(labelAssignmentOutcome({ status: 'COMPLETED', estimatedDeliveries: 10, actualDeliveries: 7, onTime: true })).toBe(0);
+    expect(labelAssignmentOutcome({ status: 'COMPLETED', estimatedDeliveries: 10, actualDeliveries: 10, onTime: false })).toBe(0);
+  });
+
+  it('should not label assignments that have not finished', () => {
+    expect(labelAssignmentOutcome({ status: 'IN_PROGRESS', estimatedDeliveries: 10, actualDeliveries: null, onTime: null })).toBeNull();
+  });
+});
+
+describe('trainWeightConfig', () => {
+  it('should put most of the weight on the component that predicts outcomes', () => {
+    const model = trainWeightConfig(createSamples(200, 7));
+
+    expect(model.weights.proximityWeight).toBeGreaterThan(0.5);
+    const total = Object.values(model.weights).reduce((sum, weight) => sum + weight, 0);
+    expect(total).toBeCloseTo(1, 5);
+  });
+
+  it('should report holdout accuracy above the majority baseline', () => {
+    const model = trainWeightConfig(createSamples(200, 7), { holdoutFraction: 0.25 });
+
+    expect(model.holdoutCount).toBe(50);
+    expect(model.trainCount).toBe(150);
+    expect(model.holdoutAccuracy).toBeGreaterThan(model.baselineAccuracy!);
+  });
+
+  it('should be deterministic for the same seed', () => {
+    const samples = createSamples(100, 3);
+
+    expect(trainWeightConfig(samples, { seed: 11 })).toEqual(trainWeightConfig(samples, { seed: 11 }));
+  });
+
+  it('should fail when no component predicts a good outcome', () => {
+    const samples = createSamples(100, 5).map(sample => ({
+      features: [0, sample.features[1], 0, 0] as [number, number, number, number],
+      label: (sample.features[1] > 0.5 ? 0 : 1) as 0 | 1
+    }));
+
+    expect(() => trainWeightConfig(samples)).toThrow('Training found no score component');
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  AssignmentUtils,
+  calculateDeliveryCapacity,
+  evaluateDriverAvailability,
+  findPickupConflicts
+} from '../../apps/assignments/assignments.utils';
+import { SimpleAssignmentAlgorithm } from '../../apps/algorithms/simple-assignment.algorithm';
+import { prismaMock } from '../setup';
+
+const time = (value: string) => new Date(`1970-01-01T${value}:00.000Z`);
+
+const eveningShift = { startTime: time('17:00'), endTime: time('21:00') };
+
+// Two restaurants 25 km apart: 65 minutes' drive
+const downtown = { latitude: 37.7749, longitude: -122.4194 };
+const uptown = { latitude: 37.9997, longitude: -122.4194 };
+
+const lunchPickup = {
+  id: 'a-1',
+  restaurantId: 'R-1',
+  estimatedDeliveries: 20,
+  pickupTime: time('11:30'),
+  restaurantLatitude: downtown.latitude,
+  restaurantLongitude: downtown.longitude
+};
+
+const partialBlock = (start: string, end: string, reason: string | null = null) => ({
+  isFullDay: false,
+  startTime: time(start),
+  endTime: time(end),
+  reason
+});
+
+describe('evaluateDriverAvailability', () => {
+  it('should reject a pickup outside the shift window', () => {
+    const reasons = evaluateDriverAvailability(
+      { schedules: [eveningShift], availabilityBlocks: [] },
+      { pickupTime: '11:30', estimatedDeliveries: 20 }
+    );
+
+    expect(reasons).toEqual([{
+      code: 'OUTSIDE_SHIFT',
+      message: "Assignment window 11:30-13:00 is outside the driver's shift (17:00-21:00)"
+    }]);
+  });
+
+  it('should require the expected or estimated duration to fit before the shift ends', () => {
+    const driver = { schedules: [eveningShift], availabilityBlocks: [] };
+
+    // 10 minutes plus 4 per delivery without an expected duration
+    expect(evaluateDriverAvailability(driver, { pickupTime: '19:30', estimatedDeliveries: 20 })).toEqual([]);
+    expect(evaluateDriverAvailability(driver, { pickupTime: '20:00', estimatedDeliveries: 20 }).map(r => r.code)).toEqual(['OUTSIDE_SHIFT']);
+    expect(evaluateDriverAvailability(driver, { pickupTime: '20:00', expectedDurationMinutes: 60, estimatedDeliveries: 20 })).toEqual([]);
+  });
+
+  it('should use the same estimated window for partial-day blocks', () => {
+    const driver = { schedules: [eveningShift], availabilityBlocks: [partialBlock('19:00', '20:00')] };
+
+    expect(evaluateDriverAvailability(driver, { pickupTime: '17:30', estimatedDeliveries: 20 }).map(r => r.code)).toEqual([]);
+    expect(evaluateDriverAvailability(driver, { pickupTime: '17:30', estimatedDeliveries: 25 }).map(r => r.code)).toEqual(['BLOCKED_PARTIAL']);
+  });
+
+  it('should accept windows inside a shift that runs past midnight', () => {
+    const driver = { schedules: [{ startTime: time('20:00'), endTime: time('02:00') }], availabilityBlocks: [] };
+
+    expect(evaluateDriverAvailability(driver, { pickupTime: '22:00' })).toEqual([]);
+  });
+
+  it('should reject only windows that overlap a partial-day block', () => {
+    const driver = { schedules: [eveningShift], availabilityBlocks: [partialBlock('18:00', '19:00', 'Dentist')] };
+
+    expect(evaluateDriverAvailability(driver, { pickupTime: '17:00', expectedDurationMinutes: 60 })).toEqual([]);
+    expect(evaluateDriverAvailability(driver, { pickupTime: '17:30', expectedDurationMinutes: 60 })).toEqual([{
+      code: 'BLOCKED_PARTIAL',
+      message: 'Driver is unavailable 18:00-19:00 (Dentist), overlapping assignment window 17:30-18:30'
+    }]);
+  });
+
+  it('should check only whole-day availability without a window', () => {
+    expect(evaluateDriverAvailability({ schedules: [eveningShift], availabilityBlocks: [partialBlock('18:00', '19:00')] })).toEqual([]);
+    expect(evaluateDriverAvailability({
+      schedules: [],
+      availabilityBlocks: [{ isFullDay: true, startTime: null, endTime: null, reason: 'Vacation' }]
+    }).map(r => r.code)).toEqual(['NOT_SCHEDULED', 'BLOCKED_FULL_DAY']);
+  });
+
+  it('should require a verified vehicle when vehicles are given', () => {
+    const driver = { schedules: [eveningShift], availabilityBlocks: [] };
+
+    expect(evaluateDriverAvailability({ ...driver, vehicles: [{ verified: false }] })).toEqual([{
+      code: 'NO_VERIFIED_VEHICLE',
+      message: 'Driver has no verified vehicle'
+    }]);
+    expect(evaluateDriverAvailability({ ...driver, vehicles: [{ verified: false }, { verified: true }] })).toEqual([]);
+  });
+
+  it('should reject assignments that exceed the remaining delivery capacity', () => {
+    const driver = {
+      schedules: [{ ...eveningShift, maxDeliveries: 40 }],
+      availabilityBlocks: [],
+      restaurantAssignments: [{ estimatedDeliveries: 15 }, { estimatedDeliveries: 10 }]
+    };
+
+    expect(evaluateDriverAvailability(driver, { pickupTime: '17:00', estimatedDeliveries: 15 })).toEqual([]);
+    expect(evaluateDriverAvailability(driver, { pickupTime: '17:00', estimatedDeliveries: 16 })).toEqual([{
+      code: 'CAPACITY_EXCEEDED',
+      message: "Assignment of 16 deliveries exceeds the driver's remaining capacity (15 of 40)"
+    }]);
+  });
+});
+
+describe('calculateDeliveryCapacity', () => {
+  it('should subtract scheduled deliveries from the schedule capacity', () => {
+    expect(calculateDeliveryCapacity([{ maxDeliveries: 40 }], [{ estimatedDeliveries: 30 }, { estimatedDeliveries: 20 }]))
+      .toEqual({ deliveryCapacity: 40, scheduledDeliveries: 50, remainingCapacity: 0 });
+    expect(calculateDeliveryCapacity([{}], []))
+      .toEqual({ deliveryCapacity: 70, scheduledDeliveries: 0, remainingCapacity: 70 });
+    expect(calculateDeliveryCapacity([], []).deliveryCapacity).toBe(0);
+  });
+});
+
+describe('findPickupConflicts', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should report when the driver cannot finish the earlier assignment and reach the next restaurant', () => {
+    // 10 minutes' pickup and 4 per delivery: 11:30-13:00
+    expect(findPickupConflicts([lunchPickup], { pickupTime: '11:30', estimatedDeliveries: 10, ...uptown })).toEqual([{
+      code: 'PICKUP_CONFLICT',
+      message: "Driver's 11:30 pickup at R-1 runs until 13:00, then 65 min to drive 25 km; earliest pickup here is 14:05, not 11:30",
+      conflict: {
+        assignmentId: 'a-1',
+        restaurantId: 'R-1',
+        position: 'BEFORE',
+        pickupTime: '11:30',
+        estimatedEndTime: '13:00',
+        distanceKm: 25,
+        travelMinutes: 65,
+        earliestPickup: '14:05'
+      }
+    }]);
+    expect(findPickupConflicts([lunchPickup], { pickupTime: '14:05', estimatedDeliveries: 10, ...uptown })).toEqual([]);
+
+    // 10:00-10:50 here leaves the driver at R-1 by 11:55
+    const [late] = findPickupConflicts([lunchPickup], { pickupTime: '10:00', estimatedDeliveries: 10, ...uptown });
+    expect(late.message).toBe('Assignment window 10:00-10:50, then 65 min to drive 25 km leaves the driver late for their 11:30 pickup at R-1 (earliest 11:55)');
+    expect(late.conflict).toEqual(expect.objectContaining({ position: 'AFTER', earliestPickup: '11:55' }));
+  });
+
+  it('should use the route end time when known and assume no travel without coordinates', () => {
+    const routed = { ...lunchPickup, estimatedEndTime: time('12:15') };
+
+    expect(findPickupConflicts([routed], { pickupTime: '13:30', estimatedDeliveries: 10, ...uptown })).toEqual([]);
+    expect(findPickupConflicts([lunchPickup], { pickupTime: '13:30', estimatedDeliveries: 10, ...uptown }).map(r => r.conflict?.earliestPickup))
+      .toEqual(['14:05']);
+    expect(findPickupConflicts([lunchPickup], { pickupTime: '13:00', estimatedDeliveries: 10 })).toEqual([]);
+    expect(findPickupConflicts([{ estimatedDeliveries: 20 }], { pickupTime: '11:30' })).toEqual([]);
+  });
+
+  it('should reject candidates whose assignments planned in the same run conflict', async () => {
+    const driver = (id: number) => ({
+      id,
+      name: `Driver ${id}`,
+      email: `driver${id}@example.com`,
+      serviceAreas: [{ areaName: 'Bay', city: 'San Francisco', state: 'CA', ...downtown, radiusKm: 50 }],
+      vehicles: [],
+      currentAssignments: 0,
+      deliveryCapacity: 70,
+      scheduledDeliveries: 0,
+      remainingCapacity: 70
+    });
+    jest.spyOn(AssignmentUtils.prototype, 'getDriverAvailability').mockResolvedValue({ available: [driver(1), driver(2)], rejected: [] });
+    jest.spyOn(AssignmentUtils.prototype, 'getDriverWorkload').mockResolvedValue({ totalAssignments: 0, completedAssignments: 0 } as any);
+    jest.spyOn(AssignmentUtils.prototype, 'isDriverAvailable').mockResolvedValue({ isValid: true, errors: [] });
+    prismaMock.constraintRule.findMany.mockResolvedValue([]);
+    prismaMock.deliveryRating.findMany.mockResolvedValue([]);
+
+    const result = await new SimpleAssignmentAlgorithm(prismaMock).assignDrivers({
+      assignmentDate: '2024-01-15',
+      dryRun: true,
+      restaurants: [
+        { restaurantId: 'R-1', city: 'San Francisco', state: 'CA', ...downtown, estimatedDeliveries: 20, pickupTime: '11:30', paymentRate: 100 },
+        { restaurantId: 'R-2', city: 'San Francisco', state: 'CA', ...uptown, estimatedDeliveries: 10, pickupTime: '11:30', paymentRate: 100 }
+      ]
+    });
+
+    // The driver picking up at R-1 cannot also pick up 25 km away at the same time
+    const [first, second] = result.results;
+    expect(second.driverId).not.toBe(first.driverId);
+    expect(second.explanation!.rejected).toEqual([{
+      driverId: first.driverId,
+      name: `Driver ${first.driverId}`,
+      reasons: [{
+        code: 'PICKUP_CONFLICT',
+        message: expect.stringContaining('earliest pickup here is 14:05'),
+        conflict: expect.objectContaining({ restaurantId: 'R-1', distanceKm: 25, earliestPickup: '14:05' })
+      }]
+    }]);
+  });
+});
@@ -0,0 +1,166 @@
+import * as jwt from 'jsonwebtoken';
+import {
+  DeliveryRatingsService,
+  averageRatingsByDriver,
+  summarizeDriverRatings
+} from '../../apps/deliveries/delivery-ratings.service';
+import { WeightedScoringAlgorithm } from '../../apps/algorithms/weighted-scoring.algorithm';
+import { AssignmentUtils } from '../../apps/assignments/assignments.utils';
+import { AvailableDriver } from '../../apps/assignments/assignments.types';
+import { AuthMiddleware } from '../../apps/auth/middleware/auth.middleware';
+import { prismaMock } from '../setup';
+
+const settings = { halfLifeDays: 90, minimumCount: 3 };
+const asOf = new Date('2024-06-01T00:00:00.000Z');
+const daysAgo = (days: number) => new Date(asOf.getTime() - days * 24 * 60 * 60 * 1000);
+
+const available = (id: number): AvailableDriver => ({
+  id,
+  name: `Driver ${id}`,
+  email: `driver${id}@example.com`,
+  serviceAreas: [{ areaName: 'SF', city: 'San Francisco', state: 'CA', latitude: 37.7749, longitude: -122.4194, radiusKm: 10 }],
+  vehicles: [],
+  currentAssignments: 0,
+  deliveryCapacity: 70,
+  scheduledDeliveries: 0,
+  remainingCapacity: 70
+});
+
+describe('driver rating averages', () => {
+  it('should weigh recent ratings more and give no average below the minimum count', () => {
+    const ratings = [
+      { rating: 5, createdAt: daysAgo(0) },
+      { rating: 5, createdAt: daysAgo(0) },
+      { rating: 2, createdAt: daysAgo(90) },
+      { rating: 1, createdAt: daysAgo(400) } // Outside four half-lives
+    ];
+
+    // Weights 1, 1 and 0.5: (5 + 5 + 1) / 2.5
+    expect(summarizeDriverRatings(ratings, asOf, settings)).toEqual({ averageRating: 4.4, ratingCount: 3, minimumCount: 3 });
+    expect(summarizeDriverRatings(ratings.slice(0, 2), asOf, settings)).toEqual({ averageRating: null, ratingCount: 2, minimumCount: 3 });
+
+    const averages = averageRatingsByDriver([
+      ...ratings.map(r => ({ ...r, driverId: 1 })),
+      { driverId: 2, rating: 5, createdAt: daysAgo(1) }
+    ], asOf, settings);
+    expect([...averages.entries()]).toEqual([[1, 4.4]]);
+  });
+});
+
+describe('DeliveryRatingsService', () => {
+  let service: DeliveryRatingsService;
+
+  beforeEach(() => {
+    service = new DeliveryRatingsService(prismaMock);
+  });
+
+  it('should rate a delivered delivery once through its signed link', async () => {
+    prismaMock.delivery.findUnique.mockResolvedValue({ id: 'd-1', status: 'DELIVERED', assignment: { driverId: 7, restaurantId: 'R-1' } } as any);
+    const { link } = await service.createRatingLink('d-1', 'R-1');
+    expect(link!.url).toBe(`http://localhost:3000/rate-delivery?token=${link!.token}`);
+
+    prismaMock.deliveryRating.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce({ id: 'r-1' } as any);
+    prismaMock.deliveryRating.create.mockImplementation((async ({ data }: any) => ({ id: 'r-1', createdAt: asOf, ...data })) as any);
+
+    const rated = await service.rateAsCustomer(link!.token, { deliveryId: 'd-1', rating: 4, comment: ' Friendly ' });
+    expect(rated).toEqual({ success: true, rating: expect.objectContaining({ driverId: 7, source: 'CUSTOMER', rating: 4, comment: 'Friendly' }) });
+
+    await expect(service.rateAsCustomer(link!.token, { deliveryId: 'd-1', rating: 5 }))
+      .resolves.toEqual({ success: false, error: 'Delivery has already been rated' });
+    expect(prismaMock.deliveryRating.create).toHaveBeenCalledTimes(1);
+
+    // A concurrent submission that passed the check hits the unique index instead
+    prismaMock.deliveryRating.findUnique.mockResolvedValueOnce(null);
+    prismaMock.deliveryRating.create.mockRejectedValueOnce(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+    await expect(service.rateAsRestaurant('R-1', { deliveryId: 'd-1', rating: 5 }))
+      .resolves.toEqual({ success: false, error: 'Delivery has already been rated' });
+  });
+
+  it('should refuse links for other deliveries, login tokens, bad ratings and undelivered deliveries', async () => {
+    prismaMock.delivery.findUnique.mockResolvedValue({ id: 'd-1', status: 'DELIVERED', assignment: { driverId: 7, restaurantId: 'R-1' } } as any);
+    const { link } = await service.createRatingLink('d-1', 'R-1');
+    const loginToken = jwt.sign({ userId: 1, deliveryId: 'd-1' }, process.env.JWT_SECRET!);
+
+    await expect(service.rateAsCustomer(link!.token, { deliveryId: 'd-2', rating: 5 }))
+      .resolves.toEqual({ success: false, error: 'Invalid or expired rating link' });
+    await expect(service.rateAsCustomer(loginToken, { deliveryId: 'd-1', rating: 5 }))
+      .resolves.toEqual({ success: false, error: 'Invalid or expired rating link' });
+    await expect(service.rateAsRestaurant('R-1', { deliveryId: 'd-1', rating: 6 }))
+      .resolves.toEqual({ success: false, error: 'Rating must be a whole number from 1 to 5' });
+    // Only the delivery's own restaurant can rate it or create its link
+    await expect(service.rateAsRestaurant('R-2', { deliveryId: 'd-1', rating: 5 }))
+      .resolves.toEqual({ success: false, error: 'Delivery is not from this restaurant' });
+    await expect(service.createRatingLink('d-1', 'R-2'))
+      .resolves.toEqual({ success: false, error: 'Delivery is not from this restaurant' });
+
+    prismaMock.delivery.findUnique.mockResolvedValue({ id: 'd-1', status: 'IN_TRANSIT', assignment: { driverId: 7, restaurantId: 'R-1' } } as any);
+    await expect(service.rateAsRestaurant('R-1', { deliveryId: 'd-1', rating: 5 }))
+      .resolves.toEqual({ success: false, error: 'Cannot rate delivery with status: IN_TRANSIT' });
+    expect(prismaMock.deliveryRating.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('restaurant keys', () => {
+  const authenticate = async (key?: string) => {
+    const req: any = { headers: key ? { 'x-restaurant-key': key } : {} };
+    const res: any = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+    const next = jest.fn();
+    await new AuthMiddleware(prismaMock).authenticateRestaurant(req, res, next);
+    return { restaurant: req.restaurant, status: res.status.mock.calls[0]?.[0], next: next.mock.calls.length };
+  };
+
+  afterEach(() => {
+    delete process.env.RESTAURANT_API_KEYS;
+  });
+
+  it('should attach the restaurant of a configured key and refuse others', async () => {
+    process.env.RESTAURANT_API_KEYS = 'R-1:key-one, R-2:key-two, malformed';
+
+    await expect(authenticate('key-two')).resolves.toEqual({ restaurant: { id: 'R-2' }, status: undefined, next: 1 });
+    await expect(authenticate('malformed')).resolves.toEqual({ restaurant: undefined, status: 403, next: 0 });
+    await expect(authenticate('key-three')).resolves.toEqual({ restaurant: undefined, status: 403, next: 0 });
+    await expect(authenticate()).resolves.toEqual({ restaurant: undefined, status: 401, next: 0 });
+  });
+});
+
+describe('ratings in assignment runs', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should give candidates their average rating and prefer the better rated driver', async () => {
+    jest.spyOn(AssignmentUtils.prototype, 'getDriverAvailability').mockResolvedValue({ available: [available(1), available(2)], rejected: [] });
+    jest.spyOn(AssignmentUtils.prototype, 'getDriverWorkload').mockResolvedValue({
+      totalAssignments: 0,
+      completedAssignments: 0,
+      averageDeliveries: 0
+    } as any);
+    jest.spyOn(AssignmentUtils.prototype, 'isDriverAvailable').mockResolvedValue({ isValid: true, errors: [] });
+    prismaMock.constraintRule.findMany.mockResolvedValue([]);
+    prismaMock.deliveryRating.findMany.mockResolvedValue([
+      ...[0, 1, 2, 3, 4].map(day => ({ driverId: 1, rating: 5, createdAt: new Date(`2024-01-0${day + 1}`) })),
+      ...[0, 1, 2, 3, 4].map(day => ({ driverId: 2, rating: 2, createdAt: new Date(`2024-01-0${day + 1}`) }))
+    ] as any);
+
+    const result = await new WeightedScoringAlgorithm(prismaMock).assignDrivers({
+      assignmentDate: '2024-01-15',
+      dryRun: true,
+      restaurants: ['R-1', 'R-2'].map(restaurantId => ({
+        restaurantId,
+        city: 'San Francisco',
+        state: 'CA',
+        estimatedDeliveries: 10,
+        pickupTime: '11:30',
+        paymentRate: 100
+      }))
+    });
+
+    expect(result.results[0].driverId).toBe(1);
+    const [performance1, performance2] = [1, 2].map(id =>
+      result.results[0].explanation!.candidates.find(c => c.driverId === id)!.breakdown!.performanceScore);
+    expect(performance1).toBeGreaterThan(performance2);
+    // Loaded once for the run, from ratings given before the assignment date
+    expect(prismaMock.deliveryRating.findMany).toHaveBeenCalledTimes(1);
+    expect(prismaMock.deliveryRating.findMany.mock.calls[0][0]?.where?.createdAt).toEqual(expect.objectContaining({ lt: new Date('2024-01-15') }));
+  });
+});
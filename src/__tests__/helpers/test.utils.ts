@@ -15,6 +15,7 @@ export const createMockUser = (overrides: Partial<User> = {}): User => ({
   driverStatus: DriverStatus.ACTIVE,
   profileImageUrl: null,
   profileImagePublicId: null,
+  syntheticDatasetId: null,
   createdAt: new Date(),
   updatedAt: new Date(),
   ...overrides
@@ -9,6 +9,8 @@ import { createDeliveriesRouter } from './apps/deliveries/deliveries.routes';
 import { createEarningsRouter } from './apps/earnings/earnings.routes';
 import { createSocketRouter } from './apps/socket/socket.routes';
 import { createAlgorithmsRouter } from './apps/algorithms/algorithms.routes';
+import { startRecurringSlotsScheduler } from './apps/algorithms/recurring-slots.scheduler';
+import { startAlgorithmJobWorker } from './apps/algorithms/algorithm-jobs.worker';
 import { monitoringRouter } from './routes/monitoring';
 import { redis } from './config/redis';
 import { logger } from './config/logger';
@@ -22,6 +24,8 @@ export const prisma = new PrismaClient({
 
 const app = express();
 const server = createServer(app);
+let stopRecurringSlotsScheduler: (() => void) | undefined;
+let stopAlgorithmJobWorker: (() => void) | undefined;
 
 app.use(express.json());
 
@@ -78,6 +82,12 @@ async function initializeApp() {
     });
 
     logger.info('All routes have been initialized successfully');
+
+    // Daily job turning recurring restaurant slots into assignments
+    stopRecurringSlotsScheduler = startRecurringSlotsScheduler(prisma);
+
+    // Background runs queued through /api/algorithms/jobs
+    stopAlgorithmJobWorker = startAlgorithmJobWorker(prisma);
   } catch (error) {
     logger.error('Failed to initialize the app:', { 
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -93,6 +103,8 @@ initializeApp();
 // Cleanup when the app is shutting down
 process.on('beforeExit', async () => {
   logger.info('Application shutting down...');
+  stopRecurringSlotsScheduler?.();
+  stopAlgorithmJobWorker?.();
   await Promise.all([
     prisma.$disconnect(),
     redis.quit()
@@ -0,0 +1,109 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { AlgorithmJobsService } from './algorithm-jobs.service';
+import { AlgorithmType } from './algorithms.service';
+import { BulkAssignmentRequest } from './algorithms.types';
+
+export class AlgorithmJobsController {
+  private algorithmJobsService: AlgorithmJobsService;
+
+  constructor(prisma: PrismaClient) {
+    this.algorithmJobsService = new AlgorithmJobsService(prisma);
+  }
+
+  /**
+   * Queue a bulk assignment run; same body as POST /assign
+   * POST /api/algorithms/jobs
+   */
+  async createJob(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { request, algorithm } = req.body;
+      const job = await this.algorithmJobsService.enqueue(
+        request as BulkAssignmentRequest,
+        algorithm as AlgorithmType | undefined,
+        req.user.id
+      );
+
+      res.status(202).json({
+        success: true,
+        data: job
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to queue algorithm job');
+    }
+  }
+
+  /**
+   * Get one of the caller's jobs with its progress and (partial) results
+   * GET /api/algorithms/jobs/:id
+   */
+  async getJob(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const job = await this.algorithmJobsService.getJob(req.params.id, req.user.id);
+
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          error: 'Job not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: job
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to get algorithm job');
+    }
+  }
+
+  /**
+   * Cancel one of the caller's queued or running jobs
+   * POST /api/algorithms/jobs/:id/cancel
+   */
+  async cancelJob(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const job = await this.algorithmJobsService.cancelJob(req.params.id, req.user.id);
+
+      res.json({
+        success: true,
+        data: job
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to cancel algorithm job');
+    }
+  }
+
+  /**
+   * Map service errors to HTTP status codes
+   */
+  private sendError(res: Response, error: unknown, fallback: string): void {
+    const message = error instanceof Error ? error.message : fallback;
+    const status = message.startsWith('Invalid')
+      ? 400
+      : message.endsWith('not found')
+        ? 404
+        : message.startsWith('Job is already') ? 409 : 500;
+
+    res.status(status).json({
+      success: false,
+      error: message
+    });
+  }
+}
@@ -0,0 +1,255 @@
+import { PrismaClient } from '@prisma/client';
+import * as crypto from 'crypto';
+import { redis } from '../../config/redis';
+import { logger } from '../../config/logger';
+import { AlgorithmsService, AlgorithmType } from './algorithms.service';
+import { SocketService } from '../socket/socket.service';
+import { AlgorithmJob, BulkAssignmentRequest } from './algorithms.types';
+import { withoutExplanations } from './algorithms.explanations';
+
+const QUEUE_KEY = 'algorithm-jobs:queue';
+// Jobs a worker has taken off the queue, until it is done with them
+const PROCESSING_KEY = 'algorithm-jobs:processing';
+// Jobs, their requests and cancel flags expire a day after they were last written
+const JOB_TTL_SECONDS = 24 * 60 * 60;
+// A worker refreshes the heartbeat of its job while it runs; a job whose heartbeat lapsed is stale
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+const HEARTBEAT_TTL_SECONDS = 60;
+
+const jobKey = (id: string) => `algorithm-jobs:${id}`;
+const requestKey = (id: string) => `algorithm-jobs:${id}:request`;
+const cancelKey = (id: string) => `algorithm-jobs:${id}:cancel`;
+const heartbeatKey = (id: string) => `algorithm-jobs:${id}:heartbeat`;
+
+/**
+ * Algorithm Jobs Service
+ *
+ * Queues bulk assignment runs in Redis so the HTTP call returns straight
+ * away. A worker on any instance takes jobs off the queue one at a time,
+ * records progress and partial results on the job after each restaurant and
+ * sends them to the dispatcher who queued it over Socket.IO. Cancelling a
+ * running job stops it before its next restaurant.
+ *
+ * A worker moves each job to a processing list while it runs it and keeps a
+ * heartbeat. recoverStaleJobs finds jobs whose worker stopped: those not yet
+ * started go back on the queue, running ones fail.
+ */
+export class AlgorithmJobsService {
+  private socketService: SocketService;
+  // Processing jobs without a heartbeat at the last sweep
+  private unclaimedJobIds = new Set<string>();
+
+  constructor(
+    prisma: PrismaClient,
+    private algorithmsService: AlgorithmsService = new AlgorithmsService(prisma)
+  ) {
+    this.socketService = new SocketService(prisma);
+  }
+
+  async enqueue(request: BulkAssignmentRequest, algorithmType: AlgorithmType | undefined, requestedBy: number): Promise<AlgorithmJob> {
+    if (!request || !request.assignmentDate || !Array.isArray(request.restaurants) || request.restaurants.length === 0) {
+      throw new Error('Invalid request. Must include assignmentDate and restaurants');
+    }
+
+    const algorithm = this.algorithmsService.validateAssignment(request, algorithmType);
+    const job: AlgorithmJob = {
+      id: crypto.randomUUID(),
+      status: 'QUEUED',
+      algorithm,
+      assignmentDate: request.assignmentDate,
+      dryRun: request.dryRun === true,
+      requestedBy,
+      processed: 0,
+      total: request.restaurants.length,
+      results: [],
+      cancelRequested: false,
+      createdAt: new Date().toISOString()
+    };
+
+    await redis.set(requestKey(job.id), JSON.stringify(request), 'EX', JOB_TTL_SECONDS);
+    await this.saveJob(job);
+    await redis.lpush(QUEUE_KEY, job.id);
+
+    return job;
+  }
+
+  /**
+   * Get a job. With requestedBy, another user's job is not found, so job ids
+   * cannot be used to read someone else's results.
+   */
+  async getJob(id: string, requestedBy?: number): Promise<AlgorithmJob | null> {
+    const stored = await redis.get(jobKey(id));
+    const job = stored ? JSON.parse(stored) as AlgorithmJob : null;
+    return job && (requestedBy === undefined || job.requestedBy === requestedBy) ? job : null;
+  }
+
+  /**
+   * Cancel a job. A queued job is cancelled at once; a running one stops
+   * before its next restaurant and keeps what it assigned so far. With
+   * requestedBy, only that user's jobs can be cancelled.
+   */
+  async cancelJob(id: string, requestedBy?: number): Promise<AlgorithmJob> {
+    const job = await this.getJob(id, requestedBy);
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    if (job.status !== 'QUEUED' && job.status !== 'RUNNING') {
+      throw new Error(`Job is already ${job.status.toLowerCase()}`);
+    }
+
+    await redis.set(cancelKey(id), '1', 'EX', JOB_TTL_SECONDS);
+    job.cancelRequested = true;
+
+    if (job.status === 'QUEUED') {
+      job.status = 'CANCELLED';
+      job.finishedAt = new Date().toISOString();
+      await this.saveJob(job);
+      await this.socketService.notifyAlgorithmCompleted(job.requestedBy, job);
+    } else {
+      await this.saveJob(job);
+    }
+
+    return job;
+  }
+
+  /**
+   * Run the next queued job. Returns false when the queue is empty.
+   */
+  async processNext(): Promise<boolean> {
+    const id = await redis.lmove(QUEUE_KEY, PROCESSING_KEY, 'RIGHT', 'LEFT');
+    if (!id) {
+      return false;
+    }
+
+    await this.beat(id);
+    const heartbeat = setInterval(() => {
+      this.beat(id).catch(error => logger.error(`Algorithm job ${id} heartbeat failed:`, {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }));
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+      await this.runJob(id);
+    } finally {
+      clearInterval(heartbeat);
+      await redis.lrem(PROCESSING_KEY, 1, id);
+      await redis.del(heartbeatKey(id));
+    }
+
+    return true;
+  }
+
+  /**
+   * Handle jobs left on the processing list by a worker that stopped. Jobs it
+   * had not started are queued again; running ones are marked failed, since
+   * the assignments they made so far are already written. Returns how many
+   * jobs were recovered.
+   */
+  async recoverStaleJobs(): Promise<number> {
+    const ids = await redis.lrange(PROCESSING_KEY, 0, -1);
+    const unclaimed = new Set<string>();
+    let recovered = 0;
+
+    for (const id of ids) {
+      if (await redis.exists(heartbeatKey(id)) === 1) {
+        continue;
+      }
+
+      // A worker starts the heartbeat just after taking the job; give it until the next sweep
+      if (!this.unclaimedJobIds.has(id)) {
+        unclaimed.add(id);
+        continue;
+      }
+
+      // Another instance's sweep may have got there first
+      if (await redis.lrem(PROCESSING_KEY, 1, id) === 0) {
+        continue;
+      }
+
+      recovered++;
+      const job = await this.getJob(id);
+      if (job?.status === 'QUEUED') {
+        // Taken off the queue from the right, so it runs next
+        await redis.rpush(QUEUE_KEY, id);
+        logger.warn(`Algorithm job ${id} requeued after its worker stopped`);
+      } else if (job?.status === 'RUNNING') {
+        job.status = 'FAILED';
+        job.error = 'Worker stopped while running the job';
+        job.finishedAt = new Date().toISOString();
+        await this.saveJob(job);
+        await this.socketService.notifyAlgorithmCompleted(job.requestedBy, job);
+        logger.warn(`Algorithm job ${id} failed after its worker stopped`);
+      }
+    }
+
+    this.unclaimedJobIds = unclaimed;
+    return recovered;
+  }
+
+  private async runJob(id: string): Promise<void> {
+    const [job, storedRequest] = await Promise.all([this.getJob(id), redis.get(requestKey(id))]);
+    if (!job || !storedRequest || job.status !== 'QUEUED') {
+      // Expired, or cancelled while it was queued
+      return;
+    }
+
+    // Also keeps the flag on the job, which this worker saves over cancelJob's copy
+    const cancelled = async () => {
+      job.cancelRequested = job.cancelRequested || await redis.exists(cancelKey(id)) === 1;
+      return job.cancelRequested;
+    };
+
+    job.status = 'RUNNING';
+    job.startedAt = new Date().toISOString();
+    await this.saveJob(job);
+
+    try {
+      const result = await this.algorithmsService.executeAssignment(
+        JSON.parse(storedRequest) as BulkAssignmentRequest,
+        job.algorithm,
+        {
+          onProgress: async progress => {
+            // Explanations list every candidate; they are read per assignment instead
+            const [result] = progress.result ? withoutExplanations([progress.result]) : [];
+            job.processed = progress.processed;
+            if (result) {
+              job.results.push(result);
+            }
+            await this.saveJob(job);
+            await this.socketService.notifyAlgorithmProgress(job.requestedBy, job.id, { ...progress, result });
+          },
+          isCancelled: cancelled
+        }
+      );
+
+      Object.assign(job, {
+        // Only when the run saw the request; a late cancel leaves it completed
+        status: job.cancelRequested ? 'CANCELLED' : 'COMPLETED',
+        processed: job.total,
+        results: result.results,
+        runId: result.runId,
+        batchId: result.batchId,
+        planId: result.planId,
+        successfulAssignments: result.successfulAssignments,
+        failedAssignments: result.failedAssignments
+      });
+    } catch (error) {
+      job.status = 'FAILED';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Algorithm job ${id} failed:`, { error: job.error });
+    }
+
+    job.finishedAt = new Date().toISOString();
+    await this.saveJob(job);
+    await this.socketService.notifyAlgorithmCompleted(job.requestedBy, job);
+  }
+
+  private async beat(id: string): Promise<void> {
+    await redis.set(heartbeatKey(id), '1', 'EX', HEARTBEAT_TTL_SECONDS);
+  }
+
+  private async saveJob(job: AlgorithmJob): Promise<void> {
+    await redis.set(jobKey(job.id), JSON.stringify(job), 'EX', JOB_TTL_SECONDS);
+  }
+}
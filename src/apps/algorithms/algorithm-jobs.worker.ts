@@ -0,0 +1,60 @@
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../../config/logger';
+import { AlgorithmJobsService } from './algorithm-jobs.service';
+import { ReassignmentService } from './reassignment.service';
+
+const DEFAULT_POLL_MS = 1000;
+// How often the worker looks for jobs left behind by a stopped worker
+const RECOVERY_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Work off queued reassignments and algorithm jobs, one at a time,
+ * reassignments first, checking the queues every ALGORITHM_JOBS_POLL_MS
+ * (default 1000) while they are empty, and every 30 seconds recover work
+ * whose worker stopped mid-run. Set
+ * ALGORITHM_JOBS_ENABLED=false to stop this instance taking jobs. Returns a
+ * function that stops the worker once its current job is done.
+ */
+export function startAlgorithmJobWorker(prisma: PrismaClient): () => void {
+  if (process.env.ALGORITHM_JOBS_ENABLED === 'false') {
+    logger.info('Algorithm job worker disabled');
+    return () => undefined;
+  }
+
+  const pollMs = parseInt(process.env.ALGORITHM_JOBS_POLL_MS || '') || DEFAULT_POLL_MS;
+  const service = new AlgorithmJobsService(prisma);
+  const reassignments = new ReassignmentService(prisma);
+  let stopped = false;
+  let timer: NodeJS.Timeout;
+  let lastRecovery = 0;
+
+  const poll = async () => {
+    try {
+      if (Date.now() - lastRecovery >= RECOVERY_INTERVAL_MS) {
+        lastRecovery = Date.now();
+        await reassignments.recoverStaleJobs();
+        await service.recoverStaleJobs();
+      }
+
+      while (!stopped && (await reassignments.processNext() || await service.processNext())) {
+        // Keep going until both queues are empty
+      }
+    } catch (error) {
+      logger.error('Algorithm job worker failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    if (!stopped) {
+      timer = setTimeout(poll, pollMs);
+    }
+  };
+
+  timer = setTimeout(poll, pollMs);
+  logger.info(`Algorithm job worker started, polling every ${pollMs}ms`);
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
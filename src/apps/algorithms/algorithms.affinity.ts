@@ -0,0 +1,31 @@
+export const AFFINITY_LOOKBACK_DAYS = 90;
+export const AFFINITY_HALF_LIFE_DAYS = 14;
+
+// Decayed completions that count as full familiarity with a restaurant
+const FULL_AFFINITY_VISITS = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Restaurant–driver affinity (0-100) from the dates the driver completed
+ * assignments at the restaurant.
+ *
+ * Each completion counts 1 on the day after and halves every
+ * AFFINITY_HALF_LIFE_DAYS, so a driver who served the restaurant last week
+ * outranks one who served it more often months ago. Four fresh completions
+ * give the full score.
+ */
+export function calculateAffinityScore(
+  completedDates: string[],
+  assignmentDate: string,
+  halfLifeDays: number = AFFINITY_HALF_LIFE_DAYS
+): number {
+  const target = Date.parse(assignmentDate);
+
+  const decayedVisits = completedDates.reduce((sum, date) => {
+    const daysAgo = (target - Date.parse(date)) / DAY_MS;
+    return daysAgo > 0 ? sum + Math.pow(0.5, (daysAgo - 1) / halfLifeDays) : sum;
+  }, 0);
+
+  return Math.round(Math.min(1, decayedVisits / FULL_AFFINITY_VISITS) * 100);
+}
@@ -1,24 +1,56 @@
-import { PrismaClient } from '@prisma/client';
-import { AssignmentUtils } from '../assignments/assignments.utils';
-import { CreateAssignmentDto } from '../assignments/assignments.types';
+import { PrismaClient, RestaurantAssignment } from '@prisma/client';
+import * as crypto from 'crypto';
+import {
+  AssignmentUtils,
+  findPickupConflicts,
+  recordSnapshotAssignment,
+  releaseSnapshotAssignment,
+  toScheduledAssignment
+} from '../assignments/assignments.utils';
+import { CreateAssignmentDto, DaySnapshot } from '../assignments/assignments.types';
+import { haversineDistanceKm, matchServiceArea } from './algorithms.geo';
+import { matchVehicle } from './algorithms.vehicles';
+import { applyConstraintRules, DEFAULT_RECENT_SERVICE_DAYS } from './algorithms.constraints';
+import { AFFINITY_LOOKBACK_DAYS, calculateAffinityScore } from './algorithms.affinity';
+import { median } from './algorithms.fairness';
+import { orderByPriority, requestFromAssignment } from './algorithms.priority';
+import { addRejection, buildExplanation } from './algorithms.explanations';
+import { ConstraintRulesService } from './constraint-rules.service';
 import {
   DriverCandidate,
   RestaurantRequest,
   AssignmentResult,
   AlgorithmConfig,
   AlgorithmResult,
-  BulkAssignmentRequest
+  BulkAssignmentRequest,
+  AssignmentRunContext,
+  AssignmentExplanationData,
+  CandidateRejectionCode,
+  CandidateScore,
+  ConstraintRuleDefinition,
+  DriverLoad,
+  DriverLoadLimits,
+  FiredConstraintRule,
+  PreemptionRecord,
+  RejectedCandidate,
+  RunObserver,
+  RunPhaseTimings,
+  RunProgress,
+  ServiceAreaMatch
 } from './algorithms.types';
 
 export abstract class BaseAssignmentAlgorithm {
   protected assignmentUtils: AssignmentUtils;
+  protected constraintRulesService: ConstraintRulesService;
   protected config: AlgorithmConfig;
+  protected loadLimits?: { limits: DriverLoadLimits; priorLoad: Map<number, DriverLoad> };
 
   constructor(
     protected prisma: PrismaClient,
     config: AlgorithmConfig = {}
   ) {
     this.assignmentUtils = new AssignmentUtils(prisma);
+    this.constraintRulesService = new ConstraintRulesService(prisma);
     this.config = {
       maxAssignmentsPerDriver: 3,
       workloadBalancingEnabled: true,
@@ -34,25 +66,61 @@ export abstract class BaseAssignmentAlgorithm {
   abstract getName(): string;
 
   /**
-   * Abstract method for the main assignment logic
+   * Get the configuration this algorithm runs with
+   */
+  getConfig(): AlgorithmConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Read drivers, history and constraint rules from another source instead of
+   * the database, e.g. a replay snapshot
+   */
+  useDataSource(assignmentUtils: AssignmentUtils, constraintRulesService: ConstraintRulesService): this {
+    this.assignmentUtils = assignmentUtils;
+    this.constraintRulesService = constraintRulesService;
+    return this;
+  }
+
+  /**
+   * Cap each driver's load over a planning period that spans several runs.
+   * `priorLoad` is what drivers already carry in the period; each run adds
+   * its own assignments on top.
+   */
+  useLoadLimits(limits: DriverLoadLimits, priorLoad: Map<number, DriverLoad>): this {
+    this.loadLimits = { limits, priorLoad };
+    return this;
+  }
+
+  /**
+   * Abstract method for the main assignment logic.
+   * Return every scored driver in `candidates` so the decision can be explained.
    */
   protected abstract selectDriver(
     availableDrivers: DriverCandidate[],
     request: RestaurantRequest,
     assignmentDate: string
-  ): Promise<{ driver: DriverCandidate; score?: number } | null>;
+  ): Promise<{ driver: DriverCandidate; score?: number; candidates?: CandidateScore[] } | null>;
 
   /**
-   * Main entry point for assignment algorithms
+   * Main entry point for assignment algorithms.
+   * Restaurants are assigned highest priority first. An `observer` is told
+   * about each restaurant and may cancel the rest of the run.
    */
-  async assignDrivers(request: BulkAssignmentRequest): Promise<AlgorithmResult> {
+  async assignDrivers(request: BulkAssignmentRequest, observer?: RunObserver): Promise<AlgorithmResult> {
     const startTime = Date.now();
     const results: AssignmentResult[] = [];
+    const context = this.createRunContext(request, observer);
+
+    for (const restaurant of orderByPriority(request.restaurants)) {
+      if (await this.isCancelled(context)) {
+        results.push(this.cancelledResult(restaurant));
+        continue;
+      }
 
-    for (const restaurant of request.restaurants) {
       try {
-        const result = await this.assignSingleDriver(restaurant, request.assignmentDate);
-        results.push(result);
+        const result = await this.assignSingleDriver(restaurant, request.assignmentDate, context);
+        results.push(await this.preemptIfNeeded(result, restaurant, request.assignmentDate, context));
       } catch (error) {
         results.push({
           restaurantId: restaurant.restaurantId,
@@ -60,8 +128,133 @@ export abstract class BaseAssignmentAlgorithm {
           error: error instanceof Error ? error.message : 'Unknown error'
         });
       }
+
+      await this.reportProgress(context, {
+        processed: results.length,
+        total: request.restaurants.length,
+        result: results[results.length - 1]
+      });
+    }
+
+    const finalResults = await this.finalizeRun(results, context);
+    return this.buildAlgorithmResult(request, finalResults, startTime, context);
+  }
+
+  /**
+   * Create the per-run state shared across restaurants. Drivers and their
+   * lookback history are read into the day snapshot on first use.
+   */
+  protected createRunContext(request: BulkAssignmentRequest, observer?: RunObserver): AssignmentRunContext {
+    const dryRun = request.dryRun === true;
+
+    return {
+      dryRun,
+      atomic: !dryRun && request.atomic === true,
+      batchId: dryRun ? undefined : crypto.randomUUID(),
+      plannedAssignments: [],
+      releasedAssignmentIds: [],
+      assignedLoad: new Map(),
+      observer,
+      snapshot: {
+        assignmentDate: request.assignmentDate,
+        lookbackStart: this.getLookbackStart(request.assignmentDate)
+      },
+      phaseTimings: { snapshotMs: 0, candidatesMs: 0, selectionMs: 0, writeMs: 0 }
+    };
+  }
+
+  /**
+   * Run one step of a run, adding the time it took to a phase
+   */
+  protected async timed<T>(
+    context: AssignmentRunContext,
+    phase: Exclude<keyof RunPhaseTimings, 'snapshotMs'>,
+    step: () => Promise<T>
+  ): Promise<T> {
+    const startTime = Date.now();
+    try {
+      return await step();
+    } finally {
+      context.phaseTimings[phase] += Date.now() - startTime;
+    }
+  }
+
+  /**
+   * Whether the run's observer asked to stop; checked before each restaurant
+   */
+  protected async isCancelled(context: AssignmentRunContext): Promise<boolean> {
+    return context.observer?.isCancelled ? await context.observer.isCancelled() : false;
+  }
+
+  protected async reportProgress(context: AssignmentRunContext, progress: RunProgress): Promise<void> {
+    await context.observer?.onProgress?.(progress);
+  }
+
+  protected cancelledResult(restaurant: RestaurantRequest): AssignmentResult {
+    return {
+      restaurantId: restaurant.restaurantId,
+      success: false,
+      error: 'Run cancelled',
+      reason: 'The run was cancelled before this restaurant was assigned'
+    };
+  }
+
+  /**
+   * Write the assignments held back by an atomic run in a single transaction.
+   * If any restaurant went unassigned, or the transaction fails, nothing is written
+   * and every proposed assignment is reported as failed.
+   */
+  protected async finalizeRun(
+    results: AssignmentResult[],
+    context: AssignmentRunContext
+  ): Promise<AssignmentResult[]> {
+    if (!context.atomic || context.plannedAssignments.length === 0) {
+      return results;
+    }
+
+    const unassigned = results.filter(r => !r.success).length;
+    let rollbackError = unassigned > 0
+      ? `Atomic run aborted: ${unassigned} restaurant(s) could not be assigned`
+      : undefined;
+
+    if (!rollbackError) {
+      try {
+        await this.timed(context, 'writeMs', () => this.assignmentUtils.createAssignmentsAtomically(
+          context.plannedAssignments,
+          this.config.maxAssignmentsPerDriver,
+          context.releasedAssignmentIds
+        ));
+        return results;
+      } catch (error) {
+        rollbackError = error instanceof Error ? error.message : 'Atomic assignment failed';
+      }
     }
 
+    context.plannedAssignments = [];
+    context.releasedAssignmentIds = [];
+    context.assignedLoad = new Map();
+
+    return results.map(result => result.success
+      ? {
+          restaurantId: result.restaurantId,
+          success: false,
+          driverId: result.driverId,
+          score: result.score,
+          error: rollbackError,
+          reason: 'Rolled back with the rest of the atomic run'
+        }
+      : result);
+  }
+
+  /**
+   * Summarize per-restaurant results into an AlgorithmResult
+   */
+  protected buildAlgorithmResult(
+    request: BulkAssignmentRequest,
+    results: AssignmentResult[],
+    startTime: number,
+    context?: AssignmentRunContext
+  ): AlgorithmResult {
     const executionTime = Date.now() - startTime;
     const successfulAssignments = results.filter(r => r.success).length;
     const averageScore = this.calculateAverageScore(results);
@@ -74,7 +267,24 @@ export abstract class BaseAssignmentAlgorithm {
       successfulAssignments,
       failedAssignments: request.restaurants.length - successfulAssignments,
       averageScore,
-      executionTimeMs: executionTime
+      executionTimeMs: executionTime,
+      ...(context && { phaseTimings: this.summarizePhaseTimings(context) }),
+      ...(request.dryRun && { dryRun: true }),
+      ...(context?.batchId && { batchId: context.batchId })
+    };
+  }
+
+  /**
+   * Phase timings with the snapshot load taken out of candidate filtering,
+   * where it happens on first use
+   */
+  private summarizePhaseTimings(context: AssignmentRunContext): RunPhaseTimings {
+    const snapshotMs = context.snapshot.loadMs ?? 0;
+
+    return {
+      ...context.phaseTimings,
+      snapshotMs,
+      candidatesMs: Math.max(0, context.phaseTimings.candidatesMs - snapshotMs)
     };
   }
 
@@ -83,22 +293,32 @@ export abstract class BaseAssignmentAlgorithm {
    */
   private async assignSingleDriver(
     request: RestaurantRequest,
-    assignmentDate: string
+    assignmentDate: string,
+    context: AssignmentRunContext,
+    excludeDriverId?: number
   ): Promise<AssignmentResult> {
     // Get available drivers efficiently
-    const availableDrivers = await this.getAvailableDriversWithMetrics(assignmentDate, request);
+    const availableDrivers = (await this.timed(context, 'candidatesMs',
+      () => this.getAvailableDriversWithMetrics(assignmentDate, request, context)))
+      .filter(driver => driver.id !== excludeDriverId);
 
     if (availableDrivers.length === 0) {
+      const excluded = context.excludedByRules?.get(request.restaurantId) || [];
+
       return {
         restaurantId: request.restaurantId,
         success: false,
         error: 'No available drivers found',
-        reason: 'No drivers match availability criteria'
+        reason: excluded.length > 0
+          ? 'No drivers match availability criteria and constraint rules'
+          : 'No drivers match availability criteria',
+        ...(excluded.length > 0 && { firedRules: excluded })
       };
     }
 
     // Use algorithm-specific selection logic
-    const selection = await this.selectDriver(availableDrivers, request, assignmentDate);
+    const selection = await this.timed(context, 'selectionMs',
+      () => this.selectDriver(availableDrivers, request, assignmentDate));
 
     if (!selection) {
       return {
@@ -109,98 +329,614 @@ export abstract class BaseAssignmentAlgorithm {
       };
     }
 
-    // Create the assignment
-    const assignmentData: CreateAssignmentDto = {
-      driverId: selection.driver.id,
+    const result = await this.timed(context, 'writeMs',
+      () => this.createAssignment(request, assignmentDate, selection.driver, selection.score, context));
+
+    return result.success
+      ? { ...result, explanation: this.explainSelection(request, availableDrivers, selection, context) }
+      : result;
+  }
+
+  /**
+   * Explain a selection with the drivers it was chosen from and those
+   * filtered out for the restaurant earlier in the run
+   */
+  protected explainSelection(
+    request: RestaurantRequest,
+    eligible: DriverCandidate[],
+    selection: { driver: DriverCandidate; score?: number; candidates?: CandidateScore[] },
+    context?: AssignmentRunContext
+  ): AssignmentExplanationData {
+    return buildExplanation(
+      this.getName(),
+      eligible,
+      selection.candidates || [{ driver: selection.driver, score: selection.score ?? 0 }],
+      context?.rejectedCandidates?.get(request.restaurantId) || [],
+      selection.driver.id
+    );
+  }
+
+  /**
+   * Persist a selected driver for a restaurant.
+   * In a dry run or atomic run the assignment is validated and kept in the run
+   * context instead; atomic runs write it later in finalizeRun.
+   */
+  protected async createAssignment(
+    request: RestaurantRequest,
+    assignmentDate: string,
+    driver: DriverCandidate,
+    score?: number,
+    context?: AssignmentRunContext
+  ): Promise<AssignmentResult> {
+    if (!this.isWithinLoadLimits(driver.id, request.estimatedDeliveries, context)) {
+      return {
+        restaurantId: request.restaurantId,
+        success: false,
+        error: 'Driver has reached their load limit for the planning period',
+        reason: 'Selected driver is over the planning period load limit'
+      };
+    }
+
+    const assignmentData = this.toAssignmentDto(request, assignmentDate, driver, score, context);
+
+    const serviceArea = matchServiceArea(driver.serviceAreas, request) || undefined;
+    const firedRules = [
+      ...(context?.excludedByRules?.get(request.restaurantId) || []),
+      ...(driver.firedRules || [])
+    ];
+
+    if (context?.dryRun || context?.atomic) {
+      const planned = await this.planAssignment(assignmentData, score, context, serviceArea);
+      if (planned.success) {
+        this.trackLoad(context, driver.id, request.estimatedDeliveries);
+      }
+      return this.withFiredRules(planned, firedRules);
+    }
+
+    const assignments = await this.assignmentUtils.bulkCreateAssignments([assignmentData]);
+
+    if (assignments.successful > 0) {
+      if (context) {
+        this.trackLoad(context, driver.id, request.estimatedDeliveries);
+        recordSnapshotAssignment(context.snapshot, assignmentData);
+      }
+      return this.withFiredRules({
+        restaurantId: request.restaurantId,
+        success: true,
+        driverId: driver.id,
+        score,
+        reason: `Assigned by ${this.getName()} algorithm`,
+        serviceArea
+      }, firedRules);
+    } else {
+      return this.withFiredRules({
+        restaurantId: request.restaurantId,
+        success: false,
+        error: assignments.errors[0]?.error || 'Failed to create assignment',
+        reason: 'Database assignment creation failed'
+      }, firedRules);
+    }
+  }
+
+  private toAssignmentDto(
+    request: RestaurantRequest,
+    assignmentDate: string,
+    driver: DriverCandidate,
+    score?: number,
+    context?: AssignmentRunContext
+  ): CreateAssignmentDto {
+    return {
+      driverId: driver.id,
       restaurantId: request.restaurantId,
       assignmentDate,
       pickupTime: request.pickupTime,
+      expectedDurationMinutes: request.expectedDurationMinutes,
       estimatedDeliveries: request.estimatedDeliveries,
       paymentRate: request.paymentRate,
       paymentType: request.paymentType || 'FIXED',
-      algorithmScore: selection.score || 0
+      algorithmScore: score || 0,
+      batchId: context?.batchId,
+      priority: request.priority,
+      restaurantCity: request.city,
+      restaurantState: request.state,
+      restaurantLatitude: request.latitude,
+      restaurantLongitude: request.longitude
     };
+  }
 
-    const assignments = await this.assignmentUtils.bulkCreateAssignments([assignmentData]);
+  /**
+   * Whether one more assignment of `deliveries` keeps the driver within the
+   * planning period limits set by useLoadLimits
+   */
+  protected isWithinLoadLimits(driverId: number, deliveries: number, context?: AssignmentRunContext): boolean {
+    if (!this.loadLimits) {
+      return true;
+    }
 
-    if (assignments.successful > 0) {
+    const { limits, priorLoad } = this.loadLimits;
+    const prior = priorLoad.get(driverId);
+    const assigned = context?.assignedLoad.get(driverId);
+    const assignments = (prior?.assignments || 0) + (assigned?.assignments || 0) + 1;
+    const totalDeliveries = (prior?.deliveries || 0) + (assigned?.deliveries || 0) + deliveries;
+
+    return (limits.maxAssignments === undefined || assignments <= limits.maxAssignments) &&
+      (limits.maxDeliveries === undefined || totalDeliveries <= limits.maxDeliveries);
+  }
+
+  private trackLoad(context: AssignmentRunContext, driverId: number, deliveries: number): void {
+    const load = context.assignedLoad.get(driverId) || { assignments: 0, deliveries: 0 };
+    context.assignedLoad.set(driverId, { assignments: load.assignments + 1, deliveries: load.deliveries + deliveries });
+  }
+
+  private withFiredRules(result: AssignmentResult, firedRules: FiredConstraintRule[]): AssignmentResult {
+    return firedRules.length > 0 ? { ...result, firedRules } : result;
+  }
+
+  /**
+   * Record a proposed assignment in the run context without writing it yet
+   */
+  private async planAssignment(
+    assignmentData: CreateAssignmentDto,
+    score: number | undefined,
+    context: AssignmentRunContext,
+    serviceArea?: ServiceAreaMatch
+  ): Promise<AssignmentResult> {
+    const window = {
+      pickupTime: assignmentData.pickupTime,
+      expectedDurationMinutes: assignmentData.expectedDurationMinutes,
+      estimatedDeliveries: assignmentData.estimatedDeliveries,
+      latitude: assignmentData.restaurantLatitude,
+      longitude: assignmentData.restaurantLongitude
+    };
+    const validation = await this.assignmentUtils.isDriverAvailable(
+      assignmentData.driverId,
+      assignmentData.assignmentDate,
+      assignmentData.restaurantId,
+      window,
+      context.releasedAssignmentIds
+    );
+
+    const driverPlans = context.plannedAssignments.filter(planned => planned.driverId === assignmentData.driverId);
+    if (driverPlans.some(planned => planned.restaurantId === assignmentData.restaurantId)) {
+      validation.isValid = false;
+      validation.errors.push('Driver is already assigned to this restaurant on this date');
+    }
+
+    // Planned pickups are not in the database yet either
+    const conflicts = findPickupConflicts(driverPlans.map(planned => toScheduledAssignment(planned)), window);
+    if (conflicts.length > 0) {
+      validation.isValid = false;
+      validation.errors.push(...conflicts.map(conflict => conflict.message));
+    }
+
+    // Planned deliveries are not in the database yet, so the capacity check above cannot see them
+    const plannedDeliveries = driverPlans.reduce((sum, planned) => sum + planned.estimatedDeliveries, 0);
+    if (validation.isValid && validation.remainingCapacity !== undefined &&
+        plannedDeliveries + assignmentData.estimatedDeliveries > validation.remainingCapacity) {
+      validation.isValid = false;
+      validation.errors.push(
+        `Assignment of ${assignmentData.estimatedDeliveries} deliveries exceeds the driver's remaining capacity ` +
+        `(${Math.max(0, validation.remainingCapacity - plannedDeliveries)} after planned assignments)`
+      );
+    }
+
+    if (!validation.isValid) {
       return {
-        restaurantId: request.restaurantId,
-        success: true,
-        driverId: selection.driver.id,
-        score: selection.score,
-        reason: `Assigned by ${this.getName()} algorithm`
+        restaurantId: assignmentData.restaurantId,
+        success: false,
+        error: validation.errors.join(', '),
+        reason: 'Proposed assignment failed validation'
       };
-    } else {
+    }
+
+    context.plannedAssignments.push(assignmentData);
+
+    return {
+      restaurantId: assignmentData.restaurantId,
+      success: true,
+      driverId: assignmentData.driverId,
+      score,
+      reason: context.dryRun
+        ? `Proposed by ${this.getName()} algorithm (dry run)`
+        : `Assigned by ${this.getName()} algorithm`,
+      serviceArea
+    };
+  }
+
+  /**
+   * Preemption mode: when a restaurant with a positive priority could not be
+   * assigned, take the driver of a lower-priority PENDING assignment (lowest
+   * priority first) and re-place that assignment with another driver.
+   * Returns the result unchanged when preemption is off or no driver can be freed.
+   */
+  protected async preemptIfNeeded(
+    result: AssignmentResult,
+    request: RestaurantRequest,
+    assignmentDate: string,
+    context: AssignmentRunContext
+  ): Promise<AssignmentResult> {
+    const priority = request.priority ?? 0;
+
+    if (result.success || !this.config.preemptionEnabled || priority <= 0) {
+      return result;
+    }
+
+    const victims = await this.assignmentUtils.getPreemptibleAssignments(
+      assignmentDate,
+      priority,
+      context.releasedAssignmentIds
+    );
+
+    for (const victim of victims) {
+      // Candidates as if the victim's assignment were already gone
+      const released = { ...context, releasedAssignmentIds: [...context.releasedAssignmentIds, victim.id] };
+      const candidates = (await this.timed(context, 'candidatesMs',
+        () => this.getAvailableDriversWithMetrics(assignmentDate, request, released)))
+        .filter(driver => driver.id === victim.driverId);
+      const selection = candidates.length > 0
+        ? await this.timed(context, 'selectionMs', () => this.selectDriver(candidates, request, assignmentDate))
+        : null;
+
+      if (!selection) {
+        continue;
+      }
+
+      let preempted: AssignmentResult;
+
+      if (context.dryRun || context.atomic) {
+        context.releasedAssignmentIds.push(victim.id);
+        preempted = await this.timed(context, 'writeMs',
+          () => this.createAssignment(request, assignmentDate, selection.driver, selection.score, context));
+        if (!preempted.success) {
+          context.releasedAssignmentIds.pop();
+          continue;
+        }
+      } else {
+        const assignmentData = this.toAssignmentDto(request, assignmentDate, selection.driver, selection.score, context);
+        let assignmentId: string;
+        try {
+          ({ assignmentId } = await this.timed(context, 'writeMs',
+            () => this.assignmentUtils.preemptAssignment(victim.id, assignmentData)));
+        } catch {
+          continue;
+        }
+        this.trackLoad(context, selection.driver.id, request.estimatedDeliveries);
+        releaseSnapshotAssignment(context.snapshot, victim.id);
+        recordSnapshotAssignment(context.snapshot, { ...assignmentData, id: assignmentId });
+
+        preempted = {
+          restaurantId: request.restaurantId,
+          success: true,
+          driverId: selection.driver.id,
+          score: selection.score,
+          reason: `Assigned by ${this.getName()} algorithm`,
+          serviceArea: matchServiceArea(selection.driver.serviceAreas, request) || undefined
+        };
+      }
+
+      const preemption: PreemptionRecord = {
+        assignmentId: victim.id,
+        restaurantId: victim.restaurantId,
+        priority: victim.priority,
+        driverId: victim.driverId,
+        replacement: await this.replacePreempted(victim, assignmentDate, context)
+      };
+
       return {
-        restaurantId: request.restaurantId,
-        success: false,
-        error: assignments.errors[0]?.error || 'Failed to create assignment',
-        reason: 'Database assignment creation failed'
+        ...preempted,
+        reason: `${preempted.reason}, preempting a priority ${victim.priority} assignment at ${victim.restaurantId}`,
+        preemption,
+        explanation: this.explainSelection(request, candidates, selection, context)
       };
     }
+
+    return result;
   }
 
   /**
-   * Get available drivers with performance metrics
+   * Re-place a preempted assignment with a driver other than the one it lost.
+   * Never preempts in turn.
+   */
+  private async replacePreempted(
+    victim: RestaurantAssignment,
+    assignmentDate: string,
+    context: AssignmentRunContext
+  ): Promise<PreemptionRecord['replacement']> {
+    try {
+      const result = await this.assignSingleDriver(requestFromAssignment(victim), assignmentDate, context, victim.driverId);
+
+      return result.success
+        ? { success: true, driverId: result.driverId }
+        : { success: false, error: result.error };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Get available drivers with performance metrics.
+   * With a run context, the drivers filtered out and why are kept in
+   * `context.rejectedCandidates` for the restaurant.
    */
   protected async getAvailableDriversWithMetrics(
     assignmentDate: string,
-    request: RestaurantRequest
+    request: RestaurantRequest,
+    context?: AssignmentRunContext
   ): Promise<DriverCandidate[]> {
-    // Get basic available drivers
-    const basicDrivers = await this.assignmentUtils.getAvailableDrivers(assignmentDate);
+    // Get drivers on shift for the pickup window with capacity for its deliveries
+    const window = {
+      pickupTime: request.pickupTime,
+      expectedDurationMinutes: request.expectedDurationMinutes,
+      estimatedDeliveries: request.estimatedDeliveries,
+      latitude: request.latitude,
+      longitude: request.longitude
+    };
+    const availability = await this.assignmentUtils.getDriverAvailability(
+      assignmentDate,
+      window,
+      context?.releasedAssignmentIds,
+      context?.snapshot
+    );
+    const rejected: RejectedCandidate[] = availability.rejected.map(driver => ({ ...driver, reasons: [...driver.reasons] }));
+    const keepIf = (driver: { id: number; name: string | null }, passes: boolean, code: CandidateRejectionCode, message: string) => {
+      if (!passes) {
+        addRejection(rejected, driver, code, message);
+      }
+      return passes;
+    };
+    const plannedConflict = (driverId: number) => findPickupConflicts(
+      context?.plannedAssignments.filter(p => p.driverId === driverId).map(p => toScheduledAssignment(p)) || [],
+      window
+    )[0];
+
+    const basicDrivers = availability.available
+      // Count assignments proposed earlier in this run but not yet written
+      .map(driver => {
+        const planned = context?.plannedAssignments.filter(p => p.driverId === driver.id) || [];
+        const plannedDeliveries = planned.reduce((sum, p) => sum + p.estimatedDeliveries, 0);
+
+        return {
+          ...driver,
+          currentAssignments: driver.currentAssignments + planned.length,
+          scheduledDeliveries: driver.scheduledDeliveries + plannedDeliveries,
+          remainingCapacity: Math.max(0, driver.remainingCapacity - plannedDeliveries)
+        };
+      })
+      .filter(driver => keepIf(driver, driver.remainingCapacity >= request.estimatedDeliveries, 'CAPACITY_EXCEEDED',
+        `Assignment of ${request.estimatedDeliveries} deliveries exceeds the driver's remaining capacity ` +
+        `(${driver.remainingCapacity} after assignments planned in this run)`))
+      .filter(driver => keepIf(driver, this.isWithinLoadLimits(driver.id, request.estimatedDeliveries, context), 'LOAD_LIMIT',
+        'Driver has reached their load limit for the planning period'))
+      .filter(driver => {
+        const conflict = plannedConflict(driver.id);
+        if (conflict) {
+          addRejection(rejected, driver, 'PICKUP_CONFLICT', conflict.message, conflict.conflict);
+        }
+        return !conflict;
+      })
+      // Drivers without a verified vehicle are already excluded; check the restaurant's requirements
+      .filter(driver => keepIf(driver,
+        !request.vehicleRequirements || matchVehicle(driver.vehicles, request.vehicleRequirements) !== null,
+        'VEHICLE_MISMATCH', "No verified vehicle meets the restaurant's vehicle requirements"));
 
-    // Enhance with performance metrics
+    // Enhance with performance metrics and ratings (drivers with too few ratings have none)
+    const ratings = basicDrivers.length > 0
+      ? await this.assignmentUtils.getDriverRatings(assignmentDate, context?.snapshot)
+      : new Map<number, number>();
     const enhancedDrivers = await Promise.all(
       basicDrivers.map(async (driver) => {
-        const metrics = await this.getDriverMetrics(driver.id, assignmentDate);
+        const metrics = await this.getDriverMetrics(driver.id, assignmentDate, context?.snapshot);
+        const plannedCount = context?.plannedAssignments.filter(p => p.driverId === driver.id).length || 0;
+
         return {
           ...driver,
           recentDeliveries: metrics.recentDeliveries,
-          completionRate: metrics.completionRate
+          recentAssignments: metrics.recentAssignments + plannedCount,
+          completionRate: metrics.completionRate,
+          averageRating: ratings.get(driver.id)
         };
       })
     );
 
+    const cappedDrivers = this.applyFairnessCap(enhancedDrivers);
+    enhancedDrivers
+      .filter(driver => !cappedDrivers.includes(driver))
+      .forEach(driver => addRejection(rejected, driver, 'FAIRNESS_CAP',
+        `Recent workload is more than ${this.config.maxAssignmentsAboveMedian} assignment(s) above the median`));
+
+    // Attach the service area covering the restaurant (radius when it has coordinates, else city/state)
+    const matchedDrivers = cappedDrivers.map(driver => ({
+      ...driver,
+      serviceAreaMatch: matchServiceArea(driver.serviceAreas, request) || undefined
+    }));
+
     // Filter by geography if enabled
-    if (this.config.geographicPriorityEnabled) {
-      return enhancedDrivers.filter(driver =>
-        driver.serviceAreas.some(area =>
-          area.city.toLowerCase() === request.city.toLowerCase() &&
-          area.state.toLowerCase() === request.state.toLowerCase()
+    const eligibleDrivers = this.config.geographicPriorityEnabled
+      ? matchedDrivers.filter(driver => keepIf(driver, driver.serviceAreaMatch !== undefined, 'OUTSIDE_SERVICE_AREA',
+          `No active service area covers the restaurant in ${request.city}, ${request.state}`))
+      : matchedDrivers;
+
+    const remainingDrivers = await this.applyConstraintRules(eligibleDrivers, request, assignmentDate, context);
+
+    if (context) {
+      eligibleDrivers
+        .filter(driver => !remainingDrivers.some(remaining => remaining.id === driver.id))
+        .forEach(driver => (context.excludedByRules?.get(request.restaurantId) || [])
+          .filter(rule => rule.driverIds.includes(driver.id))
+          .forEach(rule => addRejection(rejected, driver, 'CONSTRAINT_RULE', `Excluded by constraint rule '${rule.name}'`)));
+
+      context.rejectedCandidates = context.rejectedCandidates || new Map();
+      context.rejectedCandidates.set(request.restaurantId, rejected);
+    }
+
+    return remainingDrivers;
+  }
+
+  /**
+   * Fairness mode: when maxAssignmentsAboveMedian is set, drop drivers whose
+   * recent workload would end up more than that many assignments above the
+   * median of the drivers available today. The least loaded driver always
+   * stays eligible, so the cap never empties the candidate list.
+   */
+  protected applyFairnessCap<T extends DriverCandidate>(drivers: T[]): T[] {
+    const cap = this.config.maxAssignmentsAboveMedian;
+
+    if (cap === undefined || drivers.length === 0) {
+      return drivers;
+    }
+
+    const medianWorkload = median(drivers.map(driver => driver.recentAssignments || 0));
+
+    return drivers.filter(driver => (driver.recentAssignments || 0) + 1 - medianWorkload <= cap);
+  }
+
+  /**
+   * Drop the drivers hard constraint rules fire for and attach soft rule
+   * adjustments to the rest. Exclusions are kept in the run context so
+   * results can list the rules that fired.
+   */
+  private async applyConstraintRules(
+    drivers: DriverCandidate[],
+    request: RestaurantRequest,
+    assignmentDate: string,
+    context?: AssignmentRunContext
+  ): Promise<DriverCandidate[]> {
+    let rules: ConstraintRuleDefinition[];
+    if (context?.constraintRules) {
+      rules = context.constraintRules;
+    } else {
+      rules = await this.constraintRulesService.getActiveRules();
+      if (context) {
+        context.constraintRules = rules;
+      }
+    }
+
+    const restaurantRules = rules.filter(rule => rule.restaurantId === null || rule.restaurantId === request.restaurantId);
+    if (restaurantRules.length === 0 || drivers.length === 0) {
+      return drivers;
+    }
+
+    // Only look up past service when a rule needs it
+    const recentServiceDays = restaurantRules
+      .filter(rule => rule.type === 'SERVED_RESTAURANT_RECENTLY')
+      .map(rule => rule.params.days ?? DEFAULT_RECENT_SERVICE_DAYS);
+    const lastServedAt = recentServiceDays.length > 0
+      ? await this.constraintRulesService.getLastServedDates(
+          request.restaurantId,
+          drivers.map(driver => driver.id),
+          assignmentDate,
+          Math.max(...recentServiceDays)
         )
-      );
+      : new Map<number, string>();
+
+    const result = applyConstraintRules(restaurantRules, drivers, request.restaurantId, { assignmentDate, lastServedAt });
+
+    if (context) {
+      context.excludedByRules = context.excludedByRules || new Map();
+      context.excludedByRules.set(request.restaurantId, result.excluded);
     }
 
-    return enhancedDrivers;
+    return result.drivers;
   }
 
   /**
-   * Get driver performance metrics
+   * Attach restaurant affinity scores from completed assignments at the
+   * restaurant. Only algorithms that use affinity call this, to avoid the query.
    */
-  private async getDriverMetrics(driverId: number, assignmentDate: string): Promise<{
+  protected async attachAffinityScores(
+    drivers: DriverCandidate[],
+    request: RestaurantRequest,
+    assignmentDate: string
+  ): Promise<DriverCandidate[]> {
+    if (drivers.length === 0) {
+      return drivers;
+    }
+
+    const startDate = new Date(assignmentDate);
+    startDate.setDate(startDate.getDate() - AFFINITY_LOOKBACK_DAYS);
+
+    const visits = await this.assignmentUtils.getCompletedRestaurantVisits(
+      request.restaurantId,
+      drivers.map(driver => driver.id),
+      startDate.toISOString().split('T')[0],
+      assignmentDate
+    );
+
+    return drivers.map(driver => ({
+      ...driver,
+      affinityScore: calculateAffinityScore(visits.get(driver.id) || [], assignmentDate)
+    }));
+  }
+
+  /**
+   * Highest-scoring entry. Ties go to the driver with the higher affinity
+   * score when affinity was loaded, then the higher average rating,
+   * otherwise to the later entry.
+   */
+  protected selectHighestScore<T extends { driver: DriverCandidate; score: number }>(entries: T[]): T {
+    return entries.reduce((prev, current) => {
+      if (prev.score !== current.score) {
+        return prev.score > current.score ? prev : current;
+      }
+      if ((prev.driver.affinityScore ?? 0) !== (current.driver.affinityScore ?? 0)) {
+        return (prev.driver.affinityScore ?? 0) > (current.driver.affinityScore ?? 0) ? prev : current;
+      }
+      return (prev.driver.averageRating ?? 0) > (current.driver.averageRating ?? 0) ? prev : current;
+    });
+  }
+
+  /**
+   * A driver's average rating on a 0-100 scale, or undefined while they
+   * have too few ratings to count
+   */
+  protected ratingScore(driver: DriverCandidate): number | undefined {
+    return driver.averageRating !== undefined
+      ? ((driver.averageRating - 1) / 4) * 100
+      : undefined;
+  }
+
+  /**
+   * Score from additive breakdown points plus soft constraint rules,
+   * rounded to 2 decimal places
+   */
+  protected sumBreakdown(breakdown: Record<string, number>, driver: DriverCandidate): number {
+    const score = Object.values(breakdown).reduce((sum, points) => sum + points, 0) + (driver.constraintAdjustment || 0);
+    return Math.round(score * 100) / 100;
+  }
+
+  /**
+   * Get driver performance metrics, from the run's snapshot when given one
+   */
+  private async getDriverMetrics(driverId: number, assignmentDate: string, snapshot?: DaySnapshot): Promise<{
     recentDeliveries: number;
+    recentAssignments: number;
     completionRate: number;
   }> {
-    const startDate = new Date(assignmentDate);
-    startDate.setDate(startDate.getDate() - (this.config.lookbackDays || 7));
-    const lookbackStart = startDate.toISOString().split('T')[0];
-
     const workload = await this.assignmentUtils.getDriverWorkload(
       driverId,
-      lookbackStart,
-      assignmentDate
+      this.getLookbackStart(assignmentDate),
+      assignmentDate,
+      snapshot
     );
 
     return {
       recentDeliveries: workload.averageDeliveries,
+      recentAssignments: workload.totalAssignments,
       completionRate: workload.totalAssignments > 0 
         ? (workload.completedAssignments / workload.totalAssignments) * 100 
         : 100
     };
   }
 
+  /**
+   * First day of the lookback period used for recent workload
+   */
+  protected getLookbackStart(assignmentDate: string): string {
+    const startDate = new Date(assignmentDate);
+    startDate.setDate(startDate.getDate() - (this.config.lookbackDays || 7));
+    return startDate.toISOString().split('T')[0];
+  }
+
   /**
    * Calculate average score from results
    */
@@ -221,22 +957,6 @@ export abstract class BaseAssignmentAlgorithm {
     lat2: number,
     lon2: number
   ): number {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = this.degreesToRadians(lat2 - lat1);
-    const dLon = this.degreesToRadians(lon2 - lon1);
-
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.degreesToRadians(lat1)) *
-      Math.cos(this.degreesToRadians(lat2)) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
-
-  private degreesToRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
+    return haversineDistanceKm(lat1, lon1, lat2, lon2);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,101 @@
+import {
+  ConstraintFacts,
+  ConstraintRuleDefinition,
+  DriverCandidate,
+  FiredConstraintRule
+} from './algorithms.types';
+
+export const DEFAULT_RECENT_SERVICE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a rule is scoped to the restaurant (and driver, when given).
+ * A null scope on the rule matches everything.
+ */
+export function ruleAppliesTo(rule: ConstraintRuleDefinition, restaurantId: string, driverId?: number): boolean {
+  return (rule.restaurantId === null || rule.restaurantId === restaurantId) &&
+    (driverId === undefined || rule.driverId === null || rule.driverId === driverId);
+}
+
+/**
+ * Whether a rule's condition holds for a driver
+ */
+export function ruleFires(rule: ConstraintRuleDefinition, driver: DriverCandidate, facts: ConstraintFacts): boolean {
+  switch (rule.type) {
+    case 'DRIVER_RESTAURANT':
+      return true;
+    case 'MIN_COMPLETION_RATE':
+      return driver.completionRate < (rule.params.minRate ?? 0);
+    case 'SERVED_RESTAURANT_RECENTLY': {
+      const lastServedAt = facts.lastServedAt.get(driver.id);
+      if (!lastServedAt) {
+        return false;
+      }
+
+      const days = rule.params.days ?? DEFAULT_RECENT_SERVICE_DAYS;
+      const daysAgo = (Date.parse(facts.assignmentDate) - Date.parse(lastServedAt)) / DAY_MS;
+      return daysAgo > 0 && daysAgo <= days;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Apply constraint rules to the candidates for one restaurant.
+ *
+ * Hard rules remove every driver they fire for. Soft rules add their
+ * scoreAdjustment to the driver's `constraintAdjustment`, which each algorithm
+ * adds to its own score. Returns the remaining candidates and the hard rules
+ * that excluded someone.
+ */
+export function applyConstraintRules(
+  rules: ConstraintRuleDefinition[],
+  drivers: DriverCandidate[],
+  restaurantId: string,
+  facts: ConstraintFacts
+): { drivers: DriverCandidate[]; excluded: FiredConstraintRule[] } {
+  const restaurantRules = rules.filter(rule => ruleAppliesTo(rule, restaurantId));
+  const excluded = new Map<string, FiredConstraintRule>();
+  const remaining: DriverCandidate[] = [];
+
+  for (const driver of drivers) {
+    const firing = restaurantRules.filter(rule => ruleAppliesTo(rule, restaurantId, driver.id) && ruleFires(rule, driver, facts));
+    const hard = firing.filter(rule => rule.kind === 'HARD');
+
+    if (hard.length > 0) {
+      hard.forEach(rule => {
+        const fired = excluded.get(rule.id) || toFiredRule(rule);
+        fired.driverIds.push(driver.id);
+        excluded.set(rule.id, fired);
+      });
+      continue;
+    }
+
+    const soft = firing.filter(rule => rule.kind === 'SOFT');
+
+    remaining.push(soft.length === 0
+      ? driver
+      : {
+          ...driver,
+          constraintAdjustment: soft.reduce((sum, rule) => sum + rule.scoreAdjustment, 0),
+          firedRules: soft.map(rule => ({ ...toFiredRule(rule), driverIds: [driver.id], scoreAdjustment: rule.scoreAdjustment }))
+        });
+  }
+
+  return {
+    drivers: remaining,
+    excluded: Array.from(excluded.values())
+  };
+}
+
+function toFiredRule(rule: ConstraintRuleDefinition): FiredConstraintRule {
+  return {
+    ruleId: rule.id,
+    name: rule.name,
+    kind: rule.kind,
+    type: rule.type,
+    driverIds: []
+  };
+}
@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { AlgorithmsService, AlgorithmType, AlgorithmServiceConfig } from './algorithms.service';
-import { BulkAssignmentRequest, WeightConfig } from './algorithms.types';
+import { BulkAssignmentRequest, WeightConfig, AlgorithmRunFilters, AlgorithmConfigSchema, WeeklyPlanRequest } from './algorithms.types';
 
 export class AlgorithmsController {
   private algorithmsService: AlgorithmsService;
@@ -36,9 +36,51 @@ export class AlgorithmsController {
         data: result
       });
     } catch (error) {
-      res.status(500).json({
+      const message = error instanceof Error ? error.message : 'Assignment execution failed';
+      const status = message.startsWith('Invalid')
+        ? 400
+        : message.startsWith('Weight profile') ? 404 : 500;
+
+      res.status(status).json({
+        success: false,
+        error: message
+      });
+    }
+  }
+
+  /**
+   * Plan several days at once with per-driver load limits over the range
+   * POST /api/algorithms/assign/week
+   */
+  async planWeek(req: Request, res: Response): Promise<void> {
+    try {
+      const { request, algorithm } = req.body;
+
+      if (!request || !request.startDate || !request.endDate || !request.days) {
+        res.status(400).json({
+          error: 'Invalid request. Must include startDate, endDate and days'
+        });
+        return;
+      }
+
+      const result = await this.algorithmsService.planWeek(
+        request as WeeklyPlanRequest,
+        algorithm as AlgorithmType
+      );
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Weekly planning failed';
+      const status = message.startsWith('Invalid')
+        ? 400
+        : message.startsWith('Weight profile') ? 404 : 500;
+
+      res.status(status).json({
         success: false,
-        error: error instanceof Error ? error.message : 'Assignment execution failed'
+        error: message
       });
     }
   }
@@ -73,10 +115,89 @@ export class AlgorithmsController {
         success: true,
         data: resultsObject
       });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Algorithm comparison failed';
+      res.status(message.startsWith('Invalid') ? 400 : 500).json({
+        success: false,
+        error: message
+      });
+    }
+  }
+
+  /**
+   * Get a dry-run plan
+   * GET /api/algorithms/plans/:id
+   */
+  async getPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const plan = await this.algorithmsService.getPlan(req.params.id);
+
+      if (!plan) {
+        res.status(404).json({
+          success: false,
+          error: 'Plan not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: plan
+      });
     } catch (error) {
       res.status(500).json({
         success: false,
-        error: error instanceof Error ? error.message : 'Algorithm comparison failed'
+        error: error instanceof Error ? error.message : 'Failed to get plan'
+      });
+    }
+  }
+
+  /**
+   * Commit the assignments proposed by a dry-run plan
+   * POST /api/algorithms/plans/:id/commit
+   */
+  async commitPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.algorithmsService.commitPlan(req.params.id);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Plan commit failed';
+      const status = message === 'Plan not found'
+        ? 404
+        : message === 'Plan has already been committed' ? 409 : 500;
+
+      res.status(status).json({
+        success: false,
+        error: message
+      });
+    }
+  }
+
+  /**
+   * Revert the assignments created by an algorithm run
+   * DELETE /api/algorithms/runs/:batchId
+   */
+  async revertRun(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.algorithmsService.revertRun(req.params.batchId);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Run revert failed';
+      const status = message === 'Batch not found'
+        ? 404
+        : message === 'Batch has assignments that are already started or completed' ? 409 : 500;
+
+      res.status(status).json({
+        success: false,
+        error: message
       });
     }
   }
@@ -125,10 +246,15 @@ export class AlgorithmsController {
    */
   async updateWeights(req: Request, res: Response): Promise<void> {
     try {
-      const weights = req.body as Partial<WeightConfig>;
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { note, ...weights } = req.body as Partial<WeightConfig> & { note?: string };
       
       // Validate weights
-      const validWeightKeys = ['locationWeight', 'proximityWeight', 'performanceWeight', 'workloadWeight'];
+      const validWeightKeys = ['locationWeight', 'proximityWeight', 'performanceWeight', 'workloadWeight', 'vehicleWeight', 'affinityWeight'];
       const invalidKeys = Object.keys(weights).filter(key => !validWeightKeys.includes(key));
       
       if (invalidKeys.length > 0) {
@@ -138,8 +264,7 @@ export class AlgorithmsController {
         return;
       }
 
-      this.algorithmsService.updateWeights(weights);
-      const currentWeights = this.algorithmsService.getWeights();
+      const currentWeights = await this.algorithmsService.updateWeights(weights, req.user.id, note);
 
       res.json({
         success: true,
@@ -149,9 +274,10 @@ export class AlgorithmsController {
         }
       });
     } catch (error) {
-      res.status(500).json({
+      const message = error instanceof Error ? error.message : 'Weight update failed';
+      res.status(message.startsWith('Invalid') ? 400 : 500).json({
         success: false,
-        error: error instanceof Error ? error.message : 'Weight update failed'
+        error: message
       });
     }
   }
@@ -162,7 +288,7 @@ export class AlgorithmsController {
    */
   async getWeights(req: Request, res: Response): Promise<void> {
     try {
-      const weights = this.algorithmsService.getWeights();
+      const weights = await this.algorithmsService.getWeights();
       
       res.json({
         success: true,
@@ -213,29 +339,57 @@ export class AlgorithmsController {
   }
 
   /**
-   * Get algorithm performance metrics
-   * GET /api/algorithms/metrics
+   * Fairness report: Gini coefficient and max/min ratio of assignments,
+   * deliveries and earnings per driver, fleet-wide and per city
+   * GET /api/algorithms/fairness
    */
-  async getMetrics(req: Request, res: Response): Promise<void> {
+  async getFairnessReport(req: Request, res: Response): Promise<void> {
     try {
-      const { algorithm } = req.query;
-      
-      const metrics = this.algorithmsService.getAlgorithmMetrics(algorithm as AlgorithmType);
-      
-      let responseData: any;
-      if (metrics instanceof Map) {
-        // Convert Map to object
-        responseData = {};
-        metrics.forEach((value, key) => {
-          responseData[key] = value;
+      const { startDate, endDate } = req.query;
+
+      if (!startDate || !endDate) {
+        res.status(400).json({
+          error: 'startDate and endDate query parameters are required'
+        });
+        return;
+      }
+
+      const start = new Date(startDate as string);
+      const end = new Date(endDate as string);
+
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid date range. Use YYYY-MM-DD with startDate on or before endDate'
         });
-      } else {
-        responseData = metrics;
+        return;
       }
 
+      const report = await this.algorithmsService.getFairnessReport(startDate as string, endDate as string);
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Fairness report failed'
+      });
+    }
+  }
+
+  /**
+   * Get algorithm performance metrics aggregated over persisted runs
+   * GET /api/algorithms/metrics
+   */
+  async getMetrics(req: Request, res: Response): Promise<void> {
+    try {
+      const metrics = await this.algorithmsService.getAlgorithmMetrics(this.parseRunFilters(req));
+
       res.json({
         success: true,
-        data: responseData
+        data: metrics
       });
     } catch (error) {
       res.status(500).json({
@@ -246,49 +400,80 @@ export class AlgorithmsController {
   }
 
   /**
-   * Reset algorithm metrics
-   * DELETE /api/algorithms/metrics
+   * List persisted algorithm runs
+   * GET /api/algorithms/runs
    */
-  async resetMetrics(req: Request, res: Response): Promise<void> {
+  async listRuns(req: Request, res: Response): Promise<void> {
     try {
-      const { algorithm } = req.query;
-      
-      this.algorithmsService.resetMetrics(algorithm as AlgorithmType);
-      
+      const filters: AlgorithmRunFilters = {
+        ...this.parseRunFilters(req),
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined
+      };
+
+      const result = await this.algorithmsService.listRuns(filters);
+
       res.json({
         success: true,
-        data: {
-          message: algorithm 
-            ? `Metrics reset for ${algorithm} algorithm`
-            : 'All algorithm metrics reset'
-        }
+        data: result
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list runs'
+      });
+    }
+  }
+
+  /**
+   * Get a persisted algorithm run with its request and results
+   * GET /api/algorithms/runs/:id
+   */
+  async getRun(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await this.algorithmsService.getRun(req.params.id);
+
+      if (!run) {
+        res.status(404).json({
+          success: false,
+          error: 'Run not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: run
       });
     } catch (error) {
       res.status(500).json({
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to reset metrics'
+        error: error instanceof Error ? error.message : 'Failed to get run'
       });
     }
   }
 
   /**
-   * Get available algorithms
+   * Get registered algorithms with their descriptions and config schemas
    * GET /api/algorithms/available
    */
   async getAvailableAlgorithms(req: Request, res: Response): Promise<void> {
     try {
-      const algorithms = this.algorithmsService.getAvailableAlgorithms();
+      const registered = this.algorithmsService.listAlgorithms();
+      const descriptions: Record<string, string> = {};
+      const configSchemas: Record<string, AlgorithmConfigSchema> = {};
+
+      registered.forEach(algorithm => {
+        descriptions[algorithm.name] = algorithm.description;
+        configSchemas[algorithm.name] = algorithm.configSchema;
+      });
       
       res.json({
         success: true,
         data: {
-          algorithms,
-          descriptions: {
-            'simple': 'Basic load balancing algorithm',
-            'geographic': 'Location-based assignment with proximity scoring',
-            'workload-balancing': 'Historical workload analysis for fair distribution',
-            'weighted-scoring': 'Perceptron-inspired multi-criteria scoring system'
-          }
+          algorithms: registered.map(algorithm => algorithm.name),
+          descriptions,
+          configSchemas
         }
       });
     } catch (error) {
@@ -330,9 +515,96 @@ export class AlgorithmsController {
         data: resultsObject
       });
     } catch (error) {
-      res.status(500).json({
+      const message = error instanceof Error ? error.message : 'Benchmark failed';
+      res.status(message.startsWith('Invalid') ? 400 : 500).json({
+        success: false,
+        error: message
+      });
+    }
+  }
+
+  /**
+   * Replay a past day through algorithms in memory against a snapshot of that day
+   * POST /api/algorithms/replay
+   */
+  async replayDay(req: Request, res: Response): Promise<void> {
+    try {
+      const { date, algorithms, config } = req.body;
+
+      if (!date) {
+        res.status(400).json({
+          error: 'date is required'
+        });
+        return;
+      }
+
+      const day = new Date(date);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(day.getTime()) || date >= new Date().toISOString().split('T')[0]) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid date. Use YYYY-MM-DD for a day before today'
+        });
+        return;
+      }
+
+      if (algorithms !== undefined && !Array.isArray(algorithms)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid algorithms. Expected an array of algorithm names'
+        });
+        return;
+      }
+
+      const report = await this.algorithmsService.replayDay(date, algorithms as AlgorithmType[] | undefined, config);
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Replay failed';
+      res.status(message.startsWith('Invalid') ? 400 : 500).json({
+        success: false,
+        error: message
+      });
+    }
+  }
+
+  /**
+   * Run a synthetic dataset through algorithms in memory
+   * POST /api/algorithms/synthetic-datasets/:id/run
+   */
+  async runSyntheticDataset(req: Request, res: Response): Promise<void> {
+    try {
+      const { algorithms, config } = req.body;
+
+      if (algorithms !== undefined && !Array.isArray(algorithms)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid algorithms. Expected an array of algorithm names'
+        });
+        return;
+      }
+
+      const report = await this.algorithmsService.runSyntheticDataset(
+        req.params.id,
+        algorithms as AlgorithmType[] | undefined,
+        config
+      );
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Synthetic dataset run failed';
+      const status = message.startsWith('Invalid')
+        ? 400
+        : message.endsWith('not found') ? 404 : 500;
+
+      res.status(status).json({
         success: false,
-        error: error instanceof Error ? error.message : 'Benchmark failed'
+        error: message
       });
     }
   }
@@ -344,7 +616,6 @@ export class AlgorithmsController {
   async healthCheck(req: Request, res: Response): Promise<void> {
     try {
       const algorithms = this.algorithmsService.getAvailableAlgorithms();
-      const metrics = this.algorithmsService.getAlgorithmMetrics();
       
       res.json({
         success: true,
@@ -352,7 +623,6 @@ export class AlgorithmsController {
           status: 'healthy',
           availableAlgorithms: algorithms.length,
           algorithms,
-          totalMetricsTracked: metrics instanceof Map ? metrics.size : 0,
           timestamp: new Date().toISOString()
         }
       });
@@ -363,4 +633,20 @@ export class AlgorithmsController {
       });
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Read the shared run filters from the query string
+   */
+  private parseRunFilters(req: Request): AlgorithmRunFilters {
+    const { algorithm, assignmentDate, startDate, endDate, dryRun, requestHash } = req.query;
+
+    return {
+      algorithm: algorithm as string | undefined,
+      assignmentDate: assignmentDate as string | undefined,
+      startDate: startDate as string | undefined,
+      endDate: endDate as string | undefined,
+      dryRun: dryRun !== undefined ? dryRun === 'true' : undefined,
+      requestHash: requestHash as string | undefined
+    };
+  }
+}
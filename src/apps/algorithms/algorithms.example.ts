@@ -154,12 +154,13 @@ export async function example4_CustomWeights() {
       workloadWeight: 0.1     // Decreased from 0.15
     };
     
-    console.log('Current weights:', algorithmsService.getWeights());
+    console.log('Current weights:', await algorithmsService.getWeights());
     
-    algorithmsService.updateWeights(newWeights);
-    console.log('Updated weights:', algorithmsService.getWeights());
-    
-    const result = await algorithmsService.executeAssignment(sampleRequest, 'weighted-scoring');
+    // Per-run weights take precedence over weight profiles and are not persisted
+    const result = await algorithmsService.executeAssignment(
+      { ...sampleRequest, weightConfig: newWeights },
+      'weighted-scoring'
+    );
     
     console.log(`\nResults with custom weights:`);
     console.log(`Success Rate: ${result.successfulAssignments}/${result.totalRequests}`);
@@ -259,23 +260,21 @@ export async function example7_AlgorithmMetrics() {
   console.log('\nExample 7: Algorithm Performance Metrics');
   
   try {
-    const metrics = algorithmsService.getAlgorithmMetrics();
+    const metrics = await algorithmsService.getAlgorithmMetrics();
     
-    if (metrics instanceof Map) {
-      console.log('\nAlgorithm Performance Metrics:');
-      console.log('Algorithm         | Runs | Avg Time (ms) | Success Rate % | Avg Score');
-      console.log('─'.repeat(70));
-      
-      metrics.forEach((metric, algorithm) => {
-        console.log(
-          `${algorithm.padEnd(17)} | ` +
-          `${metric.totalRuns.toString().padEnd(4)} | ` +
-          `${metric.averageExecutionTime.toFixed(1).padEnd(13)} | ` +
-          `${(metric.successRate * 100).toFixed(1).padEnd(14)} | ` +
-          `${metric.averageScore.toFixed(2)}`
-        );
-      });
-    }
+    console.log('\nAlgorithm Performance Metrics:');
+    console.log('Algorithm         | Runs | Avg Time (ms) | Success Rate % | Avg Score');
+    console.log('─'.repeat(70));
+    
+    metrics.forEach(metric => {
+      console.log(
+        `${metric.algorithm.padEnd(17)} | ` +
+        `${metric.totalRuns.toString().padEnd(4)} | ` +
+        `${metric.averageExecutionTime.toFixed(1).padEnd(13)} | ` +
+        `${(metric.successRate * 100).toFixed(1).padEnd(14)} | ` +
+        `${metric.averageScore.toFixed(2)}`
+      );
+    });
     
     return metrics;
   } catch (error) {
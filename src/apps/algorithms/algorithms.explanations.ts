@@ -0,0 +1,91 @@
+import {
+  AssignmentExplanationData,
+  AssignmentResult,
+  CandidateRejectionCode,
+  CandidateScore,
+  DriverCandidate,
+  RankedCandidate,
+  RejectedCandidate
+} from './algorithms.types';
+import { PickupConflict } from '../assignments/assignments.types';
+
+/**
+ * Add a rejection reason, merging reasons for the same driver
+ */
+export function addRejection(
+  rejected: RejectedCandidate[],
+  driver: { id: number; name: string | null },
+  code: CandidateRejectionCode,
+  message: string,
+  conflict?: PickupConflict
+): void {
+  const existing = rejected.find(r => r.driverId === driver.id);
+  const reason = conflict ? { code, message, conflict } : { code, message };
+
+  if (existing) {
+    existing.reasons.push(reason);
+  } else {
+    rejected.push({ driverId: driver.id, name: driver.name, reasons: [reason] });
+  }
+}
+
+/**
+ * Rank scored candidates, highest score first. On equal scores the selected
+ * driver comes first, since the algorithm's tie-breaker picked them.
+ */
+export function rankCandidates(candidates: CandidateScore[], selectedDriverId?: number): RankedCandidate[] {
+  return [...candidates]
+    .sort((a, b) => (b.score - a.score) ||
+      (Number(b.driver.id === selectedDriverId) - Number(a.driver.id === selectedDriverId)))
+    .map((candidate, index) => ({
+      rank: index + 1,
+      driverId: candidate.driver.id,
+      name: candidate.driver.name,
+      score: candidate.score,
+      ...(candidate.breakdown && { breakdown: candidate.breakdown }),
+      ...(candidate.driver.constraintAdjustment && { constraintAdjustment: candidate.driver.constraintAdjustment }),
+      selected: candidate.driver.id === selectedDriverId
+    }));
+}
+
+/**
+ * Explain one decision: the ranked candidates, the drivers filtered out before
+ * selection and the eligible drivers the algorithm chose not to score
+ */
+export function buildExplanation(
+  algorithm: string,
+  eligible: DriverCandidate[],
+  candidates: CandidateScore[],
+  rejected: RejectedCandidate[],
+  selectedDriverId?: number
+): AssignmentExplanationData {
+  const allRejected = rejected.map(r => ({ ...r, reasons: [...r.reasons] }));
+  const scoredIds = new Set(candidates.map(candidate => candidate.driver.id));
+
+  eligible
+    .filter(driver => !scoredIds.has(driver.id))
+    .forEach(driver => addRejection(allRejected, driver, 'NOT_SCORED', `Left out by the ${algorithm} algorithm before scoring`));
+
+  return {
+    algorithm,
+    candidates: rankCandidates(candidates, selectedDriverId),
+    rejected: allRejected
+  };
+}
+
+/**
+ * Round breakdown points to 2 decimals, as scores are
+ */
+export function roundBreakdown(breakdown: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(breakdown).map(([factor, points]) => [factor, Math.round(points * 100) / 100])
+  );
+}
+
+/**
+ * Results without their explanations, which are stored per assignment
+ * instead of in run records and API responses
+ */
+export function withoutExplanations(results: AssignmentResult[]): AssignmentResult[] {
+  return results.map(({ explanation, ...result }) => result);
+}
@@ -0,0 +1,55 @@
+import { FairnessMetric } from './algorithms.types';
+
+/**
+ * Gini coefficient of non-negative values: 0 when everyone has the same,
+ * approaching 1 when one driver has everything. 0 for an empty or all-zero list.
+ */
+export function giniCoefficient(values: number[]): number {
+  const total = values.reduce((sum, value) => sum + value, 0);
+
+  if (values.length === 0 || total <= 0) {
+    return 0;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const weightedSum = sorted.reduce((sum, value, index) => sum + (index + 1) * value, 0);
+  const n = sorted.length;
+
+  return (2 * weightedSum) / (n * total) - (n + 1) / n;
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Distribution summary of one per-driver quantity.
+ * maxMinRatio is null when the least served driver got nothing.
+ */
+export function summarizeDistribution(values: number[]): FairnessMetric {
+  const total = values.reduce((sum, value) => sum + value, 0);
+  const min = values.length > 0 ? Math.min(...values) : 0;
+  const max = values.length > 0 ? Math.max(...values) : 0;
+
+  return {
+    total: round(total),
+    mean: values.length > 0 ? round(total / values.length) : 0,
+    median: round(median(values)),
+    min: round(min),
+    max: round(max),
+    gini: round(giniCoefficient(values), 4),
+    maxMinRatio: min > 0 ? round(max / min) : null
+  };
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,90 @@
+import { DriverCandidate, RestaurantRequest, ServiceAreaMatch } from './algorithms.types';
+
+const EARTH_RADIUS_KM = 6371;
+
+type ServiceArea = DriverCandidate['serviceAreas'][number];
+
+/**
+ * Great-circle distance between two points in kilometers (Haversine formula)
+ */
+export function haversineDistanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = degreesToRadians(lat2 - lat1);
+  const dLon = degreesToRadians(lon2 - lon1);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(degreesToRadians(lat1)) *
+    Math.cos(degreesToRadians(lat2)) *
+    Math.sin(dLon / 2) *
+    Math.sin(dLon / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+}
+
+/**
+ * Whether the restaurant has usable coordinates
+ */
+export function hasCoordinates(request: Pick<RestaurantRequest, 'latitude' | 'longitude'>): boolean {
+  return typeof request.latitude === 'number' && !isNaN(request.latitude) &&
+    typeof request.longitude === 'number' && !isNaN(request.longitude);
+}
+
+/**
+ * Find the service area that covers a restaurant.
+ *
+ * With restaurant coordinates, an area covers it when the restaurant lies within
+ * `radiusKm` of the area center; the closest covering area wins. Without
+ * coordinates, areas are matched by city and state (case-insensitive) and the
+ * smallest radius wins. Returns null when no area covers the restaurant.
+ */
+export function matchServiceArea(
+  serviceAreas: ServiceArea[],
+  request: Pick<RestaurantRequest, 'city' | 'state' | 'latitude' | 'longitude'>
+): ServiceAreaMatch | null {
+  if (hasCoordinates(request)) {
+    let best: ServiceAreaMatch | null = null;
+
+    for (const area of serviceAreas) {
+      const distanceKm = haversineDistanceKm(area.latitude, area.longitude, request.latitude!, request.longitude!);
+
+      if (distanceKm <= area.radiusKm && (!best || distanceKm < best.distanceKm!)) {
+        best = toMatch(area, Math.round(distanceKm * 100) / 100, 'radius');
+      }
+    }
+
+    return best;
+  }
+
+  const city = normalizePlace(request.city);
+  const state = normalizePlace(request.state);
+  const cityMatches = serviceAreas.filter(area =>
+    normalizePlace(area.city) === city && normalizePlace(area.state) === state
+  );
+
+  if (cityMatches.length === 0) {
+    return null;
+  }
+
+  const smallest = cityMatches.reduce((prev, current) => current.radiusKm < prev.radiusKm ? current : prev);
+  return toMatch(smallest, null, 'city');
+}
+
+function toMatch(area: ServiceArea, distanceKm: number | null, matchedBy: ServiceAreaMatch['matchedBy']): ServiceAreaMatch {
+  return {
+    areaName: area.areaName,
+    city: area.city,
+    state: area.state,
+    radiusKm: area.radiusKm,
+    distanceKm,
+    matchedBy
+  };
+}
+
+function normalizePlace(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function degreesToRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
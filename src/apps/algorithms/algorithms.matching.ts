@@ -0,0 +1,86 @@
+/**
+ * Min-cost bipartite matching (Hungarian / Kuhn-Munkres algorithm)
+ *
+ * Given a cost matrix with one row per job and one column per worker, returns
+ * the column assigned to each row so that the total cost is minimal. Runs in
+ * O(rows² × columns), which comfortably handles a full day of restaurants
+ * against every driver slot.
+ *
+ * The matrix must have at least as many columns as rows. Callers that allow
+ * rows to stay unmatched should pad the matrix with "unassigned" columns.
+ */
+export function solveMinCostAssignment(costs: number[][]): number[] {
+  const rows = costs.length;
+  if (rows === 0) {
+    return [];
+  }
+
+  const columns = costs[0].length;
+  if (costs.some(row => row.length !== columns)) {
+    throw new Error('Cost matrix rows must all have the same length');
+  }
+  if (rows > columns) {
+    throw new Error('Cost matrix must have at least as many columns as rows');
+  }
+
+  // Potentials and matching use 1-based indexes; index 0 is a virtual column
+  const u = new Array<number>(rows + 1).fill(0);
+  const v = new Array<number>(columns + 1).fill(0);
+  const matchedRow = new Array<number>(columns + 1).fill(0);
+  const way = new Array<number>(columns + 1).fill(0);
+
+  for (let row = 1; row <= rows; row++) {
+    matchedRow[0] = row;
+    let column0 = 0;
+    const minValues = new Array<number>(columns + 1).fill(Infinity);
+    const used = new Array<boolean>(columns + 1).fill(false);
+
+    do {
+      used[column0] = true;
+      const row0 = matchedRow[column0];
+      let delta = Infinity;
+      let column1 = 0;
+
+      for (let column = 1; column <= columns; column++) {
+        if (used[column]) continue;
+
+        const reducedCost = costs[row0 - 1][column - 1] - u[row0] - v[column];
+        if (reducedCost < minValues[column]) {
+          minValues[column] = reducedCost;
+          way[column] = column0;
+        }
+        if (minValues[column] < delta) {
+          delta = minValues[column];
+          column1 = column;
+        }
+      }
+
+      for (let column = 0; column <= columns; column++) {
+        if (used[column]) {
+          u[matchedRow[column]] += delta;
+          v[column] -= delta;
+        } else {
+          minValues[column] -= delta;
+        }
+      }
+
+      column0 = column1;
+    } while (matchedRow[column0] !== 0);
+
+    // Walk back along the augmenting path
+    do {
+      const column1 = way[column0];
+      matchedRow[column0] = matchedRow[column1];
+      column0 = column1;
+    } while (column0 !== 0);
+  }
+
+  const assignment = new Array<number>(rows).fill(-1);
+  for (let column = 1; column <= columns; column++) {
+    if (matchedRow[column] !== 0) {
+      assignment[matchedRow[column] - 1] = column - 1;
+    }
+  }
+
+  return assignment;
+}
@@ -0,0 +1,33 @@
+import { RestaurantAssignment } from '@prisma/client';
+import { RestaurantRequest } from './algorithms.types';
+
+/**
+ * Restaurants in the order they should be assigned: highest priority first,
+ * request order among equal priorities. A missing priority counts as 0.
+ */
+export function orderByPriority<T extends Pick<RestaurantRequest, 'priority'>>(restaurants: T[]): T[] {
+  return restaurants
+    .map((restaurant, index) => ({ restaurant, index }))
+    .sort((a, b) => (b.restaurant.priority ?? 0) - (a.restaurant.priority ?? 0) || a.index - b.index)
+    .map(({ restaurant }) => restaurant);
+}
+
+/**
+ * Rebuild the restaurant request behind a stored assignment, so a preempted
+ * assignment can go back through the algorithm. The assignment must have a
+ * recorded restaurant location.
+ */
+export function requestFromAssignment(assignment: RestaurantAssignment): RestaurantRequest {
+  return {
+    restaurantId: assignment.restaurantId,
+    city: assignment.restaurantCity!,
+    state: assignment.restaurantState!,
+    latitude: assignment.restaurantLatitude !== null ? Number(assignment.restaurantLatitude) : undefined,
+    longitude: assignment.restaurantLongitude !== null ? Number(assignment.restaurantLongitude) : undefined,
+    estimatedDeliveries: assignment.estimatedDeliveries,
+    pickupTime: assignment.pickupTime.toISOString().substring(11, 16),
+    paymentRate: Number(assignment.paymentRate),
+    paymentType: assignment.paymentType,
+    priority: assignment.priority
+  };
+}
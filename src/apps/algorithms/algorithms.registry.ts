@@ -0,0 +1,241 @@
+import { PrismaClient } from '@prisma/client';
+import { BaseAssignmentAlgorithm } from './algorithms.base';
+import { SimpleAssignmentAlgorithm } from './simple-assignment.algorithm';
+import { GeographicAssignmentAlgorithm } from './geographic-assignment.algorithm';
+import { WorkloadBalancingAlgorithm } from './workload-balancing.algorithm';
+import { WeightedScoringAlgorithm } from './weighted-scoring.algorithm';
+import { OptimalMatchingAlgorithm } from './optimal-matching.algorithm';
+import {
+  AlgorithmConfig,
+  AlgorithmConfigSchema,
+  AlgorithmSummary,
+  ConfigOptionSchema,
+  WeightConfig
+} from './algorithms.types';
+
+// Shared settings passed to every factory
+export interface AlgorithmFactoryContext {
+  weightConfig?: WeightConfig; // Service-level weights; weighted algorithms use them as defaults
+}
+
+export interface AlgorithmDefinition {
+  name: string;        // Kebab-case, used as `algorithm` in requests
+  description: string;
+  configSchema: AlgorithmConfigSchema; // Options beyond BASE_CONFIG_SCHEMA
+  create(prisma: PrismaClient, config: AlgorithmConfig, context: AlgorithmFactoryContext): BaseAssignmentAlgorithm;
+}
+
+// Options every algorithm accepts through BaseAssignmentAlgorithm
+export const BASE_CONFIG_SCHEMA: AlgorithmConfigSchema = {
+  maxAssignmentsPerDriver: {
+    type: 'integer',
+    description: 'Maximum active assignments per driver per day',
+    minimum: 1,
+    default: 3
+  },
+  workloadBalancingEnabled: {
+    type: 'boolean',
+    description: 'Balance assignments across drivers',
+    default: true
+  },
+  geographicPriorityEnabled: {
+    type: 'boolean',
+    description: 'Only consider drivers with a service area covering the restaurant',
+    default: true
+  },
+  lookbackDays: {
+    type: 'integer',
+    description: 'Days of history used for driver performance metrics',
+    minimum: 1,
+    maximum: 90,
+    default: 7
+  },
+  maxAssignmentsAboveMedian: {
+    type: 'integer',
+    description: 'Fairness mode: no driver may end more than this many assignments (over lookbackDays) above the median. Off when omitted',
+    minimum: 1
+  },
+  preemptionEnabled: {
+    type: 'boolean',
+    description: 'Let a restaurant that would go unassigned take a driver from a lower-priority PENDING assignment, which is then re-placed',
+    default: false
+  }
+};
+
+const AFFINITY_TIE_BREAKER_OPTION: ConfigOptionSchema = {
+  type: 'boolean',
+  description: 'Break score ties in favour of drivers who recently completed pickups at the restaurant',
+  default: false
+};
+
+const ALGORITHM_NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * Algorithm Registry
+ *
+ * Maps algorithm names to a description, a config schema and a factory that
+ * builds an instance. Built-in strategies are registered by
+ * createDefaultRegistry(); plugins register any BaseAssignmentAlgorithm
+ * subclass the same way, and the service, /available and request validation
+ * pick them up without further changes.
+ */
+export class AlgorithmRegistry {
+  private definitions = new Map<string, AlgorithmDefinition>();
+
+  /**
+   * Register an algorithm under a unique kebab-case name
+   */
+  register(definition: AlgorithmDefinition): this {
+    if (!ALGORITHM_NAME_PATTERN.test(definition.name)) {
+      throw new Error(`Invalid algorithm name '${definition.name}'. Use lowercase letters, digits and dashes`);
+    }
+
+    if (this.definitions.has(definition.name)) {
+      throw new Error(`Algorithm '${definition.name}' is already registered`);
+    }
+
+    this.definitions.set(definition.name, definition);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.definitions.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  get(name: string): AlgorithmDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Registered algorithms with their descriptions and full config schemas
+   */
+  list(): AlgorithmSummary[] {
+    return Array.from(this.definitions.values()).map(definition => ({
+      name: definition.name,
+      description: definition.description,
+      configSchema: this.getConfigSchema(definition.name)
+    }));
+  }
+
+  /**
+   * Base options merged with the algorithm's own
+   */
+  getConfigSchema(name: string): AlgorithmConfigSchema {
+    const definition = this.definitions.get(name);
+    return definition ? { ...BASE_CONFIG_SCHEMA, ...definition.configSchema } : {};
+  }
+
+  /**
+   * Build an instance with the given config
+   */
+  create(
+    name: string,
+    prisma: PrismaClient,
+    config: AlgorithmConfig,
+    context: AlgorithmFactoryContext = {}
+  ): BaseAssignmentAlgorithm {
+    const definition = this.definitions.get(name);
+
+    if (!definition) {
+      throw new Error(`Invalid algorithm '${name}'. Available: ${this.names().join(', ')}`);
+    }
+
+    return definition.create(prisma, config, context);
+  }
+
+  /**
+   * Check a config object against the algorithm's schema.
+   * Returns one message per problem; an empty array means the config is valid.
+   */
+  validateConfig(name: string, config: Record<string, unknown> | undefined): string[] {
+    if (config === undefined) {
+      return [];
+    }
+
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      return ['config must be an object'];
+    }
+
+    const schema = this.getConfigSchema(name);
+    const errors: string[] = [];
+
+    for (const [key, value] of Object.entries(config)) {
+      const field = schema[key];
+
+      if (!field) {
+        errors.push(`${key} is not a supported option`);
+        continue;
+      }
+
+      if (field.type === 'boolean' && typeof value !== 'boolean') {
+        errors.push(`${key} must be a boolean`);
+      } else if (field.type === 'string') {
+        if (typeof value !== 'string') {
+          errors.push(`${key} must be a string`);
+        } else if (field.enum && !field.enum.includes(value)) {
+          errors.push(`${key} must be one of ${field.enum.join(', ')}`);
+        }
+      } else if (field.type === 'number' || field.type === 'integer') {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          errors.push(`${key} must be a number`);
+        } else if (field.type === 'integer' && !Number.isInteger(value)) {
+          errors.push(`${key} must be an integer`);
+        } else if (field.minimum !== undefined && value < field.minimum) {
+          errors.push(`${key} must be at least ${field.minimum}`);
+        } else if (field.maximum !== undefined && value > field.maximum) {
+          errors.push(`${key} must be at most ${field.maximum}`);
+        }
+      }
+    }
+
+    return errors;
+  }
+}
+
+/**
+ * Registry with the built-in strategies
+ */
+export function createDefaultRegistry(): AlgorithmRegistry {
+  return new AlgorithmRegistry()
+    .register({
+      name: 'simple',
+      description: 'Basic load balancing algorithm',
+      configSchema: { affinityTieBreaker: AFFINITY_TIE_BREAKER_OPTION },
+      create: (prisma, config) => new SimpleAssignmentAlgorithm(prisma, config)
+    })
+    .register({
+      name: 'geographic',
+      description: 'Location-based assignment with proximity scoring',
+      configSchema: { affinityTieBreaker: AFFINITY_TIE_BREAKER_OPTION },
+      create: (prisma, config) => new GeographicAssignmentAlgorithm(prisma, config)
+    })
+    .register({
+      name: 'workload-balancing',
+      description: 'Historical workload analysis for fair distribution',
+      configSchema: {},
+      create: (prisma, config) => new WorkloadBalancingAlgorithm(prisma, config)
+    })
+    .register({
+      name: 'weighted-scoring',
+      description: 'Perceptron-inspired multi-criteria scoring system',
+      configSchema: {},
+      create: (prisma, config, { weightConfig }) => new WeightedScoringAlgorithm(prisma, config, weightConfig)
+    })
+    .register({
+      name: 'optimal-matching',
+      description: 'Globally optimal day plan using min-cost matching over weighted scores',
+      configSchema: {},
+      create: (prisma, config, { weightConfig }) => new OptimalMatchingAlgorithm(prisma, config, weightConfig)
+    });
+}
+
+// Shared registry used by AlgorithmsService unless another one is passed in
+export const algorithmRegistry = createDefaultRegistry();
@@ -0,0 +1,309 @@
+import { PrismaClient, RestaurantAssignment } from '@prisma/client';
+import {
+  AssignmentUtils,
+  calculateDeliveryCapacity,
+  evaluateDriverAvailability
+} from '../assignments/assignments.utils';
+import {
+  AssignmentValidation,
+  AvailabilityWindow,
+  AvailableDriver,
+  DriverAvailabilityResult
+} from '../assignments/assignments.types';
+import { ConstraintRulesService } from './constraint-rules.service';
+import { averageRatingsByDriver } from '../deliveries/delivery-ratings.service';
+import { AFFINITY_LOOKBACK_DAYS } from './algorithms.affinity';
+import { haversineDistanceKm } from './algorithms.geo';
+import { summarizeDistribution } from './algorithms.fairness';
+import {
+  ConstraintRuleDefinition,
+  ReplayDriver,
+  ReplayOutcome,
+  ReplaySnapshot
+} from './algorithms.types';
+
+// Past assignments loaded for a replay; long enough for affinity scores
+export const REPLAY_HISTORY_DAYS = AFFINITY_LOOKBACK_DAYS;
+
+/**
+ * Assignment data read from a replay snapshot instead of the database.
+ * The snapshot is the start of the replayed day: nobody has an assignment yet,
+ * and history ends the day before. Writes are refused.
+ */
+export class SnapshotAssignmentUtils extends AssignmentUtils {
+  constructor(prisma: PrismaClient, private snapshot: ReplaySnapshot) {
+    super(prisma);
+  }
+
+  async getAvailableDrivers(
+    assignmentDate: string,
+    restaurantId?: string,
+    window?: AvailabilityWindow
+  ): Promise<AvailableDriver[]> {
+    const { available } = await this.getDriverAvailability(assignmentDate, window);
+    return available;
+  }
+
+  async getDriverAvailability(
+    assignmentDate: string,
+    window?: AvailabilityWindow
+  ): Promise<DriverAvailabilityResult<AvailableDriver>> {
+    const result: DriverAvailabilityResult<AvailableDriver> = { available: [], rejected: [] };
+
+    for (const driver of this.snapshot.drivers) {
+      const reasons = evaluateDriverAvailability({ ...driver, restaurantAssignments: [] }, window);
+
+      if (reasons.length > 0) {
+        result.rejected.push({ driverId: driver.id, name: driver.name, reasons });
+        continue;
+      }
+
+      result.available.push({
+        id: driver.id,
+        name: driver.name,
+        email: driver.email,
+        serviceAreas: driver.serviceAreas,
+        vehicles: driver.vehicles,
+        currentAssignments: 0,
+        ...calculateDeliveryCapacity(driver.schedules, [])
+      });
+    }
+
+    return result;
+  }
+
+  async isDriverAvailable(
+    driverId: number,
+    assignmentDate: string,
+    restaurantId: string,
+    window?: AvailabilityWindow
+  ): Promise<AssignmentValidation> {
+    const driver = this.snapshot.drivers.find(d => d.id === driverId);
+
+    if (!driver) {
+      return { isValid: false, errors: ['Driver not found or not active'] };
+    }
+
+    const reasons = evaluateDriverAvailability({ ...driver, restaurantAssignments: [] }, window);
+
+    return {
+      isValid: reasons.length === 0,
+      errors: reasons.map(reason => reason.message),
+      reasons,
+      remainingCapacity: calculateDeliveryCapacity(driver.schedules, []).remainingCapacity
+    };
+  }
+
+  async getDriverRatings(): Promise<Map<number, number>> {
+    return averageRatingsByDriver(this.snapshot.ratings, new Date(this.snapshot.date));
+  }
+
+  async getDriverWorkload(driverId: number, startDate: string, endDate: string) {
+    const assignments = this.snapshot.history.filter(assignment =>
+      assignment.driverId === driverId &&
+      assignment.assignmentDate >= startDate &&
+      assignment.assignmentDate <= endDate
+    );
+
+    const totalAssignments = assignments.length;
+    const totalDeliveries = assignments.reduce((sum, assignment) => sum + assignment.deliveries, 0);
+
+    const dateMap = new Map<string, { assignmentCount: number; totalDeliveries: number }>();
+    assignments.forEach(assignment => {
+      const existing = dateMap.get(assignment.assignmentDate) || { assignmentCount: 0, totalDeliveries: 0 };
+      existing.assignmentCount += 1;
+      existing.totalDeliveries += assignment.deliveries;
+      dateMap.set(assignment.assignmentDate, existing);
+    });
+
+    return {
+      totalAssignments,
+      pendingAssignments: assignments.filter(assignment => assignment.status === 'PENDING').length,
+      completedAssignments: assignments.filter(assignment => assignment.status === 'COMPLETED').length,
+      averageDeliveries: totalAssignments > 0 ? totalDeliveries / totalAssignments : 0,
+      dates: Array.from(dateMap.entries()).map(([date, data]) => ({ date: new Date(date), ...data }))
+    };
+  }
+
+  async getCompletedRestaurantVisits(
+    restaurantId: string,
+    driverIds: number[],
+    startDate: string,
+    endDate: string
+  ): Promise<Map<number, string[]>> {
+    const visits = new Map<number, string[]>();
+
+    this.snapshot.history
+      .filter(assignment =>
+        assignment.restaurantId === restaurantId &&
+        assignment.status === 'COMPLETED' &&
+        driverIds.includes(assignment.driverId) &&
+        assignment.assignmentDate >= startDate &&
+        assignment.assignmentDate < endDate
+      )
+      .forEach(assignment => {
+        visits.set(assignment.driverId, [...(visits.get(assignment.driverId) || []), assignment.assignmentDate]);
+      });
+
+    return visits;
+  }
+
+  // Nothing is assigned yet at the start of the replayed day, so there is nothing to preempt
+  async getPreemptibleAssignments(): Promise<RestaurantAssignment[]> {
+    return [];
+  }
+
+  async preemptAssignment(): Promise<never> {
+    throw new Error('Replays never write assignments');
+  }
+
+  async bulkCreateAssignments(): Promise<never> {
+    throw new Error('Replays never write assignments');
+  }
+
+  async createAssignmentsAtomically(): Promise<never> {
+    throw new Error('Replays never write assignments');
+  }
+}
+
+/**
+ * Constraint rules as captured in a replay snapshot, with past service from its history
+ */
+export class SnapshotConstraintRulesService extends ConstraintRulesService {
+  constructor(prisma: PrismaClient, private snapshot: ReplaySnapshot) {
+    super(prisma);
+  }
+
+  async getActiveRules(): Promise<ConstraintRuleDefinition[]> {
+    return this.snapshot.constraintRules;
+  }
+
+  async getLastServedDates(
+    restaurantId: string,
+    driverIds: number[],
+    assignmentDate: string,
+    days: number
+  ): Promise<Map<number, string>> {
+    const startDate = new Date(assignmentDate);
+    startDate.setDate(startDate.getDate() - days);
+    const start = startDate.toISOString().split('T')[0];
+    const lastServedAt = new Map<number, string>();
+
+    this.snapshot.history
+      .filter(assignment =>
+        assignment.restaurantId === restaurantId &&
+        assignment.status !== 'CANCELLED' &&
+        driverIds.includes(assignment.driverId) &&
+        assignment.assignmentDate >= start &&
+        assignment.assignmentDate < assignmentDate
+      )
+      .forEach(assignment => {
+        const latest = lastServedAt.get(assignment.driverId);
+        if (!latest || assignment.assignmentDate > latest) {
+          lastServedAt.set(assignment.driverId, assignment.assignmentDate);
+        }
+      });
+
+    return lastServedAt;
+  }
+}
+
+/**
+ * Completion rate (0-100) of each driver over the snapshot history, plus the
+ * fleet-wide rate used for drivers without finished assignments
+ */
+export function calculateCompletionRates(snapshot: ReplaySnapshot): { byDriver: Map<number, number>; fleetRate: number } {
+  const finished = snapshot.history.filter(assignment => assignment.status !== 'PENDING' && assignment.status !== 'STARTED');
+  const totals = new Map<number, { finished: number; completed: number }>();
+
+  finished.forEach(assignment => {
+    const driverTotals = totals.get(assignment.driverId) || { finished: 0, completed: 0 };
+    driverTotals.finished += 1;
+    driverTotals.completed += assignment.status === 'COMPLETED' ? 1 : 0;
+    totals.set(assignment.driverId, driverTotals);
+  });
+
+  const completed = finished.filter(assignment => assignment.status === 'COMPLETED').length;
+
+  return {
+    byDriver: new Map(Array.from(totals.entries()).map(([driverId, t]) => [driverId, (t.completed / t.finished) * 100])),
+    fleetRate: finished.length > 0 ? (completed / finished.length) * 100 : 100
+  };
+}
+
+/**
+ * Score one set of assignments for the replayed day. Algorithm proposals and
+ * the real assignments go through the same scoring so they can be compared.
+ */
+export function scoreReplayOutcome(
+  snapshot: ReplaySnapshot,
+  assignments: Array<{ restaurantId: string; driverId: number }>,
+  completionRates: { byDriver: Map<number, number>; fleetRate: number }
+): ReplayOutcome {
+  const drivers = new Map(snapshot.drivers.map(driver => [driver.id, driver]));
+  const requests = new Map(snapshot.requests.map(request => [request.restaurantId, request]));
+
+  // Distance from the closest service area center of the driver to the restaurant
+  const distances = assignments
+    .map(assignment => {
+      const request = requests.get(assignment.restaurantId);
+      const driver = drivers.get(assignment.driverId);
+      return request && driver ? nearestAreaDistanceKm(driver, request.latitude, request.longitude) : null;
+    })
+    .filter((distance): distance is number => distance !== null);
+
+  // Everyone on shift that day competes for work, so idle drivers count as zeros
+  const workload = new Map<number, { assignments: number; deliveries: number }>();
+  snapshot.drivers
+    .filter(driver => evaluateDriverAvailability(driver).length === 0)
+    .forEach(driver => workload.set(driver.id, { assignments: 0, deliveries: 0 }));
+  assignments.forEach(assignment => {
+    const driverWorkload = workload.get(assignment.driverId) || { assignments: 0, deliveries: 0 };
+    driverWorkload.assignments += 1;
+    driverWorkload.deliveries += requests.get(assignment.restaurantId)?.estimatedDeliveries || 0;
+    workload.set(assignment.driverId, driverWorkload);
+  });
+
+  const predictedRates = assignments.map(assignment =>
+    completionRates.byDriver.get(assignment.driverId) ?? completionRates.fleetRate
+  );
+  const expectedCompleted = predictedRates.reduce((sum, rate) => sum + rate / 100, 0);
+  const covered = new Set(assignments.map(assignment => assignment.restaurantId).filter(id => requests.has(id)));
+
+  return {
+    coverage: {
+      requests: snapshot.requests.length,
+      assigned: covered.size,
+      rate: snapshot.requests.length > 0 ? round(covered.size / snapshot.requests.length, 4) : 0
+    },
+    distance: {
+      measured: distances.length,
+      averageKm: distances.length > 0 ? round(distances.reduce((sum, d) => sum + d, 0) / distances.length) : null,
+      maxKm: distances.length > 0 ? round(Math.max(...distances)) : null
+    },
+    fairness: {
+      drivers: workload.size,
+      assignments: summarizeDistribution(Array.from(workload.values()).map(w => w.assignments)),
+      deliveries: summarizeDistribution(Array.from(workload.values()).map(w => w.deliveries))
+    },
+    completion: {
+      predictedRate: assignments.length > 0 ? round((expectedCompleted / assignments.length) * 100) : 0,
+      expectedCompleted: round(expectedCompleted)
+    }
+  };
+}
+
+function nearestAreaDistanceKm(driver: ReplayDriver, latitude?: number, longitude?: number): number | null {
+  if (latitude === undefined || longitude === undefined || driver.serviceAreas.length === 0) {
+    return null;
+  }
+
+  return Math.min(...driver.serviceAreas.map(area =>
+    haversineDistanceKm(area.latitude, area.longitude, latitude, longitude)
+  ));
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
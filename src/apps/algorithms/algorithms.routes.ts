@@ -1,10 +1,22 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { AlgorithmsController } from './algorithms.controller';
+import { WeightProfilesController } from './weight-profiles.controller';
+import { ConstraintRulesController } from './constraint-rules.controller';
+import { SyntheticDatasetsController } from './synthetic-datasets.controller';
+import { RecurringSlotsController } from './recurring-slots.controller';
+import { AlgorithmJobsController } from './algorithm-jobs.controller';
+import { AuthMiddleware } from '../auth/middleware/auth.middleware';
 
 // Export a function that creates the router with an initialized prisma instance
 export function createAlgorithmsRouter(prisma: PrismaClient) {
   const algorithmsController = new AlgorithmsController(prisma);
+  const weightProfilesController = new WeightProfilesController(prisma);
+  const constraintRulesController = new ConstraintRulesController(prisma);
+  const syntheticDatasetsController = new SyntheticDatasetsController(prisma);
+  const recurringSlotsController = new RecurringSlotsController(prisma);
+  const algorithmJobsController = new AlgorithmJobsController(prisma);
+  const authMiddleware = new AuthMiddleware(prisma);
   const algorithmsRouter = Router();
 
   /**
@@ -15,6 +27,7 @@ export function createAlgorithmsRouter(prisma: PrismaClient) {
    * - Geographic Assignment (location-based)
    * - Workload Balancing (historical analysis)
    * - Weighted Scoring (perceptron-inspired)
+   * - Optimal Matching (global min-cost matching)
    */
 
   // Execute assignment using specified algorithm
@@ -22,18 +35,52 @@ export function createAlgorithmsRouter(prisma: PrismaClient) {
     await algorithmsController.executeAssignment(req, res);
   });
 
+  // Queue a bulk assignment run as a background job
+  algorithmsRouter.post('/jobs', authMiddleware.authenticateToken, async (req, res) => {
+    await algorithmJobsController.createJob(req, res);
+  });
+
+  // Job progress and partial results
+  algorithmsRouter.get('/jobs/:id', authMiddleware.authenticateToken, async (req, res) => {
+    await algorithmJobsController.getJob(req, res);
+  });
+
+  algorithmsRouter.post('/jobs/:id/cancel', authMiddleware.authenticateToken, async (req, res) => {
+    await algorithmJobsController.cancelJob(req, res);
+  });
+
+  // Plan a week (or any range up to 14 days) with per-driver load limits across it
+  algorithmsRouter.post('/assign/week', authMiddleware.authenticateToken, async (req, res) => {
+    await algorithmsController.planWeek(req, res);
+  });
+
   // Compare multiple algorithms on the same request
   algorithmsRouter.post('/compare', async (req, res) => {
     await algorithmsController.compareAlgorithms(req, res);
   });
 
+  // Get a dry-run plan
+  algorithmsRouter.get('/plans/:id', async (req, res) => {
+    await algorithmsController.getPlan(req, res);
+  });
+
+  // Commit the assignments proposed by a dry-run plan
+  algorithmsRouter.post('/plans/:id/commit', authMiddleware.authenticateToken, async (req, res) => {
+    await algorithmsController.commitPlan(req, res);
+  });
+
+  // Revert every assignment created by an algorithm run
+  algorithmsRouter.delete('/runs/:batchId', authMiddleware.authenticateToken, async (req, res) => {
+    await algorithmsController.revertRun(req, res);
+  });
+
   // Get detailed scoring breakdown (weighted scoring algorithm)
   algorithmsRouter.post('/detailed-scoring', async (req, res) => {
     await algorithmsController.getDetailedScoring(req, res);
   });
 
-  // Update algorithm weights for weighted scoring
-  algorithmsRouter.put('/weights', async (req, res) => {
+  // Update algorithm weights for weighted scoring (new version of the default weight profile)
+  algorithmsRouter.put('/weights', authMiddleware.authenticateToken, async (req, res) => {
     await algorithmsController.updateWeights(req, res);
   });
 
@@ -42,19 +89,88 @@ export function createAlgorithmsRouter(prisma: PrismaClient) {
     await algorithmsController.getWeights(req, res);
   });
 
+  // Learn weights from past assignment outcomes (saved as an inactive candidate version)
+  algorithmsRouter.post('/weights/train', authMiddleware.authenticateToken, async (req, res) => {
+    await weightProfilesController.trainWeights(req, res);
+  });
+
+  // Weight profiles: named, versioned weights scoped to restaurants or cities
+  algorithmsRouter.get('/weight-profiles', async (req, res) => {
+    await weightProfilesController.listProfiles(req, res);
+  });
+
+  algorithmsRouter.get('/weight-profiles/:name', async (req, res) => {
+    await weightProfilesController.getProfile(req, res);
+  });
+
+  algorithmsRouter.post('/weight-profiles', authMiddleware.authenticateToken, async (req, res) => {
+    await weightProfilesController.createProfile(req, res);
+  });
+
+  algorithmsRouter.post('/weight-profiles/:name/versions', authMiddleware.authenticateToken, async (req, res) => {
+    await weightProfilesController.createVersion(req, res);
+  });
+
+  algorithmsRouter.post('/weight-profiles/:name/versions/:version/activate', authMiddleware.authenticateToken, async (req, res) => {
+    await weightProfilesController.activateVersion(req, res);
+  });
+
+  algorithmsRouter.post('/weight-profiles/:name/rollback', authMiddleware.authenticateToken, async (req, res) => {
+    await weightProfilesController.rollback(req, res);
+  });
+
+  algorithmsRouter.post('/weight-profiles/:name/scopes', authMiddleware.authenticateToken, async (req, res) => {
+    await weightProfilesController.assignScope(req, res);
+  });
+
+  algorithmsRouter.delete('/weight-profiles/:name/scopes/:scopeId', authMiddleware.authenticateToken, async (req, res) => {
+    await weightProfilesController.removeScope(req, res);
+  });
+
+  // Constraint rules: hard/soft dispatcher rules applied by every algorithm
+  algorithmsRouter.get('/constraint-rules', async (req, res) => {
+    await constraintRulesController.listRules(req, res);
+  });
+
+  algorithmsRouter.get('/constraint-rules/:id', async (req, res) => {
+    await constraintRulesController.getRule(req, res);
+  });
+
+  algorithmsRouter.post('/constraint-rules', authMiddleware.authenticateToken, async (req, res) => {
+    await constraintRulesController.createRule(req, res);
+  });
+
+  algorithmsRouter.put('/constraint-rules/:id', authMiddleware.authenticateToken, async (req, res) => {
+    await constraintRulesController.updateRule(req, res);
+  });
+
+  algorithmsRouter.delete('/constraint-rules/:id', authMiddleware.authenticateToken, async (req, res) => {
+    await constraintRulesController.deleteRule(req, res);
+  });
+
   // Get workload distribution analysis
   algorithmsRouter.get('/workload-distribution', async (req, res) => {
     await algorithmsController.getWorkloadDistribution(req, res);
   });
 
-  // Get algorithm performance metrics
+  // Fairness of assignments, deliveries and earnings across drivers
+  algorithmsRouter.get('/fairness', async (req, res) => {
+    await algorithmsController.getFairnessReport(req, res);
+  });
+
+  // Get algorithm performance metrics aggregated over persisted runs
   algorithmsRouter.get('/metrics', async (req, res) => {
     await algorithmsController.getMetrics(req, res);
   });
 
-  // Reset algorithm metrics
-  algorithmsRouter.delete('/metrics', async (req, res) => {
-    await algorithmsController.resetMetrics(req, res);
+  // List persisted algorithm runs
+  algorithmsRouter.get('/runs', async (req, res) => {
+    await algorithmsController.listRuns(req, res);
+  });
+
+  // Get a single algorithm run in detail
+  algorithmsRouter.get('/runs/:id', async (req, res) => {
+    await algorithmsController.getRun(req, res);
   });
 
   // Get available algorithms
@@ -67,6 +183,78 @@ export function createAlgorithmsRouter(prisma: PrismaClient) {
     await algorithmsController.benchmarkAlgorithms(req, res);
   });
 
+  // Replay a past day in memory and score each algorithm against what happened
+  algorithmsRouter.post('/replay', authMiddleware.authenticateToken, async (req, res) => {
+    await algorithmsController.replayDay(req, res);
+  });
+
+  // Synthetic datasets for load testing
+  algorithmsRouter.get('/synthetic-datasets', async (req, res) => {
+    await syntheticDatasetsController.listDatasets(req, res);
+  });
+
+  algorithmsRouter.get('/synthetic-datasets/:id', async (req, res) => {
+    await syntheticDatasetsController.getDataset(req, res);
+  });
+
+  algorithmsRouter.post('/synthetic-datasets', authMiddleware.authenticateToken, async (req, res) => {
+    await syntheticDatasetsController.createDataset(req, res);
+  });
+
+  algorithmsRouter.delete('/synthetic-datasets/:id', authMiddleware.authenticateToken, async (req, res) => {
+    await syntheticDatasetsController.deleteDataset(req, res);
+  });
+
+  algorithmsRouter.post('/synthetic-datasets/:id/run', authMiddleware.authenticateToken, async (req, res) => {
+    await algorithmsController.runSyntheticDataset(req, res);
+  });
+
+  // Recurring restaurant slots, filled daily by the recurring slots job
+  algorithmsRouter.get('/recurring-slots', async (req, res) => {
+    await recurringSlotsController.listSlots(req, res);
+  });
+
+  algorithmsRouter.post('/recurring-slots', authMiddleware.authenticateToken, async (req, res) => {
+    await recurringSlotsController.createSlot(req, res);
+  });
+
+  algorithmsRouter.post('/recurring-slots/generate', authMiddleware.authenticateToken, async (req, res) => {
+    await recurringSlotsController.generateAssignments(req, res);
+  });
+
+  algorithmsRouter.get('/recurring-slots/:id', async (req, res) => {
+    await recurringSlotsController.getSlot(req, res);
+  });
+
+  algorithmsRouter.put('/recurring-slots/:id', authMiddleware.authenticateToken, async (req, res) => {
+    await recurringSlotsController.updateSlot(req, res);
+  });
+
+  algorithmsRouter.delete('/recurring-slots/:id', authMiddleware.authenticateToken, async (req, res) => {
+    await recurringSlotsController.deleteSlot(req, res);
+  });
+
+  algorithmsRouter.post('/recurring-slots/:id/exceptions', authMiddleware.authenticateToken, async (req, res) => {
+    await recurringSlotsController.addException(req, res);
+  });
+
+  algorithmsRouter.delete('/recurring-slots/:id/exceptions/:date', authMiddleware.authenticateToken, async (req, res) => {
+    await recurringSlotsController.removeException(req, res);
+  });
+
+  // Holidays skipped by every recurring slot
+  algorithmsRouter.get('/holidays', async (req, res) => {
+    await recurringSlotsController.listHolidays(req, res);
+  });
+
+  algorithmsRouter.post('/holidays', authMiddleware.authenticateToken, async (req, res) => {
+    await recurringSlotsController.createHoliday(req, res);
+  });
+
+  algorithmsRouter.delete('/holidays/:id', authMiddleware.authenticateToken, async (req, res) => {
+    await recurringSlotsController.deleteHoliday(req, res);
+  });
+
   // Health check
   algorithmsRouter.get('/health', async (req, res) => {
     await algorithmsController.healthCheck(req, res);
@@ -1,23 +1,53 @@
-import { PrismaClient } from '@prisma/client';
-import { SimpleAssignmentAlgorithm } from './simple-assignment.algorithm';
-import { GeographicAssignmentAlgorithm } from './geographic-assignment.algorithm';
+import { PrismaClient, Prisma, RestaurantAssignment } from '@prisma/client';
+import * as crypto from 'crypto';
+import { logger } from '../../config/logger';
+import { AssignmentUtils, batchTransactionOptions } from '../assignments/assignments.utils';
+import { CreateAssignmentDto } from '../assignments/assignments.types';
+import { BaseAssignmentAlgorithm } from './algorithms.base';
 import { WorkloadBalancingAlgorithm } from './workload-balancing.algorithm';
 import { WeightedScoringAlgorithm } from './weighted-scoring.algorithm';
+import { AlgorithmRegistry, AlgorithmDefinition, algorithmRegistry } from './algorithms.registry';
+import { WeightProfilesService, DEFAULT_WEIGHT_PROFILE } from './weight-profiles.service';
+import { FairnessService } from './fairness.service';
+import { ReplayService } from './replay.service';
+import { SyntheticDatasetsService } from './synthetic-datasets.service';
+import { requestFromAssignment } from './algorithms.priority';
+import { withoutExplanations } from './algorithms.explanations';
+import { datesBetween, dayLoad, summarizeWeeklyLoad, validateWeeklyPlanRequest } from './algorithms.weekly';
 import {
   AlgorithmConfig,
   WeightConfig,
   BulkAssignmentRequest,
   AlgorithmResult,
   AlgorithmMetrics,
-  DriverScore
+  AlgorithmRunFilters,
+  AlgorithmRunSummary,
+  AlgorithmRunDetail,
+  AlgorithmRunListResponse,
+  AlgorithmSummary,
+  AssignmentResult,
+  DriverLoad,
+  DriverScore,
+  FairnessReport,
+  ReplayReport,
+  PlanCommitResult,
+  PreemptionRecord,
+  RestaurantRequest,
+  RunObserver,
+  RunPhaseTimings,
+  RunRevertResult,
+  WeeklyPlanRequest,
+  WeeklyPlanResult
 } from './algorithms.types';
 
-export type AlgorithmType = 'simple' | 'geographic' | 'workload-balancing' | 'weighted-scoring';
+// Name of an algorithm in the registry ('simple', 'weighted-scoring', or a plugin)
+export type AlgorithmType = string;
 
 export interface AlgorithmServiceConfig {
   defaultAlgorithm?: AlgorithmType;
   algorithmConfig?: AlgorithmConfig;
   weightConfig?: WeightConfig;
+  registry?: AlgorithmRegistry; // Defaults to the shared algorithmRegistry
 }
 
 /**
@@ -27,9 +57,14 @@ export interface AlgorithmServiceConfig {
  * and manages algorithm selection, execution, and performance tracking.
  */
 export class AlgorithmsService {
-  private algorithms: Map<AlgorithmType, any>;
+  private algorithms: Map<AlgorithmType, BaseAssignmentAlgorithm>;
+  private registry: AlgorithmRegistry;
   private config: AlgorithmServiceConfig;
-  private metrics: Map<string, AlgorithmMetrics>;
+  private assignmentUtils: AssignmentUtils;
+  private weightProfilesService: WeightProfilesService;
+  private fairnessService: FairnessService;
+  private replayService: ReplayService;
+  private syntheticDatasetsService: SyntheticDatasetsService;
 
   constructor(
     private prisma: PrismaClient,
@@ -47,61 +82,783 @@ export class AlgorithmsService {
     };
 
     this.algorithms = new Map();
-    this.metrics = new Map();
-    this.initializeAlgorithms();
+    this.registry = this.config.registry || algorithmRegistry;
+    this.assignmentUtils = new AssignmentUtils(prisma);
+    this.weightProfilesService = new WeightProfilesService(prisma);
+    this.fairnessService = new FairnessService(prisma);
+    this.replayService = new ReplayService(prisma, this.registry);
+    this.syntheticDatasetsService = new SyntheticDatasetsService(prisma);
   }
 
   /**
-   * Initialize all available algorithms
+   * Register a custom algorithm so it can be selected by name
    */
-  private initializeAlgorithms(): void {
-    const algorithmConfig = this.config.algorithmConfig!;
-    const weightConfig = this.config.weightConfig;
+  registerAlgorithm(definition: AlgorithmDefinition): void {
+    this.registry.register(definition);
+    this.algorithms.delete(definition.name);
+  }
+
+  /**
+   * Get the shared instance of a registered algorithm, created on first use
+   * with the service-level config
+   */
+  private getAlgorithm(name: AlgorithmType): BaseAssignmentAlgorithm | undefined {
+    if (!this.registry.has(name)) {
+      return undefined;
+    }
 
-    this.algorithms.set('simple', new SimpleAssignmentAlgorithm(this.prisma, algorithmConfig));
-    this.algorithms.set('geographic', new GeographicAssignmentAlgorithm(this.prisma, algorithmConfig));
-    this.algorithms.set('workload-balancing', new WorkloadBalancingAlgorithm(this.prisma, algorithmConfig));
-    this.algorithms.set('weighted-scoring', new WeightedScoringAlgorithm(this.prisma, algorithmConfig, weightConfig));
+    let instance = this.algorithms.get(name);
+    if (!instance) {
+      instance = this.registry.create(name, this.prisma, this.config.algorithmConfig!, {
+        weightConfig: this.config.weightConfig
+      });
+      this.algorithms.set(name, instance);
+    }
+
+    return instance;
   }
 
   /**
-   * Execute assignment using specified algorithm
+   * Check algorithm names before a run so typos are reported instead of skipped
+   */
+  private assertRegistered(names: AlgorithmType[]): void {
+    const unknown = names.filter(name => !this.registry.has(name));
+
+    if (unknown.length > 0) {
+      throw new Error(`Invalid algorithm '${unknown.join("', '")}'. Available: ${this.registry.names().join(', ')}`);
+    }
+  }
+
+  /**
+   * Execute assignment using specified algorithm.
+   * `request.config` is validated against the algorithm's config schema; when
+   * present, the run uses a fresh instance with those options applied.
    */
   async executeAssignment(
     request: BulkAssignmentRequest,
-    algorithmType?: AlgorithmType
+    algorithmType?: AlgorithmType,
+    observer?: RunObserver
   ): Promise<AlgorithmResult> {
+    const algorithm = this.validateAssignment(request, algorithmType);
+
+    const algorithmInstance = request.config && Object.keys(request.config).length > 0
+      ? this.createAlgorithm(algorithm, request.config)
+      : this.getAlgorithm(algorithm)!;
+
+    return this.runAlgorithm(algorithmInstance, request, observer);
+  }
+
+  /**
+   * Check the algorithm and its config before running (or queueing) a request.
+   * Returns the algorithm that will run.
+   */
+  validateAssignment(request: BulkAssignmentRequest, algorithmType?: AlgorithmType): AlgorithmType {
     const algorithm = algorithmType || this.config.defaultAlgorithm!;
-    const algorithmInstance = this.algorithms.get(algorithm);
+    this.assertRegistered([algorithm]);
+    this.assertValidConfig(algorithm, request.config);
+
+    return algorithm;
+  }
+
+  /**
+   * Plan a range of days (up to MAX_PLAN_DAYS), one run per day with restaurants.
+   * Each day sees the drivers' schedules and blocks for that day, and
+   * `request.limits` caps each driver's load over the whole range, counting
+   * assignments already booked in it and those made on earlier days of the plan.
+   */
+  async planWeek(request: WeeklyPlanRequest, algorithmType?: AlgorithmType): Promise<WeeklyPlanResult> {
+    const algorithm = algorithmType || this.config.defaultAlgorithm!;
+    this.assertRegistered([algorithm]);
+    this.assertValidConfig(algorithm, request.config);
+    validateWeeklyPlanRequest(request);
+
+    const startTime = Date.now();
+    const limits = request.limits || {};
+    const existing = await this.assignmentUtils.getDriverLoad(request.startDate, request.endDate);
+    // Grows as each day is planned, so later days see the earlier ones
+    const load = new Map(Array.from(existing.entries()).map(([driverId, driverLoad]) => [driverId, { ...driverLoad }]));
+
+    const days: AlgorithmResult[] = [];
+    const dayLoads: Array<{ date: string; load: Map<number, DriverLoad> }> = [];
+
+    for (const date of datesBetween(request.startDate, request.endDate)) {
+      const restaurants = request.days[date] || [];
+      if (restaurants.length === 0) {
+        continue;
+      }
+
+      const result = await this.runAlgorithm(
+        this.createAlgorithm(algorithm, request.config).useLoadLimits(limits, load),
+        {
+          assignmentDate: date,
+          restaurants,
+          config: request.config,
+          weightConfig: request.weightConfig,
+          weightProfile: request.weightProfile,
+          dryRun: request.dryRun,
+          atomic: request.atomic
+        }
+      );
+      days.push(result);
+
+      const added = dayLoad(result, restaurants);
+      added.forEach((driverLoad, driverId) => {
+        const current = load.get(driverId) || { assignments: 0, deliveries: 0 };
+        load.set(driverId, {
+          assignments: current.assignments + driverLoad.assignments,
+          deliveries: current.deliveries + driverLoad.deliveries
+        });
+      });
+      dayLoads.push({ date, load: added });
+    }
+
+    const totalRequests = days.reduce((sum, day) => sum + day.totalRequests, 0);
+    const successfulAssignments = days.reduce((sum, day) => sum + day.successfulAssignments, 0);
+
+    return {
+      algorithm,
+      startDate: request.startDate,
+      endDate: request.endDate,
+      limits,
+      days,
+      drivers: summarizeWeeklyLoad(existing, dayLoads),
+      totalRequests,
+      successfulAssignments,
+      failedAssignments: totalRequests - successfulAssignments,
+      executionTimeMs: Date.now() - startTime,
+      ...(request.dryRun && { dryRun: true })
+    };
+  }
 
-    if (!algorithmInstance) {
-      throw new Error(`Algorithm '${algorithm}' not found`);
+  private assertValidConfig(algorithm: AlgorithmType, config?: AlgorithmConfig): void {
+    const configErrors = this.registry.validateConfig(algorithm, config);
+    if (configErrors.length > 0) {
+      throw new Error(`Invalid config for algorithm '${algorithm}': ${configErrors.join('; ')}`);
+    }
+  }
+
+  /**
+   * Fresh algorithm instance with request options on top of the service config
+   */
+  private createAlgorithm(algorithm: AlgorithmType, config?: AlgorithmConfig): BaseAssignmentAlgorithm {
+    return this.registry.create(algorithm, this.prisma, { ...this.config.algorithmConfig, ...config }, {
+      weightConfig: this.config.weightConfig
+    });
+  }
+
+  /**
+   * Run one day through an algorithm instance, save dry runs as plans and record the run
+   */
+  private async runAlgorithm(
+    algorithmInstance: BaseAssignmentAlgorithm,
+    request: BulkAssignmentRequest,
+    observer?: RunObserver
+  ): Promise<AlgorithmResult> {
+    if (algorithmInstance instanceof WeightedScoringAlgorithm) {
+      request = await this.weightProfilesService.resolveRequestWeights(request);
     }
 
+    let result: AlgorithmResult;
     try {
-      const result = await algorithmInstance.assignDrivers(request);
-      this.updateMetrics(algorithm, result);
-      return result;
+      result = await algorithmInstance.assignDrivers(request, observer);
     } catch (error) {
       throw new Error(`Algorithm execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+
+    // Plans keep their explanations until they are committed
+    if (request.dryRun) {
+      result.planId = await this.savePlan(request, result);
+    }
+
+    const explainedResults = result.results;
+    result.results = withoutExplanations(result.results);
+    result.runId = await this.recordRun(algorithmInstance, request, result);
+
+    if (!request.dryRun) {
+      await this.saveExplanations(explainedResults, result.batchId, result.runId);
+    }
+
+    return result;
   }
 
   /**
-   * Compare multiple algorithms on the same assignment request
+   * Store the explanation of each assignment a run (or plan commit) wrote.
+   * Assignments are found by batch, restaurant and driver. A failure here is
+   * logged and does not fail the run, whose assignments are already written.
+   */
+  private async saveExplanations(results: AssignmentResult[], batchId?: string, runId?: string): Promise<void> {
+    const explained = results.filter(r => r.success && r.driverId !== undefined && r.explanation);
+
+    if (!batchId || explained.length === 0) {
+      return;
+    }
+
+    try {
+      const assignments = await this.prisma.restaurantAssignment.findMany({
+        where: { batchId, restaurantId: { in: explained.map(r => r.restaurantId) } },
+        select: { id: true, restaurantId: true, driverId: true }
+      });
+
+      const data = explained.flatMap(result => {
+        const assignment = assignments.find(a => a.restaurantId === result.restaurantId && a.driverId === result.driverId);
+
+        return assignment
+          ? [{
+              assignmentId: assignment.id,
+              runId: runId ?? null,
+              algorithm: result.explanation!.algorithm,
+              candidates: result.explanation!.candidates as unknown as Prisma.InputJsonValue,
+              rejected: result.explanation!.rejected as unknown as Prisma.InputJsonValue
+            }]
+          : [];
+      });
+
+      if (data.length > 0) {
+        await this.prisma.assignmentExplanation.createMany({ data, skipDuplicates: true });
+      }
+    } catch (error) {
+      logger.warn(`Failed to save assignment explanations for batch ${batchId}:`, {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Persist a finished run so history and metrics survive restarts
+   * and are shared between instances
+   */
+  private async recordRun(
+    algorithmInstance: BaseAssignmentAlgorithm,
+    request: BulkAssignmentRequest,
+    result: AlgorithmResult
+  ): Promise<string> {
+    const weights = algorithmInstance instanceof WeightedScoringAlgorithm
+      ? algorithmInstance.getWeights()
+      : undefined;
+
+    const run = await this.prisma.algorithmRun.create({
+      data: {
+        algorithm: result.algorithm,
+        assignmentDate: new Date(request.assignmentDate),
+        config: algorithmInstance.getConfig() as Prisma.InputJsonValue,
+        weights: weights as Prisma.InputJsonValue | undefined,
+        requestHash: this.hashRequest(request),
+        request: request as unknown as Prisma.InputJsonValue,
+        results: result.results as unknown as Prisma.InputJsonValue,
+        totalRequests: result.totalRequests,
+        successfulAssignments: result.successfulAssignments,
+        failedAssignments: result.failedAssignments,
+        averageScore: result.averageScore,
+        executionTimeMs: result.executionTimeMs,
+        phaseTimings: result.phaseTimings as Prisma.InputJsonValue | undefined,
+        dryRun: result.dryRun === true,
+        batchId: result.batchId,
+        planId: result.planId
+      }
+    });
+
+    return run.id;
+  }
+
+  /**
+   * Stable fingerprint of a request, used to find runs over identical input
+   */
+  private hashRequest(request: BulkAssignmentRequest): string {
+    return crypto.createHash('sha256').update(JSON.stringify(request)).digest('hex');
+  }
+
+  /**
+   * List persisted runs, newest first
+   */
+  async listRuns(filters?: AlgorithmRunFilters): Promise<AlgorithmRunListResponse> {
+    const page = filters?.page || 1;
+    const limit = filters?.limit || 20;
+    const skip = (page - 1) * limit;
+    const where = this.buildRunWhere(filters);
+
+    const [runs, total] = await Promise.all([
+      this.prisma.algorithmRun.findMany({
+        where,
+        select: {
+          id: true,
+          algorithm: true,
+          assignmentDate: true,
+          requestHash: true,
+          totalRequests: true,
+          successfulAssignments: true,
+          failedAssignments: true,
+          averageScore: true,
+          executionTimeMs: true,
+          dryRun: true,
+          batchId: true,
+          planId: true,
+          createdAt: true
+        },
+        orderBy: {
+          createdAt: 'desc'
+        },
+        skip,
+        take: limit
+      }),
+      this.prisma.algorithmRun.count({ where })
+    ]);
+
+    return {
+      runs: runs.map(run => this.formatRunSummary(run)),
+      total,
+      pagination: {
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Get a single run with its request and per-restaurant results
+   */
+  async getRun(runId: string): Promise<AlgorithmRunDetail | null> {
+    const run = await this.prisma.algorithmRun.findUnique({
+      where: { id: runId }
+    });
+
+    if (!run) {
+      return null;
+    }
+
+    return {
+      ...this.formatRunSummary(run),
+      config: run.config as AlgorithmConfig,
+      weights: run.weights as WeightConfig | null,
+      phaseTimings: run.phaseTimings as RunPhaseTimings | null,
+      request: run.request as unknown as BulkAssignmentRequest,
+      results: run.results as unknown as AssignmentResult[]
+    };
+  }
+
+  private buildRunWhere(filters?: AlgorithmRunFilters): Prisma.AlgorithmRunWhereInput {
+    const where: Prisma.AlgorithmRunWhereInput = {};
+
+    if (filters?.algorithm) {
+      where.algorithm = filters.algorithm;
+    }
+
+    if (filters?.assignmentDate) {
+      where.assignmentDate = new Date(filters.assignmentDate);
+    }
+
+    if (filters?.dryRun !== undefined) {
+      where.dryRun = filters.dryRun;
+    }
+
+    if (filters?.requestHash) {
+      where.requestHash = filters.requestHash;
+    }
+
+    if (filters?.startDate || filters?.endDate) {
+      where.createdAt = {
+        ...(filters.startDate && { gte: new Date(filters.startDate) }),
+        // Include the whole end day
+        ...(filters.endDate && { lt: new Date(new Date(filters.endDate).getTime() + 24 * 60 * 60 * 1000) })
+      };
+    }
+
+    return where;
+  }
+
+  private formatRunSummary(run: {
+    id: string;
+    algorithm: string;
+    assignmentDate: Date;
+    requestHash: string;
+    totalRequests: number;
+    successfulAssignments: number;
+    failedAssignments: number;
+    averageScore: Prisma.Decimal | null;
+    executionTimeMs: number;
+    dryRun: boolean;
+    batchId: string | null;
+    planId: string | null;
+    createdAt: Date;
+  }): AlgorithmRunSummary {
+    return {
+      id: run.id,
+      algorithm: run.algorithm,
+      assignmentDate: run.assignmentDate.toISOString().split('T')[0],
+      requestHash: run.requestHash,
+      totalRequests: run.totalRequests,
+      successfulAssignments: run.successfulAssignments,
+      failedAssignments: run.failedAssignments,
+      averageScore: run.averageScore !== null ? Number(run.averageScore) : null,
+      executionTimeMs: run.executionTimeMs,
+      dryRun: run.dryRun,
+      batchId: run.batchId,
+      planId: run.planId,
+      createdAt: run.createdAt
+    };
+  }
+
+  /**
+   * Store a dry-run result so it can be reviewed and committed later
+   */
+  private async savePlan(request: BulkAssignmentRequest, result: AlgorithmResult): Promise<string> {
+    const plan = await this.prisma.assignmentPlan.create({
+      data: {
+        algorithm: result.algorithm,
+        assignmentDate: new Date(request.assignmentDate),
+        request: request as unknown as Prisma.InputJsonValue,
+        result: result as unknown as Prisma.InputJsonValue
+      }
+    });
+
+    return plan.id;
+  }
+
+  /**
+   * Get a previewed or committed plan
+   */
+  async getPlan(planId: string) {
+    return this.prisma.assignmentPlan.findUnique({
+      where: { id: planId }
+    });
+  }
+
+  /**
+   * Persist the proposed assignments of a previewed plan. The rows are written
+   * and the plan marked COMMITTED in one transaction. A plan from an atomic
+   * request is written all-or-nothing and stays PREVIEW when nothing could be.
+   */
+  async commitPlan(planId: string): Promise<PlanCommitResult> {
+    const plan = await this.prisma.assignmentPlan.findUnique({
+      where: { id: planId }
+    });
+
+    if (!plan) {
+      throw new Error('Plan not found');
+    }
+
+    if (plan.status !== 'PREVIEW') {
+      throw new Error('Plan has already been committed');
+    }
+
+    const request = plan.request as unknown as BulkAssignmentRequest;
+    const proposed = plan.result as unknown as AlgorithmResult;
+    const batchId = crypto.randomUUID();
+    const results = request.atomic === true
+      ? await this.commitAtomically(planId, request, proposed, batchId, plan.algorithm)
+      : await this.prisma.$transaction(async tx => {
+          const written = await this.commitProposals(tx, request, proposed, batchId, plan.algorithm);
+          await this.markPlanCommitted(tx, planId);
+          return written;
+        }, batchTransactionOptions(this.plannedAssignmentCount(proposed)));
+
+    await this.saveExplanations(
+      results.map(result => ({
+        ...result,
+        explanation: proposed.results.find(p => p.restaurantId === result.restaurantId)?.explanation
+      })),
+      batchId
+    );
+
+    const committedAssignments = results.filter(r => r.success).length;
+
+    return {
+      planId,
+      batchId,
+      algorithm: plan.algorithm,
+      assignmentDate: request.assignmentDate,
+      results,
+      committedAssignments,
+      failedAssignments: results.length - committedAssignments
+    };
+  }
+
+  /**
+   * Write each proposal on its own; one that is no longer valid comes back
+   * failed. Each write runs in a savepoint, since a statement Postgres rejects
+   * would otherwise abort the whole transaction.
+   */
+  private async commitProposals(
+    tx: Prisma.TransactionClient,
+    request: BulkAssignmentRequest,
+    proposed: AlgorithmResult,
+    batchId: string,
+    algorithm: string
+  ): Promise<AssignmentResult[]> {
+    const results: AssignmentResult[] = [];
+
+    for (const proposal of proposed.results) {
+      const restaurant = request.restaurants.find(r => r.restaurantId === proposal.restaurantId);
+
+      if (!proposal.success || !proposal.driverId || !restaurant) {
+        results.push({
+          restaurantId: proposal.restaurantId,
+          success: false,
+          error: proposal.error || 'No driver was proposed for this restaurant',
+          reason: 'Not part of the approved plan'
+        });
+        continue;
+      }
+
+      const assignmentData = this.toCommitDto(restaurant, proposal.driverId, request.assignmentDate, batchId, proposal.score);
+
+      if (proposal.preemption) {
+        results.push(await this.commitPreemption(tx, proposal, assignmentData, algorithm));
+        continue;
+      }
+
+      const created = await this.inSavepoint(tx,
+        () => this.assignmentUtils.bulkCreateAssignments([assignmentData], tx),
+        written => written.successful > 0);
+
+      results.push(created.successful > 0
+        ? {
+            restaurantId: restaurant.restaurantId,
+            success: true,
+            driverId: proposal.driverId,
+            score: proposal.score,
+            reason: `Committed from ${algorithm} plan`
+          }
+        : {
+            restaurantId: restaurant.restaurantId,
+            success: false,
+            driverId: proposal.driverId,
+            error: created.errors[0]?.error || 'Failed to create assignment',
+            reason: 'Driver is no longer available for the proposed assignment'
+          });
+    }
+
+    return results;
+  }
+
+  /**
+   * Write every proposal, with planned preemptions and their re-placements, or
+   * none. Like an atomic run, nothing is written when a restaurant has no driver.
+   */
+  private async commitAtomically(
+    planId: string,
+    request: BulkAssignmentRequest,
+    proposed: AlgorithmResult,
+    batchId: string,
+    algorithm: string
+  ): Promise<AssignmentResult[]> {
+    const unassigned = proposed.results.filter(proposal =>
+      !proposal.success || !proposal.driverId || !request.restaurants.some(r => r.restaurantId === proposal.restaurantId)
+    ).length;
+    let rollbackError = unassigned > 0
+      ? `Atomic plan not committed: ${unassigned} restaurant(s) have no proposed driver`
+      : undefined;
+
+    if (!rollbackError) {
+      try {
+        return await this.prisma.$transaction(async tx => {
+          const preemptedIds = proposed.results.flatMap(proposal => proposal.preemption ? [proposal.preemption.assignmentId] : []);
+          const preempted = preemptedIds.length > 0
+            ? await tx.restaurantAssignment.findMany({ where: { id: { in: preemptedIds } } })
+            : [];
+          const assignments: CreateAssignmentDto[] = [];
+
+          for (const proposal of proposed.results) {
+            const restaurant = request.restaurants.find(r => r.restaurantId === proposal.restaurantId)!;
+            assignments.push(this.toCommitDto(restaurant, proposal.driverId!, request.assignmentDate, batchId, proposal.score));
+
+            const replacement = proposal.preemption?.replacement;
+            const victim = preempted.find(a => a.id === proposal.preemption?.assignmentId);
+            if (victim && replacement?.success && replacement.driverId) {
+              assignments.push(this.toCommitDto(requestFromAssignment(victim), replacement.driverId, request.assignmentDate, batchId));
+            }
+          }
+
+          await this.assignmentUtils.createAssignmentsAtomically(assignments, undefined, preemptedIds, tx);
+          await this.markPlanCommitted(tx, planId);
+
+          return proposed.results.map(proposal => ({
+            restaurantId: proposal.restaurantId,
+            success: true,
+            driverId: proposal.driverId,
+            score: proposal.score,
+            reason: `Committed from ${algorithm} plan`,
+            preemption: proposal.preemption
+          }));
+        }, batchTransactionOptions(this.plannedAssignmentCount(proposed)));
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Plan has already been committed') {
+          throw error;
+        }
+        rollbackError = error instanceof Error ? error.message : 'Atomic assignment failed';
+      }
+    }
+
+    return proposed.results.map(proposal => ({
+      restaurantId: proposal.restaurantId,
+      success: false,
+      driverId: proposal.driverId,
+      score: proposal.score,
+      error: proposal.success ? rollbackError : proposal.error,
+      reason: 'Rolled back with the rest of the atomic plan'
+    }));
+  }
+
+  /**
+   * Run a write in a savepoint of the transaction and roll back to it unless
+   * the write succeeded, so a failed write leaves the transaction usable
+   */
+  private async inSavepoint<T>(
+    tx: Prisma.TransactionClient,
+    write: () => Promise<T>,
+    succeeded: (result: T) => boolean
+  ): Promise<T> {
+    await tx.$executeRawUnsafe('SAVEPOINT plan_write');
+    let keep = false;
+
+    try {
+      const result = await write();
+      keep = succeeded(result);
+      return result;
+    } finally {
+      if (!keep) {
+        await tx.$executeRawUnsafe('ROLLBACK TO SAVEPOINT plan_write');
+      }
+      await tx.$executeRawUnsafe('RELEASE SAVEPOINT plan_write');
+    }
+  }
+
+  // Assignments a plan commit may write: each proposal plus the re-placements of its preemptions
+  private plannedAssignmentCount(proposed: AlgorithmResult): number {
+    return proposed.results.length + proposed.results.filter(result => result.preemption).length;
+  }
+
+  /**
+   * Mark the plan committed once its rows are written, in the same
+   * transaction; a concurrent commit that got there first rolls this one back
+   */
+  private async markPlanCommitted(tx: Prisma.TransactionClient, planId: string): Promise<void> {
+    const claimed = await tx.assignmentPlan.updateMany({
+      where: { id: planId, status: 'PREVIEW' },
+      data: { status: 'COMMITTED', committedAt: new Date() }
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Plan has already been committed');
+    }
+  }
+
+  /**
+   * Commit a planned preemption: cancel the lower-priority assignment, give its
+   * driver to the planned restaurant, then re-place it with the planned driver
+   */
+  private async commitPreemption(
+    tx: Prisma.TransactionClient,
+    proposal: AssignmentResult,
+    assignmentData: CreateAssignmentDto,
+    algorithm: string
+  ): Promise<AssignmentResult> {
+    const planned = proposal.preemption!;
+    let preempted: RestaurantAssignment;
+
+    try {
+      ({ preempted } = await this.inSavepoint(tx,
+        () => this.assignmentUtils.preemptAssignment(planned.assignmentId, assignmentData, tx),
+        () => true));
+    } catch (error) {
+      return {
+        restaurantId: proposal.restaurantId,
+        success: false,
+        driverId: proposal.driverId,
+        error: error instanceof Error ? error.message : 'Failed to preempt assignment',
+        reason: 'Driver could not be freed from the preempted assignment'
+      };
+    }
+
+    let replacement: PreemptionRecord['replacement'] = {
+      success: false,
+      error: planned.replacement.error || 'No replacement driver was proposed'
+    };
+
+    if (planned.replacement.success && planned.replacement.driverId) {
+      const replacementData = this.toCommitDto(
+        requestFromAssignment(preempted), planned.replacement.driverId, assignmentData.assignmentDate, assignmentData.batchId
+      );
+      const created = await this.inSavepoint(tx,
+        () => this.assignmentUtils.bulkCreateAssignments([replacementData], tx),
+        written => written.successful > 0);
+
+      replacement = created.successful > 0
+        ? { success: true, driverId: planned.replacement.driverId }
+        : { success: false, error: created.errors[0]?.error || 'Failed to create assignment' };
+    }
+
+    return {
+      restaurantId: proposal.restaurantId,
+      success: true,
+      driverId: proposal.driverId,
+      score: proposal.score,
+      reason: `Committed from ${algorithm} plan, preempting a priority ${planned.priority} assignment at ${planned.restaurantId}`,
+      preemption: { ...planned, replacement }
+    };
+  }
+
+  private toCommitDto(
+    restaurant: RestaurantRequest,
+    driverId: number,
+    assignmentDate: string,
+    batchId?: string,
+    score?: number
+  ): CreateAssignmentDto {
+    return {
+      driverId,
+      restaurantId: restaurant.restaurantId,
+      assignmentDate,
+      pickupTime: restaurant.pickupTime,
+      expectedDurationMinutes: restaurant.expectedDurationMinutes,
+      estimatedDeliveries: restaurant.estimatedDeliveries,
+      paymentRate: restaurant.paymentRate,
+      paymentType: restaurant.paymentType || 'FIXED',
+      algorithmScore: score || 0,
+      batchId,
+      priority: restaurant.priority,
+      restaurantCity: restaurant.city,
+      restaurantState: restaurant.state,
+      restaurantLatitude: restaurant.latitude,
+      restaurantLongitude: restaurant.longitude
+    };
+  }
+
+  /**
+   * Revert an algorithm run by deleting the assignments it created and
+   * restoring the ones it preempted
+   */
+  async revertRun(batchId: string): Promise<RunRevertResult> {
+    const { deleted, restored } = await this.assignmentUtils.deleteAssignmentBatch(batchId);
+
+    return {
+      batchId,
+      deletedAssignments: deleted,
+      restoredAssignments: restored
+    };
+  }
+
+  /**
+   * Compare multiple algorithms on the same assignment request.
+   * Runs as a dry run unless the request explicitly sets dryRun to false,
+   * so competing algorithms do not write conflicting assignments.
    */
   async compareAlgorithms(
     request: BulkAssignmentRequest,
     algorithms?: AlgorithmType[]
   ): Promise<Map<AlgorithmType, AlgorithmResult>> {
-    const algorithmsToTest = algorithms || ['simple', 'geographic', 'workload-balancing', 'weighted-scoring'];
+    const algorithmsToTest = algorithms || this.getAvailableAlgorithms();
     const results = new Map<AlgorithmType, AlgorithmResult>();
+    this.assertRegistered(algorithmsToTest);
 
     // Run algorithms in parallel for comparison
     const promises = algorithmsToTest.map(async (algorithmType) => {
       try {
         // Create a copy of the request to avoid interference
-        const requestCopy = JSON.parse(JSON.stringify(request));
+        const requestCopy: BulkAssignmentRequest = {
+          ...JSON.parse(JSON.stringify(request)),
+          dryRun: request.dryRun !== false
+        };
         const result = await this.executeAssignment(requestCopy, algorithmType);
         return { algorithmType, result };
       } catch (error) {
@@ -136,15 +893,16 @@ export class AlgorithmsService {
     request: BulkAssignmentRequest,
     driverIds?: number[]
   ): Promise<Map<string, DriverScore[]>> {
-    const weightedAlgorithm = this.algorithms.get('weighted-scoring') as WeightedScoringAlgorithm;
+    const weightedAlgorithm = this.getAlgorithm('weighted-scoring');
     
-    if (!weightedAlgorithm) {
+    if (!(weightedAlgorithm instanceof WeightedScoringAlgorithm)) {
       throw new Error('Weighted scoring algorithm not available');
     }
 
     const scoringResults = new Map<string, DriverScore[]>();
+    const resolvedRequest = await this.weightProfilesService.resolveRequestWeights(request);
 
-    for (const restaurant of request.restaurants) {
+    for (const restaurant of resolvedRequest.restaurants) {
       const scores = await weightedAlgorithm.getDetailedScoring(
         restaurant,
         request.assignmentDate,
@@ -157,22 +915,43 @@ export class AlgorithmsService {
   }
 
   /**
-   * Update algorithm weights for weighted scoring
+   * Update algorithm weights for weighted scoring (and algorithms built on it).
+   * The change is stored as a new version of the default weight profile so every
+   * server picks it up; local instances are updated immediately.
    */
-  updateWeights(newWeights: Partial<WeightConfig>): void {
-    const weightedAlgorithm = this.algorithms.get('weighted-scoring') as WeightedScoringAlgorithm;
-    
-    if (weightedAlgorithm) {
-      weightedAlgorithm.updateWeights(newWeights);
+  async updateWeights(
+    newWeights: Partial<WeightConfig>,
+    authorId: number,
+    note?: string
+  ): Promise<WeightConfig | null> {
+    const baseWeights = (await this.getWeights()) || newWeights as WeightConfig;
+    const profile = await this.weightProfilesService.saveDefaultWeights(newWeights, baseWeights, authorId, note);
+
+    if (profile.activeWeights) {
+      // Instances created later start from the new weights too
+      this.config.weightConfig = profile.activeWeights;
+      this.algorithms.forEach(algorithm => {
+        if (algorithm instanceof WeightedScoringAlgorithm) {
+          algorithm.updateWeights(profile.activeWeights!);
+        }
+      });
     }
+
+    return profile.activeWeights;
   }
 
   /**
-   * Get current weights configuration
+   * Get current weights configuration: the default weight profile if one exists,
+   * otherwise the weights the algorithms were created with
    */
-  getWeights(): WeightConfig | null {
-    const weightedAlgorithm = this.algorithms.get('weighted-scoring') as WeightedScoringAlgorithm;
-    return weightedAlgorithm ? weightedAlgorithm.getWeights() : null;
+  async getWeights(): Promise<WeightConfig | null> {
+    const profileWeights = await this.weightProfilesService.getActiveWeights(DEFAULT_WEIGHT_PROFILE);
+    if (profileWeights) {
+      return profileWeights;
+    }
+
+    const weightedAlgorithm = this.getAlgorithm('weighted-scoring');
+    return weightedAlgorithm instanceof WeightedScoringAlgorithm ? weightedAlgorithm.getWeights() : null;
   }
 
   /**
@@ -182,9 +961,9 @@ export class AlgorithmsService {
     assignmentDate: string,
     driverIds?: number[]
   ): Promise<any[]> {
-    const workloadAlgorithm = this.algorithms.get('workload-balancing') as WorkloadBalancingAlgorithm;
+    const workloadAlgorithm = this.getAlgorithm('workload-balancing');
     
-    if (!workloadAlgorithm) {
+    if (!(workloadAlgorithm instanceof WorkloadBalancingAlgorithm)) {
       throw new Error('Workload balancing algorithm not available');
     }
 
@@ -192,38 +971,113 @@ export class AlgorithmsService {
   }
 
   /**
-   * Get algorithm performance metrics
+   * Replay a past day's requests through algorithms in memory and score the outcomes.
+   * Runs every registered algorithm when none are given.
    */
-  getAlgorithmMetrics(algorithmType?: AlgorithmType): AlgorithmMetrics | Map<string, AlgorithmMetrics> {
-    if (algorithmType) {
-      return this.metrics.get(algorithmType) || {
-        algorithm: algorithmType,
-        totalRuns: 0,
-        averageExecutionTime: 0,
-        successRate: 0,
-        averageScore: 0
-      };
+  async replayDay(
+    date: string,
+    algorithms?: AlgorithmType[],
+    config?: AlgorithmConfig
+  ): Promise<ReplayReport> {
+    return this.replayService.replayDay(
+      date,
+      this.checkInMemoryRun(algorithms, config),
+      { ...this.config.algorithmConfig, ...config },
+      this.config.weightConfig
+    );
+  }
+
+  /**
+   * Run a synthetic dataset's requests over its drivers in memory and score the outcomes
+   */
+  async runSyntheticDataset(
+    datasetId: string,
+    algorithms?: AlgorithmType[],
+    config?: AlgorithmConfig
+  ): Promise<ReplayReport> {
+    const algorithmsToRun = this.checkInMemoryRun(algorithms, config);
+
+    const dataset = await this.syntheticDatasetsService.getDataset(datasetId);
+    if (!dataset) {
+      throw new Error('Synthetic dataset not found');
     }
 
-    return this.metrics;
+    const snapshot = await this.replayService.loadDatasetSnapshot(dataset.id, dataset.assignmentDate, dataset.requests!);
+
+    return this.replayService.runSnapshot(
+      snapshot,
+      algorithmsToRun,
+      { ...this.config.algorithmConfig, ...config },
+      this.config.weightConfig
+    );
   }
 
   /**
-   * Reset algorithm metrics
+   * Algorithms for a replay or dataset run (all when none are given), with the
+   * config checked against each of them
    */
-  resetMetrics(algorithmType?: AlgorithmType): void {
-    if (algorithmType) {
-      this.metrics.delete(algorithmType);
-    } else {
-      this.metrics.clear();
+  private checkInMemoryRun(algorithms: AlgorithmType[] | undefined, config?: AlgorithmConfig): AlgorithmType[] {
+    const names = algorithms && algorithms.length > 0 ? algorithms : this.getAvailableAlgorithms();
+    this.assertRegistered(names);
+
+    for (const algorithm of names) {
+      const configErrors = this.registry.validateConfig(algorithm, config);
+      if (configErrors.length > 0) {
+        throw new Error(`Invalid config for algorithm '${algorithm}': ${configErrors.join('; ')}`);
+      }
     }
+
+    return names;
+  }
+
+  /**
+   * How evenly assignments, deliveries and earnings were shared between drivers
+   */
+  async getFairnessReport(startDate: string, endDate: string): Promise<FairnessReport> {
+    return this.fairnessService.getFairnessReport(startDate, endDate);
+  }
+
+  /**
+   * Get algorithm performance metrics aggregated from persisted runs.
+   * Dry runs are included unless filtered out.
+   */
+  async getAlgorithmMetrics(filters?: AlgorithmRunFilters): Promise<AlgorithmMetrics[]> {
+    const groups = await this.prisma.algorithmRun.groupBy({
+      by: ['algorithm'],
+      where: this.buildRunWhere(filters),
+      _count: { _all: true },
+      _avg: { executionTimeMs: true, averageScore: true },
+      _sum: { totalRequests: true, successfulAssignments: true },
+      orderBy: { algorithm: 'asc' }
+    });
+
+    return groups.map(group => {
+      const totalRequests = group._sum.totalRequests || 0;
+
+      return {
+        algorithm: group.algorithm,
+        totalRuns: group._count._all,
+        averageExecutionTime: Math.round(group._avg.executionTimeMs || 0),
+        successRate: totalRequests > 0
+          ? Math.round(((group._sum.successfulAssignments || 0) / totalRequests) * 100) / 100
+          : 0,
+        averageScore: Math.round(Number(group._avg.averageScore || 0) * 100) / 100
+      };
+    });
   }
 
   /**
    * Get available algorithms
    */
   getAvailableAlgorithms(): AlgorithmType[] {
-    return Array.from(this.algorithms.keys());
+    return this.registry.names();
+  }
+
+  /**
+   * Registered algorithms with descriptions and config schemas
+   */
+  listAlgorithms(): AlgorithmSummary[] {
+    return this.registry.list();
   }
 
   /**
@@ -240,6 +1094,7 @@ export class AlgorithmsService {
   }>> {
     const algorithmsToTest = algorithms || this.getAvailableAlgorithms();
     const benchmarkResults = new Map();
+    this.assertRegistered(algorithmsToTest);
 
     for (const algorithmType of algorithmsToTest) {
       const results: AlgorithmResult[] = [];
@@ -273,29 +1128,4 @@ export class AlgorithmsService {
 
     return benchmarkResults;
   }
-
-  /**
-   * Update algorithm performance metrics
-   */
-  private updateMetrics(algorithmType: AlgorithmType, result: AlgorithmResult): void {
-    const existing = this.metrics.get(algorithmType) || {
-      algorithm: algorithmType,
-      totalRuns: 0,
-      averageExecutionTime: 0,
-      successRate: 0,
-      averageScore: 0
-    };
-
-    const successRate = result.totalRequests > 0 ? result.successfulAssignments / result.totalRequests : 0;
-    
-    existing.totalRuns += 1;
-    existing.averageExecutionTime = (existing.averageExecutionTime * (existing.totalRuns - 1) + result.executionTimeMs) / existing.totalRuns;
-    existing.successRate = (existing.successRate * (existing.totalRuns - 1) + successRate) / existing.totalRuns;
-    
-    if (result.averageScore !== undefined) {
-      existing.averageScore = (existing.averageScore * (existing.totalRuns - 1) + result.averageScore) / existing.totalRuns;
-    }
-
-    this.metrics.set(algorithmType, existing);
-  }
-} 
\ No newline at end of file
+}
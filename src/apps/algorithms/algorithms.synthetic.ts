@@ -0,0 +1,140 @@
+import { VehicleType } from '@prisma/client';
+import { createSeededRandom } from '../../utils/random';
+import { RestaurantRequest, SyntheticDatasetOptions, SyntheticDriver, SyntheticScenario } from './algorithms.types';
+
+export const SYNTHETIC_LIMITS = {
+  drivers: 1000,
+  restaurants: 2000
+};
+
+const DEFAULT_RADIUS_KM = 15;
+const DEFAULT_BLOCK_RATE = 0.1;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+const SHIFTS = [
+  { startTime: '08:00', endTime: '16:00' },
+  { startTime: '10:00', endTime: '18:00' },
+  { startTime: '11:00', endTime: '21:00' },
+  { startTime: '16:00', endTime: '23:30' }
+];
+
+// Roughly the fleet mix, with the load each vehicle type carries
+const VEHICLES: Array<{ weight: number; type: VehicleType; make: string; model: string; capacity: [number, number] }> = [
+  { weight: 50, type: 'CAR', make: 'Toyota', model: 'Corolla', capacity: [20, 40] },
+  { weight: 15, type: 'MOTORCYCLE', make: 'Honda', model: 'CB500', capacity: [8, 15] },
+  { weight: 15, type: 'SCOOTER', make: 'Vespa', model: 'Primavera', capacity: [5, 12] },
+  { weight: 10, type: 'BICYCLE', make: 'Trek', model: 'FX 2', capacity: [3, 8] },
+  { weight: 10, type: 'VAN', make: 'Ford', model: 'Transit', capacity: [60, 120] }
+];
+
+/**
+ * Generate drivers and restaurant requests for one test day around a city
+ * center. Deterministic: the same options always give the same scenario.
+ */
+export function generateSyntheticScenario(options: SyntheticDatasetOptions): SyntheticScenario {
+  const random = createSeededRandom(options.seed);
+  const radiusKm = options.radiusKm ?? DEFAULT_RADIUS_KM;
+  const blockRate = options.blockRate ?? DEFAULT_BLOCK_RATE;
+  // Same weekday lookup as the availability checks
+  const testDay = new Date(options.assignmentDate!).getDay();
+
+  const between = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+
+  // Uniform over the disc, so restaurants are not bunched at the center
+  const pointNearCenter = (maxKm: number) => {
+    const distanceKm = maxKm * Math.sqrt(random());
+    const bearing = 2 * Math.PI * random();
+    const latitude = options.center.latitude + (distanceKm * Math.cos(bearing)) / KM_PER_DEGREE_LATITUDE;
+    const longitude = options.center.longitude +
+      (distanceKm * Math.sin(bearing)) / (KM_PER_DEGREE_LATITUDE * Math.cos(options.center.latitude * Math.PI / 180));
+
+    return { latitude: round(latitude, 6), longitude: round(longitude, 6) };
+  };
+
+  const drivers: SyntheticDriver[] = [];
+
+  for (let i = 1; i <= options.drivers; i++) {
+    const areaCount = random() < 0.3 ? 2 : 1;
+    const serviceAreas = Array.from({ length: areaCount }, (_, index) => ({
+      areaName: `Synthetic Area ${index + 1}`,
+      city: options.center.city,
+      state: options.center.state,
+      ...pointNearCenter(radiusKm),
+      radiusKm: between(5, 15)
+    }));
+
+    // Most drivers work the test day, and about three days in four otherwise
+    const workDays = [0, 1, 2, 3, 4, 5, 6].filter(day => day === testDay ? random() < 0.85 : random() < 0.75);
+    const shift = pick(SHIFTS);
+    const maxDeliveries = between(40, 80);
+    const schedules = workDays.map(dayOfWeek => ({ dayOfWeek, ...shift, maxDeliveries }));
+
+    const availabilityBlocks: SyntheticDriver['availabilityBlocks'] = [];
+    if (random() < blockRate) {
+      availabilityBlocks.push(random() < 0.5
+        ? { isFullDay: true, reason: 'Synthetic day off' }
+        : { isFullDay: false, startTime: '12:00', endTime: '14:00', reason: 'Synthetic appointment' });
+    }
+
+    const vehicle = pickWeighted(VEHICLES, random);
+
+    drivers.push({
+      name: `Synthetic Driver ${i}`,
+      serviceAreas,
+      schedules,
+      availabilityBlocks,
+      vehicle: {
+        make: vehicle.make,
+        model: vehicle.model,
+        type: vehicle.type,
+        capacity: between(vehicle.capacity[0], vehicle.capacity[1]),
+        verified: random() < 0.95
+      }
+    });
+  }
+
+  const requests: RestaurantRequest[] = [];
+
+  for (let j = 1; j <= options.restaurants; j++) {
+    const estimatedDeliveries = between(5, 40);
+    // Pickups every 15 minutes from 10:30 to 19:00
+    const pickupMinutes = 10 * 60 + 30 + 15 * between(0, 34);
+
+    requests.push({
+      restaurantId: `SYN-R-${j}`,
+      name: `Synthetic Restaurant ${j}`,
+      city: options.center.city,
+      state: options.center.state,
+      ...pointNearCenter(radiusKm),
+      estimatedDeliveries,
+      pickupTime: `${String(Math.floor(pickupMinutes / 60)).padStart(2, '0')}:${String(pickupMinutes % 60).padStart(2, '0')}`,
+      expectedDurationMinutes: pick([60, 90, 120, 150]),
+      paymentRate: between(60, 200),
+      paymentType: 'FIXED',
+      priority: between(1, 5),
+      ...(estimatedDeliveries > 30 && random() < 0.5 && { vehicleRequirements: { minCapacity: estimatedDeliveries } })
+    });
+  }
+
+  return { drivers, requests };
+}
+
+function pickWeighted<T extends { weight: number }>(items: T[], random: () => number): T {
+  const total = items.reduce((sum, item) => sum + item.weight, 0);
+  let target = random() * total;
+
+  for (const item of items) {
+    target -= item.weight;
+    if (target < 0) {
+      return item;
+    }
+  }
+
+  return items[items.length - 1];
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
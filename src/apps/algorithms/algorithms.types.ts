@@ -1,5 +1,14 @@
 // Algorithm types and interfaces
 
+import { VehicleType } from '@prisma/client';
+import {
+  AvailabilityRejectionCode,
+  CreateAssignmentDto,
+  DaySnapshot,
+  DriverVehicle,
+  PickupConflict
+} from '../assignments/assignments.types';
+
 export interface DriverCandidate {
   id: number;
   name: string | null;
@@ -14,8 +23,27 @@ export interface DriverCandidate {
   }>;
   currentAssignments: number;
   recentDeliveries: number;
-  averageRating?: number;
+  recentAssignments?: number;   // Assignments over lookbackDays up to the assignment date, incl. planned ones
+  averageRating?: number;      // Time-decayed 1-5 delivery rating; unset below the minimum number of ratings
   completionRate: number;
+  serviceAreaMatch?: ServiceAreaMatch; // Area covering the restaurant being assigned
+  deliveryCapacity?: number;    // DriverSchedule.maxDeliveries for the day
+  scheduledDeliveries?: number; // Estimated deliveries already assigned that day
+  remainingCapacity?: number;
+  vehicles?: DriverVehicle[];   // Verified vehicles; unknown when omitted
+  affinityScore?: number;              // 0-100 familiarity with the restaurant; only loaded by algorithms that use it
+  constraintAdjustment?: number;       // Sum of the soft constraint rules that fired for this driver
+  firedRules?: FiredConstraintRule[];  // Soft constraint rules that fired for this driver
+}
+
+// The driver service area that covers a restaurant
+export interface ServiceAreaMatch {
+  areaName: string;
+  city: string;
+  state: string;
+  radiusKm: number;
+  distanceKm: number | null;  // From the area center; null when matched by city/state
+  matchedBy: 'radius' | 'city'; // 'city' only when the restaurant has no coordinates
 }
 
 export interface RestaurantRequest {
@@ -27,9 +55,19 @@ export interface RestaurantRequest {
   longitude?: number;
   estimatedDeliveries: number;
   pickupTime: string;
+  expectedDurationMinutes?: number; // Time the driver is busy from pickup; must fit in their shift (default 10 + 4 per delivery)
   paymentRate: number;
   paymentType?: 'FIXED' | 'PER_DELIVERY' | 'HOURLY';
   priority?: number; // Higher number = higher priority
+  weightConfig?: WeightConfig; // Per-restaurant weights, resolved from weight profiles when omitted
+  weightProfile?: string;      // Profile and version that supplied weightConfig, e.g. "downtown@v3"
+  vehicleRequirements?: VehicleRequirements;
+}
+
+// Vehicle a restaurant needs; drivers without a fitting verified vehicle are not candidates
+export interface VehicleRequirements {
+  minCapacity?: number;  // Compared against Vehicle.capacity
+  types?: VehicleType[]; // Any of these types
 }
 
 export interface AssignmentResult {
@@ -39,6 +77,72 @@ export interface AssignmentResult {
   score?: number;
   error?: string;
   reason?: string;
+  serviceArea?: ServiceAreaMatch; // Area of the selected driver that covers the restaurant
+  firedRules?: FiredConstraintRule[]; // Hard rules that excluded drivers, soft rules that scored the selected one
+  preemption?: PreemptionRecord; // Set when the driver was taken from a lower-priority assignment
+  explanation?: AssignmentExplanationData; // Ranked and rejected candidates; stored per assignment, not returned
+}
+
+// A candidate as scored by an algorithm, before ranking
+export interface CandidateScore {
+  driver: DriverCandidate;
+  score: number;
+  breakdown?: Record<string, number>; // Points each factor added to the score
+}
+
+// Why a candidate was left out before scoring
+export type CandidateRejectionCode =
+  | AvailabilityRejectionCode
+  | 'LOAD_LIMIT'
+  | 'VEHICLE_MISMATCH'
+  | 'FAIRNESS_CAP'
+  | 'OUTSIDE_SERVICE_AREA'
+  | 'CONSTRAINT_RULE'
+  | 'NOT_SCORED';
+
+export interface RejectedCandidate {
+  driverId: number;
+  name: string | null;
+  reasons: Array<{ code: CandidateRejectionCode; message: string; conflict?: PickupConflict }>;
+}
+
+export interface RankedCandidate {
+  rank: number;                       // 1 = highest score
+  driverId: number;
+  name: string | null;
+  score: number;
+  breakdown?: Record<string, number>;
+  constraintAdjustment?: number;      // Soft constraint rules, included in score
+  selected: boolean;
+}
+
+// How an algorithm reached one decision
+export interface AssignmentExplanationData {
+  algorithm: string;
+  candidates: RankedCandidate[];
+  rejected: RejectedCandidate[];
+}
+
+// GET /api/assignments/:id/explanation
+export interface AssignmentExplanationResponse extends AssignmentExplanationData {
+  assignmentId: string;
+  restaurantId: string;
+  driverId: number;
+  runId: string | null;
+  createdAt: Date;
+}
+
+// A lower-priority PENDING assignment cancelled to free its driver, and where it went
+export interface PreemptionRecord {
+  assignmentId: string;  // The cancelled assignment
+  restaurantId: string;
+  priority: number;
+  driverId: number;      // Driver moved to the higher-priority restaurant
+  replacement: {
+    success: boolean;
+    driverId?: number;   // Driver the preempted restaurant was re-placed with
+    error?: string;
+  };
 }
 
 export interface AlgorithmConfig {
@@ -46,6 +150,29 @@ export interface AlgorithmConfig {
   workloadBalancingEnabled?: boolean;
   geographicPriorityEnabled?: boolean;
   lookbackDays?: number;
+  affinityTieBreaker?: boolean; // Simple and geographic: break score ties by restaurant affinity
+  maxAssignmentsAboveMedian?: number; // Fairness mode: cap on a driver's recent workload above the median
+  preemptionEnabled?: boolean; // Let unassignable restaurants take drivers from lower-priority PENDING assignments
+  [option: string]: unknown; // Algorithm-specific options declared in its config schema
+}
+
+// One option in an algorithm's config schema
+export interface ConfigOptionSchema {
+  type: 'number' | 'integer' | 'boolean' | 'string';
+  description: string;
+  minimum?: number;
+  maximum?: number;
+  enum?: string[];
+  default?: number | boolean | string;
+}
+
+export type AlgorithmConfigSchema = Record<string, ConfigOptionSchema>;
+
+// A registered algorithm as listed by /available
+export interface AlgorithmSummary {
+  name: string;
+  description: string;
+  configSchema: AlgorithmConfigSchema;
 }
 
 // Weighted algorithm specific types
@@ -54,6 +181,8 @@ export interface WeightConfig {
   proximityWeight: number;    // Medium weight for geographic proximity
   performanceWeight: number;  // Low weight for past performance
   workloadWeight: number;     // Weight for current workload balance
+  vehicleWeight?: number;     // Weight for vehicle fit; the algorithm default applies when omitted
+  affinityWeight?: number;    // Weight for restaurant–driver continuity; 0 when omitted
 }
 
 export interface DriverScore {
@@ -64,7 +193,11 @@ export interface DriverScore {
     proximityScore: number;
     performanceScore: number;
     workloadScore: number;
+    vehicleScore: number;
+    affinityScore: number;
   };
+  constraintAdjustment?: number; // Soft constraint rules, added after weighting
+  serviceArea?: ServiceAreaMatch;
 }
 
 export interface AlgorithmResult {
@@ -76,6 +209,11 @@ export interface AlgorithmResult {
   failedAssignments: number;
   averageScore?: number;
   executionTimeMs: number;
+  phaseTimings?: RunPhaseTimings;
+  dryRun?: boolean;
+  planId?: string;            // Set when a dry run was saved as a plan
+  batchId?: string;           // Shared by every assignment written by this run
+  runId?: string;             // Persisted AlgorithmRun record
 }
 
 // Bulk assignment request
@@ -84,13 +222,628 @@ export interface BulkAssignmentRequest {
   restaurants: RestaurantRequest[];
   config?: AlgorithmConfig;
   weightConfig?: WeightConfig;
+  weightProfile?: string;     // Named weight profile to use for every restaurant in the run
+  dryRun?: boolean;           // Propose a plan without writing assignments
+  atomic?: boolean;           // Write every assignment in one transaction, or none at all
+}
+
+// State shared by all restaurants within a single assignment run
+export interface AssignmentRunContext {
+  dryRun: boolean;
+  atomic: boolean;
+  batchId?: string;                          // Not set for dry runs
+  plannedAssignments: CreateAssignmentDto[]; // Proposed but not yet persisted (dry run or atomic)
+  constraintRules?: ConstraintRuleDefinition[];   // Active rules, loaded once per run
+  excludedByRules?: Map<string, FiredConstraintRule[]>; // Hard rule exclusions per restaurant
+  rejectedCandidates?: Map<string, RejectedCandidate[]>; // Drivers filtered out per restaurant, with reasons
+  releasedAssignmentIds: string[];           // Preempted assignments, cancelled when the run is written
+  assignedLoad: Map<number, DriverLoad>;     // Assignments made or planned by this run, per driver
+  observer?: RunObserver;                    // Follows progress; may cancel between restaurants
+  snapshot: DaySnapshot;                     // Drivers and recent history for the day, loaded once per run
+  phaseTimings: RunPhaseTimings;
+}
+
+// Where a run spent its time, in milliseconds
+export interface RunPhaseTimings {
+  snapshotMs: number;         // Loading the day snapshot
+  candidatesMs: number;       // Filtering drivers for each restaurant, less the snapshot load
+  selectionMs: number;        // Scoring and choosing drivers
+  writeMs: number;            // Validating and writing (or planning) assignments, preemption included
+}
+
+// How far a run has got, reported after each restaurant
+export interface RunProgress {
+  processed: number;
+  total: number;
+  result?: AssignmentResult;  // The restaurant just processed, when its outcome is already known
+}
+
+// Follows a run as it goes and can stop it between restaurants. Restaurants
+// not reached are returned as failed with 'Run cancelled'.
+export interface RunObserver {
+  onProgress?(progress: RunProgress): Promise<void> | void;
+  isCancelled?(): Promise<boolean> | boolean;
+}
+
+// A driver's assignments and deliveries over a planning period
+export interface DriverLoad {
+  assignments: number;
+  deliveries: number;
+}
+
+// Caps on a driver's load over a planning period, including assignments already booked
+export interface DriverLoadLimits {
+  maxAssignments?: number;
+  maxDeliveries?: number;
+}
+
+// Plan several days at once; restaurant slots are keyed by date (YYYY-MM-DD)
+export interface WeeklyPlanRequest {
+  startDate: string;
+  endDate: string;            // Inclusive
+  days: Record<string, RestaurantRequest[]>;
+  limits?: DriverLoadLimits;  // Per driver over the whole range
+  config?: AlgorithmConfig;
+  weightConfig?: WeightConfig;
+  weightProfile?: string;
+  dryRun?: boolean;           // Save one plan per day instead of writing assignments
+  atomic?: boolean;           // Write each day in one transaction, or none of that day
+}
+
+// One driver's load over a weekly plan's range
+export interface WeeklyDriverTotal {
+  driverId: number;
+  existingAssignments: number;  // Booked before the plan ran
+  existingDeliveries: number;
+  plannedAssignments: number;   // Assigned or proposed by the plan
+  plannedDeliveries: number;
+  totalAssignments: number;
+  totalDeliveries: number;
+  dates: string[];              // Days the plan gave the driver work
+}
+
+export interface WeeklyPlanResult {
+  algorithm: string;
+  startDate: string;
+  endDate: string;
+  limits: DriverLoadLimits;
+  days: AlgorithmResult[];      // One run (or saved plan, for dry runs) per day with restaurants
+  drivers: WeeklyDriverTotal[];
+  totalRequests: number;
+  successfulAssignments: number;
+  failedAssignments: number;
+  executionTimeMs: number;
+  dryRun?: boolean;
+}
+
+// Where a weight profile applies: one restaurant, or every restaurant in a city/state
+export interface WeightProfileScopeInput {
+  restaurantId?: string;
+  city?: string;
+  state?: string;
+}
+
+export interface CreateWeightProfileDto {
+  name: string;
+  description?: string;
+  weights: WeightConfig;
+  note?: string;
+}
+
+export interface CreateWeightProfileVersionDto {
+  weights: Partial<WeightConfig>; // Merged over the active version
+  note?: string;
+  activate?: boolean;             // Defaults to true
+}
+
+export interface WeightProfileVersionResponse {
+  version: number;
+  weights: WeightConfig;
+  note: string | null;
+  metadata: Record<string, unknown> | null;
+  author: { id: number; name: string | null; email: string } | null;
+  createdAt: Date;
+}
+
+export interface WeightProfileResponse {
+  id: string;
+  name: string;
+  description: string | null;
+  activeVersion: number | null;
+  activeWeights: WeightConfig | null;
+  scopes: Array<{ id: string } & WeightProfileScopeInput>;
+  versions?: WeightProfileVersionResponse[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One past assignment prepared for weight training
+export interface WeightTrainingSample {
+  // Component scores scaled to 0-1: location, proximity, performance, workload
+  features: [number, number, number, number];
+  label: 0 | 1; // 1 = good outcome
 }
 
-// Algorithm performance metrics
+export interface WeightTrainingOptions {
+  holdoutFraction?: number; // Share of samples held out for evaluation (default 0.2)
+  seed?: number;            // Seed for the train/holdout split (default 42)
+  epochs?: number;
+  learningRate?: number;
+  l2?: number;              // L2 regularization strength
+}
+
+export interface WeightTrainingModel {
+  weights: WeightConfig;
+  coefficients: WeightConfig; // Raw logistic regression coefficients
+  bias: number;
+  trainAccuracy: number;
+  holdoutAccuracy: number | null;
+  baselineAccuracy: number | null; // Holdout accuracy of always predicting the majority training label
+  trainCount: number;
+  holdoutCount: number;
+}
+
+export interface WeightTrainingRequest extends WeightTrainingOptions {
+  profileName?: string; // Profile to add the candidate version to (default "default")
+  startDate?: string;   // YYYY-MM-DD, defaults to 90 days before endDate
+  endDate?: string;     // YYYY-MM-DD, defaults to today
+  note?: string;
+}
+
+export interface WeightTrainingResult extends WeightTrainingModel {
+  profileName: string;
+  candidateVersion: number; // Saved inactive; activate it after review
+  sampleCount: number;
+  positiveRate: number;
+  skippedAssignments: number; // Labeled rows without the data to rebuild their scores
+}
+
+export type ConstraintRuleKind = 'HARD' | 'SOFT';
+export type ConstraintRuleType = 'DRIVER_RESTAURANT' | 'MIN_COMPLETION_RATE' | 'SERVED_RESTAURANT_RECENTLY';
+
+export interface ConstraintRuleParams {
+  minRate?: number; // MIN_COMPLETION_RATE: percent, 0-100
+  days?: number;    // SERVED_RESTAURANT_RECENTLY: lookback window, default 7
+}
+
+// An active rule as evaluated by the assignment algorithms
+export interface ConstraintRuleDefinition {
+  id: string;
+  name: string;
+  kind: ConstraintRuleKind;
+  type: ConstraintRuleType;
+  restaurantId: string | null; // null = every restaurant
+  driverId: number | null;     // null = every driver
+  params: ConstraintRuleParams;
+  scoreAdjustment: number;     // Added to the score of drivers a SOFT rule fires for
+}
+
+// Data the rules need beyond the driver candidate itself
+export interface ConstraintFacts {
+  assignmentDate: string;
+  lastServedAt: Map<number, string>; // driverId -> latest YYYY-MM-DD at the restaurant before assignmentDate
+}
+
+// A rule that fired while assigning a restaurant
+export interface FiredConstraintRule {
+  ruleId: string;
+  name: string;
+  kind: ConstraintRuleKind;
+  type: ConstraintRuleType;
+  driverIds: number[];       // Drivers it excluded (HARD) or scored (SOFT)
+  scoreAdjustment?: number;  // SOFT rules only
+}
+
+export interface CreateConstraintRuleDto {
+  name: string;
+  description?: string;
+  kind: ConstraintRuleKind;
+  type: ConstraintRuleType;
+  restaurantId?: string | null;
+  driverId?: number | null;
+  params?: ConstraintRuleParams;
+  scoreAdjustment?: number;
+  isActive?: boolean;
+}
+
+export type UpdateConstraintRuleDto = Partial<CreateConstraintRuleDto>;
+
+export interface ConstraintRuleFilters {
+  restaurantId?: string;
+  driverId?: number;
+  isActive?: boolean;
+}
+
+export interface ConstraintRuleResponse extends ConstraintRuleDefinition {
+  description: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Distribution of one per-driver quantity over a date range
+export interface FairnessMetric {
+  total: number;
+  mean: number;
+  median: number;
+  min: number;
+  max: number;
+  gini: number;               // 0 = perfectly equal, towards 1 = concentrated on few drivers
+  maxMinRatio: number | null; // null when at least one driver got nothing
+}
+
+export interface FairnessSegment {
+  city: string | null;        // null for the fleet-wide segment
+  state: string | null;
+  driverCount: number;
+  assignments: FairnessMetric;
+  deliveries: FairnessMetric;
+  earnings: FairnessMetric;
+}
+
+export interface DriverFairnessTotals {
+  driverId: number;
+  name: string | null;
+  assignments: number;
+  deliveries: number;
+  earnings: number;
+}
+
+export interface FairnessReport {
+  startDate: string;
+  endDate: string;
+  overall: FairnessSegment;
+  cities: FairnessSegment[];
+  drivers: DriverFairnessTotals[];
+}
+
+// A driver as loaded for a replay: shifts and blocks are limited to the replayed day
+export interface ReplayDriver {
+  id: number;
+  name: string | null;
+  email: string;
+  serviceAreas: DriverCandidate['serviceAreas'];
+  schedules: Array<{ startTime: Date; endTime: Date; maxDeliveries: number }>;
+  availabilityBlocks: Array<{ isFullDay: boolean; startTime: Date | null; endTime: Date | null; reason: string | null }>;
+  vehicles: DriverVehicle[];
+}
+
+// A past assignment used for workload, completion rate, affinity and rule lookups
+export interface ReplayHistoryAssignment {
+  driverId: number;
+  restaurantId: string;
+  assignmentDate: string; // YYYY-MM-DD
+  status: string;
+  deliveries: number;     // Actual deliveries when recorded, else the estimate
+}
+
+// A delivery rating given before the replayed day
+export interface ReplayRating {
+  driverId: number;
+  rating: number;
+  createdAt: Date;
+}
+
+// Everything a replay reads, loaded once so algorithms run without touching the database
+export interface ReplaySnapshot {
+  date: string;
+  drivers: ReplayDriver[];
+  requests: RestaurantRequest[];       // The day's restaurant requests, rebuilt from its assignments
+  skippedRequests: Array<{ restaurantId: string; reason: string }>;
+  actualAssignments: Array<{ restaurantId: string; driverId: number; status: string }>;
+  history: ReplayHistoryAssignment[];  // Assignments before the replayed day
+  ratings: ReplayRating[];             // Within the rating window before the replayed day
+  constraintRules: ConstraintRuleDefinition[];
+}
+
+// How good a set of assignments for the replayed day is
+export interface ReplayOutcome {
+  coverage: {
+    requests: number;
+    assigned: number;
+    rate: number;                     // 0-1
+  };
+  distance: {
+    measured: number;                 // Assignments where the restaurant has coordinates
+    averageKm: number | null;         // From the driver's nearest service area center
+    maxKm: number | null;
+  };
+  fairness: {
+    drivers: number;                  // Drivers on shift that day, plus any who got work
+    assignments: FairnessMetric;
+    deliveries: FairnessMetric;
+  };
+  completion: {
+    predictedRate: number;            // Mean historical completion rate of the assigned drivers (0-100)
+    expectedCompleted: number;
+    observedRate?: number;            // Actual assignments only: share that were completed (0-100)
+  };
+}
+
+export interface ReplayAlgorithmReport {
+  algorithm: string;
+  executionTimeMs: number;
+  averageScore: number | null;
+  outcome: ReplayOutcome;
+  results: AssignmentResult[];
+}
+
+export interface ReplayReport {
+  date: string;
+  generatedAt: string;
+  snapshot: {
+    drivers: number;
+    requests: number;
+    skippedRequests: Array<{ restaurantId: string; reason: string }>;
+    historyDays: number;
+  };
+  actual?: ReplayOutcome;             // What was really assigned that day; past days only
+  algorithms: ReplayAlgorithmReport[];
+}
+
+// Options for generating a synthetic test day; the same options always give the same data
+export interface SyntheticDatasetOptions {
+  name?: string;
+  seed: number;
+  drivers: number;
+  restaurants: number;
+  center: {
+    latitude: number;
+    longitude: number;
+    city: string;
+    state: string;
+  };
+  radiusKm?: number;       // How far restaurants and service areas spread from the center (default 15)
+  assignmentDate?: string; // The test day, YYYY-MM-DD (default tomorrow)
+  blockRate?: number;      // Share of drivers with an availability block on the test day, 0-1 (default 0.1)
+}
+
+// A generated driver before it is written; times are HH:MM
+export interface SyntheticDriver {
+  name: string;
+  serviceAreas: Array<{
+    areaName: string;
+    city: string;
+    state: string;
+    latitude: number;
+    longitude: number;
+    radiusKm: number;
+  }>;
+  schedules: Array<{ dayOfWeek: number; startTime: string; endTime: string; maxDeliveries: number }>;
+  availabilityBlocks: Array<{ isFullDay: boolean; startTime?: string; endTime?: string; reason: string }>;
+  vehicle: { make: string; model: string; type: VehicleType; capacity: number; verified: boolean };
+}
+
+export interface SyntheticScenario {
+  drivers: SyntheticDriver[];
+  requests: RestaurantRequest[];
+}
+
+export interface SyntheticDatasetResponse {
+  id: string;
+  name: string | null;
+  seed: number;
+  assignmentDate: string;
+  params: SyntheticDatasetOptions;
+  driverCount: number;
+  requestCount: number;
+  requests?: RestaurantRequest[]; // Single dataset only
+  createdAt: Date;
+}
+
+// Result of committing a previously previewed plan
+export interface PlanCommitResult {
+  planId: string;
+  batchId: string;
+  algorithm: string;
+  assignmentDate: string;
+  results: AssignmentResult[];
+  committedAssignments: number;
+  failedAssignments: number;
+}
+
+// Result of reverting the assignments written by one run
+export interface RunRevertResult {
+  batchId: string;
+  deletedAssignments: number;
+  restoredAssignments: number;  // Assignments the run preempted, PENDING again
+}
+
+// Algorithm performance metrics, aggregated from persisted runs
 export interface AlgorithmMetrics {
   algorithm: string;
   totalRuns: number;
   averageExecutionTime: number;
   successRate: number;
   averageScore: number;
-} 
\ No newline at end of file
+}
+
+// Filters for persisted algorithm runs
+export interface AlgorithmRunFilters {
+  algorithm?: string;
+  assignmentDate?: string; // YYYY-MM-DD format
+  startDate?: string;      // Runs created on or after this date
+  endDate?: string;        // Runs created on or before this date
+  dryRun?: boolean;
+  requestHash?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Persisted run without its request and per-restaurant results
+export interface AlgorithmRunSummary {
+  id: string;
+  algorithm: string;
+  assignmentDate: string;
+  requestHash: string;
+  totalRequests: number;
+  successfulAssignments: number;
+  failedAssignments: number;
+  averageScore: number | null;
+  executionTimeMs: number;
+  dryRun: boolean;
+  batchId: string | null;
+  planId: string | null;
+  createdAt: Date;
+}
+
+// Persisted run with everything needed to reproduce it
+export interface AlgorithmRunDetail extends AlgorithmRunSummary {
+  config: AlgorithmConfig;
+  weights: WeightConfig | null;
+  phaseTimings: RunPhaseTimings | null;   // Not recorded for runs before phase timing
+  request: BulkAssignmentRequest;
+  results: AssignmentResult[];
+}
+
+// Response format for paginated run lists
+export interface AlgorithmRunListResponse {
+  runs: AlgorithmRunSummary[];
+  total: number;
+  pagination: {
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+} 
+// A restaurant pickup repeated on the same weekdays; times are HH:MM, dates YYYY-MM-DD
+export interface CreateRecurringSlotDto {
+  restaurantId: string;
+  name?: string;
+  city: string;
+  state: string;
+  latitude?: number;
+  longitude?: number;
+  daysOfWeek: number[];       // 0 = Sunday, 6 = Saturday
+  pickupTime: string;
+  expectedDurationMinutes?: number;
+  estimatedDeliveries: number;
+  paymentType?: 'FIXED' | 'PER_DELIVERY' | 'HOURLY';
+  paymentRate: number;
+  priority?: number;
+  algorithm?: string | null;  // Registered algorithm; the service default when omitted
+  startDate?: string | null;
+  endDate?: string | null;
+  isActive?: boolean;
+}
+
+export type UpdateRecurringSlotDto = Partial<CreateRecurringSlotDto>;
+
+export interface RecurringSlotResponse {
+  id: string;
+  restaurantId: string;
+  name: string | null;
+  city: string;
+  state: string;
+  latitude: number | null;
+  longitude: number | null;
+  daysOfWeek: number[];
+  pickupTime: string;
+  expectedDurationMinutes: number | null;
+  estimatedDeliveries: number;
+  paymentType: string;
+  paymentRate: number;
+  priority: number;
+  algorithm: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  isActive: boolean;
+  exceptions: Array<{ date: string; reason: string | null }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface HolidayResponse {
+  id: string;
+  date: string;
+  name: string;
+}
+
+// Slot occurrence the recurring slots job could not give a driver
+export interface UnfilledSlot {
+  slotId: string;
+  restaurantId: string;
+  date: string;
+  error: string;
+}
+
+// Result of one pass of the recurring slots job
+export interface RecurringSlotGenerationReport {
+  from: string;
+  to: string;
+  generatedAt: string;
+  runs: Array<{
+    date: string;
+    algorithm: string;
+    runId?: string;
+    batchId?: string;
+    successfulAssignments: number;
+    failedAssignments: number;
+  }>;
+  filled: number;
+  unfilled: UnfilledSlot[];
+  skipped: Array<{ slotId: string; date: string; reason: string }>; // Holidays and slot exceptions
+  alreadyAssigned: number;    // Occurrences the restaurant already has an assignment for
+}
+
+// What took a driver off their pending assignments
+export type ReassignmentTrigger = 'AVAILABILITY_BLOCK' | 'DRIVER_STATUS';
+
+// Reassignment queued in Redis; the worker reloads the block or status it names
+export type ReassignmentJob =
+  | { id: string; trigger: 'AVAILABILITY_BLOCK'; blockId: string }
+  | { id: string; trigger: 'DRIVER_STATUS'; driverId: number; status: string };
+
+// Pending assignment that needs dispatch to find a driver
+export interface FlaggedAssignment {
+  assignmentId: string;
+  restaurantId: string;
+  date: string;
+  driverId: number;           // Driver who can no longer take it
+  reason: string;             // Why the driver dropped out
+  error?: string;             // Why it was not reassigned automatically
+}
+
+// Outcome of moving one driver's affected assignments to other drivers
+export interface ReassignmentReport {
+  trigger: ReassignmentTrigger;
+  driverId: number;
+  reason: string;
+  mode: 'auto' | 'flag';
+  affected: number;
+  reassigned: Array<{
+    assignmentId: string;     // Cancelled assignment
+    newAssignmentId?: string;
+    restaurantId: string;
+    date: string;
+    newDriverId: number;
+    algorithm: string;
+    runId?: string;
+  }>;
+  flagged: FlaggedAssignment[];
+}
+
+// Bulk assignment run queued in Redis and worked off in the background
+export type AlgorithmJobStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface AlgorithmJob {
+  id: string;
+  status: AlgorithmJobStatus;
+  algorithm: string;
+  assignmentDate: string;
+  dryRun: boolean;
+  requestedBy: number;        // User notified of progress
+  processed: number;
+  total: number;
+  results: AssignmentResult[]; // Grows while the job runs
+  cancelRequested: boolean;
+  runId?: string;
+  batchId?: string;
+  planId?: string;
+  successfulAssignments?: number;
+  failedAssignments?: number;
+  error?: string;             // Set when the job failed
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
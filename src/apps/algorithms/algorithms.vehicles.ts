@@ -0,0 +1,54 @@
+import { DriverCandidate, RestaurantRequest, VehicleRequirements } from './algorithms.types';
+
+type DriverVehicle = NonNullable<DriverCandidate['vehicles']>[number];
+
+/**
+ * Find the driver's verified vehicle that best fits a restaurant's requirements.
+ *
+ * A vehicle fits when its type is one of the allowed types and its capacity is at
+ * least `minCapacity` (vehicles with unknown capacity never meet a minimum). Among
+ * fitting vehicles the smallest sufficient one wins, so large vehicles stay free
+ * for large orders. Returns null when nothing fits.
+ */
+export function matchVehicle(
+  vehicles: DriverVehicle[],
+  requirements?: VehicleRequirements
+): DriverVehicle | null {
+  const fitting = vehicles.filter(vehicle =>
+    vehicle.verified &&
+    (!requirements?.types?.length || (vehicle.type !== null && requirements.types.includes(vehicle.type))) &&
+    (requirements?.minCapacity === undefined ||
+      (vehicle.capacity !== null && vehicle.capacity >= requirements.minCapacity))
+  );
+
+  if (fitting.length === 0) {
+    return null;
+  }
+
+  return fitting.reduce((best, vehicle) =>
+    (vehicle.capacity ?? Infinity) < (best.capacity ?? Infinity) ? vehicle : best
+  );
+}
+
+/**
+ * Vehicle fit score (0-100) for the weighted scorer.
+ * 0 when no vehicle fits. With a minimum capacity, snug fits score higher than
+ * oversized vehicles. 50 when the driver's vehicles are unknown.
+ */
+export function scoreVehicleFit(driver: DriverCandidate, request: RestaurantRequest): number {
+  if (!driver.vehicles) {
+    return 50;
+  }
+
+  const vehicle = matchVehicle(driver.vehicles, request.vehicleRequirements);
+  if (!vehicle) {
+    return 0;
+  }
+
+  const minCapacity = request.vehicleRequirements?.minCapacity;
+  if (minCapacity === undefined || !vehicle.capacity) {
+    return 100;
+  }
+
+  return Math.round(60 + 40 * Math.min(1, minCapacity / vehicle.capacity));
+}
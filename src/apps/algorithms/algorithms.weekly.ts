@@ -0,0 +1,109 @@
+import { AlgorithmResult, DriverLoad, RestaurantRequest, WeeklyDriverTotal, WeeklyPlanRequest } from './algorithms.types';
+
+// Longest range one planning request may cover
+export const MAX_PLAN_DAYS = 14;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Every date from startDate to endDate (inclusive), as YYYY-MM-DD
+ */
+export function datesBetween(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const current = new Date(startDate);
+  const end = new Date(endDate);
+
+  while (current <= end) {
+    dates.push(current.toISOString().split('T')[0]);
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+
+  return dates;
+}
+
+/**
+ * Check a weekly plan request; errors start with "Invalid" so they map to 400
+ */
+export function validateWeeklyPlanRequest(request: WeeklyPlanRequest): void {
+  const { startDate, endDate } = request;
+
+  if (!DATE_PATTERN.test(startDate) || isNaN(new Date(startDate).getTime()) ||
+      !DATE_PATTERN.test(endDate) || isNaN(new Date(endDate).getTime())) {
+    throw new Error('Invalid date range. Use YYYY-MM-DD for startDate and endDate');
+  }
+
+  const dates = datesBetween(startDate, endDate);
+  if (dates.length === 0) {
+    throw new Error('Invalid date range. endDate must not be before startDate');
+  }
+  if (dates.length > MAX_PLAN_DAYS) {
+    throw new Error(`Invalid date range. A plan covers at most ${MAX_PLAN_DAYS} days`);
+  }
+
+  if (!request.days || typeof request.days !== 'object' || Array.isArray(request.days)) {
+    throw new Error('Invalid days. Expected restaurant requests keyed by date');
+  }
+
+  const outside = Object.keys(request.days).filter(date => !dates.includes(date));
+  if (outside.length > 0) {
+    throw new Error(`Invalid days. ${outside.join(', ')} outside ${startDate} to ${endDate}`);
+  }
+
+  const notArrays = Object.entries(request.days).filter(([, restaurants]) => !Array.isArray(restaurants));
+  if (notArrays.length > 0) {
+    throw new Error(`Invalid days. Restaurants for ${notArrays.map(([date]) => date).join(', ')} must be an array`);
+  }
+
+  const { maxAssignments, maxDeliveries } = request.limits || {};
+  if ((maxAssignments !== undefined && (!Number.isInteger(maxAssignments) || maxAssignments < 1)) ||
+      (maxDeliveries !== undefined && (!Number.isInteger(maxDeliveries) || maxDeliveries < 1))) {
+    throw new Error('Invalid limits. maxAssignments and maxDeliveries must be positive integers');
+  }
+}
+
+/**
+ * Load each driver picked up from one day's run
+ */
+export function dayLoad(result: AlgorithmResult, restaurants: RestaurantRequest[]): Map<number, DriverLoad> {
+  const load = new Map<number, DriverLoad>();
+
+  result.results
+    .filter(r => r.success && r.driverId !== undefined)
+    .forEach(r => {
+      const deliveries = restaurants.find(restaurant => restaurant.restaurantId === r.restaurantId)?.estimatedDeliveries || 0;
+      const existing = load.get(r.driverId!) || { assignments: 0, deliveries: 0 };
+      load.set(r.driverId!, { assignments: existing.assignments + 1, deliveries: existing.deliveries + deliveries });
+    });
+
+  return load;
+}
+
+/**
+ * Per-driver totals over the plan's range: what was booked before, what the plan added
+ */
+export function summarizeWeeklyLoad(
+  existing: Map<number, DriverLoad>,
+  days: Array<{ date: string; load: Map<number, DriverLoad> }>
+): WeeklyDriverTotal[] {
+  const driverIds = new Set([...existing.keys(), ...days.flatMap(day => Array.from(day.load.keys()))]);
+
+  return Array.from(driverIds)
+    .sort((a, b) => a - b)
+    .map(driverId => {
+      const booked = existing.get(driverId) || { assignments: 0, deliveries: 0 };
+      const plannedDays = days.filter(day => day.load.has(driverId));
+      const plannedAssignments = plannedDays.reduce((sum, day) => sum + day.load.get(driverId)!.assignments, 0);
+      const plannedDeliveries = plannedDays.reduce((sum, day) => sum + day.load.get(driverId)!.deliveries, 0);
+
+      return {
+        driverId,
+        existingAssignments: booked.assignments,
+        existingDeliveries: booked.deliveries,
+        plannedAssignments,
+        plannedDeliveries,
+        totalAssignments: booked.assignments + plannedAssignments,
+        totalDeliveries: booked.deliveries + plannedDeliveries,
+        dates: plannedDays.map(day => day.date)
+      };
+    });
+}
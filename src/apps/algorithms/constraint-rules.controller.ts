@@ -0,0 +1,143 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { ConstraintRulesService } from './constraint-rules.service';
+import { CreateConstraintRuleDto, UpdateConstraintRuleDto } from './algorithms.types';
+
+export class ConstraintRulesController {
+  private constraintRulesService: ConstraintRulesService;
+
+  constructor(prisma: PrismaClient) {
+    this.constraintRulesService = new ConstraintRulesService(prisma);
+  }
+
+  /**
+   * List constraint rules
+   * GET /api/algorithms/constraint-rules
+   */
+  async listRules(req: Request, res: Response): Promise<void> {
+    try {
+      const { restaurantId, driverId, isActive } = req.query;
+
+      const rules = await this.constraintRulesService.listRules({
+        restaurantId: restaurantId as string | undefined,
+        driverId: driverId ? parseInt(driverId as string) : undefined,
+        isActive: isActive !== undefined ? isActive === 'true' : undefined
+      });
+
+      res.json({
+        success: true,
+        data: rules
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to list constraint rules');
+    }
+  }
+
+  /**
+   * Get a constraint rule
+   * GET /api/algorithms/constraint-rules/:id
+   */
+  async getRule(req: Request, res: Response): Promise<void> {
+    try {
+      const rule = await this.constraintRulesService.getRule(req.params.id);
+
+      if (!rule) {
+        res.status(404).json({
+          success: false,
+          error: 'Constraint rule not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: rule
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to get constraint rule');
+    }
+  }
+
+  /**
+   * Create a constraint rule
+   * POST /api/algorithms/constraint-rules
+   */
+  async createRule(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const rule = await this.constraintRulesService.createRule(req.body as CreateConstraintRuleDto);
+
+      res.status(201).json({
+        success: true,
+        data: rule
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to create constraint rule');
+    }
+  }
+
+  /**
+   * Update a constraint rule (including enabling or disabling it)
+   * PUT /api/algorithms/constraint-rules/:id
+   */
+  async updateRule(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const rule = await this.constraintRulesService.updateRule(req.params.id, req.body as UpdateConstraintRuleDto);
+
+      res.json({
+        success: true,
+        data: rule
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to update constraint rule');
+    }
+  }
+
+  /**
+   * Delete a constraint rule
+   * DELETE /api/algorithms/constraint-rules/:id
+   */
+  async deleteRule(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      await this.constraintRulesService.deleteRule(req.params.id);
+
+      res.json({
+        success: true,
+        data: {
+          message: 'Constraint rule deleted'
+        }
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to delete constraint rule');
+    }
+  }
+
+  /**
+   * Map service errors to HTTP status codes
+   */
+  private sendError(res: Response, error: unknown, fallback: string): void {
+    const message = error instanceof Error ? error.message : fallback;
+    const status = message.startsWith('Invalid')
+      ? 400
+      : message.endsWith('not found') ? 404 : 500;
+
+    res.status(status).json({
+      success: false,
+      error: message
+    });
+  }
+}
@@ -0,0 +1,238 @@
+import { PrismaClient, Prisma, ConstraintRule } from '@prisma/client';
+import { DEFAULT_RECENT_SERVICE_DAYS } from './algorithms.constraints';
+import {
+  ConstraintRuleDefinition,
+  ConstraintRuleFilters,
+  ConstraintRuleKind,
+  ConstraintRuleParams,
+  ConstraintRuleResponse,
+  ConstraintRuleType,
+  CreateConstraintRuleDto,
+  UpdateConstraintRuleDto
+} from './algorithms.types';
+
+const RULE_KINDS: ConstraintRuleKind[] = ['HARD', 'SOFT'];
+const RULE_TYPES: ConstraintRuleType[] = ['DRIVER_RESTAURANT', 'MIN_COMPLETION_RATE', 'SERVED_RESTAURANT_RECENTLY'];
+
+/**
+ * Constraint Rules Service
+ *
+ * Stores dispatcher rules that every assignment algorithm applies on top of
+ * its own selection logic: hard rules remove candidates, soft rules adjust
+ * their scores. Rules are scoped globally, to a restaurant, to a driver, or to
+ * one driver/restaurant pair.
+ */
+export class ConstraintRulesService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * List rules, newest first
+   */
+  async listRules(filters?: ConstraintRuleFilters): Promise<ConstraintRuleResponse[]> {
+    const rules = await this.prisma.constraintRule.findMany({
+      where: {
+        ...(filters?.restaurantId && { restaurantId: filters.restaurantId }),
+        ...(filters?.driverId !== undefined && { driverId: filters.driverId }),
+        ...(filters?.isActive !== undefined && { isActive: filters.isActive })
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return rules.map(rule => this.formatRule(rule));
+  }
+
+  async getRule(id: string): Promise<ConstraintRuleResponse | null> {
+    const rule = await this.prisma.constraintRule.findUnique({ where: { id } });
+    return rule ? this.formatRule(rule) : null;
+  }
+
+  async createRule(data: CreateConstraintRuleDto): Promise<ConstraintRuleResponse> {
+    const rule = this.validateRule(data);
+
+    const created = await this.prisma.constraintRule.create({
+      data: {
+        name: rule.name,
+        description: rule.description,
+        kind: rule.kind,
+        type: rule.type,
+        restaurantId: rule.restaurantId ?? null,
+        driverId: rule.driverId ?? null,
+        params: rule.params as Prisma.InputJsonValue,
+        scoreAdjustment: rule.kind === 'SOFT' ? rule.scoreAdjustment : null,
+        isActive: rule.isActive ?? true
+      }
+    });
+
+    return this.formatRule(created);
+  }
+
+  /**
+   * Update a rule. The merged rule is validated as a whole, so changing
+   * the kind or type also requires matching params.
+   */
+  async updateRule(id: string, data: UpdateConstraintRuleDto): Promise<ConstraintRuleResponse> {
+    const existing = await this.getRule(id);
+    if (!existing) {
+      throw new Error('Constraint rule not found');
+    }
+
+    const rule = this.validateRule({
+      name: existing.name,
+      description: existing.description ?? undefined,
+      kind: existing.kind,
+      type: existing.type,
+      restaurantId: existing.restaurantId,
+      driverId: existing.driverId,
+      params: existing.params,
+      scoreAdjustment: existing.kind === 'SOFT' ? existing.scoreAdjustment : undefined,
+      isActive: existing.isActive,
+      ...data
+    });
+
+    const updated = await this.prisma.constraintRule.update({
+      where: { id },
+      data: {
+        name: rule.name,
+        description: rule.description,
+        kind: rule.kind,
+        type: rule.type,
+        restaurantId: rule.restaurantId ?? null,
+        driverId: rule.driverId ?? null,
+        params: rule.params as Prisma.InputJsonValue,
+        scoreAdjustment: rule.kind === 'SOFT' ? rule.scoreAdjustment : null,
+        isActive: rule.isActive
+      }
+    });
+
+    return this.formatRule(updated);
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    const deleted = await this.prisma.constraintRule.deleteMany({ where: { id } });
+
+    if (deleted.count === 0) {
+      throw new Error('Constraint rule not found');
+    }
+  }
+
+  /**
+   * Active rules in the form the algorithms evaluate
+   */
+  async getActiveRules(): Promise<ConstraintRuleDefinition[]> {
+    const rules = await this.prisma.constraintRule.findMany({
+      where: { isActive: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return rules.map(rule => this.toDefinition(rule));
+  }
+
+  /**
+   * Latest date before assignmentDate on which each driver had a non-cancelled
+   * assignment at the restaurant, looking back at most `days` days
+   */
+  async getLastServedDates(
+    restaurantId: string,
+    driverIds: number[],
+    assignmentDate: string,
+    days: number
+  ): Promise<Map<number, string>> {
+    const lastServedAt = new Map<number, string>();
+
+    if (driverIds.length === 0) {
+      return lastServedAt;
+    }
+
+    const endDate = new Date(assignmentDate);
+    const startDate = new Date(assignmentDate);
+    startDate.setDate(startDate.getDate() - days);
+
+    const assignments = await this.prisma.restaurantAssignment.findMany({
+      where: {
+        restaurantId,
+        driverId: { in: driverIds },
+        assignmentDate: { gte: startDate, lt: endDate },
+        status: { not: 'CANCELLED' }
+      },
+      select: { driverId: true, assignmentDate: true },
+      orderBy: { assignmentDate: 'desc' }
+    });
+
+    for (const assignment of assignments) {
+      if (!lastServedAt.has(assignment.driverId)) {
+        lastServedAt.set(assignment.driverId, assignment.assignmentDate.toISOString().split('T')[0]);
+      }
+    }
+
+    return lastServedAt;
+  }
+
+  private validateRule(data: CreateConstraintRuleDto): CreateConstraintRuleDto & { params: ConstraintRuleParams } {
+    if (!data || typeof data.name !== 'string' || data.name.trim() === '') {
+      throw new Error('Invalid rule: name is required');
+    }
+
+    if (!RULE_KINDS.includes(data.kind)) {
+      throw new Error(`Invalid rule kind. Must be one of: ${RULE_KINDS.join(', ')}`);
+    }
+
+    if (!RULE_TYPES.includes(data.type)) {
+      throw new Error(`Invalid rule type. Must be one of: ${RULE_TYPES.join(', ')}`);
+    }
+
+    if (data.driverId !== undefined && data.driverId !== null && !Number.isInteger(data.driverId)) {
+      throw new Error('Invalid rule: driverId must be an integer');
+    }
+
+    if (data.type === 'DRIVER_RESTAURANT' && !data.restaurantId && (data.driverId === undefined || data.driverId === null)) {
+      throw new Error('Invalid rule: DRIVER_RESTAURANT rules need a restaurantId or driverId');
+    }
+
+    if (data.kind === 'SOFT' && (typeof data.scoreAdjustment !== 'number' || !Number.isFinite(data.scoreAdjustment) || data.scoreAdjustment === 0)) {
+      throw new Error('Invalid rule: SOFT rules need a non-zero scoreAdjustment');
+    }
+
+    const params: ConstraintRuleParams = {};
+
+    if (data.type === 'MIN_COMPLETION_RATE') {
+      const minRate = data.params?.minRate;
+      if (typeof minRate !== 'number' || minRate < 0 || minRate > 100) {
+        throw new Error('Invalid rule: MIN_COMPLETION_RATE rules need params.minRate between 0 and 100');
+      }
+      params.minRate = minRate;
+    }
+
+    if (data.type === 'SERVED_RESTAURANT_RECENTLY') {
+      const days = data.params?.days ?? DEFAULT_RECENT_SERVICE_DAYS;
+      if (!Number.isInteger(days) || days < 1 || days > 90) {
+        throw new Error('Invalid rule: params.days must be an integer from 1 to 90');
+      }
+      params.days = days;
+    }
+
+    return { ...data, name: data.name.trim(), params };
+  }
+
+  private toDefinition(rule: ConstraintRule): ConstraintRuleDefinition {
+    return {
+      id: rule.id,
+      name: rule.name,
+      kind: rule.kind,
+      type: rule.type,
+      restaurantId: rule.restaurantId,
+      driverId: rule.driverId,
+      params: (rule.params as ConstraintRuleParams | null) || {},
+      scoreAdjustment: rule.scoreAdjustment !== null ? Number(rule.scoreAdjustment) : 0
+    };
+  }
+
+  private formatRule(rule: ConstraintRule): ConstraintRuleResponse {
+    return {
+      ...this.toDefinition(rule),
+      description: rule.description,
+      isActive: rule.isActive,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt
+    };
+  }
+}
@@ -0,0 +1,163 @@
+import { PrismaClient } from '@prisma/client';
+import { summarizeDistribution } from './algorithms.fairness';
+import { DriverFairnessTotals, FairnessReport, FairnessSegment } from './algorithms.types';
+
+interface CityTotals {
+  city: string;
+  state: string;
+  drivers: Map<number, { assignments: number; deliveries: number; earnings: number }>;
+}
+
+/**
+ * Fairness Service
+ *
+ * Reports how evenly assignments, deliveries and earnings were shared between
+ * drivers over a date range, fleet-wide and per city. Active drivers who got
+ * no work count as zeros, so idle drivers lower the fairness scores.
+ */
+export class FairnessService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Build the fairness report for startDate..endDate (inclusive)
+   */
+  async getFairnessReport(startDate: string, endDate: string): Promise<FairnessReport> {
+    const dateRange = {
+      gte: new Date(startDate),
+      lte: new Date(endDate)
+    };
+
+    const [drivers, assignments, earnings] = await Promise.all([
+      this.prisma.user.findMany({
+        where: {
+          syntheticDatasetId: null,
+          OR: [
+            { driverStatus: 'ACTIVE' },
+            { restaurantAssignments: { some: { assignmentDate: dateRange, status: { not: 'CANCELLED' } } } }
+          ]
+        },
+        select: {
+          id: true,
+          name: true,
+          serviceAreas: {
+            where: { isActive: true },
+            select: { city: true, state: true }
+          }
+        }
+      }),
+      this.prisma.restaurantAssignment.findMany({
+        where: {
+          assignmentDate: dateRange,
+          status: { not: 'CANCELLED' }
+        },
+        select: {
+          driverId: true,
+          estimatedDeliveries: true,
+          actualDeliveries: true,
+          restaurantCity: true,
+          restaurantState: true
+        }
+      }),
+      this.prisma.driverEarning.findMany({
+        where: { earningDate: dateRange },
+        select: {
+          driverId: true,
+          amount: true,
+          assignment: {
+            select: { restaurantCity: true, restaurantState: true }
+          }
+        }
+      })
+    ]);
+
+    const totals = new Map<number, DriverFairnessTotals>(
+      drivers.map(driver => [driver.id, { driverId: driver.id, name: driver.name, assignments: 0, deliveries: 0, earnings: 0 }])
+    );
+    const cities = new Map<string, CityTotals>();
+
+    // Drivers serving a city are part of its segment even without work there
+    drivers.forEach(driver => {
+      driver.serviceAreas.forEach(area => this.cityDriverTotals(cities, area.city, area.state, driver.id));
+    });
+
+    assignments.forEach(assignment => {
+      const deliveries = assignment.actualDeliveries ?? assignment.estimatedDeliveries;
+      const driverTotals = totals.get(assignment.driverId)!;
+      driverTotals.assignments += 1;
+      driverTotals.deliveries += deliveries;
+
+      // Older assignments have no recorded location and only count fleet-wide
+      if (assignment.restaurantCity && assignment.restaurantState) {
+        const cityTotals = this.cityDriverTotals(cities, assignment.restaurantCity, assignment.restaurantState, assignment.driverId);
+        cityTotals.assignments += 1;
+        cityTotals.deliveries += deliveries;
+      }
+    });
+
+    earnings.forEach(earning => {
+      const amount = Number(earning.amount);
+      const driverTotals = totals.get(earning.driverId);
+      if (!driverTotals) {
+        return;
+      }
+      driverTotals.earnings += amount;
+
+      const { restaurantCity, restaurantState } = earning.assignment;
+      if (restaurantCity && restaurantState) {
+        this.cityDriverTotals(cities, restaurantCity, restaurantState, earning.driverId).earnings += amount;
+      }
+    });
+
+    const driverTotals = Array.from(totals.values()).map(driver => ({
+      ...driver,
+      earnings: Math.round(driver.earnings * 100) / 100
+    }));
+
+    return {
+      startDate,
+      endDate,
+      overall: this.buildSegment(null, null, driverTotals),
+      cities: Array.from(cities.values())
+        .map(city => this.buildSegment(city.city, city.state, Array.from(city.drivers.values())))
+        .sort((a, b) => b.assignments.total - a.assignments.total),
+      drivers: driverTotals.sort((a, b) => b.assignments - a.assignments)
+    };
+  }
+
+  /**
+   * Per-driver totals within a city, created on first use.
+   * Cities are matched case-insensitively; the first spelling seen is reported.
+   */
+  private cityDriverTotals(cities: Map<string, CityTotals>, city: string, state: string, driverId: number) {
+    const key = `${city.trim().toLowerCase()}|${state.trim().toLowerCase()}`;
+    let cityTotals = cities.get(key);
+
+    if (!cityTotals) {
+      cityTotals = { city: city.trim(), state: state.trim(), drivers: new Map() };
+      cities.set(key, cityTotals);
+    }
+
+    let driverTotals = cityTotals.drivers.get(driverId);
+    if (!driverTotals) {
+      driverTotals = { assignments: 0, deliveries: 0, earnings: 0 };
+      cityTotals.drivers.set(driverId, driverTotals);
+    }
+
+    return driverTotals;
+  }
+
+  private buildSegment(
+    city: string | null,
+    state: string | null,
+    drivers: Array<{ assignments: number; deliveries: number; earnings: number }>
+  ): FairnessSegment {
+    return {
+      city,
+      state,
+      driverCount: drivers.length,
+      assignments: summarizeDistribution(drivers.map(driver => driver.assignments)),
+      deliveries: summarizeDistribution(drivers.map(driver => driver.deliveries)),
+      earnings: summarizeDistribution(drivers.map(driver => driver.earnings))
+    };
+  }
+}
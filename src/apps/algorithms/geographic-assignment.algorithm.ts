@@ -1,5 +1,7 @@
 import { BaseAssignmentAlgorithm } from './algorithms.base';
-import { DriverCandidate, RestaurantRequest } from './algorithms.types';
+import { hasCoordinates, matchServiceArea } from './algorithms.geo';
+import { roundBreakdown } from './algorithms.explanations';
+import { CandidateScore, DriverCandidate, RestaurantRequest } from './algorithms.types';
 
 /**
  * Geographic Assignment Algorithm
@@ -7,6 +9,7 @@ import { DriverCandidate, RestaurantRequest } from './algorithms.types';
  * This algorithm considers driver service areas and restaurant locations to assign
  * the most geographically suitable driver. It prioritizes drivers with smaller
  * service areas (more local) and those closest to the restaurant.
+ * With `affinityTieBreaker`, ties go to the driver who knows the restaurant best.
  */
 export class GeographicAssignmentAlgorithm extends BaseAssignmentAlgorithm {
   getName(): string {
@@ -17,92 +20,86 @@ export class GeographicAssignmentAlgorithm extends BaseAssignmentAlgorithm {
     availableDrivers: DriverCandidate[],
     request: RestaurantRequest,
     assignmentDate: string
-  ): Promise<{ driver: DriverCandidate; score?: number } | null> {
+  ): Promise<{ driver: DriverCandidate; score?: number; candidates?: CandidateScore[] } | null> {
     if (availableDrivers.length === 0) {
       return null;
     }
 
-    // Filter drivers who serve the restaurant's area
-    const localDrivers = availableDrivers.filter(driver =>
-      driver.serviceAreas.some(area =>
-        area.city.toLowerCase() === request.city.toLowerCase() &&
-        area.state.toLowerCase() === request.state.toLowerCase()
-      )
+    // Load restaurant affinity only when it is used to break ties
+    const drivers = this.config.affinityTieBreaker
+      ? await this.attachAffinityScores(availableDrivers, request, assignmentDate)
+      : availableDrivers;
+
+    // Filter drivers with a service area covering the restaurant
+    const localDrivers = drivers.filter(driver =>
+      matchServiceArea(driver.serviceAreas, request) !== null
     );
 
     if (localDrivers.length === 0) {
-      // If no exact city match, fall back to any available driver
-      return this.selectByProximity(availableDrivers, request);
+      // If no service area covers the restaurant, fall back to any available driver
+      return this.selectByProximity(drivers, request);
     }
 
     // Score drivers based on geographic suitability
     const scoredDrivers = localDrivers.map(driver => {
-      const score = this.calculateGeographicScore(driver, request);
-      return { driver, score };
+      const breakdown = this.calculateGeographicBreakdown(driver, request);
+      return { driver, score: this.sumBreakdown(breakdown, driver), breakdown: roundBreakdown(breakdown) };
     });
 
     // Select driver with highest geographic score
-    const selectedEntry = scoredDrivers.reduce((prev, current) =>
-      prev.score > current.score ? prev : current
-    );
-
-    return selectedEntry;
+    return { ...this.selectHighestScore(scoredDrivers), candidates: scoredDrivers };
   }
 
-  private calculateGeographicScore(driver: DriverCandidate, request: RestaurantRequest): number {
-    let score = 0;
+  /**
+   * Points for each geographic factor; only called for drivers whose service area covers the restaurant
+   */
+  private calculateGeographicBreakdown(driver: DriverCandidate, request: RestaurantRequest): Record<string, number> {
+    // Find the service area covering the restaurant location
+    const match = matchServiceArea(driver.serviceAreas, request);
 
-    // Find matching service areas for the restaurant location
-    const matchingAreas = driver.serviceAreas.filter(area =>
-      area.city.toLowerCase() === request.city.toLowerCase() &&
-      area.state.toLowerCase() === request.state.toLowerCase()
-    );
-
-    if (matchingAreas.length === 0) {
-      return 0; // No geographic match
+    if (!match) {
+      return {}; // No geographic match
     }
 
-    // Base score for city/state match
-    score += 50;
-
-    // Bonus for smaller service radius (more focused/local driver)
-    const minRadius = Math.min(...matchingAreas.map(area => area.radiusKm));
-    const radiusScore = Math.max(0, 50 - (minRadius / 2)); // Higher score for smaller radius
-    score += radiusScore;
-
-    // If restaurant coordinates are available, calculate distance bonus
-    if (request.latitude && request.longitude && matchingAreas.length > 0) {
-      const area = matchingAreas[0]; // Use first matching area
-      const distance = this.calculateDistance(
-        area.latitude,
-        area.longitude,
-        request.latitude,
-        request.longitude
-      );
-
-      // Distance bonus (closer = higher score)
-      const distanceScore = Math.max(0, 20 - distance); // Max 20 points for very close
-      score += distanceScore;
+    const breakdown: Record<string, number> = {
+      // Base score for area coverage
+      coverageScore: 50,
+      // Bonus for smaller service radius (more focused/local driver)
+      radiusScore: Math.max(0, 50 - (match.radiusKm / 2))
+    };
+
+    // If the area was matched by radius, add a distance bonus
+    if (match.distanceKm !== null) {
+      breakdown.distanceScore = Math.max(0, 20 - match.distanceKm); // Max 20 points for very close
     }
 
     // Workload balancing factor (prefer drivers with fewer assignments)
     const maxAssignments = 10; // Assume reasonable max
-    const workloadScore = ((maxAssignments - driver.currentAssignments) / maxAssignments) * 10;
-    score += workloadScore;
+    breakdown.workloadScore = ((maxAssignments - driver.currentAssignments) / maxAssignments) * 10;
 
-    return Math.round(score * 100) / 100; // Round to 2 decimal places
+    return breakdown;
   }
 
+
   private selectByProximity(
     availableDrivers: DriverCandidate[],
     request: RestaurantRequest
-  ): { driver: DriverCandidate; score: number } | null {
-    if (!request.latitude || !request.longitude) {
+  ): { driver: DriverCandidate; score: number; candidates: CandidateScore[] } | null {
+    if (!hasCoordinates(request)) {
       // No coordinates available, fall back to simple selection
-      const driver = availableDrivers.reduce((prev, current) =>
-        prev.currentAssignments < current.currentAssignments ? prev : current
-      );
-      return { driver, score: 25 }; // Low score for fallback
+      // (low score for fallback, shifted by soft constraint rules)
+      const fallbackDrivers = availableDrivers.map(driver => ({
+        driver,
+        score: 25 + (driver.constraintAdjustment || 0),
+        breakdown: { fallbackScore: 25 }
+      }));
+      const selected = fallbackDrivers.reduce((prev, current) => {
+        if (prev.score !== current.score) {
+          return prev.score > current.score ? prev : current;
+        }
+        return prev.driver.currentAssignments < current.driver.currentAssignments ? prev : current;
+      });
+      return { ...selected, candidates: fallbackDrivers };
     }
 
     // Calculate proximity scores for all drivers
@@ -122,20 +119,17 @@ export class GeographicAssignmentAlgorithm extends BaseAssignmentAlgorithm {
         }
       });
 
-      // Score based on proximity (closer = higher score)
-      const proximityScore = Math.max(0, 100 - bestDistance * 2);
-      
-      // Add workload balancing
-      const workloadScore = ((10 - driver.currentAssignments) / 10) * 20;
-      
-      const totalScore = proximityScore + workloadScore;
-      
-      return { driver, score: Math.round(totalScore * 100) / 100 };
+      const breakdown = {
+        // Score based on proximity (closer = higher score)
+        proximityScore: Math.max(0, 100 - bestDistance * 2),
+        // Add workload balancing
+        workloadScore: ((10 - driver.currentAssignments) / 10) * 20
+      };
+
+      return { driver, score: this.sumBreakdown(breakdown, driver), breakdown: roundBreakdown(breakdown) };
     });
 
     // Return driver with highest proximity score
-    return scoredDrivers.reduce((prev, current) =>
-      prev.score > current.score ? prev : current
-    );
+    return { ...this.selectHighestScore(scoredDrivers), candidates: scoredDrivers };
   }
 } 
\ No newline at end of file
@@ -3,16 +3,62 @@
 // Main service and controller
 export { AlgorithmsService, AlgorithmType, AlgorithmServiceConfig } from './algorithms.service';
 export { AlgorithmsController } from './algorithms.controller';
+export { WeightProfilesService, DEFAULT_WEIGHT_PROFILE } from './weight-profiles.service';
+export { WeightProfilesController } from './weight-profiles.controller';
+export { WeightTrainingService } from './weight-training.service';
+export { ConstraintRulesService } from './constraint-rules.service';
+export { FairnessService } from './fairness.service';
+export { ReplayService } from './replay.service';
+export { SyntheticDatasetsService } from './synthetic-datasets.service';
+export { ConstraintRulesController } from './constraint-rules.controller';
+export { SyntheticDatasetsController } from './synthetic-datasets.controller';
 
 // Individual algorithms
 export { SimpleAssignmentAlgorithm } from './simple-assignment.algorithm';
 export { GeographicAssignmentAlgorithm } from './geographic-assignment.algorithm';
 export { WorkloadBalancingAlgorithm } from './workload-balancing.algorithm';
-export { WeightedScoringAlgorithm } from './weighted-scoring.algorithm';
+export { WeightedScoringAlgorithm, normalizeWeightConfig } from './weighted-scoring.algorithm';
+export { OptimalMatchingAlgorithm } from './optimal-matching.algorithm';
 
 // Base algorithm class
 export { BaseAssignmentAlgorithm } from './algorithms.base';
 
+// Algorithm registry
+export {
+  AlgorithmRegistry,
+  AlgorithmDefinition,
+  AlgorithmFactoryContext,
+  BASE_CONFIG_SCHEMA,
+  algorithmRegistry,
+  createDefaultRegistry
+} from './algorithms.registry';
+
+// Geographic helpers
+export { haversineDistanceKm, matchServiceArea } from './algorithms.geo';
+
+// Vehicle helpers
+export { matchVehicle, scoreVehicleFit } from './algorithms.vehicles';
+
+// Fairness statistics
+export { giniCoefficient, median, summarizeDistribution } from './algorithms.fairness';
+
+// Historical replay
+export {
+  SnapshotAssignmentUtils,
+  SnapshotConstraintRulesService,
+  calculateCompletionRates,
+  scoreReplayOutcome
+} from './algorithms.replay';
+
+// Synthetic scenarios
+export { generateSyntheticScenario, SYNTHETIC_LIMITS } from './algorithms.synthetic';
+
+// Restaurant affinity
+export { calculateAffinityScore } from './algorithms.affinity';
+
+// Constraint rule evaluation
+export { applyConstraintRules, ruleAppliesTo, ruleFires } from './algorithms.constraints';
+
 // Types and interfaces
 export * from './algorithms.types';
 
@@ -0,0 +1,320 @@
+import { WeightedScoringAlgorithm } from './weighted-scoring.algorithm';
+import { solveMinCostAssignment } from './algorithms.matching';
+import { orderByPriority } from './algorithms.priority';
+import {
+  DriverCandidate,
+  RestaurantRequest,
+  AssignmentResult,
+  AlgorithmResult,
+  BulkAssignmentRequest,
+  AssignmentRunContext,
+  DriverScore,
+  RunObserver
+} from './algorithms.types';
+
+// Cost of leaving a restaurant unassigned; must exceed any feasible pair cost
+const UNASSIGNED_COST = 1000;
+// Cost of a pair the driver cannot serve; never preferred over leaving it unassigned
+const INFEASIBLE_COST = 1000000;
+// Unassigned cost grows with priority, capped well below INFEASIBLE_COST
+const MAX_UNASSIGNED_COST = INFEASIBLE_COST / 10;
+// Workload score lost per extra daily assignment (see calculateWorkloadScore)
+const WORKLOAD_POINTS_PER_ASSIGNMENT = 20;
+
+interface DriverSlot {
+  driverId: number;
+  slotIndex: number;
+}
+
+/**
+ * Optimal Matching Assignment Algorithm
+ *
+ * The greedy algorithms commit a driver for each restaurant in request order,
+ * so early restaurants can take the drivers that later ones depend on. This
+ * algorithm scores every (driver, restaurant) pair with the weighted scoring
+ * model and then solves the whole day as a single min-cost matching problem.
+ *
+ * Each driver contributes one slot per assignment still allowed by
+ * maxAssignmentsPerDriver. Later slots of the same driver carry the workload
+ * penalty the weighted scorer would apply, so equal-value plans spread work
+ * across drivers instead of stacking it on one. Leaving a restaurant
+ * unassigned costs more the higher its priority, so when drivers run short
+ * the lowest priorities go without.
+ *
+ * Matched pairs are still validated as they are written. A driver given two
+ * restaurants whose pickups overlap, or more deliveries than they can take,
+ * is ruled out for the one written second, which is matched again.
+ */
+export class OptimalMatchingAlgorithm extends WeightedScoringAlgorithm {
+  getName(): string {
+    return 'optimal-matching';
+  }
+
+  async assignDrivers(request: BulkAssignmentRequest, observer?: RunObserver): Promise<AlgorithmResult> {
+    const startTime = Date.now();
+    const context = this.createRunContext(request, observer);
+    const failures = new Map<number, AssignmentResult>();
+    const cancelled = new Set<number>(); // Restaurants not reached before the run was cancelled
+    const pairScores: Array<Map<number, DriverScore>> = [];
+    const pairDrivers: Array<Map<number, DriverCandidate>> = []; // Candidates as seen for each restaurant
+    const pairEligible: DriverCandidate[][] = []; // Drivers that passed filtering, scored or not
+    const drivers = new Map<number, DriverCandidate>();
+    const restaurants = orderByPriority(request.restaurants);
+
+    // Score every (driver, restaurant) pair up front; progress covers this
+    // phase, since results are only known once the matching is solved
+    for (const [index, restaurant] of restaurants.entries()) {
+      const scores = new Map<number, DriverScore>();
+      const restaurantDrivers = new Map<number, DriverCandidate>();
+      pairScores.push(scores);
+      pairDrivers.push(restaurantDrivers);
+      pairEligible.push([]);
+
+      try {
+        if (await this.isCancelled(context)) {
+          cancelled.add(index);
+          failures.set(index, this.cancelledResult(restaurant));
+          continue;
+        }
+
+        const { eligible, candidates } = await this.scoreCandidates(restaurant, request.assignmentDate, context);
+        pairEligible[index] = eligible;
+
+        if (candidates.length === 0) {
+          const excluded = context.excludedByRules?.get(restaurant.restaurantId) || [];
+
+          failures.set(index, {
+            restaurantId: restaurant.restaurantId,
+            success: false,
+            error: 'No available drivers found',
+            reason: excluded.length > 0
+              ? 'No drivers match availability criteria and constraint rules'
+              : 'No drivers match availability criteria',
+            ...(excluded.length > 0 && { firedRules: excluded })
+          });
+          continue;
+        }
+
+        candidates.forEach(({ driver, score }) => {
+          drivers.set(driver.id, driver);
+          restaurantDrivers.set(driver.id, driver);
+          scores.set(driver.id, score);
+        });
+      } catch (error) {
+        failures.set(index, {
+          restaurantId: restaurant.restaurantId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } finally {
+        // Also for restaurants cancelled or without candidates, so progress reaches the total
+        await this.reportProgress(context, { processed: index + 1, total: restaurants.length });
+      }
+    }
+
+    // Match, then write in priority order. The matching cannot see pickups
+    // that overlap, or capacity, between restaurants given to one driver, so a
+    // restaurant the write rejects rules that driver out for it and is matched
+    // again with the drivers still free
+    const outcomes = new Map<number, AssignmentResult>(failures);
+    const ruledOut = restaurants.map(() => new Set<number>());
+    const assigned = new Map<number, number>(); // Assignments written per driver in this run
+    let pending = restaurants.map((_, index) => index).filter(index => !failures.has(index));
+
+    while (pending.length > 0) {
+      const scores = pending.map(index => new Map(
+        Array.from(pairScores[index]).filter(([driverId]) => !ruledOut[index].has(driverId))
+      ));
+      const slots = this.buildDriverSlots(Array.from(drivers.values()), assigned);
+      const matching = await this.timed(context, 'selectionMs',
+        async () => this.solveMatching(pending.map(index => restaurants[index]), scores, slots));
+      const rejected: number[] = [];
+
+      for (const [row, index] of pending.entries()) {
+        const slot = matching[row];
+        const restaurant = restaurants[index];
+
+        if (!slot) {
+          // Keep the reason an earlier round's driver was rejected
+          if (!outcomes.has(index)) {
+            outcomes.set(index, {
+              restaurantId: restaurant.restaurantId,
+              success: false,
+              error: 'No suitable driver found',
+              reason: 'All eligible drivers were matched to higher-value restaurants'
+            });
+          }
+          continue;
+        }
+
+        try {
+          const result = await this.createMatchedAssignment(
+            restaurant,
+            request.assignmentDate,
+            slot.driverId,
+            pairScores[index],
+            pairDrivers[index],
+            pairEligible[index],
+            context
+          );
+          outcomes.set(index, result);
+
+          if (result.success) {
+            assigned.set(slot.driverId, (assigned.get(slot.driverId) || 0) + 1);
+          } else {
+            ruledOut[index].add(slot.driverId);
+            rejected.push(index);
+          }
+        } catch (error) {
+          outcomes.set(index, {
+            restaurantId: restaurant.restaurantId,
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
+      pending = rejected;
+    }
+
+    // Deferred to finalizeRun for atomic runs
+    const results: AssignmentResult[] = [];
+    for (const [index, restaurant] of restaurants.entries()) {
+      const result = outcomes.get(index)!;
+
+      try {
+        results.push(cancelled.has(index)
+          ? result
+          : await this.preemptIfNeeded(result, restaurant, request.assignmentDate, context));
+      } catch (error) {
+        results.push({
+          restaurantId: restaurant.restaurantId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    const finalResults = await this.finalizeRun(results, context);
+    return this.buildAlgorithmResult(request, finalResults, startTime, context);
+  }
+
+  /**
+   * Persist a matched pair and explain it with every driver scored for the restaurant
+   */
+  private async createMatchedAssignment(
+    restaurant: RestaurantRequest,
+    assignmentDate: string,
+    driverId: number,
+    scores: Map<number, DriverScore>,
+    drivers: Map<number, DriverCandidate>,
+    eligible: DriverCandidate[],
+    context: AssignmentRunContext
+  ): Promise<AssignmentResult> {
+    const driver = drivers.get(driverId)!;
+    const score = scores.get(driverId)!;
+    const result = await this.timed(context, 'writeMs',
+      () => this.createAssignment(restaurant, assignmentDate, driver, score.totalScore, context));
+
+    if (!result.success) {
+      return result;
+    }
+
+    const candidates = Array.from(scores.entries()).map(([candidateId, candidateScore]) => ({
+      driver: drivers.get(candidateId)!,
+      score: candidateScore.totalScore,
+      breakdown: this.weightedBreakdown(candidateScore, restaurant)
+    }));
+
+    return {
+      ...result,
+      explanation: this.explainSelection(restaurant, eligible, { driver, score: score.totalScore, candidates }, context)
+    };
+  }
+
+  /**
+   * Score all eligible drivers for a restaurant with the weighted model
+   */
+  private async scoreCandidates(
+    request: RestaurantRequest,
+    assignmentDate: string,
+    context: AssignmentRunContext
+  ): Promise<{ eligible: DriverCandidate[]; candidates: Array<{ driver: DriverCandidate; score: DriverScore }> }> {
+    const availableDrivers = await this.timed(context, 'candidatesMs',
+      () => this.getAvailableDriversWithMetrics(assignmentDate, request, context));
+    const locationFilteredDrivers = this.preFilterByLocation(availableDrivers, request);
+
+    const candidates = await this.timed(context, 'selectionMs', async () => {
+      const driversToScore = await this.withAffinityIfWeighted(
+        locationFilteredDrivers.length > 0 ? locationFilteredDrivers : availableDrivers,
+        request,
+        assignmentDate
+      );
+
+      return Promise.all(
+        driversToScore.map(async (driver) => ({
+          driver,
+          score: await this.calculateWeightedScore(driver, request, assignmentDate)
+        }))
+      );
+    });
+
+    return { eligible: availableDrivers, candidates };
+  }
+
+  /**
+   * Expand each driver into one slot per remaining daily assignment, less
+   * those `assigned` in earlier rounds of this run
+   */
+  private buildDriverSlots(drivers: DriverCandidate[], assigned: Map<number, number>): DriverSlot[] {
+    const maxAssignments = this.config.maxAssignmentsPerDriver || 3;
+    const slots: DriverSlot[] = [];
+
+    drivers.forEach(driver => {
+      const done = assigned.get(driver.id) || 0;
+      const remaining = Math.max(0, maxAssignments - driver.currentAssignments - done);
+      for (let slotIndex = done; slotIndex < done + remaining; slotIndex++) {
+        slots.push({ driverId: driver.id, slotIndex });
+      }
+    });
+
+    return slots;
+  }
+
+  /**
+   * Solve the day as a min-cost matching of restaurants to driver slots.
+   * Returns the matched slot per restaurant index, or null when unmatched.
+   */
+  private solveMatching(
+    restaurants: RestaurantRequest[],
+    pairScores: Array<Map<number, DriverScore>>,
+    slots: DriverSlot[]
+  ): Array<DriverSlot | null> {
+    const restaurantCount = pairScores.length;
+
+    const costs = pairScores.map((scores, index) => {
+      const slotPenalty = this.getWeightsFor(restaurants[index]).workloadWeight * WORKLOAD_POINTS_PER_ASSIGNMENT;
+
+      const slotCosts = slots.map(slot => {
+        const score = scores.get(slot.driverId);
+        return score
+          ? (100 - score.totalScore) + slot.slotIndex * slotPenalty
+          : INFEASIBLE_COST;
+      });
+
+      // One "unassigned" column per restaurant keeps the problem feasible
+      const unassignedCost = Math.min(UNASSIGNED_COST * (1 + Math.max(0, restaurants[index].priority ?? 0)), MAX_UNASSIGNED_COST);
+      const unassignedCosts = new Array<number>(restaurantCount).fill(unassignedCost);
+      return [...slotCosts, ...unassignedCosts];
+    });
+
+    const assignment = solveMinCostAssignment(costs);
+
+    return assignment.map((column, row) => {
+      if (column < 0 || column >= slots.length || costs[row][column] >= INFEASIBLE_COST) {
+        return null;
+      }
+      return slots[column];
+    });
+  }
+}
@@ -0,0 +1,336 @@
+import { PrismaClient, DriverAvailabilityBlock, RestaurantAssignment } from '@prisma/client';
+import * as crypto from 'crypto';
+import { redis } from '../../config/redis';
+import { AlgorithmsService } from './algorithms.service';
+import { SocketService } from '../socket/socket.service';
+import { AssignmentUtils, blockOverlapsWindow, scheduledDurationMinutes } from '../assignments/assignments.utils';
+import { logger } from '../../config/logger';
+import { FlaggedAssignment, ReassignmentJob, ReassignmentReport, ReassignmentTrigger, RestaurantRequest } from './algorithms.types';
+
+const QUEUE_KEY = 'reassignment-jobs:queue';
+// Reassignments a worker has taken off the queue, until it is done with them
+const PROCESSING_KEY = 'reassignment-jobs:processing';
+// A worker refreshes the heartbeat of its reassignment while it runs; one whose heartbeat lapsed is stale
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+const HEARTBEAT_TTL_SECONDS = 60;
+
+const heartbeatKey = (id: string) => `reassignment-jobs:${id}:heartbeat`;
+
+/**
+ * Reassignment Service
+ *
+ * Finds the PENDING assignments a driver can no longer take after blocking a
+ * date or leaving ACTIVE status, and moves each to another driver with the
+ * restaurant's recurring slot algorithm (or the service default). With
+ * REASSIGNMENT_MODE=flag, or when no driver is found, the assignment is left
+ * as it is and flagged to dispatch instead. Both drivers are notified of
+ * every move.
+ *
+ * Blocks and status changes queue their reassignment in Redis, and the
+ * algorithm job worker runs it, so the request that saved them returns
+ * straight away. Reassignment only touches assignments that are still
+ * pending, so a run left behind by a stopped worker is simply queued again.
+ */
+export class ReassignmentService {
+  private socketService: SocketService;
+  private assignmentUtils: AssignmentUtils;
+  // Processing reassignments without a heartbeat at the last sweep
+  private unclaimedEntries = new Set<string>();
+
+  constructor(
+    private prisma: PrismaClient,
+    private algorithmsService: AlgorithmsService = new AlgorithmsService(prisma)
+  ) {
+    this.socketService = new SocketService(prisma);
+    this.assignmentUtils = new AssignmentUtils(prisma);
+  }
+
+  /**
+   * Queue reassignment of the assignments a new block takes the driver off
+   */
+  async queueAvailabilityBlock(block: DriverAvailabilityBlock): Promise<void> {
+    await this.enqueue({ id: crypto.randomUUID(), trigger: 'AVAILABILITY_BLOCK', blockId: block.id });
+  }
+
+  /**
+   * Queue reassignment of the driver's pending assignments when they leave
+   * ACTIVE status. Returns false when the change is not a move out of ACTIVE.
+   */
+  async queueDriverStatusChange(driverId: number, previousStatus: string | null, status: string): Promise<boolean> {
+    if (previousStatus !== 'ACTIVE' || status === 'ACTIVE') {
+      return false;
+    }
+
+    await this.enqueue({ id: crypto.randomUUID(), trigger: 'DRIVER_STATUS', driverId, status });
+    return true;
+  }
+
+  /**
+   * Run the next queued reassignment. Returns false when the queue is empty.
+   */
+  async processNext(): Promise<boolean> {
+    const entry = await redis.lmove(QUEUE_KEY, PROCESSING_KEY, 'RIGHT', 'LEFT');
+    if (!entry) {
+      return false;
+    }
+
+    const job = JSON.parse(entry) as ReassignmentJob;
+    await this.beat(job.id);
+    const heartbeat = setInterval(() => {
+      this.beat(job.id).catch(error => logger.error(`Reassignment ${job.id} heartbeat failed:`, {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }));
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+      await this.runJob(job);
+    } finally {
+      clearInterval(heartbeat);
+      await redis.lrem(PROCESSING_KEY, 1, entry);
+      await redis.del(heartbeatKey(job.id));
+    }
+
+    return true;
+  }
+
+  /**
+   * Queue reassignments left on the processing list by a worker that stopped
+   * again. Returns how many were requeued.
+   */
+  async recoverStaleJobs(): Promise<number> {
+    const entries = await redis.lrange(PROCESSING_KEY, 0, -1);
+    const unclaimed = new Set<string>();
+    let recovered = 0;
+
+    for (const entry of entries) {
+      const job = JSON.parse(entry) as ReassignmentJob;
+      if (await redis.exists(heartbeatKey(job.id)) === 1) {
+        continue;
+      }
+
+      // A worker starts the heartbeat just after taking the entry; give it until the next sweep
+      if (!this.unclaimedEntries.has(entry)) {
+        unclaimed.add(entry);
+        continue;
+      }
+
+      // Another instance's sweep may have got there first
+      if (await redis.lrem(PROCESSING_KEY, 1, entry) === 0) {
+        continue;
+      }
+
+      recovered++;
+      // Taken off the queue from the right, so it runs next
+      await redis.rpush(QUEUE_KEY, entry);
+      logger.warn(`Reassignment ${job.id} requeued after its worker stopped`);
+    }
+
+    this.unclaimedEntries = unclaimed;
+    return recovered;
+  }
+
+  /**
+   * Reassign the driver's pending assignments on the blocked date whose
+   * window overlaps the block
+   */
+  async handleAvailabilityBlock(block: DriverAvailabilityBlock): Promise<ReassignmentReport> {
+    const date = block.blockedDate.toISOString().split('T')[0];
+    const hours = !block.isFullDay && block.startTime && block.endTime
+      ? ` ${this.formatTime(block.startTime)}-${this.formatTime(block.endTime)}`
+      : '';
+    const reason = `Driver blocked ${date}${hours}${block.reason ? ` (${block.reason})` : ''}`;
+
+    return this.run('AVAILABILITY_BLOCK', block.driverId, reason, async () => {
+      const pending = await this.prisma.restaurantAssignment.findMany({
+        where: { driverId: block.driverId, assignmentDate: block.blockedDate, status: 'PENDING' },
+        orderBy: [{ priority: 'desc' }, { pickupTime: 'asc' }]
+      });
+
+      return pending.filter(assignment => blockOverlapsWindow(block, {
+        pickupTime: this.formatTime(assignment.pickupTime),
+        expectedDurationMinutes: scheduledDurationMinutes(assignment)
+      }));
+    });
+  }
+
+  /**
+   * Reassign all of the driver's pending assignments from today on once they
+   * are no longer ACTIVE. Returns null when the new status is ACTIVE.
+   */
+  async handleDriverStatusChange(driverId: number, status: string): Promise<ReassignmentReport | null> {
+    if (status === 'ACTIVE') {
+      return null;
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+
+    return this.run('DRIVER_STATUS', driverId, `Driver status changed to ${status}`, () =>
+      this.prisma.restaurantAssignment.findMany({
+        where: { driverId, assignmentDate: { gte: new Date(today) }, status: 'PENDING' },
+        orderBy: [{ assignmentDate: 'asc' }, { priority: 'desc' }, { pickupTime: 'asc' }]
+      })
+    );
+  }
+
+  /**
+   * Skips blocks removed, and drivers whose status changed again, since the
+   * reassignment was queued
+   */
+  private async runJob(job: ReassignmentJob): Promise<void> {
+    if (job.trigger === 'AVAILABILITY_BLOCK') {
+      const block = await this.prisma.driverAvailabilityBlock.findUnique({ where: { id: job.blockId } });
+      if (block) {
+        await this.handleAvailabilityBlock(block);
+      }
+      return;
+    }
+
+    const driver = await this.prisma.user.findUnique({ where: { id: job.driverId }, select: { driverStatus: true } });
+    if (driver?.driverStatus === job.status) {
+      await this.handleDriverStatusChange(job.driverId, job.status);
+    }
+  }
+
+  // Never throws: the block or status change has already been saved
+  private async enqueue(job: ReassignmentJob): Promise<void> {
+    try {
+      await redis.lpush(QUEUE_KEY, JSON.stringify(job));
+    } catch (error) {
+      logger.error(`Queueing reassignment for ${job.trigger} failed:`, {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private async beat(id: string): Promise<void> {
+    await redis.set(heartbeatKey(id), '1', 'EX', HEARTBEAT_TTL_SECONDS);
+  }
+
+  /**
+   * Move or flag every affected assignment. Never throws: the block or status
+   * change that triggered it has already been saved.
+   */
+  private async run(
+    trigger: ReassignmentTrigger,
+    driverId: number,
+    reason: string,
+    findAffected: () => Promise<RestaurantAssignment[]>
+  ): Promise<ReassignmentReport> {
+    const mode = process.env.REASSIGNMENT_MODE === 'flag' ? 'flag' : 'auto';
+    const report: ReassignmentReport = { trigger, driverId, reason, mode, affected: 0, reassigned: [], flagged: [] };
+
+    try {
+      const affected = await findAffected();
+      report.affected = affected.length;
+
+      for (const assignment of affected) {
+        if (mode === 'flag') {
+          report.flagged.push(this.flag(assignment, reason, 'Automatic reassignment is turned off'));
+        } else {
+          await this.reassign(assignment, reason, report);
+        }
+      }
+    } catch (error) {
+      logger.error(`Reassignment for driver ${driverId} failed:`, {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    if (report.flagged.length > 0) {
+      logger.warn(`Reassignment: ${report.flagged.length} assignment(s) of driver ${driverId} need dispatch`);
+      await this.socketService.notifyDispatchReassignmentNeeded(report.flagged);
+    }
+
+    return report;
+  }
+
+  /**
+   * Run the assignment through its restaurant's algorithm, then cancel the
+   * original. The original is only cancelled once another driver has it, and
+   * the new assignment is removed again if the original was started meanwhile.
+   */
+  private async reassign(assignment: RestaurantAssignment, reason: string, report: ReassignmentReport): Promise<void> {
+    const date = assignment.assignmentDate.toISOString().split('T')[0];
+
+    if (!assignment.restaurantCity || !assignment.restaurantState) {
+      report.flagged.push(this.flag(assignment, reason, 'No restaurant location recorded to run an algorithm with'));
+      return;
+    }
+
+    try {
+      const slot = await this.prisma.recurringSlot.findFirst({
+        where: { restaurantId: assignment.restaurantId, isActive: true, algorithm: { not: null } },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      const result = await this.algorithmsService.executeAssignment(
+        { assignmentDate: date, restaurants: [this.toRequest(assignment)] },
+        slot?.algorithm ?? undefined
+      );
+      const outcome = result.results.find(r => r.restaurantId === assignment.restaurantId);
+
+      if (!outcome?.success || !outcome.driverId) {
+        report.flagged.push(this.flag(assignment, reason, outcome?.error || 'No result for this assignment'));
+        return;
+      }
+
+      const cancelled = result.batchId !== undefined &&
+        await this.assignmentUtils.cancelReplacedAssignment(assignment.id, result.batchId, `Reassigned: ${reason}`);
+
+      if (!cancelled) {
+        report.flagged.push(this.flag(assignment, reason, 'Assignment is no longer pending; the new assignment was removed'));
+        return;
+      }
+
+      const created = await this.prisma.restaurantAssignment.findFirst({
+        where: { batchId: result.batchId, restaurantId: assignment.restaurantId, driverId: outcome.driverId }
+      });
+
+      report.reassigned.push({
+        assignmentId: assignment.id,
+        newAssignmentId: created?.id,
+        restaurantId: assignment.restaurantId,
+        date,
+        newDriverId: outcome.driverId,
+        algorithm: result.algorithm,
+        runId: result.runId
+      });
+
+      await this.socketService.notifyAssignmentReassigned(assignment.driverId, assignment.id, reason);
+      await this.socketService.notifyNewAssignment(outcome.driverId, created ?? outcome);
+    } catch (error) {
+      report.flagged.push(this.flag(assignment, reason, error instanceof Error ? error.message : 'Reassignment failed'));
+    }
+  }
+
+  private flag(assignment: RestaurantAssignment, reason: string, error: string): FlaggedAssignment {
+    return {
+      assignmentId: assignment.id,
+      restaurantId: assignment.restaurantId,
+      date: assignment.assignmentDate.toISOString().split('T')[0],
+      driverId: assignment.driverId,
+      reason,
+      error
+    };
+  }
+
+  private toRequest(assignment: RestaurantAssignment): RestaurantRequest {
+    return {
+      restaurantId: assignment.restaurantId,
+      city: assignment.restaurantCity!,
+      state: assignment.restaurantState!,
+      latitude: assignment.restaurantLatitude !== null ? Number(assignment.restaurantLatitude) : undefined,
+      longitude: assignment.restaurantLongitude !== null ? Number(assignment.restaurantLongitude) : undefined,
+      estimatedDeliveries: assignment.estimatedDeliveries,
+      pickupTime: this.formatTime(assignment.pickupTime),
+      paymentRate: Number(assignment.paymentRate),
+      paymentType: assignment.paymentType,
+      priority: assignment.priority
+    };
+  }
+
+  // TIME columns come back as 1970-01-01THH:MM:00Z
+  private formatTime(time: Date): string {
+    return time.toISOString().substring(11, 16);
+  }
+}
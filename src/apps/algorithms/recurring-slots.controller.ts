@@ -0,0 +1,277 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { RecurringSlotsService } from './recurring-slots.service';
+import { CreateRecurringSlotDto, UpdateRecurringSlotDto } from './algorithms.types';
+
+export class RecurringSlotsController {
+  private recurringSlotsService: RecurringSlotsService;
+
+  constructor(prisma: PrismaClient) {
+    this.recurringSlotsService = new RecurringSlotsService(prisma);
+  }
+
+  /**
+   * List recurring slots
+   * GET /api/algorithms/recurring-slots
+   */
+  async listSlots(req: Request, res: Response): Promise<void> {
+    try {
+      const { restaurantId, isActive } = req.query;
+
+      const slots = await this.recurringSlotsService.listSlots({
+        restaurantId: restaurantId as string | undefined,
+        isActive: isActive !== undefined ? isActive === 'true' : undefined
+      });
+
+      res.json({
+        success: true,
+        data: slots
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to list recurring slots');
+    }
+  }
+
+  /**
+   * Get a recurring slot with its exceptions
+   * GET /api/algorithms/recurring-slots/:id
+   */
+  async getSlot(req: Request, res: Response): Promise<void> {
+    try {
+      const slot = await this.recurringSlotsService.getSlot(req.params.id);
+
+      if (!slot) {
+        res.status(404).json({
+          success: false,
+          error: 'Recurring slot not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: slot
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to get recurring slot');
+    }
+  }
+
+  /**
+   * Create a recurring slot
+   * POST /api/algorithms/recurring-slots
+   */
+  async createSlot(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const slot = await this.recurringSlotsService.createSlot(req.body as CreateRecurringSlotDto);
+
+      res.status(201).json({
+        success: true,
+        data: slot
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to create recurring slot');
+    }
+  }
+
+  /**
+   * Update a recurring slot (including pausing it with isActive)
+   * PUT /api/algorithms/recurring-slots/:id
+   */
+  async updateSlot(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const slot = await this.recurringSlotsService.updateSlot(req.params.id, req.body as UpdateRecurringSlotDto);
+
+      res.json({
+        success: true,
+        data: slot
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to update recurring slot');
+    }
+  }
+
+  /**
+   * Delete a recurring slot; assignments it already created are kept
+   * DELETE /api/algorithms/recurring-slots/:id
+   */
+  async deleteSlot(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      await this.recurringSlotsService.deleteSlot(req.params.id);
+
+      res.json({
+        success: true,
+        data: {
+          message: 'Recurring slot deleted'
+        }
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to delete recurring slot');
+    }
+  }
+
+  /**
+   * Skip a slot on one date
+   * POST /api/algorithms/recurring-slots/:id/exceptions
+   */
+  async addException(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { date, reason } = req.body;
+      const slot = await this.recurringSlotsService.addException(req.params.id, date, reason);
+
+      res.status(201).json({
+        success: true,
+        data: slot
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to add slot exception');
+    }
+  }
+
+  /**
+   * Stop skipping a slot on a date
+   * DELETE /api/algorithms/recurring-slots/:id/exceptions/:date
+   */
+  async removeException(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      await this.recurringSlotsService.removeException(req.params.id, req.params.date);
+
+      res.json({
+        success: true,
+        data: {
+          message: 'Slot exception removed'
+        }
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to remove slot exception');
+    }
+  }
+
+  /**
+   * Fill the coming days' slot occurrences now instead of waiting for the daily job
+   * POST /api/algorithms/recurring-slots/generate
+   */
+  async generateAssignments(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { daysAhead, from } = req.body || {};
+      const report = await this.recurringSlotsService.generateAssignments(daysAhead, from);
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to generate slot assignments');
+    }
+  }
+
+  /**
+   * List holidays, optionally within a date range
+   * GET /api/algorithms/holidays
+   */
+  async listHolidays(req: Request, res: Response): Promise<void> {
+    try {
+      const { from, to } = req.query;
+      const holidays = await this.recurringSlotsService.listHolidays(from as string | undefined, to as string | undefined);
+
+      res.json({
+        success: true,
+        data: holidays
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to list holidays');
+    }
+  }
+
+  /**
+   * Add a holiday, skipped by every recurring slot
+   * POST /api/algorithms/holidays
+   */
+  async createHoliday(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { date, name } = req.body;
+      const holiday = await this.recurringSlotsService.createHoliday(date, name);
+
+      res.status(201).json({
+        success: true,
+        data: holiday
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to create holiday');
+    }
+  }
+
+  /**
+   * Delete a holiday
+   * DELETE /api/algorithms/holidays/:id
+   */
+  async deleteHoliday(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      await this.recurringSlotsService.deleteHoliday(req.params.id);
+
+      res.json({
+        success: true,
+        data: {
+          message: 'Holiday deleted'
+        }
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to delete holiday');
+    }
+  }
+
+  /**
+   * Map service errors to HTTP status codes
+   */
+  private sendError(res: Response, error: unknown, fallback: string): void {
+    const message = error instanceof Error ? error.message : fallback;
+    const status = message.startsWith('Invalid')
+      ? 400
+      : message.endsWith('not found') ? 404 : 500;
+
+    res.status(status).json({
+      success: false,
+      error: message
+    });
+  }
+}
@@ -0,0 +1,90 @@
+import { PrismaClient } from '@prisma/client';
+import * as crypto from 'crypto';
+import { redis } from '../../config/redis';
+import { logger } from '../../config/logger';
+import { DEFAULT_DAYS_AHEAD, RecurringSlotsService } from './recurring-slots.service';
+
+const DEFAULT_RUN_AT = '02:00';
+// Held for the length of one pass, so only one server instance runs it
+const LOCK_KEY = 'recurring-slots:generate';
+const LOCK_TTL_SECONDS = 60 * 60;
+// Delete the lock only while it holds this pass's token: a pass that outlived
+// the TTL must not release the lock another instance has taken since
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Milliseconds from `now` until the next HH:MM in server local time
+ */
+export function msUntilNextRun(runAt: string, now: Date = new Date()): number {
+  const [hours, minutes] = runAt.split(':').map(Number);
+  const next = new Date(now);
+  next.setHours(hours, minutes, 0, 0);
+
+  if (next <= now) {
+    next.setDate(next.getDate() + 1);
+  }
+
+  return next.getTime() - now.getTime();
+}
+
+/**
+ * Fill recurring slots once a day at RECURRING_SLOTS_RUN_AT (HH:MM, server
+ * time, default 02:00) for the next RECURRING_SLOTS_DAYS_AHEAD days (default 7).
+ * Set RECURRING_SLOTS_ENABLED=false to turn it off. Returns a function that
+ * stops the schedule.
+ */
+export function startRecurringSlotsScheduler(prisma: PrismaClient): () => void {
+  if (process.env.RECURRING_SLOTS_ENABLED === 'false') {
+    logger.info('Recurring slots scheduler disabled');
+    return () => undefined;
+  }
+
+  const runAt = /^([01]\d|2[0-3]):[0-5]\d$/.test(process.env.RECURRING_SLOTS_RUN_AT || '')
+    ? process.env.RECURRING_SLOTS_RUN_AT!
+    : DEFAULT_RUN_AT;
+  const daysAhead = parseInt(process.env.RECURRING_SLOTS_DAYS_AHEAD || '') || DEFAULT_DAYS_AHEAD;
+  const service = new RecurringSlotsService(prisma);
+  let timer: NodeJS.Timeout;
+
+  const run = async () => {
+    try {
+      const token = crypto.randomUUID();
+      const locked = await redis.set(LOCK_KEY, token, 'EX', LOCK_TTL_SECONDS, 'NX');
+      if (locked !== 'OK') {
+        logger.info('Recurring slots already being filled by another instance');
+        return;
+      }
+
+      try {
+        const report = await service.generateAssignments(daysAhead);
+        logger.info(
+          `Recurring slots filled for ${report.from} to ${report.to}: ` +
+          `${report.filled} filled, ${report.unfilled.length} unfilled, ${report.skipped.length} skipped`
+        );
+      } finally {
+        await redis.eval(RELEASE_LOCK_SCRIPT, 1, LOCK_KEY, token);
+      }
+    } catch (error) {
+      logger.error('Recurring slots job failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  const scheduleNext = () => {
+    timer = setTimeout(async () => {
+      await run();
+      scheduleNext();
+    }, msUntilNextRun(runAt));
+  };
+
+  scheduleNext();
+  logger.info(`Recurring slots scheduler started: daily at ${runAt} for the next ${daysAhead} days`);
+
+  return () => clearTimeout(timer);
+}
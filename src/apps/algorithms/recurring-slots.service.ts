@@ -0,0 +1,498 @@
+import { PrismaClient, Holiday, RecurringSlot, RecurringSlotException } from '@prisma/client';
+import { AlgorithmsService } from './algorithms.service';
+import { algorithmRegistry } from './algorithms.registry';
+import { datesBetween } from './algorithms.weekly';
+import { SocketService } from '../socket/socket.service';
+import { logger } from '../../config/logger';
+import {
+  CreateRecurringSlotDto,
+  HolidayResponse,
+  RecurringSlotGenerationReport,
+  RecurringSlotResponse,
+  RestaurantRequest,
+  UpdateRecurringSlotDto
+} from './algorithms.types';
+
+// Days the job fills ahead of today unless told otherwise, and the most it may
+export const DEFAULT_DAYS_AHEAD = 7;
+export const MAX_DAYS_AHEAD = 30;
+
+const PAYMENT_TYPES = ['FIXED', 'PER_DELIVERY', 'HOURLY'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+type SlotWithExceptions = RecurringSlot & { exceptions: RecurringSlotException[] };
+
+/**
+ * Recurring Slots Service
+ *
+ * Stores restaurant pickups that repeat on the same weekdays, the dates they
+ * are skipped on (per-slot exceptions and holidays), and turns the coming
+ * days' occurrences into assignments with each slot's preferred algorithm.
+ * Occurrences that get no driver are reported to dispatch.
+ */
+export class RecurringSlotsService {
+  private socketService: SocketService;
+
+  constructor(
+    private prisma: PrismaClient,
+    private algorithmsService: AlgorithmsService = new AlgorithmsService(prisma)
+  ) {
+    this.socketService = new SocketService(prisma);
+  }
+
+  async listSlots(filters?: { restaurantId?: string; isActive?: boolean }): Promise<RecurringSlotResponse[]> {
+    const slots = await this.prisma.recurringSlot.findMany({
+      where: {
+        ...(filters?.restaurantId && { restaurantId: filters.restaurantId }),
+        ...(filters?.isActive !== undefined && { isActive: filters.isActive })
+      },
+      include: { exceptions: { orderBy: { date: 'asc' } } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return slots.map(slot => this.formatSlot(slot));
+  }
+
+  async getSlot(id: string): Promise<RecurringSlotResponse | null> {
+    const slot = await this.prisma.recurringSlot.findUnique({
+      where: { id },
+      include: { exceptions: { orderBy: { date: 'asc' } } }
+    });
+
+    return slot ? this.formatSlot(slot) : null;
+  }
+
+  async createSlot(data: CreateRecurringSlotDto): Promise<RecurringSlotResponse> {
+    const slot = this.validateSlot(data);
+
+    const created = await this.prisma.recurringSlot.create({
+      data: this.toSlotData(slot),
+      include: { exceptions: true }
+    });
+
+    return this.formatSlot(created);
+  }
+
+  /**
+   * Update a slot. The merged slot is validated as a whole.
+   */
+  async updateSlot(id: string, data: UpdateRecurringSlotDto): Promise<RecurringSlotResponse> {
+    const existing = await this.getSlot(id);
+    if (!existing) {
+      throw new Error('Recurring slot not found');
+    }
+
+    const slot = this.validateSlot({
+      restaurantId: existing.restaurantId,
+      name: existing.name ?? undefined,
+      city: existing.city,
+      state: existing.state,
+      latitude: existing.latitude ?? undefined,
+      longitude: existing.longitude ?? undefined,
+      daysOfWeek: existing.daysOfWeek,
+      pickupTime: existing.pickupTime,
+      expectedDurationMinutes: existing.expectedDurationMinutes ?? undefined,
+      estimatedDeliveries: existing.estimatedDeliveries,
+      paymentType: existing.paymentType as CreateRecurringSlotDto['paymentType'],
+      paymentRate: existing.paymentRate,
+      priority: existing.priority,
+      algorithm: existing.algorithm,
+      startDate: existing.startDate,
+      endDate: existing.endDate,
+      isActive: existing.isActive,
+      ...data
+    });
+
+    const updated = await this.prisma.recurringSlot.update({
+      where: { id },
+      data: this.toSlotData(slot),
+      include: { exceptions: { orderBy: { date: 'asc' } } }
+    });
+
+    return this.formatSlot(updated);
+  }
+
+  async deleteSlot(id: string): Promise<void> {
+    const deleted = await this.prisma.recurringSlot.deleteMany({ where: { id } });
+
+    if (deleted.count === 0) {
+      throw new Error('Recurring slot not found');
+    }
+  }
+
+  /**
+   * Skip one slot on a date; adding the same date again updates the reason
+   */
+  async addException(slotId: string, date: string, reason?: string): Promise<RecurringSlotResponse> {
+    this.assertDate(date, 'date');
+
+    if (!await this.prisma.recurringSlot.findUnique({ where: { id: slotId }, select: { id: true } })) {
+      throw new Error('Recurring slot not found');
+    }
+
+    await this.prisma.recurringSlotException.upsert({
+      where: { slotId_date: { slotId, date: new Date(date) } },
+      create: { slotId, date: new Date(date), reason },
+      update: { reason }
+    });
+
+    return (await this.getSlot(slotId))!;
+  }
+
+  async removeException(slotId: string, date: string): Promise<void> {
+    this.assertDate(date, 'date');
+
+    const deleted = await this.prisma.recurringSlotException.deleteMany({
+      where: { slotId, date: new Date(date) }
+    });
+
+    if (deleted.count === 0) {
+      throw new Error('Slot exception not found');
+    }
+  }
+
+  async listHolidays(from?: string, to?: string): Promise<HolidayResponse[]> {
+    if (from !== undefined) this.assertDate(from, 'from');
+    if (to !== undefined) this.assertDate(to, 'to');
+
+    const holidays = await this.prisma.holiday.findMany({
+      where: {
+        ...((from || to) && {
+          date: {
+            ...(from && { gte: new Date(from) }),
+            ...(to && { lte: new Date(to) })
+          }
+        })
+      },
+      orderBy: { date: 'asc' }
+    });
+
+    return holidays.map(holiday => this.formatHoliday(holiday));
+  }
+
+  async createHoliday(date: string, name: string): Promise<HolidayResponse> {
+    this.assertDate(date, 'date');
+
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new Error('Invalid holiday: name is required');
+    }
+
+    const existing = await this.prisma.holiday.findUnique({ where: { date: new Date(date) } });
+    if (existing) {
+      throw new Error(`Invalid holiday: ${date} is already a holiday (${existing.name})`);
+    }
+
+    return this.formatHoliday(await this.prisma.holiday.create({
+      data: { date: new Date(date), name: name.trim() }
+    }));
+  }
+
+  async deleteHoliday(id: string): Promise<void> {
+    const deleted = await this.prisma.holiday.deleteMany({ where: { id } });
+
+    if (deleted.count === 0) {
+      throw new Error('Holiday not found');
+    }
+  }
+
+  /**
+   * Create assignments for every active slot occurring in the next `daysAhead`
+   * days, starting tomorrow (or `from`). Holidays and slot exceptions are
+   * skipped, as are occurrences the restaurant already has a non-cancelled
+   * assignment for at that pickup time, so running again only retries what
+   * is still open. Each day runs once per preferred algorithm.
+   */
+  async generateAssignments(daysAhead = DEFAULT_DAYS_AHEAD, from?: string): Promise<RecurringSlotGenerationReport> {
+    if (!Number.isInteger(daysAhead) || daysAhead < 1 || daysAhead > MAX_DAYS_AHEAD) {
+      throw new Error(`Invalid daysAhead. Must be an integer from 1 to ${MAX_DAYS_AHEAD}`);
+    }
+
+    let start = from;
+    if (start === undefined) {
+      const tomorrow = new Date();
+      tomorrow.setDate(tomorrow.getDate() + 1);
+      start = tomorrow.toISOString().split('T')[0];
+    }
+    this.assertDate(start, 'from');
+
+    const end = new Date(start);
+    end.setUTCDate(end.getUTCDate() + daysAhead - 1);
+    const dates = datesBetween(start, end.toISOString().split('T')[0]);
+    const range = { gte: new Date(dates[0]), lte: new Date(dates[dates.length - 1]) };
+
+    const [slots, holidays, existing] = await Promise.all([
+      this.prisma.recurringSlot.findMany({
+        where: { isActive: true },
+        include: { exceptions: { where: { date: range } } },
+        orderBy: { createdAt: 'asc' }
+      }),
+      this.prisma.holiday.findMany({ where: { date: range } }),
+      this.prisma.restaurantAssignment.findMany({
+        where: { assignmentDate: range, status: { not: 'CANCELLED' } },
+        select: { restaurantId: true, assignmentDate: true, pickupTime: true }
+      })
+    ]);
+
+    // An occurrence is a restaurant, date and pickup time
+    const occurrenceKey = (restaurantId: string, date: string, pickupTime: Date) =>
+      `${restaurantId}|${date}|${pickupTime.toISOString().substring(11, 16)}`;
+    const assigned = new Set(existing.map(assignment =>
+      occurrenceKey(assignment.restaurantId, assignment.assignmentDate.toISOString().split('T')[0], assignment.pickupTime)
+    ));
+
+    const report: RecurringSlotGenerationReport = {
+      from: dates[0],
+      to: dates[dates.length - 1],
+      generatedAt: new Date().toISOString(),
+      runs: [],
+      filled: 0,
+      unfilled: [],
+      skipped: [],
+      alreadyAssigned: 0
+    };
+
+    for (const date of dates) {
+      const holiday = holidays.find(h => h.date.toISOString().split('T')[0] === date);
+      const due = slots.filter(slot => this.occursOn(slot, date));
+      // One run per algorithm; a restaurant with several slots that day is split across runs
+      const groups: Array<{ algorithm?: string; slots: SlotWithExceptions[] }> = [];
+
+      for (const slot of due) {
+        const exception = slot.exceptions.find(e => e.date.toISOString().split('T')[0] === date);
+
+        if (holiday || exception) {
+          report.skipped.push({
+            slotId: slot.id,
+            date,
+            reason: holiday ? `Holiday: ${holiday.name}` : exception!.reason || 'Slot exception'
+          });
+          continue;
+        }
+
+        if (assigned.has(occurrenceKey(slot.restaurantId, date, slot.pickupTime))) {
+          report.alreadyAssigned += 1;
+          continue;
+        }
+
+        const algorithm = slot.algorithm ?? undefined;
+        let group = groups.find(g => g.algorithm === algorithm && !g.slots.some(s => s.restaurantId === slot.restaurantId));
+        if (!group) {
+          group = { algorithm, slots: [] };
+          groups.push(group);
+        }
+        group.slots.push(slot);
+      }
+
+      for (const group of groups) {
+        await this.runGroup(date, group, report);
+      }
+    }
+
+    if (report.unfilled.length > 0) {
+      logger.warn(`Recurring slots: ${report.unfilled.length} occurrence(s) from ${report.from} to ${report.to} could not be filled`);
+      await this.socketService.notifyDispatchUnfilledSlots(report.unfilled);
+    }
+
+    return report;
+  }
+
+  private async runGroup(
+    date: string,
+    group: { algorithm?: string; slots: SlotWithExceptions[] },
+    report: RecurringSlotGenerationReport
+  ): Promise<void> {
+    try {
+      const result = await this.algorithmsService.executeAssignment(
+        { assignmentDate: date, restaurants: group.slots.map(slot => this.toRequest(slot)) },
+        group.algorithm
+      );
+
+      report.runs.push({
+        date,
+        algorithm: result.algorithm,
+        runId: result.runId,
+        batchId: result.batchId,
+        successfulAssignments: result.successfulAssignments,
+        failedAssignments: result.failedAssignments
+      });
+
+      for (const slot of group.slots) {
+        const outcome = result.results.find(r => r.restaurantId === slot.restaurantId);
+
+        if (outcome?.success) {
+          report.filled += 1;
+        } else {
+          report.unfilled.push({
+            slotId: slot.id,
+            restaurantId: slot.restaurantId,
+            date,
+            error: outcome?.error || 'No result for this slot'
+          });
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Assignment failed';
+
+      group.slots.forEach(slot => report.unfilled.push({
+        slotId: slot.id,
+        restaurantId: slot.restaurantId,
+        date,
+        error: message
+      }));
+    }
+  }
+
+  /**
+   * Whether a slot falls on a date: its weekday, within its start and end dates.
+   * Weekdays use the same lookup as the driver availability checks.
+   */
+  private occursOn(slot: RecurringSlot, date: string): boolean {
+    return slot.daysOfWeek.includes(new Date(date).getDay()) &&
+      (!slot.startDate || slot.startDate.toISOString().split('T')[0] <= date) &&
+      (!slot.endDate || slot.endDate.toISOString().split('T')[0] >= date);
+  }
+
+  private toRequest(slot: RecurringSlot): RestaurantRequest {
+    return {
+      restaurantId: slot.restaurantId,
+      ...(slot.name && { name: slot.name }),
+      city: slot.city,
+      state: slot.state,
+      latitude: slot.latitude !== null ? Number(slot.latitude) : undefined,
+      longitude: slot.longitude !== null ? Number(slot.longitude) : undefined,
+      estimatedDeliveries: slot.estimatedDeliveries,
+      pickupTime: slot.pickupTime.toISOString().substring(11, 16),
+      expectedDurationMinutes: slot.expectedDurationMinutes ?? undefined,
+      paymentRate: Number(slot.paymentRate),
+      paymentType: slot.paymentType,
+      priority: slot.priority
+    };
+  }
+
+  private validateSlot(data: CreateRecurringSlotDto): CreateRecurringSlotDto {
+    if (!data || typeof data.restaurantId !== 'string' || data.restaurantId.trim() === '') {
+      throw new Error('Invalid slot: restaurantId is required');
+    }
+
+    if (!data.city || !data.state) {
+      throw new Error('Invalid slot: city and state are required');
+    }
+
+    if ((data.latitude !== undefined && (typeof data.latitude !== 'number' || Math.abs(data.latitude) > 90)) ||
+        (data.longitude !== undefined && (typeof data.longitude !== 'number' || Math.abs(data.longitude) > 180))) {
+      throw new Error('Invalid slot: latitude and longitude must be valid coordinates');
+    }
+
+    if (!Array.isArray(data.daysOfWeek) || data.daysOfWeek.length === 0 ||
+        data.daysOfWeek.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new Error('Invalid slot: daysOfWeek must list weekdays from 0 (Sunday) to 6 (Saturday)');
+    }
+
+    if (typeof data.pickupTime !== 'string' || !TIME_PATTERN.test(data.pickupTime)) {
+      throw new Error('Invalid slot: pickupTime must be HH:MM');
+    }
+
+    if (!Number.isInteger(data.estimatedDeliveries) || data.estimatedDeliveries < 1) {
+      throw new Error('Invalid slot: estimatedDeliveries must be a positive integer');
+    }
+
+    if (typeof data.paymentRate !== 'number' || !(data.paymentRate > 0)) {
+      throw new Error('Invalid slot: paymentRate must be greater than 0');
+    }
+
+    if (data.paymentType !== undefined && !PAYMENT_TYPES.includes(data.paymentType)) {
+      throw new Error(`Invalid slot: paymentType must be one of: ${PAYMENT_TYPES.join(', ')}`);
+    }
+
+    if (data.expectedDurationMinutes !== undefined &&
+        (!Number.isInteger(data.expectedDurationMinutes) || data.expectedDurationMinutes < 1)) {
+      throw new Error('Invalid slot: expectedDurationMinutes must be a positive integer');
+    }
+
+    if (data.priority !== undefined && !Number.isInteger(data.priority)) {
+      throw new Error('Invalid slot: priority must be an integer');
+    }
+
+    if (data.algorithm && !algorithmRegistry.has(data.algorithm)) {
+      throw new Error(`Invalid slot: unknown algorithm '${data.algorithm}'. Available: ${algorithmRegistry.names().join(', ')}`);
+    }
+
+    if (data.startDate) this.assertDate(data.startDate, 'startDate');
+    if (data.endDate) this.assertDate(data.endDate, 'endDate');
+    if (data.startDate && data.endDate && data.endDate < data.startDate) {
+      throw new Error('Invalid slot: endDate must not be before startDate');
+    }
+
+    return {
+      ...data,
+      restaurantId: data.restaurantId.trim(),
+      daysOfWeek: Array.from(new Set(data.daysOfWeek)).sort((a, b) => a - b)
+    };
+  }
+
+  private assertDate(value: string, field: string): void {
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(new Date(value).getTime())) {
+      throw new Error(`Invalid ${field}. Use YYYY-MM-DD`);
+    }
+  }
+
+  private toSlotData(slot: CreateRecurringSlotDto) {
+    return {
+      restaurantId: slot.restaurantId,
+      name: slot.name ?? null,
+      city: slot.city,
+      state: slot.state,
+      latitude: slot.latitude ?? null,
+      longitude: slot.longitude ?? null,
+      daysOfWeek: slot.daysOfWeek,
+      pickupTime: new Date(`1970-01-01T${slot.pickupTime}:00.000Z`),
+      expectedDurationMinutes: slot.expectedDurationMinutes ?? null,
+      estimatedDeliveries: slot.estimatedDeliveries,
+      paymentType: slot.paymentType || 'FIXED',
+      paymentRate: slot.paymentRate,
+      priority: slot.priority ?? 0,
+      algorithm: slot.algorithm || null,
+      startDate: slot.startDate ? new Date(slot.startDate) : null,
+      endDate: slot.endDate ? new Date(slot.endDate) : null,
+      isActive: slot.isActive ?? true
+    };
+  }
+
+  private formatSlot(slot: SlotWithExceptions): RecurringSlotResponse {
+    return {
+      id: slot.id,
+      restaurantId: slot.restaurantId,
+      name: slot.name,
+      city: slot.city,
+      state: slot.state,
+      latitude: slot.latitude !== null ? Number(slot.latitude) : null,
+      longitude: slot.longitude !== null ? Number(slot.longitude) : null,
+      daysOfWeek: slot.daysOfWeek,
+      pickupTime: slot.pickupTime.toISOString().substring(11, 16),
+      expectedDurationMinutes: slot.expectedDurationMinutes,
+      estimatedDeliveries: slot.estimatedDeliveries,
+      paymentType: slot.paymentType,
+      paymentRate: Number(slot.paymentRate),
+      priority: slot.priority,
+      algorithm: slot.algorithm,
+      startDate: slot.startDate ? slot.startDate.toISOString().split('T')[0] : null,
+      endDate: slot.endDate ? slot.endDate.toISOString().split('T')[0] : null,
+      isActive: slot.isActive,
+      exceptions: slot.exceptions.map(exception => ({
+        date: exception.date.toISOString().split('T')[0],
+        reason: exception.reason
+      })),
+      createdAt: slot.createdAt,
+      updatedAt: slot.updatedAt
+    };
+  }
+
+  private formatHoliday(holiday: Holiday): HolidayResponse {
+    return {
+      id: holiday.id,
+      date: holiday.date.toISOString().split('T')[0],
+      name: holiday.name
+    };
+  }
+}
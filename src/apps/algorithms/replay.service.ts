@@ -0,0 +1,269 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AlgorithmRegistry } from './algorithms.registry';
+import { WeightedScoringAlgorithm } from './weighted-scoring.algorithm';
+import { withoutExplanations } from './algorithms.explanations';
+import { WeightProfilesService } from './weight-profiles.service';
+import { ConstraintRulesService } from './constraint-rules.service';
+import { getRatingWindowStart } from '../deliveries/delivery-ratings.service';
+import {
+  calculateCompletionRates,
+  REPLAY_HISTORY_DAYS,
+  scoreReplayOutcome,
+  SnapshotAssignmentUtils,
+  SnapshotConstraintRulesService
+} from './algorithms.replay';
+import {
+  AlgorithmConfig,
+  BulkAssignmentRequest,
+  ReplayAlgorithmReport,
+  ReplayDriver,
+  ReplayOutcome,
+  ReplayReport,
+  ReplaySnapshot,
+  RestaurantRequest,
+  WeightConfig
+} from './algorithms.types';
+
+/**
+ * Replay Service
+ *
+ * Replays a past day's restaurant requests through assignment algorithms
+ * against a snapshot of that day, entirely in memory, and scores each
+ * algorithm's proposals next to what was really assigned. Synthetic datasets
+ * run the same way, without the comparison. Nothing is written.
+ *
+ * Schedules, service areas, vehicles and constraint rules are not versioned,
+ * so the snapshot uses their current values; assignments are historical.
+ */
+export class ReplayService {
+  private weightProfilesService: WeightProfilesService;
+  private constraintRulesService: ConstraintRulesService;
+
+  constructor(
+    private prisma: PrismaClient,
+    private registry: AlgorithmRegistry
+  ) {
+    this.weightProfilesService = new WeightProfilesService(prisma);
+    this.constraintRulesService = new ConstraintRulesService(prisma);
+  }
+
+  /**
+   * Replay `date` through each algorithm and report the outcomes
+   */
+  async replayDay(
+    date: string,
+    algorithms: string[],
+    config: AlgorithmConfig = {},
+    weightConfig?: WeightConfig
+  ): Promise<ReplayReport> {
+    const snapshot = await this.loadSnapshot(date);
+
+    const actual = scoreReplayOutcome(snapshot, snapshot.actualAssignments, calculateCompletionRates(snapshot));
+    const completed = snapshot.actualAssignments.filter(assignment => assignment.status === 'COMPLETED').length;
+    actual.completion.observedRate = snapshot.actualAssignments.length > 0
+      ? Math.round((completed / snapshot.actualAssignments.length) * 10000) / 100
+      : 0;
+
+    return this.runSnapshot(snapshot, algorithms, config, weightConfig, actual);
+  }
+
+  /**
+   * Run each algorithm over a loaded snapshot in memory and score its proposals
+   */
+  async runSnapshot(
+    snapshot: ReplaySnapshot,
+    algorithms: string[],
+    config: AlgorithmConfig = {},
+    weightConfig?: WeightConfig,
+    actual?: ReplayOutcome
+  ): Promise<ReplayReport> {
+    const date = snapshot.date;
+    const completionRates = calculateCompletionRates(snapshot);
+    const assignmentUtils = new SnapshotAssignmentUtils(this.prisma, snapshot);
+    const constraintRulesService = new SnapshotConstraintRulesService(this.prisma, snapshot);
+
+    const reports: ReplayAlgorithmReport[] = [];
+
+    for (const name of algorithms) {
+      const algorithm = this.registry
+        .create(name, this.prisma, config, { weightConfig })
+        .useDataSource(assignmentUtils, constraintRulesService);
+
+      let request: BulkAssignmentRequest = { assignmentDate: date, restaurants: snapshot.requests, dryRun: true };
+      if (algorithm instanceof WeightedScoringAlgorithm) {
+        request = await this.weightProfilesService.resolveRequestWeights(request);
+      }
+
+      const result = await algorithm.assignDrivers(request);
+      const proposed = result.results
+        .filter(r => r.success && r.driverId !== undefined)
+        .map(r => ({ restaurantId: r.restaurantId, driverId: r.driverId! }));
+
+      reports.push({
+        algorithm: name,
+        executionTimeMs: result.executionTimeMs,
+        averageScore: result.averageScore ?? null,
+        outcome: scoreReplayOutcome(snapshot, proposed, completionRates),
+        results: withoutExplanations(result.results)
+      });
+    }
+
+    return {
+      date,
+      generatedAt: new Date().toISOString(),
+      snapshot: {
+        drivers: snapshot.drivers.length,
+        requests: snapshot.requests.length,
+        skippedRequests: snapshot.skippedRequests,
+        historyDays: REPLAY_HISTORY_DAYS
+      },
+      ...(actual && { actual }),
+      algorithms: reports
+    };
+  }
+
+  /**
+   * Load drivers, the day's requests and prior assignments for a replay.
+   * Drivers who are inactive today still count if they worked that day.
+   */
+  async loadSnapshot(date: string): Promise<ReplaySnapshot> {
+    const day = new Date(date);
+    const historyStart = new Date(date);
+    historyStart.setDate(historyStart.getDate() - REPLAY_HISTORY_DAYS);
+
+    const [drivers, dayAssignments, history, ratings, constraintRules] = await Promise.all([
+      this.loadDrivers({
+        syntheticDatasetId: null,
+        OR: [
+          { driverStatus: 'ACTIVE' },
+          { restaurantAssignments: { some: { assignmentDate: day } } }
+        ]
+      }, day),
+      this.prisma.restaurantAssignment.findMany({
+        where: { assignmentDate: day, status: { not: 'CANCELLED' } },
+        orderBy: { pickupTime: 'asc' }
+      }),
+      this.prisma.restaurantAssignment.findMany({
+        where: { assignmentDate: { gte: historyStart, lt: day }, preemptedAt: null },
+        select: {
+          driverId: true,
+          restaurantId: true,
+          assignmentDate: true,
+          status: true,
+          estimatedDeliveries: true,
+          actualDeliveries: true
+        }
+      }),
+      this.prisma.deliveryRating.findMany({
+        where: { createdAt: { gte: getRatingWindowStart(day), lt: day } },
+        select: { driverId: true, rating: true, createdAt: true }
+      }),
+      this.constraintRulesService.getActiveRules()
+    ]);
+
+    const requests: RestaurantRequest[] = [];
+    const skippedRequests: ReplaySnapshot['skippedRequests'] = [];
+
+    dayAssignments.forEach(assignment => {
+      // Assignments made before locations were recorded cannot be matched to service areas
+      if (!assignment.restaurantCity || !assignment.restaurantState) {
+        skippedRequests.push({ restaurantId: assignment.restaurantId, reason: 'No restaurant location recorded' });
+        return;
+      }
+
+      if (requests.some(request => request.restaurantId === assignment.restaurantId)) {
+        skippedRequests.push({ restaurantId: assignment.restaurantId, reason: 'Additional driver for a restaurant already in the replay' });
+        return;
+      }
+
+      requests.push({
+        restaurantId: assignment.restaurantId,
+        city: assignment.restaurantCity,
+        state: assignment.restaurantState,
+        latitude: assignment.restaurantLatitude !== null ? Number(assignment.restaurantLatitude) : undefined,
+        longitude: assignment.restaurantLongitude !== null ? Number(assignment.restaurantLongitude) : undefined,
+        estimatedDeliveries: assignment.estimatedDeliveries,
+        pickupTime: assignment.pickupTime.toISOString().substring(11, 16),
+        paymentRate: Number(assignment.paymentRate),
+        paymentType: assignment.paymentType,
+        priority: assignment.priority
+      });
+    });
+
+    return {
+      date,
+      drivers,
+      requests,
+      skippedRequests,
+      actualAssignments: dayAssignments
+        .filter(assignment => requests.some(request => request.restaurantId === assignment.restaurantId))
+        .map(assignment => ({
+          restaurantId: assignment.restaurantId,
+          driverId: assignment.driverId,
+          status: assignment.status
+        })),
+      history: history.map(assignment => ({
+        driverId: assignment.driverId,
+        restaurantId: assignment.restaurantId,
+        assignmentDate: assignment.assignmentDate.toISOString().split('T')[0],
+        status: assignment.status,
+        deliveries: assignment.actualDeliveries ?? assignment.estimatedDeliveries
+      })),
+      ratings,
+      constraintRules
+    };
+  }
+
+  /**
+   * Snapshot of a synthetic dataset: its drivers and generated requests, with no history or ratings
+   */
+  async loadDatasetSnapshot(datasetId: string, date: string, requests: RestaurantRequest[]): Promise<ReplaySnapshot> {
+    const [drivers, constraintRules] = await Promise.all([
+      this.loadDrivers({ syntheticDatasetId: datasetId }, new Date(date)),
+      this.constraintRulesService.getActiveRules()
+    ]);
+
+    return {
+      date,
+      drivers,
+      requests,
+      skippedRequests: [],
+      actualAssignments: [],
+      history: [],
+      ratings: [],
+      constraintRules
+    };
+  }
+
+  private async loadDrivers(where: Prisma.UserWhereInput, day: Date): Promise<ReplayDriver[]> {
+    const drivers = await this.prisma.user.findMany({
+      where,
+      include: {
+        serviceAreas: { where: { isActive: true } },
+        schedules: { where: { dayOfWeek: day.getDay(), isAvailable: true } },
+        availabilityBlocks: { where: { blockedDate: day } },
+        vehicles: {
+          where: { verified: true },
+          select: { id: true, type: true, capacity: true, verified: true }
+        }
+      }
+    });
+
+    return drivers.map(driver => ({
+      id: driver.id,
+      name: driver.name,
+      email: driver.email,
+      serviceAreas: driver.serviceAreas.map(area => ({
+        areaName: area.areaName,
+        city: area.city,
+        state: area.state,
+        latitude: Number(area.latitude),
+        longitude: Number(area.longitude),
+        radiusKm: area.radiusKm
+      })),
+      schedules: driver.schedules,
+      availabilityBlocks: driver.availabilityBlocks,
+      vehicles: driver.vehicles
+    }));
+  }
+}
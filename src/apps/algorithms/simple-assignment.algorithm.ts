@@ -1,11 +1,12 @@
 import { BaseAssignmentAlgorithm } from './algorithms.base';
-import { DriverCandidate, RestaurantRequest } from './algorithms.types';
+import { CandidateScore, DriverCandidate, RestaurantRequest } from './algorithms.types';
 
 /**
  * Simple Assignment Algorithm
  * 
  * This algorithm assigns drivers to restaurants based on availability and load balancing.
  * It selects the driver with the least current assignments to distribute workload evenly.
+ * With `affinityTieBreaker`, ties go to the driver who knows the restaurant best.
  */
 export class SimpleAssignmentAlgorithm extends BaseAssignmentAlgorithm {
   getName(): string {
@@ -16,37 +17,42 @@ export class SimpleAssignmentAlgorithm extends BaseAssignmentAlgorithm {
     availableDrivers: DriverCandidate[],
     request: RestaurantRequest,
     assignmentDate: string
-  ): Promise<{ driver: DriverCandidate; score?: number } | null> {
+  ): Promise<{ driver: DriverCandidate; score?: number; candidates?: CandidateScore[] } | null> {
     if (availableDrivers.length === 0) {
       return null;
     }
 
+    // Load restaurant affinity only when it is used to break ties
+    const drivers = this.config.affinityTieBreaker
+      ? await this.attachAffinityScores(availableDrivers, request, assignmentDate)
+      : availableDrivers;
+
     // Filter drivers who haven't exceeded max assignments if configured
-    let candidateDrivers = availableDrivers;
+    let candidateDrivers = drivers;
     if (this.config.maxAssignmentsPerDriver) {
-      candidateDrivers = availableDrivers.filter(
+      candidateDrivers = drivers.filter(
         driver => driver.currentAssignments < (this.config.maxAssignmentsPerDriver || 3)
       );
     }
 
     if (candidateDrivers.length === 0) {
       // If all drivers are at max capacity, use all available drivers
-      candidateDrivers = availableDrivers;
+      candidateDrivers = drivers;
     }
 
-    // Select driver with least current assignments (load balancing)
-    const selectedDriver = candidateDrivers.reduce((prev, current) => 
-      prev.currentAssignments < current.currentAssignments ? prev : current
-    );
-
     // Calculate a simple score based on inverse of current assignments
-    // Higher score = lower current workload
+    // Higher score = lower current workload; soft constraint rules shift it
     const maxAssignments = Math.max(...candidateDrivers.map(d => d.currentAssignments), 1);
-    const score = ((maxAssignments - selectedDriver.currentAssignments) / maxAssignments) * 100;
+    const scoredDrivers = candidateDrivers.map(driver => {
+      const workloadScore = ((maxAssignments - driver.currentAssignments) / maxAssignments) * 100;
+      return {
+        driver,
+        score: workloadScore + (driver.constraintAdjustment || 0),
+        breakdown: { workloadScore }
+      };
+    });
 
-    return {
-      driver: selectedDriver,
-      score
-    };
+    // Select driver with the highest score (least current assignments without rules)
+    return { ...this.selectHighestScore(scoredDrivers), candidates: scoredDrivers };
   }
 } 
\ No newline at end of file
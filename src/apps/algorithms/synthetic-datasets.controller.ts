@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { SyntheticDatasetsService } from './synthetic-datasets.service';
+import { SyntheticDatasetOptions } from './algorithms.types';
+
+export class SyntheticDatasetsController {
+  private syntheticDatasetsService: SyntheticDatasetsService;
+
+  constructor(prisma: PrismaClient) {
+    this.syntheticDatasetsService = new SyntheticDatasetsService(prisma);
+  }
+
+  /**
+   * List synthetic datasets, newest first
+   * GET /api/algorithms/synthetic-datasets
+   */
+  async listDatasets(req: Request, res: Response): Promise<void> {
+    try {
+      const datasets = await this.syntheticDatasetsService.listDatasets();
+
+      res.json({
+        success: true,
+        data: datasets
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to list synthetic datasets');
+    }
+  }
+
+  /**
+   * Get a synthetic dataset with its restaurant requests
+   * GET /api/algorithms/synthetic-datasets/:id
+   */
+  async getDataset(req: Request, res: Response): Promise<void> {
+    try {
+      const dataset = await this.syntheticDatasetsService.getDataset(req.params.id);
+
+      if (!dataset) {
+        res.status(404).json({
+          success: false,
+          error: 'Synthetic dataset not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: dataset
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to get synthetic dataset');
+    }
+  }
+
+  /**
+   * Generate and write a synthetic dataset
+   * POST /api/algorithms/synthetic-datasets
+   */
+  async createDataset(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const dataset = await this.syntheticDatasetsService.createDataset(req.body as SyntheticDatasetOptions);
+
+      res.status(201).json({
+        success: true,
+        data: dataset
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to create synthetic dataset');
+    }
+  }
+
+  /**
+   * Tear down a synthetic dataset and its drivers
+   * DELETE /api/algorithms/synthetic-datasets/:id
+   */
+  async deleteDataset(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const result = await this.syntheticDatasetsService.deleteDataset(req.params.id);
+
+      res.json({
+        success: true,
+        data: {
+          message: 'Synthetic dataset deleted',
+          ...result
+        }
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to delete synthetic dataset');
+    }
+  }
+
+  /**
+   * Map service errors to HTTP status codes
+   */
+  private sendError(res: Response, error: unknown, fallback: string): void {
+    const message = error instanceof Error ? error.message : fallback;
+    const status = message.startsWith('Invalid')
+      ? 400
+      : message.endsWith('not found') ? 404 : 500;
+
+    res.status(status).json({
+      success: false,
+      error: message
+    });
+  }
+}
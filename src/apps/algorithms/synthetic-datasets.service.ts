@@ -0,0 +1,173 @@
+import { PrismaClient, Prisma, SyntheticDataset } from '@prisma/client';
+import { generateSyntheticScenario, SYNTHETIC_LIMITS } from './algorithms.synthetic';
+import { RestaurantRequest, SyntheticDatasetOptions, SyntheticDatasetResponse } from './algorithms.types';
+
+// Writing a large dataset takes longer than the default interactive transaction timeout
+const WRITE_TIMEOUT_MS = 120000;
+
+/**
+ * Synthetic Datasets Service
+ *
+ * Generates reproducible test days (drivers with service areas, schedules,
+ * blocks and vehicles, plus restaurant requests) and writes them as an
+ * isolated dataset. Dataset drivers are never picked by live assignment runs,
+ * and deleting the dataset removes them with everything attached.
+ */
+export class SyntheticDatasetsService {
+  constructor(private prisma: PrismaClient) {}
+
+  async listDatasets(): Promise<SyntheticDatasetResponse[]> {
+    const datasets = await this.prisma.syntheticDataset.findMany({
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return datasets.map(dataset => this.formatDataset(dataset));
+  }
+
+  /**
+   * Get a dataset with its restaurant requests
+   */
+  async getDataset(id: string): Promise<SyntheticDatasetResponse | null> {
+    const dataset = await this.prisma.syntheticDataset.findUnique({ where: { id } });
+    return dataset ? this.formatDataset(dataset, true) : null;
+  }
+
+  /**
+   * Generate a scenario and write it in one transaction
+   */
+  async createDataset(data: SyntheticDatasetOptions): Promise<SyntheticDatasetResponse> {
+    const options = this.validateOptions(data);
+    const scenario = generateSyntheticScenario(options);
+
+    const dataset = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.syntheticDataset.create({
+        data: {
+          name: options.name,
+          seed: options.seed,
+          assignmentDate: new Date(options.assignmentDate!),
+          params: options as unknown as Prisma.InputJsonValue,
+          requests: scenario.requests as unknown as Prisma.InputJsonValue,
+          driverCount: scenario.drivers.length
+        }
+      });
+
+      for (const [index, driver] of scenario.drivers.entries()) {
+        const key = `${created.id}-${index + 1}`;
+
+        await tx.user.create({
+          data: {
+            email: `driver-${key}@synthetic.invalid`,
+            name: driver.name,
+            verified: true,
+            driverStatus: 'ACTIVE',
+            syntheticDatasetId: created.id,
+            serviceAreas: { create: driver.serviceAreas },
+            schedules: {
+              create: driver.schedules.map(schedule => ({
+                dayOfWeek: schedule.dayOfWeek,
+                startTime: this.toTime(schedule.startTime),
+                endTime: this.toTime(schedule.endTime),
+                maxDeliveries: schedule.maxDeliveries
+              }))
+            },
+            availabilityBlocks: {
+              create: driver.availabilityBlocks.map(block => ({
+                blockedDate: new Date(options.assignmentDate!),
+                isFullDay: block.isFullDay,
+                startTime: block.startTime ? this.toTime(block.startTime) : null,
+                endTime: block.endTime ? this.toTime(block.endTime) : null,
+                reason: block.reason
+              }))
+            },
+            vehicles: {
+              create: { ...driver.vehicle, licensePlate: `SYN-${key}` }
+            }
+          }
+        });
+      }
+
+      return created;
+    }, { timeout: WRITE_TIMEOUT_MS });
+
+    return this.formatDataset(dataset);
+  }
+
+  /**
+   * Remove a dataset, its drivers and everything attached to them
+   */
+  async deleteDataset(id: string): Promise<{ deletedDrivers: number }> {
+    return this.prisma.$transaction(async (tx) => {
+      const dataset = await tx.syntheticDataset.findUnique({ where: { id }, select: { driverCount: true } });
+      if (!dataset) {
+        throw new Error('Synthetic dataset not found');
+      }
+
+      // Vehicles do not cascade with their driver
+      await tx.vehicle.deleteMany({ where: { driver: { syntheticDatasetId: id } } });
+      await tx.syntheticDataset.delete({ where: { id } });
+
+      return { deletedDrivers: dataset.driverCount };
+    }, { timeout: WRITE_TIMEOUT_MS });
+  }
+
+  private validateOptions(data: SyntheticDatasetOptions): SyntheticDatasetOptions {
+    if (!data || !Number.isInteger(data.seed)) {
+      throw new Error('Invalid dataset: seed must be an integer');
+    }
+
+    if (!Number.isInteger(data.drivers) || data.drivers < 1 || data.drivers > SYNTHETIC_LIMITS.drivers) {
+      throw new Error(`Invalid dataset: drivers must be an integer from 1 to ${SYNTHETIC_LIMITS.drivers}`);
+    }
+
+    if (!Number.isInteger(data.restaurants) || data.restaurants < 1 || data.restaurants > SYNTHETIC_LIMITS.restaurants) {
+      throw new Error(`Invalid dataset: restaurants must be an integer from 1 to ${SYNTHETIC_LIMITS.restaurants}`);
+    }
+
+    const center = data.center;
+    if (!center || typeof center.latitude !== 'number' || typeof center.longitude !== 'number' ||
+        Math.abs(center.latitude) > 90 || Math.abs(center.longitude) > 180 || !center.city || !center.state) {
+      throw new Error('Invalid dataset: center needs latitude, longitude, city and state');
+    }
+
+    if (data.radiusKm !== undefined && (typeof data.radiusKm !== 'number' || data.radiusKm <= 0 || data.radiusKm > 100)) {
+      throw new Error('Invalid dataset: radiusKm must be greater than 0 and at most 100');
+    }
+
+    if (data.blockRate !== undefined && (typeof data.blockRate !== 'number' || data.blockRate < 0 || data.blockRate > 1)) {
+      throw new Error('Invalid dataset: blockRate must be between 0 and 1');
+    }
+
+    if (data.assignmentDate !== undefined &&
+        (!/^\d{4}-\d{2}-\d{2}$/.test(data.assignmentDate) || isNaN(new Date(data.assignmentDate).getTime()))) {
+      throw new Error('Invalid dataset: assignmentDate must be YYYY-MM-DD');
+    }
+
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+
+    return {
+      ...data,
+      assignmentDate: data.assignmentDate ?? tomorrow.toISOString().split('T')[0]
+    };
+  }
+
+  private toTime(time: string): Date {
+    return new Date(`1970-01-01T${time}:00.000Z`);
+  }
+
+  private formatDataset(dataset: SyntheticDataset, withRequests = false): SyntheticDatasetResponse {
+    const requests = dataset.requests as unknown as RestaurantRequest[];
+
+    return {
+      id: dataset.id,
+      name: dataset.name,
+      seed: dataset.seed,
+      assignmentDate: dataset.assignmentDate.toISOString().split('T')[0],
+      params: dataset.params as unknown as SyntheticDatasetOptions,
+      driverCount: dataset.driverCount,
+      requestCount: requests.length,
+      ...(withRequests && { requests }),
+      createdAt: dataset.createdAt
+    };
+  }
+}
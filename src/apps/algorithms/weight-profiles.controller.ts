@@ -0,0 +1,274 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { WeightProfilesService } from './weight-profiles.service';
+import { WeightTrainingService } from './weight-training.service';
+import {
+  CreateWeightProfileDto,
+  CreateWeightProfileVersionDto,
+  WeightProfileScopeInput,
+  WeightTrainingRequest
+} from './algorithms.types';
+
+export class WeightProfilesController {
+  private weightProfilesService: WeightProfilesService;
+  private weightTrainingService: WeightTrainingService;
+
+  constructor(prisma: PrismaClient) {
+    this.weightProfilesService = new WeightProfilesService(prisma);
+    this.weightTrainingService = new WeightTrainingService(prisma);
+  }
+
+  /**
+   * List weight profiles
+   * GET /api/algorithms/weight-profiles
+   */
+  async listProfiles(req: Request, res: Response): Promise<void> {
+    try {
+      const profiles = await this.weightProfilesService.listProfiles();
+
+      res.json({
+        success: true,
+        data: profiles
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to list weight profiles');
+    }
+  }
+
+  /**
+   * Get a weight profile with its version history
+   * GET /api/algorithms/weight-profiles/:name
+   */
+  async getProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const profile = await this.weightProfilesService.getProfile(req.params.name);
+
+      if (!profile) {
+        res.status(404).json({
+          success: false,
+          error: 'Weight profile not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: profile
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to get weight profile');
+    }
+  }
+
+  /**
+   * Create a weight profile
+   * POST /api/algorithms/weight-profiles
+   */
+  async createProfile(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const data = req.body as CreateWeightProfileDto;
+
+      if (!data?.name || !data.weights) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request. Must include name and weights'
+        });
+        return;
+      }
+
+      const profile = await this.weightProfilesService.createProfile(data, req.user.id);
+
+      res.status(201).json({
+        success: true,
+        data: profile
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to create weight profile');
+    }
+  }
+
+  /**
+   * Add a new version to a weight profile
+   * POST /api/algorithms/weight-profiles/:name/versions
+   */
+  async createVersion(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const data = req.body as CreateWeightProfileVersionDto;
+
+      if (!data?.weights) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request. Must include weights'
+        });
+        return;
+      }
+
+      const profile = await this.weightProfilesService.createVersion(req.params.name, data, req.user.id);
+
+      res.status(201).json({
+        success: true,
+        data: profile
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to create weight profile version');
+    }
+  }
+
+  /**
+   * Activate an existing version of a weight profile
+   * POST /api/algorithms/weight-profiles/:name/versions/:version/activate
+   */
+  async activateVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const version = parseInt(req.params.version);
+
+      if (isNaN(version)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid version'
+        });
+        return;
+      }
+
+      const profile = await this.weightProfilesService.activateVersion(req.params.name, version);
+
+      res.json({
+        success: true,
+        data: profile
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to activate weight profile version');
+    }
+  }
+
+  /**
+   * Roll a weight profile back to a previous version
+   * POST /api/algorithms/weight-profiles/:name/rollback
+   */
+  async rollback(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { version, note } = req.body as { version?: number; note?: string };
+
+      if (typeof version !== 'number') {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request. Must include the version to roll back to'
+        });
+        return;
+      }
+
+      const profile = await this.weightProfilesService.rollback(req.params.name, version, req.user.id, note);
+
+      res.json({
+        success: true,
+        data: profile
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to roll back weight profile');
+    }
+  }
+
+  /**
+   * Apply a weight profile to a restaurant or city/state
+   * POST /api/algorithms/weight-profiles/:name/scopes
+   */
+  async assignScope(req: Request, res: Response): Promise<void> {
+    try {
+      const profile = await this.weightProfilesService.assignScope(
+        req.params.name,
+        req.body as WeightProfileScopeInput
+      );
+
+      res.status(201).json({
+        success: true,
+        data: profile
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to assign weight profile scope');
+    }
+  }
+
+  /**
+   * Remove a scope from a weight profile
+   * DELETE /api/algorithms/weight-profiles/:name/scopes/:scopeId
+   */
+  async removeScope(req: Request, res: Response): Promise<void> {
+    try {
+      await this.weightProfilesService.removeScope(req.params.name, req.params.scopeId);
+
+      res.json({
+        success: true,
+        data: {
+          message: 'Weight profile scope removed'
+        }
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to remove weight profile scope');
+    }
+  }
+
+  /**
+   * Learn weights from past assignment outcomes and save them as a candidate version
+   * POST /api/algorithms/weights/train
+   */
+  async trainWeights(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const request = (req.body || {}) as WeightTrainingRequest;
+
+      if (request.holdoutFraction !== undefined &&
+          (typeof request.holdoutFraction !== 'number' || request.holdoutFraction < 0 || request.holdoutFraction >= 1)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid holdoutFraction. Must be a number from 0 up to (but not including) 1'
+        });
+        return;
+      }
+
+      const result = await this.weightTrainingService.trainWeights(request, req.user.id);
+
+      res.status(201).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Weight training failed');
+    }
+  }
+
+  /**
+   * Map service errors to HTTP status codes
+   */
+  private sendError(res: Response, error: unknown, fallback: string): void {
+    const message = error instanceof Error ? error.message : fallback;
+    const status = message.startsWith('Invalid') || message.startsWith('Insufficient') || message.startsWith('Training')
+      ? 400
+      : message.endsWith('not found')
+        ? 404
+        : message === 'Weight profile already exists' ? 409 : 500;
+
+    res.status(status).json({
+      success: false,
+      error: message
+    });
+  }
+}
@@ -0,0 +1,523 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { normalizeWeightConfig } from './weighted-scoring.algorithm';
+import {
+  WeightConfig,
+  BulkAssignmentRequest,
+  RestaurantRequest,
+  WeightProfileScopeInput,
+  CreateWeightProfileDto,
+  CreateWeightProfileVersionDto,
+  WeightProfileResponse,
+  WeightProfileVersionResponse
+} from './algorithms.types';
+
+export const DEFAULT_WEIGHT_PROFILE = 'default';
+
+const REQUIRED_WEIGHT_KEYS: Array<keyof WeightConfig> = ['locationWeight', 'proximityWeight', 'performanceWeight', 'workloadWeight'];
+const WEIGHT_KEYS: Array<keyof WeightConfig> = [...REQUIRED_WEIGHT_KEYS, 'vehicleWeight', 'affinityWeight'];
+
+interface ActiveWeights {
+  label: string; // "name@vN"
+  weights: WeightConfig;
+}
+
+type ProfileWithRelations = Prisma.WeightProfileGetPayload<{
+  include: { scopes: true };
+}>;
+
+/**
+ * Weight Profiles Service
+ *
+ * Stores named WeightConfig profiles in the database with an authored version
+ * history, so weight changes survive restarts, are shared between servers and
+ * can be audited or rolled back. Profiles can be scoped to a restaurant or a
+ * city/state and are resolved per restaurant before each weighted run.
+ */
+export class WeightProfilesService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * List all profiles with their active weights and scopes
+   */
+  async listProfiles(): Promise<WeightProfileResponse[]> {
+    const profiles = await this.prisma.weightProfile.findMany({
+      include: { scopes: true },
+      orderBy: { name: 'asc' }
+    });
+
+    const activeWeights = await this.loadActiveWeights(profiles);
+
+    return profiles.map(profile => this.formatProfile(profile, activeWeights.get(profile.id)));
+  }
+
+  /**
+   * Get a profile with its full version history
+   */
+  async getProfile(name: string): Promise<WeightProfileResponse | null> {
+    const profile = await this.prisma.weightProfile.findUnique({
+      where: { name },
+      include: { scopes: true }
+    });
+
+    if (!profile) {
+      return null;
+    }
+
+    const versions = await this.prisma.weightProfileVersion.findMany({
+      where: { profileId: profile.id },
+      include: {
+        author: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+      orderBy: { version: 'desc' }
+    });
+
+    const active = versions.find(v => v.version === profile.activeVersion);
+
+    return {
+      ...this.formatProfile(profile, active && {
+        label: `${profile.name}@v${active.version}`,
+        weights: active.weights as unknown as WeightConfig
+      }),
+      versions: versions.map((version): WeightProfileVersionResponse => ({
+        version: version.version,
+        weights: version.weights as unknown as WeightConfig,
+        note: version.note,
+        metadata: version.metadata as Record<string, unknown> | null,
+        author: version.author,
+        createdAt: version.createdAt
+      }))
+    };
+  }
+
+  /**
+   * Create a profile with its first, active version
+   */
+  async createProfile(data: CreateWeightProfileDto, authorId: number): Promise<WeightProfileResponse> {
+    const weights = this.validateWeights(data.weights, true);
+
+    const existing = await this.prisma.weightProfile.findUnique({
+      where: { name: data.name }
+    });
+
+    if (existing) {
+      throw new Error('Weight profile already exists');
+    }
+
+    await this.prisma.weightProfile.create({
+      data: {
+        name: data.name,
+        description: data.description,
+        activeVersion: 1,
+        versions: {
+          create: {
+            version: 1,
+            weights: weights as unknown as Prisma.InputJsonValue,
+            note: data.note,
+            authorId
+          }
+        }
+      }
+    });
+
+    return (await this.getProfile(data.name))!;
+  }
+
+  /**
+   * Add a new version to a profile. Partial weights are merged over the active version.
+   */
+  async createVersion(
+    name: string,
+    data: CreateWeightProfileVersionDto,
+    authorId: number
+  ): Promise<WeightProfileResponse> {
+    const partialWeights = this.validateWeights(data.weights, false);
+
+    await this.prisma.$transaction(async (tx) => {
+      const profile = await tx.weightProfile.findUnique({ where: { name } });
+
+      if (!profile) {
+        throw new Error('Weight profile not found');
+      }
+
+      const active = profile.activeVersion !== null
+        ? await tx.weightProfileVersion.findUnique({
+            where: { profileId_version: { profileId: profile.id, version: profile.activeVersion } }
+          })
+        : null;
+      const baseWeights = active?.weights as unknown as WeightConfig | undefined;
+      const weights = { ...baseWeights, ...partialWeights } as WeightConfig;
+
+      if (REQUIRED_WEIGHT_KEYS.some(key => weights[key] === undefined)) {
+        throw new Error(`Invalid weights: ${REQUIRED_WEIGHT_KEYS.join(', ')} are required`);
+      }
+
+      await this.appendVersion(tx, profile.id, normalizeWeightConfig(weights), authorId, data.note, data.activate !== false);
+    });
+
+    return (await this.getProfile(name))!;
+  }
+
+  /**
+   * Save weights as a new version of the default profile, creating it on first use
+   */
+  async saveDefaultWeights(
+    weights: Partial<WeightConfig>,
+    baseWeights: WeightConfig,
+    authorId: number,
+    note?: string
+  ): Promise<WeightProfileResponse> {
+    const existing = await this.prisma.weightProfile.findUnique({
+      where: { name: DEFAULT_WEIGHT_PROFILE }
+    });
+
+    if (!existing) {
+      return this.createProfile({
+        name: DEFAULT_WEIGHT_PROFILE,
+        description: 'Weights used when no other profile applies',
+        weights: normalizeWeightConfig({ ...baseWeights, ...this.validateWeights(weights, false) }),
+        note
+      }, authorId);
+    }
+
+    return this.createVersion(DEFAULT_WEIGHT_PROFILE, { weights, note }, authorId);
+  }
+
+  /**
+   * Save weights as an inactive candidate version for review, creating the profile
+   * (with no active version) if needed. Returns the new version number.
+   */
+  async saveCandidateVersion(
+    name: string,
+    weights: WeightConfig,
+    authorId: number,
+    note: string | undefined,
+    metadata: Record<string, unknown>
+  ): Promise<number> {
+    const candidateWeights = normalizeWeightConfig(this.validateWeights(weights, true) as WeightConfig);
+
+    return this.prisma.$transaction(async (tx) => {
+      const profile = await tx.weightProfile.upsert({
+        where: { name },
+        update: {},
+        create: { name }
+      });
+
+      return this.appendVersion(tx, profile.id, candidateWeights, authorId, note, false, metadata);
+    });
+  }
+
+  /**
+   * Make an existing version the active one, without creating a new version
+   */
+  async activateVersion(name: string, version: number): Promise<WeightProfileResponse> {
+    const profile = await this.findProfileVersion(name, version);
+
+    await this.prisma.weightProfile.update({
+      where: { id: profile.id },
+      data: { activeVersion: version }
+    });
+
+    return (await this.getProfile(name))!;
+  }
+
+  /**
+   * Roll back to a previous version. The old weights are copied into a new version
+   * so the history records who rolled back and when.
+   */
+  async rollback(
+    name: string,
+    version: number,
+    authorId: number,
+    note?: string
+  ): Promise<WeightProfileResponse> {
+    const profile = await this.findProfileVersion(name, version);
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.appendVersion(
+        tx,
+        profile.id,
+        profile.targetWeights,
+        authorId,
+        note || `Rolled back to version ${version}`,
+        true
+      );
+    });
+
+    return (await this.getProfile(name))!;
+  }
+
+  /**
+   * Apply a profile to a restaurant or a city/state.
+   * A target can only have one profile, so any previous scope for it is replaced.
+   */
+  async assignScope(name: string, scope: WeightProfileScopeInput): Promise<WeightProfileResponse> {
+    const target = this.validateScope(scope);
+
+    const profile = await this.prisma.weightProfile.findUnique({ where: { name } });
+    if (!profile) {
+      throw new Error('Weight profile not found');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.weightProfileScope.deleteMany({
+        where: target.restaurantId
+          ? { restaurantId: target.restaurantId }
+          : {
+              restaurantId: null,
+              city: { equals: target.city, mode: 'insensitive' },
+              state: { equals: target.state, mode: 'insensitive' }
+            }
+      });
+
+      await tx.weightProfileScope.create({
+        data: { profileId: profile.id, ...target }
+      });
+    });
+
+    return (await this.getProfile(name))!;
+  }
+
+  /**
+   * Remove a scope from a profile
+   */
+  async removeScope(name: string, scopeId: string): Promise<void> {
+    const deleted = await this.prisma.weightProfileScope.deleteMany({
+      where: { id: scopeId, profile: { name } }
+    });
+
+    if (deleted.count === 0) {
+      throw new Error('Weight profile scope not found');
+    }
+  }
+
+  /**
+   * Get the active weights of a profile
+   */
+  async getActiveWeights(name: string): Promise<WeightConfig | null> {
+    const profile = await this.prisma.weightProfile.findUnique({
+      where: { name },
+      include: { scopes: true }
+    });
+
+    if (!profile) {
+      return null;
+    }
+
+    const active = await this.loadActiveWeights([profile]);
+    return active.get(profile.id)?.weights || null;
+  }
+
+  /**
+   * Fill in weightConfig for every restaurant of a run. Precedence, highest first:
+   * the restaurant's own weightConfig, the request's weightConfig, the profile named
+   * by the request, a restaurant scope, a city/state scope, then the default profile.
+   * Restaurants with none of these keep the algorithm's instance weights.
+   */
+  async resolveRequestWeights(request: BulkAssignmentRequest): Promise<BulkAssignmentRequest> {
+    if (request.restaurants.every(r => r.weightConfig)) {
+      return request;
+    }
+
+    const restaurantIds = request.restaurants.map(r => r.restaurantId);
+    const profiles = await this.prisma.weightProfile.findMany({
+      where: {
+        OR: [
+          { name: { in: [DEFAULT_WEIGHT_PROFILE, ...(request.weightProfile ? [request.weightProfile] : [])] } },
+          { scopes: { some: { OR: [{ restaurantId: { in: restaurantIds } }, { restaurantId: null }] } } }
+        ]
+      },
+      include: { scopes: true }
+    });
+
+    const activeWeights = await this.loadActiveWeights(profiles);
+    const byName = (name: string) => {
+      const profile = profiles.find(p => p.name === name);
+      return profile ? activeWeights.get(profile.id) : undefined;
+    };
+
+    const namedProfile = request.weightProfile ? byName(request.weightProfile) : undefined;
+    if (request.weightProfile && !namedProfile) {
+      throw new Error(`Weight profile '${request.weightProfile}' not found or has no active version`);
+    }
+
+    const defaultProfile = byName(DEFAULT_WEIGHT_PROFILE);
+    const findScoped = (matches: (scope: ProfileWithRelations['scopes'][number]) => boolean) => {
+      const profile = profiles.find(p => p.scopes.some(matches));
+      return profile ? activeWeights.get(profile.id) : undefined;
+    };
+
+    return {
+      ...request,
+      restaurants: request.restaurants.map((restaurant): RestaurantRequest => {
+        if (restaurant.weightConfig) {
+          return restaurant;
+        }
+
+        if (request.weightConfig) {
+          return { ...restaurant, weightConfig: request.weightConfig };
+        }
+
+        const resolved = namedProfile
+          || findScoped(scope => scope.restaurantId === restaurant.restaurantId)
+          || findScoped(scope =>
+            scope.restaurantId === null &&
+            scope.city?.toLowerCase() === restaurant.city.toLowerCase() &&
+            scope.state?.toLowerCase() === restaurant.state.toLowerCase()
+          )
+          || defaultProfile;
+
+        return resolved
+          ? { ...restaurant, weightConfig: resolved.weights, weightProfile: resolved.label }
+          : restaurant;
+      })
+    };
+  }
+
+  /**
+   * Create the next version of a profile, optionally making it active
+   */
+  private async appendVersion(
+    tx: Prisma.TransactionClient,
+    profileId: string,
+    weights: WeightConfig,
+    authorId: number,
+    note: string | undefined,
+    activate: boolean,
+    metadata?: Record<string, unknown>
+  ): Promise<number> {
+    const latest = await tx.weightProfileVersion.aggregate({
+      where: { profileId },
+      _max: { version: true }
+    });
+    const version = (latest._max.version || 0) + 1;
+
+    await tx.weightProfileVersion.create({
+      data: {
+        profileId,
+        version,
+        weights: weights as unknown as Prisma.InputJsonValue,
+        note,
+        metadata: metadata as Prisma.InputJsonValue | undefined,
+        authorId
+      }
+    });
+
+    if (activate) {
+      await tx.weightProfile.update({
+        where: { id: profileId },
+        data: { activeVersion: version }
+      });
+    }
+
+    return version;
+  }
+
+  private async findProfileVersion(name: string, version: number): Promise<{ id: string; targetWeights: WeightConfig }> {
+    const profile = await this.prisma.weightProfile.findUnique({ where: { name } });
+    if (!profile) {
+      throw new Error('Weight profile not found');
+    }
+
+    const target = await this.prisma.weightProfileVersion.findUnique({
+      where: { profileId_version: { profileId: profile.id, version } }
+    });
+    if (!target) {
+      throw new Error('Weight profile version not found');
+    }
+
+    return { id: profile.id, targetWeights: target.weights as unknown as WeightConfig };
+  }
+
+  /**
+   * Load the active version of each profile, keyed by profile id
+   */
+  private async loadActiveWeights(
+    profiles: Array<{ id: string; name: string; activeVersion: number | null }>
+  ): Promise<Map<string, ActiveWeights>> {
+    const withActive = profiles.filter(p => p.activeVersion !== null);
+    const active = new Map<string, ActiveWeights>();
+
+    if (withActive.length === 0) {
+      return active;
+    }
+
+    const versions = await this.prisma.weightProfileVersion.findMany({
+      where: {
+        OR: withActive.map(p => ({ profileId: p.id, version: p.activeVersion! }))
+      }
+    });
+
+    versions.forEach(version => {
+      const profile = withActive.find(p => p.id === version.profileId)!;
+      active.set(profile.id, {
+        label: `${profile.name}@v${version.version}`,
+        weights: version.weights as unknown as WeightConfig
+      });
+    });
+
+    return active;
+  }
+
+  /**
+   * Check weight keys and values. Full configs must include every weight.
+   */
+  private validateWeights(weights: Partial<WeightConfig>, requireAll: boolean): Partial<WeightConfig> {
+    if (!weights || typeof weights !== 'object') {
+      throw new Error('Invalid weights: expected an object');
+    }
+
+    const invalidKeys = Object.keys(weights).filter(key => !WEIGHT_KEYS.includes(key as keyof WeightConfig));
+    if (invalidKeys.length > 0) {
+      throw new Error(`Invalid weight keys: ${invalidKeys.join(', ')}`);
+    }
+
+    const invalidValues = Object.entries(weights)
+      .filter(([, value]) => typeof value !== 'number' || !Number.isFinite(value) || value < 0)
+      .map(([key]) => key);
+    if (invalidValues.length > 0) {
+      throw new Error(`Invalid weight values: ${invalidValues.join(', ')} must be non-negative numbers`);
+    }
+
+    if (requireAll && REQUIRED_WEIGHT_KEYS.some(key => weights[key] === undefined)) {
+      throw new Error(`Invalid weights: ${REQUIRED_WEIGHT_KEYS.join(', ')} are required`);
+    }
+
+    if (requireAll && WEIGHT_KEYS.reduce((sum, key) => sum + (weights[key] || 0), 0) <= 0) {
+      throw new Error('Invalid weights: at least one weight must be positive');
+    }
+
+    return requireAll ? normalizeWeightConfig(weights as WeightConfig) : weights;
+  }
+
+  private validateScope(scope: WeightProfileScopeInput): WeightProfileScopeInput {
+    if (scope?.restaurantId && !scope.city && !scope.state) {
+      return { restaurantId: scope.restaurantId };
+    }
+
+    if (!scope?.restaurantId && scope?.city && scope?.state) {
+      return { city: scope.city, state: scope.state };
+    }
+
+    throw new Error('Invalid scope: provide either restaurantId or both city and state');
+  }
+
+  private formatProfile(profile: ProfileWithRelations, active?: ActiveWeights): WeightProfileResponse {
+    return {
+      id: profile.id,
+      name: profile.name,
+      description: profile.description,
+      activeVersion: profile.activeVersion,
+      activeWeights: active?.weights || null,
+      scopes: profile.scopes.map(scope => ({
+        id: scope.id,
+        ...(scope.restaurantId
+          ? { restaurantId: scope.restaurantId }
+          : { city: scope.city || undefined, state: scope.state || undefined })
+      })),
+      createdAt: profile.createdAt,
+      updatedAt: profile.updatedAt
+    };
+  }
+}
@@ -0,0 +1,250 @@
+import { PrismaClient, AssignmentStatus } from '@prisma/client';
+import { WeightedScoringAlgorithm } from './weighted-scoring.algorithm';
+import { WeightProfilesService, DEFAULT_WEIGHT_PROFILE } from './weight-profiles.service';
+import { labelAssignmentOutcome, trainWeightConfig, ON_TIME_GRACE_MINUTES } from './weight-training';
+import {
+  DriverCandidate,
+  RestaurantRequest,
+  WeightTrainingRequest,
+  WeightTrainingResult,
+  WeightTrainingSample
+} from './algorithms.types';
+
+// Labeled assignments required before weights are fitted
+const MIN_TRAINING_SAMPLES = 20;
+const DEFAULT_TRAINING_WINDOW_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Weight Training Service
+ *
+ * Rebuilds the weighted-scoring breakdown of past assignments as of the day they
+ * were made, labels each by its outcome and fits new weights. The result is
+ * stored as an inactive candidate version of a weight profile so a dispatcher
+ * can review the reported accuracy before activating it.
+ */
+export class WeightTrainingService {
+  private scorer: WeightedScoringAlgorithm;
+  private weightProfilesService: WeightProfilesService;
+
+  constructor(private prisma: PrismaClient) {
+    this.scorer = new WeightedScoringAlgorithm(prisma);
+    this.weightProfilesService = new WeightProfilesService(prisma);
+  }
+
+  /**
+   * Train weights from assignments in the date window and save them as a candidate
+   */
+  async trainWeights(request: WeightTrainingRequest, authorId: number): Promise<WeightTrainingResult> {
+    const endDate = request.endDate ? new Date(request.endDate) : new Date(new Date().toISOString().split('T')[0]);
+    const startDate = request.startDate
+      ? new Date(request.startDate)
+      : new Date(endDate.getTime() - DEFAULT_TRAINING_WINDOW_DAYS * DAY_MS);
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || startDate > endDate) {
+      throw new Error('Invalid training window');
+    }
+
+    const { samples, skipped } = await this.buildSamples(startDate, endDate);
+
+    if (samples.length < MIN_TRAINING_SAMPLES) {
+      throw new Error(
+        `Insufficient training data: found ${samples.length} labeled assignments, need at least ${MIN_TRAINING_SAMPLES}`
+      );
+    }
+
+    const model = trainWeightConfig(samples, request);
+    const profileName = request.profileName || DEFAULT_WEIGHT_PROFILE;
+    const positiveRate = samples.filter(s => s.label === 1).length / samples.length;
+
+    const candidateVersion = await this.weightProfilesService.saveCandidateVersion(
+      profileName,
+      model.weights,
+      authorId,
+      request.note || `Trained on assignments from ${this.formatDate(startDate)} to ${this.formatDate(endDate)}`,
+      {
+        source: 'training',
+        startDate: this.formatDate(startDate),
+        endDate: this.formatDate(endDate),
+        sampleCount: samples.length,
+        positiveRate,
+        trainAccuracy: model.trainAccuracy,
+        holdoutAccuracy: model.holdoutAccuracy,
+        baselineAccuracy: model.baselineAccuracy,
+        coefficients: model.coefficients,
+        bias: model.bias
+      }
+    );
+
+    return {
+      ...model,
+      profileName,
+      candidateVersion,
+      sampleCount: samples.length,
+      positiveRate,
+      skippedAssignments: skipped
+    };
+  }
+
+  /**
+   * Label finished assignments and rebuild their score breakdowns.
+   * Driver history is limited to days before each assignment so the outcome
+   * being predicted never leaks into its own features.
+   */
+  private async buildSamples(
+    startDate: Date,
+    endDate: Date
+  ): Promise<{ samples: WeightTrainingSample[]; skipped: number }> {
+    const assignments = await this.prisma.restaurantAssignment.findMany({
+      where: {
+        assignmentDate: { gte: startDate, lte: endDate },
+        status: { in: [AssignmentStatus.COMPLETED, AssignmentStatus.CANCELLED] },
+        // A preempted assignment was cancelled by the dispatcher, not through the driver's doing
+        preemptedAt: null
+      },
+      include: {
+        deliveries: {
+          select: { deliveredAt: true }
+        },
+        deliveryRoutes: {
+          where: { isActive: true },
+          select: { estimatedDurationMinutes: true }
+        },
+        driver: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            serviceAreas: {
+              where: { isActive: true },
+              select: { areaName: true, city: true, state: true, latitude: true, longitude: true, radiusKm: true }
+            }
+          }
+        }
+      }
+    });
+
+    const lookbackDays = this.scorer.getConfig().lookbackDays || 7;
+    const driverIds = Array.from(new Set(assignments.map(a => a.driverId)));
+    const history = await this.prisma.restaurantAssignment.findMany({
+      where: {
+        driverId: { in: driverIds },
+        assignmentDate: { gte: new Date(startDate.getTime() - lookbackDays * DAY_MS), lte: endDate }
+      },
+      select: {
+        id: true,
+        driverId: true,
+        assignmentDate: true,
+        status: true,
+        estimatedDeliveries: true,
+        actualDeliveries: true,
+        createdAt: true
+      }
+    });
+
+    const samples: WeightTrainingSample[] = [];
+    let skipped = 0;
+
+    for (const assignment of assignments) {
+      const label = labelAssignmentOutcome({
+        status: assignment.status,
+        estimatedDeliveries: assignment.estimatedDeliveries,
+        actualDeliveries: assignment.actualDeliveries,
+        onTime: this.wasOnTime(assignment)
+      });
+
+      // Scores cannot be rebuilt without knowing where the restaurant was
+      if (label === null || !assignment.restaurantCity || !assignment.restaurantState) {
+        skipped++;
+        continue;
+      }
+
+      const day = assignment.assignmentDate.getTime();
+      const driverHistory = history.filter(h => h.driverId === assignment.driverId);
+      const previous = driverHistory.filter(h =>
+        h.assignmentDate.getTime() < day && h.assignmentDate.getTime() >= day - lookbackDays * DAY_MS
+      );
+      const completed = previous.filter(h => h.status === AssignmentStatus.COMPLETED).length;
+
+      const driver: DriverCandidate = {
+        id: assignment.driver.id,
+        name: assignment.driver.name,
+        email: assignment.driver.email,
+        serviceAreas: assignment.driver.serviceAreas.map(area => ({
+          ...area,
+          latitude: parseFloat(area.latitude.toString()),
+          longitude: parseFloat(area.longitude.toString())
+        })),
+        // Assignments the driver already held that day when this one was made
+        currentAssignments: driverHistory.filter(h =>
+          h.id !== assignment.id &&
+          h.assignmentDate.getTime() === day &&
+          h.createdAt < assignment.createdAt
+        ).length,
+        recentDeliveries: previous.length > 0
+          ? previous.reduce((sum, h) => sum + (h.actualDeliveries || h.estimatedDeliveries), 0) / previous.length
+          : 0,
+        completionRate: previous.length > 0 ? (completed / previous.length) * 100 : 100
+      };
+
+      const restaurant: RestaurantRequest = {
+        restaurantId: assignment.restaurantId,
+        city: assignment.restaurantCity,
+        state: assignment.restaurantState,
+        latitude: assignment.restaurantLatitude !== null ? parseFloat(assignment.restaurantLatitude.toString()) : undefined,
+        longitude: assignment.restaurantLongitude !== null ? parseFloat(assignment.restaurantLongitude.toString()) : undefined,
+        estimatedDeliveries: assignment.estimatedDeliveries,
+        pickupTime: this.formatTime(assignment.pickupTime),
+        paymentRate: parseFloat(assignment.paymentRate.toString())
+      };
+
+      const breakdown = this.scorer.calculateScoreBreakdown(driver, restaurant);
+
+      samples.push({
+        features: [
+          breakdown.locationScore / 100,
+          breakdown.proximityScore / 100,
+          breakdown.performanceScore / 100,
+          breakdown.workloadScore / 100
+        ],
+        label
+      });
+    }
+
+    return { samples, skipped };
+  }
+
+  /**
+   * Whether every delivery was made by the planned route end (pickup + route duration).
+   * Null when there is no active route or no delivery timestamps to compare.
+   */
+  private wasOnTime(assignment: {
+    assignmentDate: Date;
+    pickupTime: Date;
+    deliveries: Array<{ deliveredAt: Date | null }>;
+    deliveryRoutes: Array<{ estimatedDurationMinutes: number }>;
+  }): boolean | null {
+    const route = assignment.deliveryRoutes[0];
+    const deliveredTimes = assignment.deliveries
+      .map(d => d.deliveredAt)
+      .filter((deliveredAt): deliveredAt is Date => deliveredAt !== null);
+
+    if (!route || deliveredTimes.length === 0) {
+      return null;
+    }
+
+    const deadline = assignment.assignmentDate.getTime() +
+      (assignment.pickupTime.getUTCHours() * 60 + assignment.pickupTime.getUTCMinutes()) * 60 * 1000 +
+      (route.estimatedDurationMinutes + ON_TIME_GRACE_MINUTES) * 60 * 1000;
+
+    return deliveredTimes.every(deliveredAt => deliveredAt.getTime() <= deadline);
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private formatTime(time: Date): string {
+    return time.toISOString().split('T')[1].substring(0, 5);
+  }
+}
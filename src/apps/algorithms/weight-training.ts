@@ -0,0 +1,125 @@
+import { createSeededRandom, shuffle } from '../../utils/random';
+import { normalizeWeightConfig } from './weighted-scoring.algorithm';
+import {
+  WeightConfig,
+  WeightTrainingModel,
+  WeightTrainingOptions,
+  WeightTrainingSample
+} from './algorithms.types';
+
+// An assignment counts as a good outcome only if at least this share of deliveries was made
+export const MIN_DELIVERED_RATIO = 0.9;
+// Deliveries made within this many minutes of the planned route end still count as on time
+export const ON_TIME_GRACE_MINUTES = 15;
+
+const WEIGHT_ORDER: Array<keyof WeightConfig> = ['locationWeight', 'proximityWeight', 'performanceWeight', 'workloadWeight'];
+
+/**
+ * Label a finished assignment: 1 if it was completed, (nearly) fully delivered and on time,
+ * 0 if it was cancelled or fell short. Returns null for assignments that have not finished.
+ * An unknown on-time status (no route or delivery timestamps) does not count against it.
+ */
+export function labelAssignmentOutcome(outcome: {
+  status: string;
+  estimatedDeliveries: number;
+  actualDeliveries: number | null;
+  onTime: boolean | null;
+}): 0 | 1 | null {
+  if (outcome.status === 'CANCELLED') {
+    return 0;
+  }
+
+  if (outcome.status !== 'COMPLETED') {
+    return null;
+  }
+
+  const deliveredRatio = outcome.estimatedDeliveries > 0
+    ? (outcome.actualDeliveries ?? outcome.estimatedDeliveries) / outcome.estimatedDeliveries
+    : 1;
+
+  return deliveredRatio >= MIN_DELIVERED_RATIO && outcome.onTime !== false ? 1 : 0;
+}
+
+/**
+ * Fit WeightConfig to labeled outcomes with L2-regularized logistic regression.
+ *
+ * The four component scores are the features. Coefficients that predict a good
+ * outcome become the new weights; negative coefficients are clamped to 0 because
+ * a weighted sum cannot penalize a component. The result is normalized to sum to 1.
+ */
+export function trainWeightConfig(
+  samples: WeightTrainingSample[],
+  options: WeightTrainingOptions = {}
+): WeightTrainingModel {
+  const {
+    holdoutFraction = 0.2,
+    seed = 42,
+    epochs = 2000,
+    learningRate = 0.5,
+    l2 = 0.001
+  } = options;
+
+  if (samples.length < 2) {
+    throw new Error('Insufficient training data: at least 2 labeled assignments are required');
+  }
+
+  const shuffled = shuffle(samples, createSeededRandom(seed));
+  const holdoutCount = Math.min(samples.length - 1, Math.round(samples.length * holdoutFraction));
+  const holdout = shuffled.slice(0, holdoutCount);
+  const train = shuffled.slice(holdoutCount);
+
+  const coefficients = [0, 0, 0, 0];
+  let bias = 0;
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const gradient = [0, 0, 0, 0];
+    let biasGradient = 0;
+
+    for (const sample of train) {
+      const error = predict(sample.features, coefficients, bias) - sample.label;
+      sample.features.forEach((value, i) => { gradient[i] += error * value; });
+      biasGradient += error;
+    }
+
+    coefficients.forEach((coefficient, i) => {
+      coefficients[i] -= learningRate * (gradient[i] / train.length + l2 * coefficient);
+    });
+    bias -= learningRate * (biasGradient / train.length);
+  }
+
+  const positive = coefficients.map(c => Math.max(0, c));
+  if (positive.every(c => c === 0)) {
+    throw new Error('Training found no score component that predicts a good outcome');
+  }
+
+  const toWeightConfig = (values: number[]): WeightConfig =>
+    WEIGHT_ORDER.reduce((config, key, i) => ({ ...config, [key]: values[i] }), {} as WeightConfig);
+
+  const majorityLabel = train.filter(s => s.label === 1).length * 2 >= train.length ? 1 : 0;
+
+  return {
+    weights: normalizeWeightConfig(toWeightConfig(positive)),
+    coefficients: toWeightConfig(coefficients),
+    bias,
+    trainAccuracy: accuracy(train, coefficients, bias),
+    holdoutAccuracy: holdout.length > 0 ? accuracy(holdout, coefficients, bias) : null,
+    baselineAccuracy: holdout.length > 0
+      ? holdout.filter(s => s.label === majorityLabel).length / holdout.length
+      : null,
+    trainCount: train.length,
+    holdoutCount: holdout.length
+  };
+}
+
+function predict(features: number[], coefficients: number[], bias: number): number {
+  const z = features.reduce((sum, value, i) => sum + value * coefficients[i], bias);
+  return 1 / (1 + Math.exp(-z));
+}
+
+function accuracy(samples: WeightTrainingSample[], coefficients: number[], bias: number): number {
+  const correct = samples.filter(sample =>
+    (predict(sample.features, coefficients, bias) >= 0.5 ? 1 : 0) === sample.label
+  ).length;
+
+  return correct / samples.length;
+}
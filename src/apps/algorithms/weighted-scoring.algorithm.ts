@@ -1,5 +1,34 @@
 import { BaseAssignmentAlgorithm } from './algorithms.base';
-import { DriverCandidate, RestaurantRequest, WeightConfig, DriverScore } from './algorithms.types';
+import { hasCoordinates, matchServiceArea } from './algorithms.geo';
+import { scoreVehicleFit } from './algorithms.vehicles';
+import { roundBreakdown } from './algorithms.explanations';
+import { CandidateScore, DriverCandidate, RestaurantRequest, WeightConfig, DriverScore } from './algorithms.types';
+
+/**
+ * Scale weights so they sum to 1.0 for proper perceptron behavior.
+ * vehicleWeight and affinityWeight are optional and stay omitted when not given.
+ */
+export function normalizeWeightConfig(weights: WeightConfig): WeightConfig {
+  const sum = weights.locationWeight +
+              weights.proximityWeight +
+              weights.performanceWeight +
+              weights.workloadWeight +
+              (weights.vehicleWeight ?? 0) +
+              (weights.affinityWeight ?? 0);
+
+  if (sum === 1.0 || sum <= 0) {
+    return { ...weights };
+  }
+
+  return {
+    locationWeight: weights.locationWeight / sum,
+    proximityWeight: weights.proximityWeight / sum,
+    performanceWeight: weights.performanceWeight / sum,
+    workloadWeight: weights.workloadWeight / sum,
+    ...(weights.vehicleWeight !== undefined && { vehicleWeight: weights.vehicleWeight / sum }),
+    ...(weights.affinityWeight !== undefined && { affinityWeight: weights.affinityWeight / sum })
+  };
+}
 
 /**
  * Weighted Scoring Assignment Algorithm (Perceptron-inspired)
@@ -10,6 +39,8 @@ import { DriverCandidate, RestaurantRequest, WeightConfig, DriverScore } from '.
  * - Geographic proximity (medium weight): How close is the driver to the restaurant?
  * - Performance record (low weight): Driver's past delivery performance
  * - Workload balance (configurable weight): Current assignment load
+ * - Vehicle fit (low weight): Does a verified vehicle meet the restaurant's needs?
+ * - Restaurant affinity (opt-in weight): Has the driver recently completed pickups here?
  * 
  * The algorithm is efficient as it doesn't need to load all drivers at once,
  * and uses database indexes for quick filtering.
@@ -22,10 +53,11 @@ export class WeightedScoringAlgorithm extends BaseAssignmentAlgorithm {
     
     // Default weights based on perceptron principles
     this.weights = {
-      locationWeight: 0.4,      // High weight (40%) - location is critical
-      proximityWeight: 0.3,     // Medium weight (30%) - proximity matters
+      locationWeight: 0.35,     // High weight (35%) - location is critical
+      proximityWeight: 0.25,    // Medium weight (25%) - proximity matters
       performanceWeight: 0.15,  // Low weight (15%) - past performance
       workloadWeight: 0.15,     // Low weight (15%) - workload balance
+      vehicleWeight: 0.1,       // Low weight (10%) - vehicle fit
       ...weights
     };
 
@@ -41,20 +73,24 @@ export class WeightedScoringAlgorithm extends BaseAssignmentAlgorithm {
     availableDrivers: DriverCandidate[],
     request: RestaurantRequest,
     assignmentDate: string
-  ): Promise<{ driver: DriverCandidate; score?: number } | null> {
+  ): Promise<{ driver: DriverCandidate; score?: number; candidates?: CandidateScore[] } | null> {
     if (availableDrivers.length === 0) {
       return null;
     }
 
     // Efficiently pre-filter drivers for location match to optimize performance
     const locationFilteredDrivers = this.preFilterByLocation(availableDrivers, request);
-    const driversToScore = locationFilteredDrivers.length > 0 ? locationFilteredDrivers : availableDrivers;
+    const driversToScore = await this.withAffinityIfWeighted(
+      locationFilteredDrivers.length > 0 ? locationFilteredDrivers : availableDrivers,
+      request,
+      assignmentDate
+    );
 
     // Score all candidate drivers using the perceptron-inspired scoring
     const scoredDrivers = await Promise.all(
       driversToScore.map(async (driver) => {
         const score = await this.calculateWeightedScore(driver, request, assignmentDate);
-        return { driver, score: score.totalScore, breakdown: score.breakdown };
+        return { driver, score: score.totalScore, breakdown: this.weightedBreakdown(score, request) };
       })
     );
 
@@ -65,62 +101,102 @@ export class WeightedScoringAlgorithm extends BaseAssignmentAlgorithm {
 
     return {
       driver: selectedEntry.driver,
-      score: selectedEntry.score
+      score: selectedEntry.score,
+      candidates: scoredDrivers
     };
   }
 
+  /**
+   * Points each factor added to the total: its 0-100 score times its weight
+   */
+  protected weightedBreakdown(score: DriverScore, request: RestaurantRequest): Record<string, number> {
+    const weights = this.getWeightsFor(request);
+    const { locationScore, proximityScore, performanceScore, workloadScore, vehicleScore, affinityScore } = score.breakdown;
+
+    return roundBreakdown({
+      locationScore: locationScore * weights.locationWeight,
+      proximityScore: proximityScore * weights.proximityWeight,
+      performanceScore: performanceScore * weights.performanceWeight,
+      workloadScore: workloadScore * weights.workloadWeight,
+      vehicleScore: vehicleScore * (weights.vehicleWeight ?? 0),
+      affinityScore: affinityScore * (weights.affinityWeight ?? 0)
+    });
+  }
+
   /**
    * Calculate weighted score for a driver using perceptron-inspired approach
    */
-  private async calculateWeightedScore(
+  protected async calculateWeightedScore(
     driver: DriverCandidate,
     request: RestaurantRequest,
     assignmentDate: string
   ): Promise<DriverScore> {
-    // Calculate individual component scores (0-100 scale)
-    const locationScore = this.calculateLocationScore(driver, request);
-    const proximityScore = this.calculateProximityScore(driver, request);
-    const performanceScore = this.calculatePerformanceScore(driver);
-    const workloadScore = this.calculateWorkloadScore(driver);
+    const breakdown = this.calculateScoreBreakdown(driver, request);
+    const { locationScore, proximityScore, performanceScore, workloadScore, vehicleScore, affinityScore } = breakdown;
 
     // Apply weights (perceptron-like weighted sum)
+    const weights = this.getWeightsFor(request);
     const totalScore = 
-      (locationScore * this.weights.locationWeight) +
-      (proximityScore * this.weights.proximityWeight) +
-      (performanceScore * this.weights.performanceWeight) +
-      (workloadScore * this.weights.workloadWeight);
+      (locationScore * weights.locationWeight) +
+      (proximityScore * weights.proximityWeight) +
+      (performanceScore * weights.performanceWeight) +
+      (workloadScore * weights.workloadWeight) +
+      (vehicleScore * (weights.vehicleWeight ?? 0)) +
+      (affinityScore * (weights.affinityWeight ?? 0)) +
+      (driver.constraintAdjustment || 0); // Soft constraint rules, unweighted
 
     return {
       driverId: driver.id,
       totalScore: Math.round(totalScore * 100) / 100,
-      breakdown: {
-        locationScore,
-        proximityScore,
-        performanceScore,
-        workloadScore
-      }
+      breakdown,
+      ...(driver.constraintAdjustment && { constraintAdjustment: driver.constraintAdjustment }),
+      serviceArea: matchServiceArea(driver.serviceAreas, request) || undefined
+    };
+  }
+
+  /**
+   * Calculate the individual component scores (0-100 scale) before weighting.
+   * Also used to rebuild breakdowns for past assignments when training weights.
+   */
+  calculateScoreBreakdown(driver: DriverCandidate, request: RestaurantRequest): DriverScore['breakdown'] {
+    return {
+      locationScore: this.calculateLocationScore(driver, request),
+      proximityScore: this.calculateProximityScore(driver, request),
+      performanceScore: this.calculatePerformanceScore(driver),
+      workloadScore: this.calculateWorkloadScore(driver, request),
+      vehicleScore: scoreVehicleFit(driver, request),
+      affinityScore: driver.affinityScore ?? 0
     };
   }
 
+  /**
+   * Load restaurant affinity when the restaurant's weights give it any weight
+   */
+  protected async withAffinityIfWeighted(
+    drivers: DriverCandidate[],
+    request: RestaurantRequest,
+    assignmentDate: string
+  ): Promise<DriverCandidate[]> {
+    return (this.getWeightsFor(request).affinityWeight ?? 0) > 0
+      ? this.attachAffinityScores(drivers, request, assignmentDate)
+      : drivers;
+  }
+
   /**
    * Location Score (High Weight)
-   * Scores based on exact area match and service radius coverage
+   * Scores based on service area coverage (radius, or city/state without coordinates)
    */
   private calculateLocationScore(driver: DriverCandidate, request: RestaurantRequest): number {
-    // Find matching service areas
-    const matchingAreas = driver.serviceAreas.filter(area =>
-      area.city.toLowerCase() === request.city.toLowerCase() &&
-      area.state.toLowerCase() === request.state.toLowerCase()
-    );
+    const match = matchServiceArea(driver.serviceAreas, request);
 
-    if (matchingAreas.length === 0) {
-      return 0; // No location match = 0 score
+    if (!match) {
+      return 0; // No covering service area = 0 score
     }
 
     let score = 80; // Base score for location match
 
     // Bonus for smaller service radius (more focused/local driver)
-    const minRadius = Math.min(...matchingAreas.map(area => area.radiusKm));
+    const minRadius = match.radiusKm;
     if (minRadius <= 10) {
       score += 20; // Very local driver
     } else if (minRadius <= 20) {
@@ -139,7 +215,7 @@ export class WeightedScoringAlgorithm extends BaseAssignmentAlgorithm {
    * Scores based on geographic distance using Haversine formula
    */
   private calculateProximityScore(driver: DriverCandidate, request: RestaurantRequest): number {
-    if (!request.latitude || !request.longitude) {
+    if (!hasCoordinates(request)) {
       // If no restaurant coordinates, use a moderate score
       return 50;
     }
@@ -175,17 +251,25 @@ export class WeightedScoringAlgorithm extends BaseAssignmentAlgorithm {
 
   /**
    * Performance Score (Low Weight)
-   * Scores based on past delivery performance and completion rate
+   * Scores based on past delivery performance, completion rate and, once a
+   * driver has enough of them, customer and restaurant ratings
    */
   private calculatePerformanceScore(driver: DriverCandidate): number {
     let score = 0;
-
-    // Completion rate score (0-100)
-    score += driver.completionRate * 0.6; // 60% of performance score
+    const ratingScore = this.ratingScore(driver);
 
     // Experience score based on recent deliveries (0-40 points)
     const experienceScore = this.calculateExperienceScore(driver.recentDeliveries);
-    score += experienceScore * 0.4; // 40% of performance score
+
+    if (ratingScore !== undefined) {
+      score += driver.completionRate * 0.4; // 40% of performance score
+      score += ratingScore * 0.3;           // 30% of performance score
+      score += experienceScore * 0.3;       // 30% of performance score
+    } else {
+      // Completion rate score (0-100)
+      score += driver.completionRate * 0.6; // 60% of performance score
+      score += experienceScore * 0.4;       // 40% of performance score
+    }
 
     return Math.min(100, Math.max(0, score));
   }
@@ -194,7 +278,7 @@ export class WeightedScoringAlgorithm extends BaseAssignmentAlgorithm {
    * Workload Score (Low Weight)
    * Scores based on current assignment load for fair distribution
    */
-  private calculateWorkloadScore(driver: DriverCandidate): number {
+  private calculateWorkloadScore(driver: DriverCandidate, request: RestaurantRequest): number {
     const maxReasonableAssignments = 5; // Daily limit
     
     if (driver.currentAssignments >= maxReasonableAssignments) {
@@ -203,6 +287,13 @@ export class WeightedScoringAlgorithm extends BaseAssignmentAlgorithm {
 
     // Higher score for drivers with fewer current assignments
     const score = ((maxReasonableAssignments - driver.currentAssignments) / maxReasonableAssignments) * 100;
+
+    // Blend in the share of daily delivery capacity left after this assignment
+    if (driver.remainingCapacity !== undefined && driver.deliveryCapacity) {
+      const capacityLeft = Math.max(0, driver.remainingCapacity - request.estimatedDeliveries) / driver.deliveryCapacity;
+      return Math.round((score + capacityLeft * 100) / 2);
+    }
+
     return Math.round(score);
   }
 
@@ -223,30 +314,24 @@ export class WeightedScoringAlgorithm extends BaseAssignmentAlgorithm {
    * Pre-filter drivers by location for efficiency
    * This avoids loading unnecessary data for drivers who don't serve the area
    */
-  private preFilterByLocation(drivers: DriverCandidate[], request: RestaurantRequest): DriverCandidate[] {
-    return drivers.filter(driver =>
-      driver.serviceAreas.some(area =>
-        area.city.toLowerCase() === request.city.toLowerCase() &&
-        area.state.toLowerCase() === request.state.toLowerCase()
-      )
-    );
+  protected preFilterByLocation(drivers: DriverCandidate[], request: RestaurantRequest): DriverCandidate[] {
+    return drivers.filter(driver => matchServiceArea(driver.serviceAreas, request) !== null);
   }
 
   /**
    * Normalize weights to ensure they sum to 1.0 for proper perceptron behavior
    */
   private normalizeWeights(): void {
-    const sum = this.weights.locationWeight + 
-                this.weights.proximityWeight + 
-                this.weights.performanceWeight + 
-                this.weights.workloadWeight;
-
-    if (sum !== 1.0) {
-      this.weights.locationWeight /= sum;
-      this.weights.proximityWeight /= sum;
-      this.weights.performanceWeight /= sum;
-      this.weights.workloadWeight /= sum;
-    }
+    this.weights = normalizeWeightConfig(this.weights);
+  }
+
+  /**
+   * Weights for one restaurant: its resolved weight profile if any, else the instance weights
+   */
+  protected getWeightsFor(request: RestaurantRequest): WeightConfig {
+    return request.weightConfig
+      ? normalizeWeightConfig({ ...this.weights, ...request.weightConfig })
+      : this.weights;
   }
 
   /**
@@ -259,7 +344,10 @@ export class WeightedScoringAlgorithm extends BaseAssignmentAlgorithm {
   ): Promise<DriverScore[]> {
     // Get available drivers (filtered by IDs if provided)
     const allDrivers = await this.getAvailableDriversWithMetrics(assignmentDate, request);
-    const targetDrivers = driverIds ? allDrivers.filter(d => driverIds.includes(d.id)) : allDrivers;
+    const filteredDrivers = driverIds ? allDrivers.filter(d => driverIds.includes(d.id)) : allDrivers;
+
+    // Always show affinity in the breakdown, even when it has no weight
+    const targetDrivers = await this.attachAffinityScores(filteredDrivers, request, assignmentDate);
 
     // Calculate scores for all target drivers
     const scores = await Promise.all(
@@ -1,5 +1,14 @@
 import { BaseAssignmentAlgorithm } from './algorithms.base';
-import { DriverCandidate, RestaurantRequest } from './algorithms.types';
+import { matchServiceArea } from './algorithms.geo';
+import { roundBreakdown } from './algorithms.explanations';
+import { CandidateScore, DriverCandidate, RestaurantRequest } from './algorithms.types';
+
+// The parts of a driver's recent workload that the score uses, whether loaded
+// with the candidates or looked up for the workload analysis
+type WorkloadData = Pick<
+  Awaited<ReturnType<WorkloadBalancingAlgorithm['getDetailedWorkload']>>,
+  'totalAssignments' | 'averageDeliveries'
+>;
 
 /**
  * Workload Balancing Assignment Algorithm
@@ -17,26 +26,17 @@ export class WorkloadBalancingAlgorithm extends BaseAssignmentAlgorithm {
     availableDrivers: DriverCandidate[],
     request: RestaurantRequest,
     assignmentDate: string
-  ): Promise<{ driver: DriverCandidate; score?: number } | null> {
+  ): Promise<{ driver: DriverCandidate; score?: number; candidates?: CandidateScore[] } | null> {
     if (availableDrivers.length === 0) {
       return null;
     }
 
-    // Get detailed workload information for each driver
-    const driversWithWorkload = await Promise.all(
-      availableDrivers.map(async (driver) => {
-        const workloadData = await this.getDetailedWorkload(driver.id, assignmentDate);
-        return {
-          driver,
-          workloadData
-        };
-      })
-    );
-
-    // Score drivers based on workload balancing criteria
-    const scoredDrivers = driversWithWorkload.map(({ driver, workloadData }) => {
-      const score = this.calculateWorkloadScore(driver, workloadData, request);
-      return { driver, score };
+    // Score drivers based on workload balancing criteria, using the recent
+    // workload loaded with the candidates
+    const scoredDrivers = availableDrivers.map(driver => {
+      const workloadData = { totalAssignments: driver.recentAssignments || 0, averageDeliveries: driver.recentDeliveries };
+      const breakdown = this.calculateWorkloadBreakdown(driver, workloadData, request);
+      return { driver, score: this.sumBreakdown(breakdown, driver), breakdown: roundBreakdown(breakdown) };
     });
 
     // Select driver with highest workload balancing score
@@ -44,7 +44,7 @@ export class WorkloadBalancingAlgorithm extends BaseAssignmentAlgorithm {
       prev.score > current.score ? prev : current
     );
 
-    return selectedEntry;
+    return { ...selectedEntry, candidates: scoredDrivers };
   }
 
   private async getDetailedWorkload(driverId: number, assignmentDate: string) {
@@ -61,34 +61,52 @@ export class WorkloadBalancingAlgorithm extends BaseAssignmentAlgorithm {
 
   private calculateWorkloadScore(
     driver: DriverCandidate,
-    workloadData: any,
+    workloadData: WorkloadData,
     request: RestaurantRequest
   ): number {
-    let score = 0;
+    return this.sumBreakdown(this.calculateWorkloadBreakdown(driver, workloadData, request), driver);
+  }
 
+  /**
+   * Points for each workload balancing factor
+   */
+  private calculateWorkloadBreakdown(
+    driver: DriverCandidate,
+    workloadData: WorkloadData,
+    request: RestaurantRequest
+  ): Record<string, number> {
     // Base workload balancing score (higher score for lower workload)
     const maxRecentAssignments = 20; // Reasonable maximum for the lookback period
     const recentAssignmentScore = ((maxRecentAssignments - workloadData.totalAssignments) / maxRecentAssignments) * 40;
-    score += Math.max(0, recentAssignmentScore);
 
     // Current assignment balancing (prefer drivers with fewer current assignments)
     const maxCurrentAssignments = 5; // Max daily assignments
     const currentAssignmentScore = ((maxCurrentAssignments - driver.currentAssignments) / maxCurrentAssignments) * 30;
-    score += Math.max(0, currentAssignmentScore);
 
-    // Performance consistency bonus (prefer drivers with good completion rates)
-    const performanceScore = (driver.completionRate / 100) * 15;
-    score += performanceScore;
+    return {
+      recentAssignmentScore: Math.max(0, recentAssignmentScore),
+      currentAssignmentScore: Math.max(0, currentAssignmentScore),
+      // Performance consistency bonus (prefer drivers with good completion rates and ratings)
+      performanceScore: this.calculatePerformanceBonus(driver),
+      // Experience factor (prefer drivers with some experience but not overloaded)
+      experienceScore: this.calculateExperienceScore(workloadData.averageDeliveries),
+      // Geographic preference (bonus for local drivers)
+      geographicScore: this.calculateGeographicBonus(driver, request)
+    };
+  }
 
-    // Experience factor (prefer drivers with some experience but not overloaded)
-    const experienceScore = this.calculateExperienceScore(workloadData.averageDeliveries);
-    score += experienceScore;
 
-    // Geographic preference (bonus for local drivers)
-    const geographicScore = this.calculateGeographicBonus(driver, request);
-    score += geographicScore;
+  /**
+   * Up to 15 points for completion rate, shared with the average rating
+   * when the driver has enough ratings
+   */
+  private calculatePerformanceBonus(driver: DriverCandidate): number {
+    const ratingScore = this.ratingScore(driver);
+    const performance = ratingScore !== undefined
+      ? (driver.completionRate * 0.6 + ratingScore * 0.4) / 100
+      : driver.completionRate / 100;
 
-    return Math.round(score * 100) / 100; // Round to 2 decimal places
+    return performance * 15;
   }
 
   private calculateExperienceScore(averageDeliveries: number): number {
@@ -106,19 +124,11 @@ export class WorkloadBalancingAlgorithm extends BaseAssignmentAlgorithm {
 
   private calculateGeographicBonus(driver: DriverCandidate, request: RestaurantRequest): number {
     // Small bonus for drivers who serve the restaurant's area
-    const hasAreaMatch = driver.serviceAreas.some(area =>
-      area.city.toLowerCase() === request.city.toLowerCase() &&
-      area.state.toLowerCase() === request.state.toLowerCase()
-    );
+    const match = matchServiceArea(driver.serviceAreas, request);
 
-    if (hasAreaMatch) {
+    if (match) {
       // Additional bonus for smaller service areas (more focused drivers)
-      const relevantAreas = driver.serviceAreas.filter(area =>
-        area.city.toLowerCase() === request.city.toLowerCase() &&
-        area.state.toLowerCase() === request.state.toLowerCase()
-      );
-      
-      const minRadius = Math.min(...relevantAreas.map(area => area.radiusKm));
+      const minRadius = match.radiusKm;
       const radiusBonus = Math.max(0, 5 - (minRadius / 10)); // Up to 5 points for very local
       
       return 5 + radiusBonus; // Base 5 points + radius bonus
@@ -141,6 +151,9 @@ export class WorkloadBalancingAlgorithm extends BaseAssignmentAlgorithm {
     completionRate: number;
     averageDeliveries: number;
     workloadScore: number;
+    deliveryCapacity: number;
+    scheduledDeliveries: number;
+    remainingCapacity: number;
   }>> {
     const drivers = await this.assignmentUtils.getAvailableDrivers(assignmentDate);
     const targetDrivers = driverIds ? drivers.filter(d => driverIds.includes(d.id)) : drivers;
@@ -172,7 +185,10 @@ export class WorkloadBalancingAlgorithm extends BaseAssignmentAlgorithm {
           recentWorkload: workload.totalAssignments,
           completionRate: metrics.completionRate,
           averageDeliveries: workload.averageDeliveries,
-          workloadScore
+          workloadScore,
+          deliveryCapacity: driver.deliveryCapacity,
+          scheduledDeliveries: driver.scheduledDeliveries,
+          remainingCapacity: driver.remainingCapacity
         };
       })
     );
@@ -198,4 +214,4 @@ export class WorkloadBalancingAlgorithm extends BaseAssignmentAlgorithm {
         : 100
     };
   }
-} 
\ No newline at end of file
+}
@@ -111,6 +111,28 @@ export class AssignmentsController {
     }
   };
 
+  // GET /api/assignments/:id/explanation - Ranked and rejected candidates behind the assignment
+  getAssignmentExplanation = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const explanation = await this.assignmentsService.getAssignmentExplanation(req.params.id);
+      res.json(explanation);
+    } catch (error) {
+      logger.error('Error fetching assignment explanation:', { error: error instanceof Error ? error.message : error });
+
+      if (error instanceof Error && (error.message === 'Assignment not found' || error.message === 'Explanation not found')) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({ error: 'Failed to fetch assignment explanation' });
+    }
+  };
+
   // PUT /api/assignments/:id/start - Start assignment
   startAssignment = async (req: AuthRequest, res: Response): Promise<void> => {
     try {
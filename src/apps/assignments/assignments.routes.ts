@@ -53,6 +53,12 @@ export function createAssignmentsRouter(prisma: PrismaClient) {
     assignmentsController.getAssignmentById
   );
 
+  // GET /api/assignments/:id/explanation - Why the algorithm chose this driver over the others
+  assignmentsRouter.get('/:id/explanation',
+    authMiddleware.authenticateToken,
+    assignmentsController.getAssignmentExplanation
+  );
+
   // PUT /api/assignments/:id/start - Start assignment
   assignmentsRouter.put('/:id/start',
     authMiddleware.authenticateToken,
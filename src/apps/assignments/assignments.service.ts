@@ -1,5 +1,5 @@
 import { PrismaClient, AssignmentStatus } from '@prisma/client';
-import { AssignmentUtils } from './assignments.utils';
+import { AssignmentUtils, formatEstimatedEndTime, toScheduledAssignment } from './assignments.utils';
 import { RoutingService } from '../routing/routing.service';
 import { DeliveriesService } from '../deliveries/deliveries.service';
 import {
@@ -15,6 +15,11 @@ import {
   AssignmentSummary,
   ValidationResult
 } from './assignments.types';
+import {
+  AssignmentExplanationResponse,
+  RankedCandidate,
+  RejectedCandidate
+} from '../algorithms/algorithms.types';
 
 export class AssignmentsService {
   private assignmentUtils: AssignmentUtils;
@@ -41,10 +46,16 @@ export class AssignmentsService {
         restaurantId: assignmentData.restaurantId,
         assignmentDate: new Date(assignmentData.assignmentDate),
         pickupTime: new Date(`1970-01-01T${assignmentData.pickupTime}:00.000Z`),
+        estimatedEndTime: toScheduledAssignment(assignmentData).estimatedEndTime,
         estimatedDeliveries: assignmentData.estimatedDeliveries,
+        restaurantCity: assignmentData.restaurantCity,
+        restaurantState: assignmentData.restaurantState,
+        restaurantLatitude: assignmentData.restaurantLatitude,
+        restaurantLongitude: assignmentData.restaurantLongitude,
         paymentType: assignmentData.paymentType || 'FIXED',
         paymentRate: assignmentData.paymentRate,
         algorithmScore: assignmentData.algorithmScore || 0,
+        priority: assignmentData.priority,
         notes: assignmentData.notes,
       },
       include: {
@@ -360,6 +371,39 @@ export class AssignmentsService {
     });
   }
 
+  // Get how the assignment algorithm chose this assignment's driver
+  async getAssignmentExplanation(assignmentId: string): Promise<AssignmentExplanationResponse> {
+    const assignment = await this.prisma.restaurantAssignment.findUnique({
+      where: { id: assignmentId },
+      select: {
+        id: true,
+        restaurantId: true,
+        driverId: true,
+        explanation: true,
+      },
+    });
+
+    if (!assignment) {
+      throw new Error('Assignment not found');
+    }
+
+    // Assignments created by hand, or before explanations were recorded, have none
+    if (!assignment.explanation) {
+      throw new Error('Explanation not found');
+    }
+
+    return {
+      assignmentId: assignment.id,
+      restaurantId: assignment.restaurantId,
+      driverId: assignment.driverId,
+      runId: assignment.explanation.runId,
+      algorithm: assignment.explanation.algorithm,
+      candidates: assignment.explanation.candidates as unknown as RankedCandidate[],
+      rejected: assignment.explanation.rejected as unknown as RejectedCandidate[],
+      createdAt: assignment.explanation.createdAt,
+    };
+  }
+
   // Get assignment summary for a driver
   async getAssignmentSummary(driverId: number): Promise<AssignmentSummary> {
     const today = new Date();
@@ -457,7 +501,14 @@ export class AssignmentsService {
     return this.assignmentUtils.isDriverAvailable(
       assignmentData.driverId,
       assignmentData.assignmentDate,
-      assignmentData.restaurantId
+      assignmentData.restaurantId,
+      {
+        pickupTime: assignmentData.pickupTime,
+        expectedDurationMinutes: assignmentData.expectedDurationMinutes,
+        estimatedDeliveries: assignmentData.estimatedDeliveries,
+        latitude: assignmentData.restaurantLatitude,
+        longitude: assignmentData.restaurantLongitude
+      }
     );
   }
 
@@ -470,12 +521,14 @@ export class AssignmentsService {
       restaurantId: assignment.restaurantId,
       assignmentDate: assignment.assignmentDate.toISOString().split('T')[0],
       pickupTime: assignment.pickupTime.toTimeString().slice(0, 5),
+      estimatedEndTime: formatEstimatedEndTime(assignment),
       estimatedDeliveries: assignment.estimatedDeliveries,
       actualDeliveries: assignment.actualDeliveries,
       status: assignment.status,
       paymentType: assignment.paymentType,
       paymentRate: parseFloat(assignment.paymentRate.toString()),
       algorithmScore: assignment.algorithmScore ? parseFloat(assignment.algorithmScore.toString()) : null,
+      priority: assignment.priority,
       notes: assignment.notes,
       createdAt: assignment.createdAt,
       updatedAt: assignment.updatedAt,
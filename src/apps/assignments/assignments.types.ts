@@ -1,4 +1,4 @@
-import { AssignmentStatus, PaymentType } from '@prisma/client';
+import { AssignmentStatus, PaymentType, VehicleType } from '@prisma/client';
 
 // DTO for creating a new restaurant assignment
 export interface CreateAssignmentDto {
@@ -11,6 +11,13 @@ export interface CreateAssignmentDto {
   paymentRate: number;
   algorithmScore?: number; // Score from assignment algorithm
   notes?: string;
+  batchId?: string; // Algorithm run that created the assignment
+  priority?: number; // Restaurant request priority (default 0)
+  restaurantCity?: string;
+  restaurantState?: string;
+  restaurantLatitude?: number;
+  restaurantLongitude?: number;
+  expectedDurationMinutes?: number; // How long the driver is busy from pickup; checked against the shift
 }
 
 // DTO for starting an assignment
@@ -48,12 +55,14 @@ export interface AssignmentResponse {
   restaurantId: string;
   assignmentDate: string; // YYYY-MM-DD format
   pickupTime: string; // HH:MM format
+  estimatedEndTime: string; // HH:MM format, from the expected duration or route, else estimated from deliveries
   estimatedDeliveries: number;
   actualDeliveries: number | null;
   status: AssignmentStatus;
   paymentType: PaymentType;
   paymentRate: number;
   algorithmScore: number | null;
+  priority: number; // Restaurant request priority, 0 for manual assignments
   notes: string | null;
   createdAt: Date;
   updatedAt: Date;
@@ -107,6 +116,149 @@ export interface ValidationResult {
 export interface AssignmentValidation {
   isValid: boolean;
   errors: string[];
+  reasons?: AvailabilityRejection[]; // Structured form of the availability errors
+  remainingCapacity?: number; // Deliveries the driver can still take that day, before this assignment
+}
+
+// What an assignment needs from a driver, checked against shifts, partial-day blocks and capacity
+export interface AvailabilityWindow {
+  pickupTime: string; // HH:MM format
+  expectedDurationMinutes?: number; // Estimated from estimatedDeliveries when omitted
+  estimatedDeliveries?: number; // Checked against the schedule's maxDeliveries when given
+  latitude?: number;  // Restaurant location, for travel to and from the driver's other pickups
+  longitude?: number;
+}
+
+// A driver's delivery capacity for one day (DriverSchedule.maxDeliveries)
+export interface DeliveryCapacity {
+  deliveryCapacity: number;
+  scheduledDeliveries: number; // Estimated deliveries of PENDING/STARTED assignments
+  remainingCapacity: number;
+}
+
+export type AvailabilityRejectionCode =
+  | 'NOT_SCHEDULED'
+  | 'OUTSIDE_SHIFT'
+  | 'BLOCKED_FULL_DAY'
+  | 'BLOCKED_PARTIAL'
+  | 'CAPACITY_EXCEEDED'
+  | 'NO_VERIFIED_VEHICLE'
+  | 'PICKUP_CONFLICT';
+
+// Why a driver cannot take an assignment
+export interface AvailabilityRejection {
+  code: AvailabilityRejectionCode;
+  message: string;
+  conflict?: PickupConflict; // Timings behind a PICKUP_CONFLICT
+}
+
+// Another assignment of the driver that the new one cannot fit around
+export interface PickupConflict {
+  assignmentId: string;
+  restaurantId: string;
+  position: 'BEFORE' | 'AFTER';  // Where the other assignment's pickup falls relative to the new one
+  pickupTime: string;            // HH:MM, the other assignment's
+  estimatedEndTime: string;      // HH:MM, the other assignment's
+  distanceKm: number | null;     // Between the two restaurants, when both have coordinates
+  travelMinutes: number;         // 0 when the distance is unknown
+  earliestPickup: string;        // HH:MM, the earliest the later of the two pickups could be
+}
+
+// A driver's active assignment for a day, for capacity and pickup conflict checks
+export interface ScheduledAssignment {
+  id: string;
+  restaurantId: string;
+  estimatedDeliveries: number;
+  pickupTime?: Date;               // Without one, the assignment only counts towards capacity
+  estimatedEndTime?: Date | null;  // Set from an expected duration or route; otherwise estimated from deliveries
+  restaurantLatitude?: number | null;
+  restaurantLongitude?: number | null;
+}
+
+// Active driver who can take an assignment on a date
+export interface AvailableDriver extends DeliveryCapacity {
+  id: number;
+  name: string | null;
+  email: string;
+  serviceAreas: Array<{
+    areaName: string;
+    city: string;
+    state: string;
+    latitude: number;
+    longitude: number;
+    radiusKm: number;
+  }>;
+  vehicles: DriverVehicle[]; // Verified vehicles only
+  currentAssignments: number;
+}
+
+// A vehicle as seen by assignment checks
+export interface DriverVehicle {
+  id: number;
+  type: VehicleType | null;
+  capacity: number | null;
+  verified: boolean;
+}
+
+// Drivers split by availability for a date (and time window, if given)
+export interface DriverAvailabilityResult<T> {
+  available: T[];
+  rejected: Array<{
+    driverId: number;
+    name: string | null;
+    reasons: AvailabilityRejection[];
+  }>;
+}
+
+// A driver's assignments over a date range
+export interface DriverWorkload {
+  totalAssignments: number;
+  pendingAssignments: number;
+  completedAssignments: number;
+  averageDeliveries: number;
+  dates: Array<{
+    date: Date;
+    assignmentCount: number;
+    totalDeliveries: number;
+  }>;
+}
+
+// One day's active drivers, their recent assignments and ratings, read once
+// for an algorithm run instead of once per restaurant. Loaded on first use.
+export interface DaySnapshot {
+  assignmentDate: string;   // YYYY-MM-DD
+  lookbackStart: string;    // History is kept from this day through assignmentDate
+  data?: DaySnapshotData;   // Set once loaded
+  loading?: Promise<DaySnapshotData>;
+  ratings?: Promise<Map<number, number>>; // Average rating by driver, for drivers with enough ratings
+  loadMs?: number;          // Time spent loading, ratings included
+}
+
+export interface DaySnapshotData {
+  drivers: SnapshotDriver[];
+  history: SnapshotAssignment[];
+}
+
+// Active driver with their schedule, blocks and active assignments for one day
+export interface SnapshotDriver {
+  id: number;
+  name: string | null;
+  email: string;
+  serviceAreas: AvailableDriver['serviceAreas'];
+  vehicles: DriverVehicle[]; // Verified vehicles only
+  schedules: Array<{ startTime: Date; endTime: Date; maxDeliveries: number }>;
+  availabilityBlocks: Array<{ isFullDay: boolean; startTime: Date | null; endTime: Date | null; reason: string | null }>;
+  restaurantAssignments: ScheduledAssignment[]; // PENDING/STARTED
+}
+
+// Assignment of any status in a snapshot's lookback period
+export interface SnapshotAssignment {
+  id: string;
+  driverId: number;
+  restaurantId: string;
+  assignmentDate: string; // YYYY-MM-DD
+  status: string;
+  deliveries: number;     // Actual deliveries when recorded, else the estimate
 }
 
 // Restaurant info interface (for future expansion)
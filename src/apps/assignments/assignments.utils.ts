@@ -1,5 +1,445 @@
-import { PrismaClient, AssignmentStatus, DriverStatus } from '@prisma/client';
-import { CreateAssignmentDto, AssignmentValidation } from './assignments.types';
+import { PrismaClient, Prisma, AssignmentStatus, DriverStatus, RestaurantAssignment } from '@prisma/client';
+import {
+  CreateAssignmentDto,
+  AssignmentValidation,
+  AvailabilityRejection,
+  AvailabilityWindow,
+  AvailableDriver,
+  DaySnapshot,
+  DaySnapshotData,
+  DeliveryCapacity,
+  DriverAvailabilityResult,
+  DriverWorkload,
+  ScheduledAssignment,
+  SnapshotDriver
+} from './assignments.types';
+import { averageRatingsByDriver, getRatingWindowStart } from '../deliveries/delivery-ratings.service';
+import { haversineDistanceKm } from '../algorithms/algorithms.geo';
+
+// Interactive transactions time out after 5 s by default. Batch writes hold
+// driver row locks throughout, so they get a base allowance plus time per
+// assignment, and wait a bounded time for a connection
+const TRANSACTION_MAX_WAIT_MS = 10000;
+const TRANSACTION_BASE_TIMEOUT_MS = 15000;
+const TRANSACTION_TIMEOUT_PER_ASSIGNMENT_MS = 500;
+
+// Lower-priority assignments considered per preemption attempt
+const PREEMPTION_CANDIDATE_LIMIT = 20;
+
+// Matches the DriverSchedule.maxDeliveries column default
+const DEFAULT_MAX_DELIVERIES = 70;
+const MINUTES_PER_DAY = 24 * 60;
+
+// Rough timings for assignments without an expected duration or route:
+// collecting the orders, then each delivery
+export const PICKUP_MINUTES = 10;
+export const MINUTES_PER_DELIVERY = 4;
+
+// Driving between restaurants: roads run longer than the straight line
+const ROAD_DISTANCE_FACTOR = 1.3;
+const TRAVEL_SPEED_KMH = 30;
+
+/**
+ * Check a driver's schedule and blocks for one day against an optional time window.
+ * `schedules` and `availabilityBlocks` must already be limited to that weekday/date.
+ * When `vehicles` is given, at least one must be verified.
+ * Without a window only whole-day availability is checked. Returns no reasons when available.
+ */
+export function evaluateDriverAvailability(
+  driver: {
+    schedules: Array<{ startTime: Date; endTime: Date; maxDeliveries?: number }>;
+    availabilityBlocks: Array<{ isFullDay: boolean; startTime: Date | null; endTime: Date | null; reason?: string | null }>;
+    restaurantAssignments?: Array<Partial<ScheduledAssignment> & { estimatedDeliveries: number }>;
+    vehicles?: Array<{ verified: boolean }>;
+  },
+  window?: AvailabilityWindow
+): AvailabilityRejection[] {
+  const reasons: AvailabilityRejection[] = [];
+
+  if (driver.schedules.length === 0) {
+    reasons.push({ code: 'NOT_SCHEDULED', message: 'Driver is not scheduled to work on this day' });
+  }
+
+  if (driver.vehicles && !driver.vehicles.some(vehicle => vehicle.verified)) {
+    reasons.push({ code: 'NO_VERIFIED_VEHICLE', message: 'Driver has no verified vehicle' });
+  }
+
+  const fullDayBlock = driver.availabilityBlocks.find(block => block.isFullDay || !block.startTime || !block.endTime);
+  if (fullDayBlock) {
+    reasons.push({
+      code: 'BLOCKED_FULL_DAY',
+      message: `Driver is not available on this date${fullDayBlock.reason ? ` (${fullDayBlock.reason})` : ''}`
+    });
+  }
+
+  if (!window || reasons.length > 0) {
+    return reasons;
+  }
+
+  const start = parseTimeToMinutes(window.pickupTime);
+  const end = windowEndMinutes(window);
+  const windowLabel = `${window.pickupTime}-${formatMinutes(end)}`;
+
+  // A shift ending at or before its start runs past midnight
+  const coveringShift = driver.schedules.find(schedule => {
+    const shiftStart = timeToMinutes(schedule.startTime);
+    let shiftEnd = timeToMinutes(schedule.endTime);
+    if (shiftEnd <= shiftStart) {
+      shiftEnd += MINUTES_PER_DAY;
+    }
+    return start >= shiftStart && end <= shiftEnd;
+  });
+
+  if (!coveringShift) {
+    const shifts = driver.schedules
+      .map(schedule => `${formatMinutes(timeToMinutes(schedule.startTime))}-${formatMinutes(timeToMinutes(schedule.endTime))}`)
+      .join(', ');
+    reasons.push({
+      code: 'OUTSIDE_SHIFT',
+      message: `Assignment window ${windowLabel} is outside the driver's shift (${shifts})`
+    });
+  }
+
+  for (const block of driver.availabilityBlocks) {
+    const blockStart = timeToMinutes(block.startTime!);
+    const blockEnd = timeToMinutes(block.endTime!);
+
+    if (blockOverlapsWindow(block, window)) {
+      reasons.push({
+        code: 'BLOCKED_PARTIAL',
+        message: `Driver is unavailable ${formatMinutes(blockStart)}-${formatMinutes(blockEnd)}` +
+          `${block.reason ? ` (${block.reason})` : ''}, overlapping assignment window ${windowLabel}`
+      });
+    }
+  }
+
+  if (window.estimatedDeliveries !== undefined && driver.restaurantAssignments) {
+    const capacity = calculateDeliveryCapacity(driver.schedules, driver.restaurantAssignments);
+
+    if (window.estimatedDeliveries > capacity.remainingCapacity) {
+      reasons.push({
+        code: 'CAPACITY_EXCEEDED',
+        message: `Assignment of ${window.estimatedDeliveries} deliveries exceeds the driver's remaining capacity ` +
+          `(${capacity.remainingCapacity} of ${capacity.deliveryCapacity})`
+      });
+    }
+  }
+
+  if (driver.restaurantAssignments) {
+    reasons.push(...findPickupConflicts(driver.restaurantAssignments, window));
+  }
+
+  return reasons;
+}
+
+/**
+ * Interactive transaction options for writing a batch of assignments
+ */
+export function batchTransactionOptions(assignmentCount: number): { maxWait: number; timeout: number } {
+  return {
+    maxWait: TRANSACTION_MAX_WAIT_MS,
+    timeout: TRANSACTION_BASE_TIMEOUT_MS + assignmentCount * TRANSACTION_TIMEOUT_PER_ASSIGNMENT_MS
+  };
+}
+
+/**
+ * Minutes a driver is busy from pickup: the expected duration when given,
+ * otherwise estimated from the number of deliveries
+ */
+export function estimateDurationMinutes(estimatedDeliveries: number, expectedDurationMinutes?: number): number {
+  return expectedDurationMinutes ?? PICKUP_MINUTES + estimatedDeliveries * MINUTES_PER_DELIVERY;
+}
+
+// End of the window in minutes from midnight, the same estimate for shift, block and conflict checks
+function windowEndMinutes(window: AvailabilityWindow): number {
+  return parseTimeToMinutes(window.pickupTime) +
+    estimateDurationMinutes(window.estimatedDeliveries ?? 0, window.expectedDurationMinutes);
+}
+
+/**
+ * Time of day a number of minutes after another, wrapping past midnight
+ */
+export function endTimeAfter(time: Date, minutes: number): Date {
+  return new Date(((timeToMinutes(time) + minutes) % MINUTES_PER_DAY) * 60 * 1000);
+}
+
+/**
+ * Estimated driving between two restaurants. Without coordinates for both
+ * the distance is unknown and no travel time is assumed.
+ */
+export function estimateTravel(
+  from: { latitude?: number | null; longitude?: number | null },
+  to: { latitude?: number | null; longitude?: number | null }
+): { distanceKm: number | null; travelMinutes: number } {
+  if (from.latitude == null || from.longitude == null || to.latitude == null || to.longitude == null) {
+    return { distanceKm: null, travelMinutes: 0 };
+  }
+
+  const distanceKm = haversineDistanceKm(from.latitude, from.longitude, to.latitude, to.longitude);
+
+  return {
+    distanceKm: Math.round(distanceKm * 10) / 10,
+    travelMinutes: Math.ceil((distanceKm * ROAD_DISTANCE_FACTOR / TRAVEL_SPEED_KMH) * 60)
+  };
+}
+
+/**
+ * The driver's other assignments that a new one cannot fit around: whichever
+ * pickup comes first, the driver must finish it and drive to the other
+ * restaurant by the second pickup. Assignments without a pickup time are skipped.
+ */
+export function findPickupConflicts(
+  assignments: Array<Partial<ScheduledAssignment> & { estimatedDeliveries: number }>,
+  window: AvailabilityWindow
+): AvailabilityRejection[] {
+  const start = parseTimeToMinutes(window.pickupTime);
+  const end = windowEndMinutes(window);
+  const reasons: AvailabilityRejection[] = [];
+
+  for (const other of assignments) {
+    if (!other.pickupTime || !other.restaurantId) {
+      continue;
+    }
+
+    const otherStart = timeToMinutes(other.pickupTime);
+    const otherEnd = otherStart + scheduledDurationMinutes({ ...other, pickupTime: other.pickupTime });
+    const { distanceKm, travelMinutes } = estimateTravel(
+      { latitude: other.restaurantLatitude, longitude: other.restaurantLongitude },
+      window
+    );
+    const position = otherStart <= start ? 'BEFORE' : 'AFTER';
+    const earliestPickup = (position === 'BEFORE' ? otherEnd : end) + travelMinutes;
+
+    if (earliestPickup <= (position === 'BEFORE' ? start : otherStart)) {
+      continue;
+    }
+
+    const travel = distanceKm !== null ? `, then ${travelMinutes} min to drive ${distanceKm} km` : '';
+    reasons.push({
+      code: 'PICKUP_CONFLICT',
+      message: position === 'BEFORE'
+        ? `Driver's ${formatMinutes(otherStart)} pickup at ${other.restaurantId} runs until ${formatMinutes(otherEnd)}${travel}; ` +
+          `earliest pickup here is ${formatMinutes(earliestPickup)}, not ${window.pickupTime}`
+        : `Assignment window ${window.pickupTime}-${formatMinutes(end)}${travel} leaves the driver late for their ` +
+          `${formatMinutes(otherStart)} pickup at ${other.restaurantId} (earliest ${formatMinutes(earliestPickup)})`,
+      conflict: {
+        assignmentId: other.id ?? '',
+        restaurantId: other.restaurantId,
+        position,
+        pickupTime: formatMinutes(otherStart),
+        estimatedEndTime: formatMinutes(otherEnd),
+        distanceKm,
+        travelMinutes,
+        earliestPickup: formatMinutes(earliestPickup)
+      }
+    });
+  }
+
+  return reasons;
+}
+
+/**
+ * Estimated end of a scheduled assignment, HH:MM
+ */
+export function formatEstimatedEndTime(assignment: { estimatedDeliveries: number; estimatedEndTime?: Date | null; pickupTime: Date }): string {
+  return formatMinutes(timeToMinutes(assignment.pickupTime) + scheduledDurationMinutes(assignment));
+}
+
+/**
+ * An assignment as scheduled for conflict checks, with its end time when its
+ * expected duration is known
+ */
+export function toScheduledAssignment(
+  assignment: Pick<CreateAssignmentDto, 'restaurantId' | 'estimatedDeliveries'> &
+    Partial<Pick<CreateAssignmentDto, 'pickupTime' | 'expectedDurationMinutes' | 'restaurantLatitude' | 'restaurantLongitude'>>,
+  id = ''
+): ScheduledAssignment {
+  const pickupTime = assignment.pickupTime ? parseTimeValue(assignment.pickupTime) : undefined;
+
+  return {
+    id,
+    restaurantId: assignment.restaurantId,
+    estimatedDeliveries: assignment.estimatedDeliveries,
+    pickupTime,
+    estimatedEndTime: pickupTime && assignment.expectedDurationMinutes !== undefined
+      ? endTimeAfter(pickupTime, assignment.expectedDurationMinutes)
+      : null,
+    restaurantLatitude: assignment.restaurantLatitude ?? null,
+    restaurantLongitude: assignment.restaurantLongitude ?? null
+  };
+}
+
+/**
+ * Whether an availability block takes away any of an assignment window.
+ * Full-day blocks (or blocks without times) cover every window.
+ */
+export function blockOverlapsWindow(
+  block: { isFullDay: boolean; startTime: Date | null; endTime: Date | null },
+  window: AvailabilityWindow
+): boolean {
+  if (block.isFullDay || !block.startTime || !block.endTime) {
+    return true;
+  }
+
+  const start = parseTimeToMinutes(window.pickupTime);
+  const end = windowEndMinutes(window);
+
+  return start < timeToMinutes(block.endTime) && timeToMinutes(block.startTime) < end;
+}
+
+/**
+ * Daily delivery capacity from the day's schedule, less the estimated deliveries
+ * of the driver's active (PENDING/STARTED) assignments for that date
+ */
+export function calculateDeliveryCapacity(
+  schedules: Array<{ maxDeliveries?: number }>,
+  activeAssignments: Array<{ estimatedDeliveries: number }>
+): DeliveryCapacity {
+  const deliveryCapacity = schedules.length > 0
+    ? Math.max(...schedules.map(schedule => schedule.maxDeliveries ?? DEFAULT_MAX_DELIVERIES))
+    : 0;
+  const scheduledDeliveries = activeAssignments.reduce((sum, assignment) => sum + assignment.estimatedDeliveries, 0);
+
+  return {
+    deliveryCapacity,
+    scheduledDeliveries,
+    remainingCapacity: Math.max(0, deliveryCapacity - scheduledDeliveries)
+  };
+}
+
+/**
+ * Add an assignment just written to a loaded day snapshot, so the rest of the
+ * run sees the driver's new load without reading it back
+ */
+export function recordSnapshotAssignment(
+  snapshot: DaySnapshot | undefined,
+  assignment: Parameters<typeof toScheduledAssignment>[0] & { id?: string; driverId: number; assignmentDate: string }
+): void {
+  if (!snapshot?.data || assignment.assignmentDate !== snapshot.assignmentDate) {
+    return;
+  }
+
+  const id = assignment.id ?? '';
+  snapshot.data.drivers
+    .find(driver => driver.id === assignment.driverId)
+    ?.restaurantAssignments.push(toScheduledAssignment(assignment, id));
+  snapshot.data.history.push({
+    id,
+    driverId: assignment.driverId,
+    restaurantId: assignment.restaurantId,
+    assignmentDate: assignment.assignmentDate,
+    status: 'PENDING',
+    deliveries: assignment.estimatedDeliveries
+  });
+}
+
+/**
+ * Mark an assignment cancelled in a loaded day snapshot, freeing its driver
+ */
+export function releaseSnapshotAssignment(snapshot: DaySnapshot | undefined, assignmentId: string): void {
+  if (!snapshot?.data) {
+    return;
+  }
+
+  snapshot.data.drivers.forEach(driver => {
+    driver.restaurantAssignments = driver.restaurantAssignments.filter(assignment => assignment.id !== assignmentId);
+  });
+  snapshot.data.history
+    .filter(assignment => assignment.id === assignmentId)
+    .forEach(assignment => { assignment.status = 'CANCELLED'; });
+}
+
+function summarizeWorkload(assignments: Array<{ assignmentDate: string; status: string; deliveries: number }>): DriverWorkload {
+  const totalAssignments = assignments.length;
+  const pendingAssignments = assignments.filter(a => a.status === 'PENDING').length;
+  const completedAssignments = assignments.filter(a => a.status === 'COMPLETED').length;
+
+  const totalDeliveries = assignments.reduce((sum, a) => sum + a.deliveries, 0);
+  const averageDeliveries = totalAssignments > 0 ? totalDeliveries / totalAssignments : 0;
+
+  // Group by date
+  const dateMap = new Map<string, { assignmentCount: number; totalDeliveries: number }>();
+
+  assignments.forEach(assignment => {
+    const existing = dateMap.get(assignment.assignmentDate) || { assignmentCount: 0, totalDeliveries: 0 };
+
+    existing.assignmentCount += 1;
+    existing.totalDeliveries += assignment.deliveries;
+
+    dateMap.set(assignment.assignmentDate, existing);
+  });
+
+  const dates = Array.from(dateMap.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([dateStr, data]) => ({
+      date: new Date(dateStr),
+      assignmentCount: data.assignmentCount,
+      totalDeliveries: data.totalDeliveries
+    }));
+
+  return {
+    totalAssignments,
+    pendingAssignments,
+    completedAssignments,
+    averageDeliveries,
+    dates
+  };
+}
+
+// TIME columns come back as 1970-01-01THH:MM:00Z
+function timeToMinutes(time: Date): number {
+  return time.getUTCHours() * 60 + time.getUTCMinutes();
+}
+
+// HH:MM as the value of a TIME column
+function parseTimeValue(time: string): Date {
+  return new Date(`1970-01-01T${time}:00.000Z`);
+}
+
+// Minutes from pickup to the recorded end time, or estimated from deliveries
+export function scheduledDurationMinutes(assignment: { estimatedDeliveries: number; estimatedEndTime?: Date | null; pickupTime: Date }): number {
+  if (!assignment.estimatedEndTime) {
+    return estimateDurationMinutes(assignment.estimatedDeliveries);
+  }
+
+  const minutes = timeToMinutes(assignment.estimatedEndTime) - timeToMinutes(assignment.pickupTime);
+  return minutes > 0 ? minutes : minutes + MINUTES_PER_DAY;
+}
+
+// Assignment row as scheduled for conflict checks
+function fromAssignmentRow(assignment: {
+  id: string;
+  restaurantId: string;
+  estimatedDeliveries: number;
+  pickupTime: Date;
+  estimatedEndTime: Date | null;
+  restaurantLatitude: Prisma.Decimal | null;
+  restaurantLongitude: Prisma.Decimal | null;
+}): ScheduledAssignment {
+  return {
+    id: assignment.id,
+    restaurantId: assignment.restaurantId,
+    estimatedDeliveries: assignment.estimatedDeliveries,
+    pickupTime: assignment.pickupTime,
+    estimatedEndTime: assignment.estimatedEndTime,
+    restaurantLatitude: assignment.restaurantLatitude !== null && assignment.restaurantLatitude !== undefined
+      ? Number(assignment.restaurantLatitude)
+      : null,
+    restaurantLongitude: assignment.restaurantLongitude !== null && assignment.restaurantLongitude !== undefined
+      ? Number(assignment.restaurantLongitude)
+      : null,
+  };
+}
+
+function parseTimeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+function formatMinutes(totalMinutes: number): string {
+  const minutes = totalMinutes % MINUTES_PER_DAY;
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
 
 /**
  * Utility functions for external assignment algorithms and integrations
@@ -8,32 +448,73 @@ export class AssignmentUtils {
   constructor(private prisma: PrismaClient) {}
 
   /**
-   * Get available drivers for a specific date and service area
+   * Get available drivers for a specific date and service area.
+   * With a window, drivers must also be on shift and unblocked for its whole duration.
    */
   async getAvailableDrivers(
     assignmentDate: string,
-    restaurantId?: string
-  ): Promise<Array<{
-    id: number;
-    name: string | null;
-    email: string;
-    serviceAreas: Array<{
-      areaName: string;
-      city: string;
-      state: string;
-      latitude: number;
-      longitude: number;
-      radiusKm: number;
-    }>;
-    currentAssignments: number;
-  }>> {
+    restaurantId?: string,
+    window?: AvailabilityWindow,
+    excludeAssignmentIds: string[] = []
+  ): Promise<AvailableDriver[]> {
+    const { available } = await this.getDriverAvailability(assignmentDate, window, excludeAssignmentIds);
+    return available;
+  }
+
+  /**
+   * Split active drivers into available and rejected, with the reasons for each rejection.
+   * Assignments in excludeAssignmentIds (e.g. about to be preempted) do not count against drivers.
+   * Given a snapshot of the same day, drivers are read from it instead of the database.
+   */
+  async getDriverAvailability(
+    assignmentDate: string,
+    window?: AvailabilityWindow,
+    excludeAssignmentIds: string[] = [],
+    snapshot?: DaySnapshot
+  ): Promise<DriverAvailabilityResult<AvailableDriver>> {
+    const drivers = snapshot?.assignmentDate === assignmentDate
+      ? (await this.loadDaySnapshot(snapshot)).drivers.map(driver => ({
+          ...driver,
+          restaurantAssignments: driver.restaurantAssignments.filter(assignment => !excludeAssignmentIds.includes(assignment.id)),
+        }))
+      : await this.findDayDrivers(assignmentDate, excludeAssignmentIds);
+
+    const result: DriverAvailabilityResult<AvailableDriver> = { available: [], rejected: [] };
+
+    for (const driver of drivers) {
+      const reasons = evaluateDriverAvailability(driver, window);
+
+      if (reasons.length > 0) {
+        result.rejected.push({ driverId: driver.id, name: driver.name, reasons });
+        continue;
+      }
+
+      result.available.push({
+        id: driver.id,
+        name: driver.name,
+        email: driver.email,
+        serviceAreas: driver.serviceAreas,
+        vehicles: driver.vehicles,
+        currentAssignments: driver.restaurantAssignments.length,
+        ...calculateDeliveryCapacity(driver.schedules, driver.restaurantAssignments),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Active drivers, leaving out synthetic load-testing drivers, with their
+   * schedule, blocks, verified vehicles and active assignments for one day
+   */
+  private async findDayDrivers(assignmentDate: string, excludeAssignmentIds: string[] = []): Promise<SnapshotDriver[]> {
     const date = new Date(assignmentDate);
     const dayOfWeek = date.getDay(); // 0 = Sunday, 6 = Saturday
 
-    // Get all active drivers
     const drivers = await this.prisma.user.findMany({
       where: {
-        driverStatus: DriverStatus.ACTIVE,
+        driverStatus: 'ACTIVE',
+        syntheticDatasetId: null,
       },
       include: {
         serviceAreas: {
@@ -60,42 +541,111 @@ export class AssignmentUtils {
             blockedDate: date,
           },
         },
+        vehicles: {
+          where: {
+            verified: true,
+          },
+          select: {
+            id: true,
+            type: true,
+            capacity: true,
+            verified: true,
+          },
+        },
         restaurantAssignments: {
           where: {
             assignmentDate: date,
             status: {
-              in: [AssignmentStatus.PENDING, AssignmentStatus.STARTED],
+              in: ['PENDING', 'STARTED'],
             },
+            ...(excludeAssignmentIds.length > 0 && { id: { notIn: excludeAssignmentIds } }),
+          },
+          select: {
+            id: true,
+            restaurantId: true,
+            estimatedDeliveries: true,
+            pickupTime: true,
+            estimatedEndTime: true,
+            restaurantLatitude: true,
+            restaurantLongitude: true,
           },
         },
       },
     });
 
-    // Filter drivers based on availability
-    return drivers
-      .filter(driver => {
-        // Must have schedule for this day
-        if (driver.schedules.length === 0) return false;
-        
-        // Must not be blocked for this date
-        if (driver.availabilityBlocks.length > 0) return false;
-        
-        return true;
-      })
-      .map(driver => ({
-        id: driver.id,
-        name: driver.name,
-        email: driver.email,
-        serviceAreas: driver.serviceAreas.map(area => ({
-          areaName: area.areaName,
-          city: area.city,
-          state: area.state,
-          latitude: parseFloat(area.latitude.toString()),
-          longitude: parseFloat(area.longitude.toString()),
-          radiusKm: area.radiusKm,
-        })),
-        currentAssignments: driver.restaurantAssignments.length,
-      }));
+    return drivers.map(driver => ({
+      id: driver.id,
+      name: driver.name,
+      email: driver.email,
+      serviceAreas: driver.serviceAreas.map(area => ({
+        areaName: area.areaName,
+        city: area.city,
+        state: area.state,
+        latitude: parseFloat(area.latitude.toString()),
+        longitude: parseFloat(area.longitude.toString()),
+        radiusKm: area.radiusKm,
+      })),
+      vehicles: driver.vehicles,
+      schedules: driver.schedules,
+      availabilityBlocks: driver.availabilityBlocks,
+      restaurantAssignments: driver.restaurantAssignments.map(fromAssignmentRow),
+    }));
+  }
+
+  /**
+   * Load a day snapshot on first use: the day's drivers and every assignment
+   * of an active driver in the lookback period, in two queries. Later calls
+   * share the same load.
+   */
+  private loadDaySnapshot(snapshot: DaySnapshot): Promise<DaySnapshotData> {
+    if (!snapshot.loading) {
+      const startTime = Date.now();
+
+      snapshot.loading = Promise.all([
+        this.findDayDrivers(snapshot.assignmentDate),
+        this.prisma.restaurantAssignment.findMany({
+          where: {
+            assignmentDate: {
+              gte: new Date(snapshot.lookbackStart),
+              lte: new Date(snapshot.assignmentDate),
+            },
+            driver: {
+              driverStatus: 'ACTIVE',
+              syntheticDatasetId: null,
+            },
+          },
+          select: {
+            id: true,
+            driverId: true,
+            restaurantId: true,
+            assignmentDate: true,
+            status: true,
+            estimatedDeliveries: true,
+            actualDeliveries: true,
+          },
+        }),
+      ]).then(([drivers, history]) => {
+        snapshot.data = {
+          drivers,
+          history: history.map(assignment => ({
+            id: assignment.id,
+            driverId: assignment.driverId,
+            restaurantId: assignment.restaurantId,
+            assignmentDate: assignment.assignmentDate.toISOString().split('T')[0],
+            status: assignment.status,
+            deliveries: assignment.actualDeliveries || assignment.estimatedDeliveries,
+          })),
+        };
+        snapshot.loadMs = (snapshot.loadMs || 0) + Date.now() - startTime;
+        return snapshot.data;
+      }).catch(error => {
+        // Let the next read try again
+        snapshot.loading = undefined;
+        throw error;
+      });
+    }
+
+    return snapshot.loading;
   }
 
   /**
@@ -104,17 +654,34 @@ export class AssignmentUtils {
   async isDriverAvailable(
     driverId: number,
     assignmentDate: string,
-    restaurantId: string
+    restaurantId: string,
+    window?: AvailabilityWindow,
+    excludeAssignmentIds: string[] = []
+  ): Promise<AssignmentValidation> {
+    return this.validateDriverAvailability(this.prisma, driverId, assignmentDate, restaurantId, window, excludeAssignmentIds);
+  }
+
+  /**
+   * Availability check against any client, so it can also run inside a transaction
+   */
+  private async validateDriverAvailability(
+    client: Prisma.TransactionClient,
+    driverId: number,
+    assignmentDate: string,
+    restaurantId: string,
+    window?: AvailabilityWindow,
+    excludeAssignmentIds: string[] = []
   ): Promise<AssignmentValidation> {
     const errors: string[] = [];
     const date = new Date(assignmentDate);
     const dayOfWeek = date.getDay();
 
     // Check if driver exists and is active
-    const driver = await this.prisma.user.findFirst({
+    const driver = await client.user.findFirst({
       where: {
         id: driverId,
         driverStatus: DriverStatus.ACTIVE,
+        syntheticDatasetId: null,
       },
       include: {
         schedules: {
@@ -128,13 +695,25 @@ export class AssignmentUtils {
             blockedDate: date,
           },
         },
+        vehicles: {
+          where: {
+            verified: true,
+          },
+          select: {
+            id: true,
+            type: true,
+            capacity: true,
+            verified: true,
+          },
+        },
+        // Every active assignment that day: needed for the capacity check
         restaurantAssignments: {
           where: {
             assignmentDate: date,
-            restaurantId,
             status: {
               in: [AssignmentStatus.PENDING, AssignmentStatus.STARTED],
             },
+            ...(excludeAssignmentIds.length > 0 && { id: { notIn: excludeAssignmentIds } }),
           },
         },
       },
@@ -145,45 +724,94 @@ export class AssignmentUtils {
       return { isValid: false, errors };
     }
 
-    // Check schedule availability
-    if (driver.schedules.length === 0) {
-      errors.push('Driver is not scheduled to work on this day');
-    }
-
-    // Check if blocked on this date
-    if (driver.availabilityBlocks.length > 0) {
-      errors.push('Driver is not available on this date');
-    }
+    // Check schedule, blocks and (with a window) shift hours, delivery capacity and pickup conflicts
+    const reasons = evaluateDriverAvailability(
+      { ...driver, restaurantAssignments: driver.restaurantAssignments.map(fromAssignmentRow) },
+      window
+    );
+    errors.push(...reasons.map(reason => reason.message));
 
     // Check for existing assignment to same restaurant
-    if (driver.restaurantAssignments.length > 0) {
+    if (driver.restaurantAssignments.some(assignment => assignment.restaurantId === restaurantId)) {
       errors.push('Driver is already assigned to this restaurant on this date');
     }
 
     return {
       isValid: errors.length === 0,
       errors,
+      reasons,
+      remainingCapacity: calculateDeliveryCapacity(driver.schedules, driver.restaurantAssignments).remainingCapacity,
     };
   }
 
   /**
-   * Get driver workload for a specific date range
+   * Time-decayed average rating of each active driver with enough ratings,
+   * from ratings given before the assignment date. Given a snapshot of the
+   * same day, they are loaded once and kept on it.
+   */
+  async getDriverRatings(assignmentDate: string, snapshot?: DaySnapshot): Promise<Map<number, number>> {
+    if (snapshot?.assignmentDate !== assignmentDate) {
+      return this.findDriverRatings(assignmentDate);
+    }
+
+    if (!snapshot.ratings) {
+      const startTime = Date.now();
+
+      snapshot.ratings = this.findDriverRatings(assignmentDate).then(ratings => {
+        snapshot.loadMs = (snapshot.loadMs || 0) + Date.now() - startTime;
+        return ratings;
+      }).catch(error => {
+        snapshot.ratings = undefined;
+        throw error;
+      });
+    }
+
+    return snapshot.ratings;
+  }
+
+  private async findDriverRatings(assignmentDate: string): Promise<Map<number, number>> {
+    const asOf = new Date(assignmentDate);
+    const ratings = await this.prisma.deliveryRating.findMany({
+      where: {
+        createdAt: {
+          gte: getRatingWindowStart(asOf),
+          lt: asOf,
+        },
+        driver: {
+          driverStatus: 'ACTIVE',
+          syntheticDatasetId: null,
+        },
+      },
+      select: {
+        driverId: true,
+        rating: true,
+        createdAt: true,
+      },
+    });
+
+    return averageRatingsByDriver(ratings, asOf);
+  }
+
+  /**
+   * Get driver workload for a specific date range.
+   * Given a snapshot whose lookback covers the range, it is read from the snapshot.
    */
   async getDriverWorkload(
     driverId: number,
     startDate: string,
-    endDate: string
-  ): Promise<{
-    totalAssignments: number;
-    pendingAssignments: number;
-    completedAssignments: number;
-    averageDeliveries: number;
-    dates: Array<{
-      date: Date;
-      assignmentCount: number;
-      totalDeliveries: number;
-    }>;
-  }> {
+    endDate: string,
+    snapshot?: DaySnapshot
+  ): Promise<DriverWorkload> {
+    if (snapshot && startDate >= snapshot.lookbackStart && endDate <= snapshot.assignmentDate) {
+      const { history } = await this.loadDaySnapshot(snapshot);
+
+      return summarizeWorkload(history.filter(assignment =>
+        assignment.driverId === driverId &&
+        assignment.assignmentDate >= startDate &&
+        assignment.assignmentDate <= endDate
+      ));
+    }
+
     const assignments = await this.prisma.restaurantAssignment.findMany({
       where: {
         driverId,
@@ -197,46 +825,60 @@ export class AssignmentUtils {
       },
     });
 
-    const totalAssignments = assignments.length;
-    const pendingAssignments = assignments.filter(a => a.status === AssignmentStatus.PENDING).length;
-    const completedAssignments = assignments.filter(a => a.status === AssignmentStatus.COMPLETED).length;
-    
-    const totalDeliveries = assignments.reduce((sum, a) => sum + (a.actualDeliveries || a.estimatedDeliveries), 0);
-    const averageDeliveries = totalAssignments > 0 ? totalDeliveries / totalAssignments : 0;
+    return summarizeWorkload(assignments.map(assignment => ({
+      assignmentDate: assignment.assignmentDate.toISOString().split('T')[0],
+      status: assignment.status,
+      deliveries: assignment.actualDeliveries || assignment.estimatedDeliveries,
+    })));
+  }
 
-    // Group by date
-    const dateMap = new Map<string, { assignmentCount: number; totalDeliveries: number }>();
-    
-    assignments.forEach(assignment => {
-      const dateKey = assignment.assignmentDate.toISOString().split('T')[0];
-      const existing = dateMap.get(dateKey) || { assignmentCount: 0, totalDeliveries: 0 };
-      
-      existing.assignmentCount += 1;
-      existing.totalDeliveries += assignment.actualDeliveries || assignment.estimatedDeliveries;
-      
-      dateMap.set(dateKey, existing);
+  /**
+   * Assignments and deliveries each driver is booked for between two dates
+   * (inclusive), leaving out cancelled assignments and synthetic drivers.
+   * Completed assignments count their actual deliveries.
+   */
+  async getDriverLoad(
+    startDate: string,
+    endDate: string
+  ): Promise<Map<number, { assignments: number; deliveries: number }>> {
+    const assignments = await this.prisma.restaurantAssignment.findMany({
+      where: {
+        assignmentDate: {
+          gte: new Date(startDate),
+          lte: new Date(endDate),
+        },
+        status: {
+          not: AssignmentStatus.CANCELLED,
+        },
+        driver: {
+          syntheticDatasetId: null,
+        },
+      },
+      select: {
+        driverId: true,
+        estimatedDeliveries: true,
+        actualDeliveries: true,
+      },
     });
 
-    const dates = Array.from(dateMap.entries()).map(([dateStr, data]) => ({
-      date: new Date(dateStr),
-      assignmentCount: data.assignmentCount,
-      totalDeliveries: data.totalDeliveries,
-    }));
+    const load = new Map<number, { assignments: number; deliveries: number }>();
+    assignments.forEach(assignment => {
+      const existing = load.get(assignment.driverId) || { assignments: 0, deliveries: 0 };
+      existing.assignments += 1;
+      existing.deliveries += assignment.actualDeliveries ?? assignment.estimatedDeliveries;
+      load.set(assignment.driverId, existing);
+    });
 
-    return {
-      totalAssignments,
-      pendingAssignments,
-      completedAssignments,
-      averageDeliveries,
-      dates,
-    };
+    return load;
   }
 
   /**
-   * Bulk create assignments (useful for algorithm-based assignment)
+   * Bulk create assignments (useful for algorithm-based assignment).
+   * Pass a transaction client to write them in a caller's transaction.
    */
   async bulkCreateAssignments(
-    assignments: CreateAssignmentDto[]
+    assignments: CreateAssignmentDto[],
+    client: Prisma.TransactionClient = this.prisma
   ): Promise<{
     successful: number;
     failed: number;
@@ -252,10 +894,12 @@ export class AssignmentUtils {
     for (const assignmentData of assignments) {
       try {
         // Validate before creating
-        const validation = await this.isDriverAvailable(
+        const validation = await this.validateDriverAvailability(
+          client,
           assignmentData.driverId,
           assignmentData.assignmentDate,
-          assignmentData.restaurantId
+          assignmentData.restaurantId,
+          this.toAvailabilityWindow(assignmentData)
         );
 
         if (!validation.isValid) {
@@ -268,18 +912,8 @@ export class AssignmentUtils {
         }
 
         // Create the assignment
-        await this.prisma.restaurantAssignment.create({
-          data: {
-            driverId: assignmentData.driverId,
-            restaurantId: assignmentData.restaurantId,
-            assignmentDate: new Date(assignmentData.assignmentDate),
-            pickupTime: new Date(`1970-01-01T${assignmentData.pickupTime}:00.000Z`),
-            estimatedDeliveries: assignmentData.estimatedDeliveries,
-            paymentType: assignmentData.paymentType || 'FIXED',
-            paymentRate: assignmentData.paymentRate,
-            algorithmScore: assignmentData.algorithmScore || 0,
-            notes: assignmentData.notes,
-          },
+        await client.restaurantAssignment.create({
+          data: this.toAssignmentData(assignmentData),
         });
 
         successful++;
@@ -299,6 +933,279 @@ export class AssignmentUtils {
     };
   }
 
+  /**
+   * Create assignments all-or-nothing inside a single transaction.
+   * Driver rows are locked first so concurrent runs cannot double-book a driver;
+   * any validation failure rolls back every assignment in the batch. Pass a
+   * transaction client to run in a caller's transaction, which must then roll
+   * back when this throws.
+   */
+  async createAssignmentsAtomically(
+    assignments: CreateAssignmentDto[],
+    maxAssignmentsPerDriver?: number,
+    preemptedAssignmentIds: string[] = [],
+    client?: Prisma.TransactionClient
+  ): Promise<string[]> {
+    if (assignments.length === 0) {
+      return [];
+    }
+
+    const write = async (tx: Prisma.TransactionClient) => {
+      // Lock in a stable order so two runs sharing drivers cannot deadlock
+      const driverIds = Array.from(new Set(assignments.map(a => a.driverId))).sort((a, b) => a - b);
+      await tx.$queryRaw`SELECT id FROM "User" WHERE id IN (${Prisma.join(driverIds)}) ORDER BY id FOR UPDATE`;
+
+      // Free the drivers of preempted assignments before validating the new ones
+      if (preemptedAssignmentIds.length > 0) {
+        const cancelled = await this.cancelPreempted(tx, preemptedAssignmentIds, assignments[0].batchId);
+        if (cancelled < preemptedAssignmentIds.length) {
+          throw new Error('Atomic assignment failed: a preempted assignment is no longer pending');
+        }
+      }
+
+      const createdIds: string[] = [];
+      const errors: string[] = [];
+
+      for (const assignmentData of assignments) {
+        const validation = await this.validateDriverAvailability(
+          tx,
+          assignmentData.driverId,
+          assignmentData.assignmentDate,
+          assignmentData.restaurantId,
+          this.toAvailabilityWindow(assignmentData)
+        );
+
+        if (validation.isValid && maxAssignmentsPerDriver !== undefined) {
+          const activeAssignments = await tx.restaurantAssignment.count({
+            where: {
+              driverId: assignmentData.driverId,
+              assignmentDate: new Date(assignmentData.assignmentDate),
+              status: {
+                in: [AssignmentStatus.PENDING, AssignmentStatus.STARTED],
+              },
+            },
+          });
+
+          if (activeAssignments >= maxAssignmentsPerDriver) {
+            validation.isValid = false;
+            validation.errors.push('Driver has reached the maximum number of assignments for this date');
+          }
+        }
+
+        if (!validation.isValid) {
+          errors.push(`${assignmentData.restaurantId} (driver ${assignmentData.driverId}): ${validation.errors.join(', ')}`);
+          continue;
+        }
+
+        const assignment = await tx.restaurantAssignment.create({
+          data: this.toAssignmentData(assignmentData),
+        });
+        createdIds.push(assignment.id);
+      }
+
+      if (errors.length > 0) {
+        throw new Error(`Atomic assignment failed: ${errors.join('; ')}`);
+      }
+
+      return createdIds;
+    };
+
+    return client ? write(client) : this.prisma.$transaction(write, batchTransactionOptions(assignments.length));
+  }
+
+  /**
+   * PENDING assignments on a date with a priority below `priority`, lowest
+   * priority first. Only assignments with a recorded restaurant location are
+   * returned, since they must be re-placed through the algorithms.
+   */
+  async getPreemptibleAssignments(
+    assignmentDate: string,
+    priority: number,
+    excludeAssignmentIds: string[] = []
+  ): Promise<RestaurantAssignment[]> {
+    return this.prisma.restaurantAssignment.findMany({
+      where: {
+        assignmentDate: new Date(assignmentDate),
+        status: AssignmentStatus.PENDING,
+        priority: { lt: priority },
+        restaurantCity: { not: null },
+        restaurantState: { not: null },
+        ...(excludeAssignmentIds.length > 0 && { id: { notIn: excludeAssignmentIds } }),
+      },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'desc' }],
+      take: PREEMPTION_CANDIDATE_LIMIT,
+    });
+  }
+
+  /**
+   * Cancel a PENDING assignment and give its slot to a new assignment, in one
+   * transaction. Throws, leaving both untouched, when the assignment is no
+   * longer pending or the new assignment fails validation. Pass a transaction
+   * client to run in a caller's transaction; both checks come before any write.
+   */
+  async preemptAssignment(
+    assignmentId: string,
+    assignmentData: CreateAssignmentDto,
+    client?: Prisma.TransactionClient
+  ): Promise<{ assignmentId: string; preempted: RestaurantAssignment }> {
+    const write = async (tx: Prisma.TransactionClient) => {
+      await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${assignmentData.driverId} FOR UPDATE`;
+
+      // As if the preempted assignment were already cancelled
+      const validation = await this.validateDriverAvailability(
+        tx,
+        assignmentData.driverId,
+        assignmentData.assignmentDate,
+        assignmentData.restaurantId,
+        this.toAvailabilityWindow(assignmentData),
+        [assignmentId]
+      );
+
+      if (!validation.isValid) {
+        throw new Error(validation.errors.join(', '));
+      }
+
+      if (await this.cancelPreempted(tx, [assignmentId], assignmentData.batchId) === 0) {
+        throw new Error('Assignment to preempt is no longer pending');
+      }
+
+      const assignment = await tx.restaurantAssignment.create({
+        data: this.toAssignmentData(assignmentData),
+      });
+      const preempted = await tx.restaurantAssignment.findUniqueOrThrow({ where: { id: assignmentId } });
+
+      return { assignmentId: assignment.id, preempted };
+    };
+
+    return client ? write(client) : this.prisma.$transaction(write, batchTransactionOptions(1));
+  }
+
+  /**
+   * Cancel an assignment that a run's new batch replaces, in one transaction
+   * with the check that it is still PENDING. When it is not (its driver
+   * started it meanwhile) the batch is deleted instead, so the restaurant keeps
+   * a single driver. Returns whether the assignment was cancelled.
+   */
+  async cancelReplacedAssignment(assignmentId: string, batchId: string, notes: string): Promise<boolean> {
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.restaurantAssignment.updateMany({
+        where: { id: assignmentId, status: 'PENDING' },
+        data: { status: 'CANCELLED', notes },
+      });
+
+      if (count === 0) {
+        await tx.restaurantAssignment.deleteMany({
+          where: { batchId, status: 'PENDING' },
+        });
+        return false;
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Cancel the given assignments that are still PENDING and mark them
+   * preempted by the run writing batchId
+   */
+  private async cancelPreempted(client: Prisma.TransactionClient, assignmentIds: string[], batchId?: string): Promise<number> {
+    const { count } = await client.restaurantAssignment.updateMany({
+      where: {
+        id: { in: assignmentIds },
+        status: AssignmentStatus.PENDING,
+      },
+      data: {
+        status: AssignmentStatus.CANCELLED,
+        preemptedAt: new Date(),
+        preemptedByBatchId: batchId,
+        notes: 'Preempted by a higher-priority restaurant',
+      },
+    });
+
+    return count;
+  }
+
+  /**
+   * Delete every assignment created by one algorithm run, and give the
+   * assignments it preempted back to their drivers.
+   * Refuses to touch the batch once any of its assignments has been started.
+   */
+  async deleteAssignmentBatch(batchId: string): Promise<{ deleted: number; restored: number }> {
+    return this.prisma.$transaction(async (tx) => {
+      const assignments = await tx.restaurantAssignment.findMany({
+        where: { batchId },
+        select: { id: true, status: true },
+      });
+
+      if (assignments.length === 0) {
+        throw new Error('Batch not found');
+      }
+
+      if (assignments.some(a => a.status !== AssignmentStatus.PENDING)) {
+        throw new Error('Batch has assignments that are already started or completed');
+      }
+
+      // Only pending rows are deleted; a row started meanwhile rolls the delete back
+      const deleted = await tx.restaurantAssignment.deleteMany({
+        where: { batchId, status: AssignmentStatus.PENDING },
+      });
+
+      if (deleted.count !== assignments.length) {
+        throw new Error('Batch has assignments that are already started or completed');
+      }
+
+      // The run's assignments, including their re-placements, are gone, so the drivers are free again
+      const restored = await tx.restaurantAssignment.updateMany({
+        where: { preemptedByBatchId: batchId, status: AssignmentStatus.CANCELLED },
+        data: {
+          status: AssignmentStatus.PENDING,
+          preemptedAt: null,
+          preemptedByBatchId: null,
+          notes: null,
+        },
+      });
+
+      return { deleted: deleted.count, restored: restored.count };
+    }, batchTransactionOptions(0));
+  }
+
+  /**
+   * Time window an assignment occupies, for shift and partial-block checks
+   */
+  private toAvailabilityWindow(assignmentData: CreateAssignmentDto): AvailabilityWindow {
+    return {
+      pickupTime: assignmentData.pickupTime,
+      expectedDurationMinutes: assignmentData.expectedDurationMinutes,
+      estimatedDeliveries: assignmentData.estimatedDeliveries,
+      latitude: assignmentData.restaurantLatitude,
+      longitude: assignmentData.restaurantLongitude,
+    };
+  }
+
+  /**
+   * Map an assignment DTO to the restaurant_assignments columns
+   */
+  private toAssignmentData(assignmentData: CreateAssignmentDto): Prisma.RestaurantAssignmentUncheckedCreateInput {
+    return {
+      driverId: assignmentData.driverId,
+      restaurantId: assignmentData.restaurantId,
+      assignmentDate: new Date(assignmentData.assignmentDate),
+      pickupTime: parseTimeValue(assignmentData.pickupTime),
+      estimatedEndTime: toScheduledAssignment(assignmentData).estimatedEndTime,
+      estimatedDeliveries: assignmentData.estimatedDeliveries,
+      paymentType: assignmentData.paymentType || 'FIXED',
+      paymentRate: assignmentData.paymentRate,
+      algorithmScore: assignmentData.algorithmScore || 0,
+      notes: assignmentData.notes,
+      batchId: assignmentData.batchId,
+      priority: assignmentData.priority,
+      restaurantCity: assignmentData.restaurantCity,
+      restaurantState: assignmentData.restaurantState,
+      restaurantLatitude: assignmentData.restaurantLatitude,
+      restaurantLongitude: assignmentData.restaurantLongitude,
+    };
+  }
+
   /**
    * Get restaurant assignment statistics
    */
@@ -339,4 +1246,45 @@ export class AssignmentUtils {
       completionRate,
     };
   }
-} 
\ No newline at end of file
+
+  /**
+   * Dates on which each driver completed an assignment at a restaurant,
+   * from startDate up to (but not including) endDate
+   */
+  async getCompletedRestaurantVisits(
+    restaurantId: string,
+    driverIds: number[],
+    startDate: string,
+    endDate: string
+  ): Promise<Map<number, string[]>> {
+    const visits = new Map<number, string[]>();
+
+    if (driverIds.length === 0) {
+      return visits;
+    }
+
+    const assignments = await this.prisma.restaurantAssignment.findMany({
+      where: {
+        restaurantId,
+        driverId: { in: driverIds },
+        status: AssignmentStatus.COMPLETED,
+        assignmentDate: {
+          gte: new Date(startDate),
+          lt: new Date(endDate),
+        },
+      },
+      select: {
+        driverId: true,
+        assignmentDate: true,
+      },
+    });
+
+    assignments.forEach(assignment => {
+      const dates = visits.get(assignment.driverId) || [];
+      dates.push(assignment.assignmentDate.toISOString().split('T')[0]);
+      visits.set(assignment.driverId, dates);
+    });
+
+    return visits;
+  }
+}
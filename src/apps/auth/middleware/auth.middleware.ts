@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { PrismaClient } from '@prisma/client';
+import * as crypto from 'crypto';
 import * as jwt from 'jsonwebtoken';
 
 interface JwtPayload {
@@ -13,6 +14,9 @@ declare global {
         id: number;
         email?: string;
       };
+      restaurant?: {
+        id: string;
+      };
     }
   }
 }
@@ -81,6 +85,42 @@ export class AuthMiddleware {
     }
   };
 
+  // Verify a restaurant API key (X-Restaurant-Key) and attach the restaurant to request.
+  // Keys come from RESTAURANT_API_KEYS as comma-separated restaurantId:key pairs.
+  authenticateRestaurant = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.headers['x-restaurant-key'];
+
+    if (typeof key !== 'string' || !key) {
+      res.status(401).json({ error: 'Restaurant key required' });
+      return;
+    }
+
+    const restaurantId = this.findRestaurantForKey(key);
+    if (!restaurantId) {
+      res.status(403).json({ error: 'Invalid restaurant key' });
+      return;
+    }
+
+    req.restaurant = { id: restaurantId };
+    next();
+  };
+
+  private findRestaurantForKey(key: string): string | null {
+    // Compare digests so every comparison takes the same time
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    const presented = digest(key);
+
+    const match = (process.env.RESTAURANT_API_KEYS || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(entry => entry.includes(':'))
+      .map(entry => [entry.slice(0, entry.indexOf(':')), entry.slice(entry.indexOf(':') + 1)])
+      .find(([restaurantId, restaurantKey]) =>
+        restaurantId && restaurantKey && crypto.timingSafeEqual(presented, digest(restaurantKey)));
+
+    return match ? match[0] : null;
+  }
+
   // Generate JWT token for user
   generateToken(userId: number): string {
     return jwt.sign({ userId }, this.jwtSecret, {
@@ -1,16 +1,25 @@
 import { Router } from 'express';
 import { DeliveriesController } from './deliveries.controller';
 import { DeliveriesService } from './deliveries.service';
+import { DeliveryRatingsController } from './delivery-ratings.controller';
+import { DeliveryRatingsService } from './delivery-ratings.service';
 import { AuthMiddleware } from '../auth/middleware/auth.middleware';
 import { PrismaClient } from '@prisma/client';
 
 export function createDeliveriesRouter(prisma: PrismaClient) {
   const deliveriesService = new DeliveriesService(prisma);
   const deliveriesController = new DeliveriesController(deliveriesService);
+  const deliveryRatingsController = new DeliveryRatingsController(new DeliveryRatingsService(prisma));
   const authMiddleware = new AuthMiddleware(prisma);
   const deliveriesRouter = Router();
 
-  // All delivery routes require authentication
+  // POST /api/deliveries/:id/ratings/customer - Rate a delivery through a rating link
+  // Public: the signed token from the link stands in for authentication
+  deliveriesRouter.post('/:id/ratings/customer',
+    deliveryRatingsController.rateAsCustomer
+  );
+
+  // All other delivery routes require authentication
   
   // GET /api/deliveries/:id - Get delivery details
   deliveriesRouter.get('/:id',
@@ -54,6 +63,26 @@ export function createDeliveriesRouter(prisma: PrismaClient) {
     deliveriesController.addNotes
   );
 
+  // POST /api/deliveries/:id/rating-link - Create a customer rating link
+  // Restaurant key only: a driver must not mint links for their own deliveries
+  deliveriesRouter.post('/:id/rating-link',
+    authMiddleware.authenticateRestaurant,
+    deliveryRatingsController.createRatingLink
+  );
+
+  // POST /api/deliveries/:id/ratings/restaurant - Rate a delivery for its restaurant
+  // Restaurant key only: a driver must not rate their own deliveries
+  deliveriesRouter.post('/:id/ratings/restaurant',
+    authMiddleware.authenticateRestaurant,
+    deliveryRatingsController.rateAsRestaurant
+  );
+
+  // GET /api/deliveries/:id/ratings - Get a delivery's ratings
+  deliveriesRouter.get('/:id/ratings',
+    authMiddleware.authenticateToken,
+    deliveryRatingsController.getDeliveryRatings
+  );
+
   // GET /api/deliveries/search - Search deliveries by client
   deliveriesRouter.get('/search',
     authMiddleware.authenticateToken,
@@ -0,0 +1,149 @@
+import { Request, Response } from 'express';
+import { DeliveryRatingsService } from './delivery-ratings.service';
+
+export class DeliveryRatingsController {
+  constructor(private deliveryRatingsService: DeliveryRatingsService) {}
+
+  /**
+   * POST /api/deliveries/:id/rating-link - Create a signed rating link for the customer
+   */
+  createRatingLink = async (req: Request, res: Response) => {
+    try {
+      if (!req.restaurant?.id) {
+        return res.status(401).json({ error: 'Restaurant key required' });
+      }
+
+      const { id: deliveryId } = req.params;
+
+      const result = await this.deliveryRatingsService.createRatingLink(deliveryId, req.restaurant.id);
+
+      if (!result.success) {
+        return res.status(this.statusFor(result.error)).json({
+          error: result.error,
+          message: 'Failed to create rating link',
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.link,
+      });
+    } catch (error) {
+      console.error('Error creating rating link:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to create rating link',
+      });
+    }
+  };
+
+  /**
+   * POST /api/deliveries/:id/ratings/customer - Rate a delivery through a rating link
+   */
+  rateAsCustomer = async (req: Request, res: Response) => {
+    try {
+      const { id: deliveryId } = req.params;
+      const { token, rating, comment } = req.body;
+
+      if (!token) {
+        return res.status(400).json({
+          error: 'Missing rating link token',
+          message: 'Rating link token is required',
+        });
+      }
+
+      const result = await this.deliveryRatingsService.rateAsCustomer(token, { deliveryId, rating, comment });
+
+      if (!result.success) {
+        return res.status(this.statusFor(result.error)).json({
+          error: result.error,
+          message: 'Failed to rate delivery',
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.rating,
+        message: 'Thank you for your rating',
+      });
+    } catch (error) {
+      console.error('Error rating delivery as customer:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to rate delivery',
+      });
+    }
+  };
+
+  /**
+   * POST /api/deliveries/:id/ratings/restaurant - Rate a delivery for its restaurant
+   */
+  rateAsRestaurant = async (req: Request, res: Response) => {
+    try {
+      if (!req.restaurant?.id) {
+        return res.status(401).json({ error: 'Restaurant key required' });
+      }
+
+      const { id: deliveryId } = req.params;
+      const { rating, comment } = req.body;
+
+      const result = await this.deliveryRatingsService.rateAsRestaurant(req.restaurant.id, { deliveryId, rating, comment });
+
+      if (!result.success) {
+        return res.status(this.statusFor(result.error)).json({
+          error: result.error,
+          message: 'Failed to rate delivery',
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.rating,
+        message: 'Delivery rated successfully',
+      });
+    } catch (error) {
+      console.error('Error rating delivery as restaurant:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to rate delivery',
+      });
+    }
+  };
+
+  /**
+   * GET /api/deliveries/:id/ratings - Get a delivery's ratings
+   */
+  getDeliveryRatings = async (req: Request, res: Response) => {
+    try {
+      const { id: deliveryId } = req.params;
+
+      const ratings = await this.deliveryRatingsService.getDeliveryRatings(deliveryId);
+
+      res.json({
+        success: true,
+        data: ratings,
+      });
+    } catch (error) {
+      console.error('Error getting delivery ratings:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to get delivery ratings',
+      });
+    }
+  };
+
+  private statusFor(error?: string): number {
+    switch (error) {
+      case 'Delivery not found':
+        return 404;
+      case 'Invalid or expired rating link':
+        return 401;
+      case 'Delivery is not from this restaurant':
+        return 403;
+      case 'Delivery has already been rated':
+        return 409;
+      default:
+        return 400;
+    }
+  }
+}
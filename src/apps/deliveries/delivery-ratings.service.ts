@@ -0,0 +1,300 @@
+import { DeliveryRating, PrismaClient, RatingSource } from '@prisma/client';
+import * as jwt from 'jsonwebtoken';
+
+export interface DeliveryRatingResponse {
+  id: string;
+  deliveryId: string;
+  driverId: number;
+  source: RatingSource;
+  rating: number;
+  comment: string | null;
+  createdAt: Date;
+}
+
+export interface RateDeliveryRequest {
+  deliveryId: string;
+  rating: number;
+  comment?: string;
+}
+
+export interface RatingLinkResponse {
+  token: string;
+  url: string;
+  expiresAt: Date;
+}
+
+// A driver's ratings, weighted towards recent ones
+export interface DriverRatingSummary {
+  averageRating: number | null; // Time-decayed 1-5 average, null until ratingCount reaches minimumCount
+  ratingCount: number;          // Ratings within the rating window
+  minimumCount: number;
+}
+
+export interface RatingSettings {
+  halfLifeDays: number;  // A rating this old counts half as much as one from today
+  minimumCount: number;  // Fewer ratings than this give no average
+}
+
+const DEFAULT_HALF_LIFE_DAYS = 90;
+const DEFAULT_MINIMUM_COUNT = 5;
+const DEFAULT_LINK_TTL_DAYS = 14;
+
+// Ratings older than this many half-lives weigh under 1/16 and are not read
+const RATING_WINDOW_HALF_LIVES = 4;
+const MAX_COMMENT_LENGTH = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getRatingSettings(): RatingSettings {
+  return {
+    halfLifeDays: parseInt(process.env.RATING_HALF_LIFE_DAYS || '') || DEFAULT_HALF_LIFE_DAYS,
+    minimumCount: parseInt(process.env.RATING_MIN_COUNT || '') || DEFAULT_MINIMUM_COUNT
+  };
+}
+
+/**
+ * Oldest rating that counts towards an average as of a date
+ */
+export function getRatingWindowStart(asOf: Date, settings: RatingSettings = getRatingSettings()): Date {
+  return new Date(asOf.getTime() - settings.halfLifeDays * RATING_WINDOW_HALF_LIVES * DAY_MS);
+}
+
+/**
+ * Time-decayed average of a driver's ratings as of a date: each rating's
+ * weight halves every halfLifeDays. Ratings outside the window are ignored.
+ */
+export function summarizeDriverRatings(
+  ratings: Array<{ rating: number; createdAt: Date }>,
+  asOf: Date,
+  settings: RatingSettings = getRatingSettings()
+): DriverRatingSummary {
+  const windowStart = getRatingWindowStart(asOf, settings).getTime();
+  const counted = ratings.filter(r => r.createdAt.getTime() >= windowStart && r.createdAt.getTime() <= asOf.getTime());
+
+  if (counted.length < settings.minimumCount || counted.length === 0) {
+    return { averageRating: null, ratingCount: counted.length, minimumCount: settings.minimumCount };
+  }
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+  counted.forEach(r => {
+    const ageDays = (asOf.getTime() - r.createdAt.getTime()) / DAY_MS;
+    const weight = Math.pow(0.5, ageDays / settings.halfLifeDays);
+    weightedSum += r.rating * weight;
+    totalWeight += weight;
+  });
+
+  return {
+    averageRating: Math.round((weightedSum / totalWeight) * 100) / 100,
+    ratingCount: counted.length,
+    minimumCount: settings.minimumCount
+  };
+}
+
+/**
+ * Average rating of each driver with enough ratings, as of a date
+ */
+export function averageRatingsByDriver(
+  ratings: Array<{ driverId: number; rating: number; createdAt: Date }>,
+  asOf: Date,
+  settings: RatingSettings = getRatingSettings()
+): Map<number, number> {
+  const byDriver = new Map<number, Array<{ rating: number; createdAt: Date }>>();
+  ratings.forEach(r => {
+    const driverRatings = byDriver.get(r.driverId) || [];
+    driverRatings.push(r);
+    byDriver.set(r.driverId, driverRatings);
+  });
+
+  const averages = new Map<number, number>();
+  byDriver.forEach((driverRatings, driverId) => {
+    const { averageRating } = summarizeDriverRatings(driverRatings, asOf, settings);
+    if (averageRating !== null) {
+      averages.set(driverId, averageRating);
+    }
+  });
+
+  return averages;
+}
+
+/**
+ * Delivery Ratings Service
+ *
+ * Customers rate a delivered delivery through a signed link, which its
+ * restaurant creates; the restaurant rates it through the API with its
+ * restaurant key. A restaurant can only rate and create links for its own
+ * deliveries. Each source rates a delivery once, and the rating is kept
+ * against the driver of the delivery's assignment.
+ */
+export class DeliveryRatingsService {
+  // Derived from JWT_SECRET so a rating link cannot pass as a login token
+  private readonly linkSecret: string;
+
+  constructor(private prisma: PrismaClient) {
+    this.linkSecret = `${process.env.JWT_SECRET || 'your-secret-key'}:delivery-rating`;
+  }
+
+  /**
+   * Create the signed link a customer uses to rate one of the restaurant's delivered deliveries
+   */
+  async createRatingLink(deliveryId: string, restaurantId: string): Promise<{ success: boolean; link?: RatingLinkResponse; error?: string }> {
+    const delivery = await this.prisma.delivery.findUnique({
+      where: { id: deliveryId },
+      select: { id: true, status: true, assignment: { select: { restaurantId: true } } },
+    });
+
+    if (!delivery) {
+      return { success: false, error: 'Delivery not found' };
+    }
+
+    if (delivery.assignment.restaurantId !== restaurantId) {
+      return { success: false, error: 'Delivery is not from this restaurant' };
+    }
+
+    if (delivery.status !== 'DELIVERED') {
+      return { success: false, error: `Cannot rate delivery with status: ${delivery.status}` };
+    }
+
+    const ttlDays = parseInt(process.env.RATING_LINK_TTL_DAYS || '') || DEFAULT_LINK_TTL_DAYS;
+    const token = jwt.sign({ deliveryId }, this.linkSecret, { expiresIn: `${ttlDays}d` });
+
+    return {
+      success: true,
+      link: {
+        token,
+        url: `${process.env.APP_URL}/rate-delivery?token=${token}`,
+        expiresAt: new Date(Date.now() + ttlDays * DAY_MS),
+      },
+    };
+  }
+
+  /**
+   * Rate a delivery as its customer, with the token from their rating link
+   */
+  async rateAsCustomer(token: string, request: RateDeliveryRequest): Promise<{ success: boolean; rating?: DeliveryRatingResponse; error?: string }> {
+    let deliveryId: string;
+    try {
+      ({ deliveryId } = jwt.verify(token, this.linkSecret) as { deliveryId: string });
+    } catch {
+      return { success: false, error: 'Invalid or expired rating link' };
+    }
+
+    if (deliveryId !== request.deliveryId) {
+      return { success: false, error: 'Invalid or expired rating link' };
+    }
+
+    return this.rateDelivery('CUSTOMER', request);
+  }
+
+  /**
+   * Rate one of the restaurant's deliveries
+   */
+  async rateAsRestaurant(restaurantId: string, request: RateDeliveryRequest): Promise<{ success: boolean; rating?: DeliveryRatingResponse; error?: string }> {
+    return this.rateDelivery('RESTAURANT', request, restaurantId);
+  }
+
+  /**
+   * Ratings given to a delivery
+   */
+  async getDeliveryRatings(deliveryId: string): Promise<DeliveryRatingResponse[]> {
+    const ratings = await this.prisma.deliveryRating.findMany({
+      where: { deliveryId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return ratings.map(this.formatRatingResponse);
+  }
+
+  /**
+   * A driver's time-decayed average rating as of now
+   */
+  async getDriverRating(driverId: number): Promise<DriverRatingSummary> {
+    const settings = getRatingSettings();
+    const now = new Date();
+    const ratings = await this.prisma.deliveryRating.findMany({
+      where: {
+        driverId,
+        createdAt: { gte: getRatingWindowStart(now, settings) },
+      },
+      select: { rating: true, createdAt: true },
+    });
+
+    return summarizeDriverRatings(ratings, now, settings);
+  }
+
+  private async rateDelivery(
+    source: RatingSource,
+    request: RateDeliveryRequest,
+    ratedByRestaurantId?: string
+  ): Promise<{ success: boolean; rating?: DeliveryRatingResponse; error?: string }> {
+    if (!Number.isInteger(request.rating) || request.rating < 1 || request.rating > 5) {
+      return { success: false, error: 'Rating must be a whole number from 1 to 5' };
+    }
+
+    if (request.comment !== undefined && (typeof request.comment !== 'string' || request.comment.length > MAX_COMMENT_LENGTH)) {
+      return { success: false, error: `Comment must be text of at most ${MAX_COMMENT_LENGTH} characters` };
+    }
+
+    try {
+      const delivery = await this.prisma.delivery.findUnique({
+        where: { id: request.deliveryId },
+        select: { status: true, assignment: { select: { driverId: true, restaurantId: true } } },
+      });
+
+      if (!delivery) {
+        return { success: false, error: 'Delivery not found' };
+      }
+
+      if (ratedByRestaurantId !== undefined && delivery.assignment.restaurantId !== ratedByRestaurantId) {
+        return { success: false, error: 'Delivery is not from this restaurant' };
+      }
+
+      if (delivery.status !== 'DELIVERED') {
+        return { success: false, error: `Cannot rate delivery with status: ${delivery.status}` };
+      }
+
+      const existing = await this.prisma.deliveryRating.findUnique({
+        where: { deliveryId_source: { deliveryId: request.deliveryId, source } },
+        select: { id: true },
+      });
+
+      if (existing) {
+        return { success: false, error: 'Delivery has already been rated' };
+      }
+
+      const rating = await this.prisma.deliveryRating.create({
+        data: {
+          deliveryId: request.deliveryId,
+          driverId: delivery.assignment.driverId,
+          source,
+          rating: request.rating,
+          comment: request.comment?.trim() || null,
+          ratedByRestaurantId: ratedByRestaurantId ?? null,
+        },
+      });
+
+      return { success: true, rating: this.formatRatingResponse(rating) };
+    } catch (error) {
+      // Another submission for the same source won the race past the check above
+      if ((error as { code?: string }).code === 'P2002') {
+        return { success: false, error: 'Delivery has already been rated' };
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
+  private formatRatingResponse(rating: DeliveryRating): DeliveryRatingResponse {
+    return {
+      id: rating.id,
+      deliveryId: rating.deliveryId,
+      driverId: rating.driverId,
+      source: rating.source,
+      rating: rating.rating,
+      comment: rating.comment,
+      createdAt: rating.createdAt,
+    };
+  }
+}
@@ -11,12 +11,15 @@ import {
   CreateAvailabilityBlockDto,
   AvailabilityBlockResponse
 } from './drivers.types';
+import { ReassignmentService } from '../algorithms/reassignment.service';
 
 export class DriversService {
   private prisma: PrismaClient;
+  private reassignmentService: ReassignmentService;
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
+    this.reassignmentService = new ReassignmentService(prisma);
   }
 
   // Service Area methods (existing)
@@ -302,6 +305,9 @@ export class DriversService {
       data: blockData
     });
 
+    // Move pending assignments the block takes the driver off, in the background
+    await this.reassignmentService.queueAvailabilityBlock(block);
+
     return {
       ...block,
       startTime: block.startTime ? this.formatTimeToString(block.startTime) : null,
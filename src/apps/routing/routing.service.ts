@@ -1,6 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 import { MapboxService, RouteOptimizationRequest, RouteOptimizationResult } from './mapbox.service';
 import { CustomersService, CustomerData } from '../customers/customers.service';
+import { endTimeAfter } from '../assignments/assignments.utils';
 
 export interface RouteCalculationRequest {
   assignmentId: string;
@@ -113,6 +114,7 @@ export class RoutingService {
       // Save route and deliveries to database
       const saveResult = await this.saveRouteAndDeliveries(
         request.assignmentId,
+        assignment.pickupTime,
         optimizationResult,
         customers
       );
@@ -330,6 +332,7 @@ export class RoutingService {
    */
   private async saveRouteAndDeliveries(
     assignmentId: string,
+    pickupTime: Date,
     optimizationResult: RouteOptimizationResult,
     customers: CustomerData[]
   ): Promise<{ success: boolean; routeId?: string; deliveryIds?: string[]; error?: string }> {
@@ -348,6 +351,14 @@ export class RoutingService {
           },
         });
 
+        // The route's duration replaces the estimate from the number of deliveries
+        if (optimizationResult.estimatedDurationMinutes) {
+          await tx.restaurantAssignment.update({
+            where: { id: assignmentId },
+            data: { estimatedEndTime: endTimeAfter(pickupTime, optimizationResult.estimatedDurationMinutes) },
+          });
+        }
+
         // Create delivery records based on optimized sequence
         const deliveryIds: string[] = [];
         
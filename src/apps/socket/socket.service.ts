@@ -1,6 +1,7 @@
 import { socketManager } from '../../config/socket';
 import { logger } from '../../config/logger';
 import { PrismaClient } from '@prisma/client';
+import { AlgorithmJob, FlaggedAssignment, RunProgress } from '../algorithms/algorithms.types';
 
 export class SocketService {
   constructor(private prisma: PrismaClient) {}
@@ -36,6 +37,22 @@ export class SocketService {
     }
   }
 
+  /**
+   * Notify driver that an assignment was taken off them and given to another driver
+   */
+  async notifyAssignmentReassigned(driverId: number, assignmentId: string, reason: string) {
+    try {
+      socketManager.emitToDriver(driverId, 'assignment:reassigned', {
+        assignmentId,
+        reason,
+        timestamp: new Date()
+      });
+      logger.info(`Assignment reassignment notification sent to driver ${driverId}`);
+    } catch (error) {
+      logger.error(`Failed to notify driver ${driverId} of assignment reassignment:`, error);
+    }
+  }
+
   /**
    * Notify driver of new delivery
    */
@@ -85,6 +102,74 @@ export class SocketService {
     }
   }
 
+  /**
+   * Notify dispatch of recurring slot occurrences that could not be filled
+   */
+  async notifyDispatchUnfilledSlots(unfilled: Array<{ slotId: string; restaurantId: string; date: string; error: string }>) {
+    try {
+      socketManager.getIO().to('admin').emit('dispatch:unfilled_slots', {
+        unfilled,
+        timestamp: new Date()
+      });
+      logger.info(`Unfilled slot notification sent to dispatch for ${unfilled.length} occurrence(s)`);
+    } catch (error) {
+      logger.error('Failed to notify dispatch of unfilled slots:', error);
+    }
+  }
+
+  /**
+   * Notify dispatch of pending assignments whose driver dropped out and that still need one
+   */
+  async notifyDispatchReassignmentNeeded(flagged: FlaggedAssignment[]) {
+    try {
+      socketManager.getIO().to('admin').emit('dispatch:reassignment_needed', {
+        flagged,
+        timestamp: new Date()
+      });
+      logger.info(`Reassignment notification sent to dispatch for ${flagged.length} assignment(s)`);
+    } catch (error) {
+      logger.error('Failed to notify dispatch of assignments needing reassignment:', error);
+    }
+  }
+
+  /**
+   * Notify the dispatcher who queued an algorithm job of its progress
+   */
+  async notifyAlgorithmProgress(userId: number, jobId: string, progress: RunProgress) {
+    try {
+      socketManager.emitToUser(userId, 'algorithm:progress', {
+        jobId,
+        ...progress,
+        timestamp: new Date()
+      });
+    } catch (error) {
+      logger.error(`Failed to notify user ${userId} of algorithm job progress:`, error);
+    }
+  }
+
+  /**
+   * Notify the dispatcher who queued an algorithm job that it finished
+   */
+  async notifyAlgorithmCompleted(userId: number, job: AlgorithmJob) {
+    try {
+      socketManager.emitToUser(userId, 'algorithm:completed', {
+        jobId: job.id,
+        status: job.status,
+        algorithm: job.algorithm,
+        runId: job.runId,
+        batchId: job.batchId,
+        planId: job.planId,
+        successfulAssignments: job.successfulAssignments,
+        failedAssignments: job.failedAssignments,
+        error: job.error,
+        timestamp: new Date()
+      });
+      logger.info(`Algorithm job ${job.id} completion sent to user ${userId}`);
+    } catch (error) {
+      logger.error(`Failed to notify user ${userId} of algorithm job completion:`, error);
+    }
+  }
+
   /**
    * Notify driver of route optimization updates
    */
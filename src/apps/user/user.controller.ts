@@ -26,7 +26,8 @@ export class UserController {
         res.status(404).json({ error: 'User not found' });
         return;
       }
-      res.json(user);
+      const rating = await this.userService.getDriverRating(user.id);
+      res.json({ ...user, rating });
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to get user' });
     }
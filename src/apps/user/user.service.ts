@@ -1,14 +1,20 @@
 import { PrismaClient, User, Vehicle, DriverStatus } from '@prisma/client';
 import { CreateVehicleDto, UpdateVehicleDto, ProfileImageResponse } from './user.types';
 import { CloudinaryServiceImpl, CloudinaryUploadResult } from '../../config/cloudinary';
+import { ReassignmentService } from '../algorithms/reassignment.service';
+import { DeliveryRatingsService, DriverRatingSummary } from '../deliveries/delivery-ratings.service';
 
 export class UserService {
   private prisma: PrismaClient;
   private cloudinaryService: CloudinaryServiceImpl;
+  private reassignmentService: ReassignmentService;
+  private deliveryRatingsService: DeliveryRatingsService;
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
     this.cloudinaryService = new CloudinaryServiceImpl();
+    this.reassignmentService = new ReassignmentService(prisma);
+    this.deliveryRatingsService = new DeliveryRatingsService(prisma);
   }
 
   async createUser(data: { email: string; name?: string }): Promise<User> {
@@ -27,6 +33,11 @@ export class UserService {
     });
   }
 
+  // Time-decayed average of the ratings a driver's deliveries received
+  async getDriverRating(userId: number): Promise<DriverRatingSummary> {
+    return this.deliveryRatingsService.getDriverRating(userId);
+  }
+
   async getAllUsers(): Promise<User[]> {
     return this.prisma.user.findMany({
       include: { vehicles: true }
@@ -34,11 +45,21 @@ export class UserService {
   }
 
   async updateUser(id: number, data: { name?: string; email?: string; driverStatus?: DriverStatus }): Promise<User> {
-    return this.prisma.user.update({
+    const previous = data.driverStatus
+      ? await this.prisma.user.findUnique({ where: { id }, select: { driverStatus: true } })
+      : null;
+
+    const user = await this.prisma.user.update({
       where: { id },
       data,
       include: { vehicles: true }
     });
+
+    if (data.driverStatus) {
+      await this.reassignmentService.queueDriverStatusChange(id, previous?.driverStatus ?? null, data.driverStatus);
+    }
+
+    return user;
   }
 
   async deleteUser(id: number): Promise<User> {
@@ -185,10 +206,20 @@ export class UserService {
   }
 
   async updateDriverStatus(userId: number, status: DriverStatus): Promise<User> {
-    return this.prisma.user.update({
+    const previous = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { driverStatus: true }
+    });
+
+    const user = await this.prisma.user.update({
       where: { id: userId },
       data: { driverStatus: status },
       include: { vehicles: true }
     });
+
+    // A driver who is no longer ACTIVE cannot keep their pending assignments
+    await this.reassignmentService.queueDriverStatusChange(userId, previous?.driverStatus ?? null, status);
+
+    return user;
   }
 } 
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { DriverStatus } from '@prisma/client';
+import { DriverStatus, VehicleType } from '@prisma/client';
 
 export interface CreateUserDto {
   email: string;
@@ -16,6 +16,7 @@ export interface CreateVehicleDto {
   model: string;
   licensePlate: string;
   color?: string;
+  type?: VehicleType;
   capacity?: number;
 }
 
@@ -24,6 +25,7 @@ export interface UpdateVehicleDto {
   model?: string;
   licensePlate?: string;
   color?: string;
+  type?: VehicleType;
   capacity?: number;
   verified?: boolean;
 }
@@ -45,6 +47,7 @@ export interface VehicleResponse {
   model: string;
   licensePlate: string;
   color: string | null;
+  type: VehicleType | null;
   capacity: number | null;
   verified: boolean;
   createdAt: Date;
@@ -1,7 +1,10 @@
 import { Server as SocketIOServer } from 'socket.io';
 import { Server as HTTPServer } from 'http';
+import { createAdapter } from '@socket.io/redis-adapter';
 import { logger } from './logger';
+import { redis } from './redis';
 import { prisma } from '../app';
+import { UserService } from '../apps/user/user.service';
 
 export interface SocketUser {
   userId: number;
@@ -12,8 +15,10 @@ export interface SocketUser {
 export class SocketManager {
   private io: SocketIOServer;
   private connectedUsers: Map<string, SocketUser> = new Map();
+  private userService: UserService;
 
   constructor(server: HTTPServer) {
+    this.userService = new UserService(prisma);
     this.io = new SocketIOServer(server, {
       cors: {
         origin: process.env.CLIENT_URL || "http://localhost:3000",
@@ -23,6 +28,9 @@ export class SocketManager {
       transports: ['websocket', 'polling']
     });
 
+    // Rooms span every instance, so an event emitted on one reaches sockets connected to another
+    this.io.adapter(createAdapter(redis.duplicate(), redis.duplicate()));
+
     this.setupEventHandlers();
   }
 
@@ -133,10 +141,8 @@ export class SocketManager {
         const user = this.connectedUsers.get(socket.id);
         if (user?.driverId) {
           try {
-            await prisma.user.update({
-              where: { id: user.userId },
-              data: { driverStatus: data.isAvailable ? 'ACTIVE' : 'SUSPENDED' }
-            });
+            // Same path as the REST status update, so going unavailable hands off pending assignments
+            await this.userService.updateDriverStatus(user.userId, data.isAvailable ? 'ACTIVE' : 'SUSPENDED');
 
             this.io.to(`driver:${user.driverId}`).emit('availability:updated', {
               driverId: user.driverId,
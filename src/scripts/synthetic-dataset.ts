@@ -0,0 +1,71 @@
+/**
+ * Generate or tear down a synthetic dataset for algorithm load testing.
+ *
+ *   npm run synthetic -- generate --drivers 50 --restaurants 120 --seed 42 \
+ *     --lat 37.7749 --lng -122.4194 --city "San Francisco" --state CA [--radius 15] [--date 2024-06-03] [--name demo]
+ *   npm run synthetic -- teardown <datasetId>
+ *   npm run synthetic -- list
+ */
+import { PrismaClient } from '@prisma/client';
+import { SyntheticDatasetsService } from '../apps/algorithms/synthetic-datasets.service';
+
+const USAGE = 'Usage: synthetic-dataset generate --drivers N --restaurants M --seed S --lat LAT --lng LNG --city CITY --state STATE ' +
+  '[--radius KM] [--date YYYY-MM-DD] [--block-rate 0-1] [--name NAME] | teardown <datasetId> | list';
+
+function parseFlags(args: string[]): Record<string, string> {
+  const flags: Record<string, string> = {};
+
+  for (let i = 0; i < args.length; i += 2) {
+    if (!args[i].startsWith('--') || args[i + 1] === undefined) {
+      throw new Error(`Invalid argument '${args[i]}'. ${USAGE}`);
+    }
+    flags[args[i].slice(2)] = args[i + 1];
+  }
+
+  return flags;
+}
+
+const optionalNumber = (value?: string) => value !== undefined ? Number(value) : undefined;
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const prisma = new PrismaClient();
+  const service = new SyntheticDatasetsService(prisma);
+
+  try {
+    if (command === 'generate') {
+      const flags = parseFlags(args);
+      const dataset = await service.createDataset({
+        name: flags.name,
+        seed: Number(flags.seed),
+        drivers: Number(flags.drivers),
+        restaurants: Number(flags.restaurants),
+        center: {
+          latitude: Number(flags.lat),
+          longitude: Number(flags.lng),
+          city: flags.city,
+          state: flags.state
+        },
+        radiusKm: optionalNumber(flags.radius),
+        assignmentDate: flags.date,
+        blockRate: optionalNumber(flags['block-rate'])
+      });
+      console.log(JSON.stringify(dataset, null, 2));
+    } else if (command === 'teardown' && args[0]) {
+      const result = await service.deleteDataset(args[0]);
+      console.log(`Deleted dataset ${args[0]} and ${result.deletedDrivers} drivers`);
+    } else if (command === 'list') {
+      console.log(JSON.stringify(await service.listDatasets(), null, 2));
+    } else {
+      console.error(USAGE);
+      process.exitCode = 1;
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});